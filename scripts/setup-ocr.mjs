@@ -0,0 +1,33 @@
+// Copies Tesseract language data from the @tesseract.js-data packages into
+// public/tessdata, where OcrService loads it from (VITE_OCR_LANG_PATH).
+// Languages follow VITE_OCR_LANGUAGE ("eng", "eng+deu"); each needs its package installed.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const target = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'tessdata');
+const languages = (process.env.VITE_OCR_LANGUAGE || 'eng').split('+');
+
+mkdirSync(target, { recursive: true });
+
+for (const language of languages) {
+  let packageDir;
+  try {
+    packageDir = dirname(require.resolve(`@tesseract.js-data/${language}/package.json`));
+  } catch {
+    console.error(`❌ No language data for "${language}". Install it with: npm install @tesseract.js-data/${language}`);
+    process.exit(1);
+  }
+
+  // OcrService runs the LSTM engine only, which reads the integer "best" models
+  const source = join(packageDir, '4.0.0_best_int', `${language}.traineddata.gz`);
+  if (!existsSync(source)) {
+    console.error(`❌ ${source} is missing`);
+    process.exit(1);
+  }
+
+  copyFileSync(source, join(target, `${language}.traineddata.gz`));
+  console.log(`🔤 Copied ${language}.traineddata.gz to public/tessdata`);
+}
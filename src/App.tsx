@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import Header from './components/Header';
 import Homepage from './components/Homepage';
 import UploadSection from './components/UploadSection';
@@ -9,9 +9,12 @@ import WorkspaceManagement from './components/WorkspaceManagement';
 import UserProfile from './components/UserProfile';
 import AdvancedAnalytics from './components/AdvancedAnalytics';
 import LLMProviderSelector from './components/LLMProviderSelector';
-import { Paper, Summary } from './types';
+import { AnalysisOptions, Paper, Summary } from './types';
 import { ApiService } from './services/api';
+import { LibrarySearchService } from './services/librarySearch';
+import { RetractionService } from './services/retractionCheck';
 import { LLMProvider } from './services/llm';
+import { LLMProviderRegistry } from './services/llmProviders';
 import { useAuth } from './contexts/AuthContext';
 
 type AppView = 'homepage' | 'analysis' | 'admin' | 'history' | 'workspaces' | 'profile' | 'analytics';
@@ -25,6 +28,19 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [selectedProvider, setSelectedProvider] = useState<LLMProvider>('openai');
 
+  // Retraction status of the library is rechecked in the background; the service throttles itself to once a day
+  useEffect(() => {
+    if (!user) return;
+
+    const recheck = () => {
+      RetractionService.recheckLibrary()
+        .catch(recheckError => console.error('❌ Error rechecking retractions:', recheckError));
+    };
+    recheck();
+    const timer = setInterval(recheck, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [user]);
+
   const handleGetStarted = () => {
     console.log('🚀 Getting started - navigating to analysis');
     setCurrentView('analysis');
@@ -60,7 +76,7 @@ function App() {
     setError(null);
   };
 
-  const handlePaperSubmit = async (paper: Paper) => {
+  const handlePaperSubmit = async (paper: Paper, options: AnalysisOptions = {}) => {
     console.log('📄 Paper submitted for analysis:', paper.title);
     setCurrentPaper(paper);
     setIsProcessing(true);
@@ -68,9 +84,15 @@ function App() {
     
     try {
       console.log(`🤖 Starting AI analysis with ${selectedProvider}...`);
-      const summary = await ApiService.generateSummary(paper, selectedProvider);
+      const { paper: analysedPaper, summary } = await ApiService.generateSummary(paper, selectedProvider, options);
       console.log('✅ AI analysis completed successfully');
+      // Fetched full text, extracted references and tables and retraction checks are only on the returned paper
+      setCurrentPaper(analysedPaper);
       setCurrentSummary(summary);
+
+      // Indexing for library search runs in the background and never blocks the result
+      LibrarySearchService.indexSummary({ ...analysedPaper, id: summary.paperId }, summary)
+        .catch(indexError => console.error('❌ Error indexing analysis for search:', indexError));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An error occurred';
       console.error('❌ Error processing paper:', err);
@@ -145,7 +167,7 @@ function App() {
       )}
 
       {currentView === 'workspaces' && (
-        <WorkspaceManagement />
+        <WorkspaceManagement provider={selectedProvider} />
       )}
 
       {currentView === 'profile' && (
@@ -183,7 +205,7 @@ function App() {
               </div>
               <h2 className="text-xl font-semibold text-gray-900 mb-2">Analyzing Your Paper</h2>
               <p className="text-gray-600 mb-4">
-                Our AI is processing the content with ethics analysis and transparency features using {selectedProvider === 'openai' ? 'OpenAI GPT-4' : 'Google Gemini'}...
+                Our AI is processing the content with ethics analysis and transparency features using {LLMProviderRegistry.getDisplayName(selectedProvider)}...
               </p>
               <div className="bg-white rounded-lg p-6 shadow-sm border border-gray-200">
                 <div className="flex items-center justify-between text-sm text-gray-600">
@@ -191,7 +213,7 @@ function App() {
                   <span className="text-green-600">✓</span>
                 </div>
                 <div className="flex items-center justify-between text-sm text-gray-600 mt-2">
-                  <span>Generating AI summary with {selectedProvider === 'openai' ? 'OpenAI' : 'Gemini'}</span>
+                  <span>Generating AI summary with {LLMProviderRegistry.getDisplayName(selectedProvider)}</span>
                   <div className="animate-pulse w-4 h-4 bg-blue-400 rounded-full"></div>
                 </div>
                 <div className="flex items-center justify-between text-sm text-gray-600 mt-2">
@@ -244,8 +266,17 @@ function App() {
                 <h2 className="text-2xl font-bold text-gray-900">Analysis Complete</h2>
                 <div className="flex items-center space-x-4">
                   <span className="text-sm text-gray-600">
-                    Analyzed with {selectedProvider === 'openai' ? 'OpenAI GPT-4' : 'Google Gemini'}
+                    {currentSummary.fromCache ? 'Stored analysis from' : 'Analyzed with'} {LLMProviderRegistry.getDisplayName(currentSummary.provider || selectedProvider)}{currentSummary.model && ` (${currentSummary.model})`}
                   </span>
+                  {currentSummary.fromCache && (
+                    <button
+                      onClick={() => handlePaperSubmit(currentPaper, { force: true, profile: currentSummary.profile })}
+                      title="This exact text was already analysed with the same model, profile and prompt version"
+                      className="px-4 py-2 border border-blue-300 rounded-md shadow-sm text-sm font-medium text-blue-700 bg-white hover:bg-blue-50"
+                    >
+                      Re-run Analysis
+                    </button>
+                  )}
                   <button
                     onClick={handleNewAnalysis}
                     className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
@@ -254,7 +285,7 @@ function App() {
                   </button>
                 </div>
               </div>
-              <SummaryDisplay paper={currentPaper} summary={currentSummary} />
+              <SummaryDisplay paper={currentPaper} summary={currentSummary} provider={selectedProvider} />
             </div>
           )}
         </main>
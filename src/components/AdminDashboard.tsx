@@ -17,10 +17,14 @@ import {
   ThumbsDown,
   Flag,
   Calendar,
-  RefreshCw
+  RefreshCw,
+  ClipboardCheck,
+  History,
+  UserCheck
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { AdminService } from '../services/adminService';
+import { EthicsAlert, EthicsAlertEvent, EthicsAlertStatus } from '../types';
 
 interface DashboardStats {
   totalAnalyses: number;
@@ -28,6 +32,12 @@ interface DashboardStats {
   totalFeedback: number;
   averageRating: number;
   ethicsFlags: number;
+  reportingChecks: {
+    assessments: number;
+    missingItems: number;
+    averageScore: number;
+    byGuideline: Record<string, { assessments: number; averageScore: number }>;
+  };
   activeUsers: number;
   recentAnalyses: number;
   feedbackTrends: {
@@ -50,16 +60,19 @@ interface FeedbackItem {
   userEmail: string;
 }
 
-interface EthicsAlert {
-  id: string;
-  summaryId: string;
-  paperTitle: string;
-  flagType: string;
-  severity: 'high' | 'medium' | 'low';
-  description: string;
-  createdAt: Date;
-  status: 'pending' | 'reviewed' | 'resolved';
-}
+const ethicsStatusActions: Record<EthicsAlertStatus, { label: string; className: string }> = {
+  reviewed: { label: 'Mark reviewed', className: 'bg-blue-600 hover:bg-blue-700 text-white' },
+  resolved: { label: 'Resolve', className: 'bg-green-600 hover:bg-green-700 text-white' },
+  dismissed: { label: 'Dismiss', className: 'bg-gray-600 hover:bg-gray-700 text-white' },
+  pending: { label: 'Reopen', className: 'border border-gray-300 text-gray-700 hover:bg-gray-50' }
+};
+
+const ethicsStatusBadges: Record<EthicsAlertStatus, string> = {
+  pending: 'bg-orange-100 text-orange-800',
+  reviewed: 'bg-blue-100 text-blue-800',
+  resolved: 'bg-green-100 text-green-800',
+  dismissed: 'bg-gray-100 text-gray-800'
+};
 
 const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
@@ -71,6 +84,14 @@ const AdminDashboard: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterRating, setFilterRating] = useState<number | null>(null);
   const [filterSeverity, setFilterSeverity] = useState<string | null>(null);
+  const [filterStatus, setFilterStatus] = useState<EthicsAlertStatus | null>(null);
+  const [filterFlagType, setFilterFlagType] = useState<string | null>(null);
+  const [filterAssignee, setFilterAssignee] = useState<'me' | 'unassigned' | null>(null);
+  const [selectedAlertIds, setSelectedAlertIds] = useState<Set<string>>(new Set());
+  const [reviewNote, setReviewNote] = useState('');
+  const [ethicsMessage, setEthicsMessage] = useState<string | null>(null);
+  const [expandedAlertId, setExpandedAlertId] = useState<string | null>(null);
+  const [alertHistory, setAlertHistory] = useState<Record<string, EthicsAlertEvent[]>>({});
   const [dateRange, setDateRange] = useState<'7d' | '30d' | '90d' | 'all'>('30d');
 
   useEffect(() => {
@@ -107,17 +128,79 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const handleResolveEthicsAlert = async (alertId: string) => {
+  const mergeEthicsAlerts = (updated: EthicsAlert[]) => {
+    const byId = new Map(updated.map(alert => [alert.id, alert]));
+    setEthicsAlerts(prev => prev.map(alert => byId.get(alert.id) || alert));
+    // Cached history is stale once an alert changes
+    setAlertHistory(prev => {
+      const next = { ...prev };
+      updated.forEach(alert => delete next[alert.id]);
+      return next;
+    });
+    if (expandedAlertId && byId.has(expandedAlertId)) {
+      loadAlertHistory(expandedAlertId);
+    }
+  };
+
+  const handleEthicsStatusChange = async (alertIds: string[], status: EthicsAlertStatus) => {
+    try {
+      const result = await AdminService.bulkUpdateEthicsAlerts(alertIds, status, reviewNote);
+      mergeEthicsAlerts(result.updated);
+      setSelectedAlertIds(new Set());
+      setReviewNote('');
+      setEthicsMessage(result.skipped.length > 0
+        ? `${result.skipped.length} alert(s) were left unchanged because they cannot be marked ${status} from their current status.`
+        : null);
+    } catch (error) {
+      console.error('Error updating ethics alerts:', error);
+      setEthicsMessage('Failed to update ethics alerts');
+    }
+  };
+
+  const handleAssignEthicsAlerts = async (alertIds: string[], assignee: string | null) => {
+    try {
+      const updated = await AdminService.assignEthicsAlerts(alertIds, assignee);
+      mergeEthicsAlerts(updated);
+      setSelectedAlertIds(new Set());
+      setEthicsMessage(null);
+    } catch (error) {
+      console.error('Error assigning ethics alerts:', error);
+      setEthicsMessage('Failed to assign ethics alerts');
+    }
+  };
+
+  const loadAlertHistory = async (alertId: string) => {
     try {
-      await AdminService.updateEthicsAlert(alertId, 'resolved');
-      setEthicsAlerts(prev => prev.map(alert => 
-        alert.id === alertId ? { ...alert, status: 'resolved' } : alert
-      ));
+      const events = await AdminService.getEthicsAlertHistory(alertId);
+      setAlertHistory(prev => ({ ...prev, [alertId]: events }));
     } catch (error) {
-      console.error('Error resolving ethics alert:', error);
+      console.error('Error loading ethics alert history:', error);
     }
   };
 
+  const toggleAlertHistory = (alertId: string) => {
+    if (expandedAlertId === alertId) {
+      setExpandedAlertId(null);
+      return;
+    }
+    setExpandedAlertId(alertId);
+    if (!alertHistory[alertId]) {
+      loadAlertHistory(alertId);
+    }
+  };
+
+  const toggleAlertSelection = (alertId: string) => {
+    setSelectedAlertIds(prev => {
+      const next = new Set(prev);
+      if (next.has(alertId)) {
+        next.delete(alertId);
+      } else {
+        next.add(alertId);
+      }
+      return next;
+    });
+  };
+
   // Check if user is admin
   if (!user || user.role !== 'admin') {
     return (
@@ -156,10 +239,18 @@ const AdminDashboard: React.FC = () => {
       alert.description.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesSeverity = !filterSeverity || alert.severity === filterSeverity;
+    const matchesStatus = !filterStatus || alert.status === filterStatus;
+    const matchesFlagType = !filterFlagType || alert.flagType === filterFlagType;
+    const matchesAssignee = !filterAssignee ||
+      (filterAssignee === 'me' ? alert.assignee === user.id : !alert.assignee);
     
-    return matchesSearch && matchesSeverity;
+    return matchesSearch && matchesSeverity && matchesStatus && matchesFlagType && matchesAssignee;
   });
 
+  const ethicsFlagTypes = Array.from(new Set(ethicsAlerts.map(alert => alert.flagType))).sort();
+  const allFilteredSelected = filteredEthicsAlerts.length > 0 &&
+    filteredEthicsAlerts.every(alert => selectedAlertIds.has(alert.id));
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -282,11 +373,45 @@ const AdminDashboard: React.FC = () => {
                   <AlertTriangle className="h-8 w-8 text-red-500" />
                 </div>
                 <div className="mt-2 flex items-center text-sm">
-                  <span className="text-red-600">Requires attention</span>
+                  <span className="text-red-600">
+                    Requires attention
+                    {stats.reportingChecks.missingItems > 0 && ` • ${stats.reportingChecks.missingItems} unreported checklist items`}
+                  </span>
                 </div>
               </div>
             </div>
 
+            {/* Reporting Guidelines */}
+            {stats.reportingChecks.assessments > 0 && (
+              <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-medium text-gray-900 flex items-center">
+                    <ClipboardCheck className="h-5 w-5 mr-2 text-blue-500" />
+                    Reporting Guideline Completeness
+                  </h3>
+                  <span className="text-sm text-gray-600">
+                    {stats.reportingChecks.assessments} checks • average {Math.round(stats.reportingChecks.averageScore * 100)}%
+                  </span>
+                </div>
+                <div className="space-y-3">
+                  {Object.entries(stats.reportingChecks.byGuideline).map(([guideline, entry]) => (
+                    <div key={guideline} className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">{guideline} ({entry.assessments})</span>
+                      <div className="flex items-center space-x-2">
+                        <div className="w-32 bg-gray-200 rounded-full h-2">
+                          <div
+                            className="bg-blue-500 h-2 rounded-full"
+                            style={{ width: `${Math.round(entry.averageScore * 100)}%` }}
+                          ></div>
+                        </div>
+                        <span className="text-sm font-medium text-gray-900">{Math.round(entry.averageScore * 100)}%</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Feedback Trends */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
               <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -485,7 +610,7 @@ const AdminDashboard: React.FC = () => {
             {/* Filters and Search */}
             <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
               <div className="flex flex-col md:flex-row md:items-center md:justify-between space-y-4 md:space-y-0">
-                <div className="flex items-center space-x-4">
+                <div className="flex flex-wrap items-center gap-4">
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                     <input
@@ -507,6 +632,39 @@ const AdminDashboard: React.FC = () => {
                     <option value="medium">Medium</option>
                     <option value="low">Low</option>
                   </select>
+
+                  <select
+                    value={filterStatus || ''}
+                    onChange={(e) => setFilterStatus((e.target.value || null) as EthicsAlertStatus | null)}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="">All Statuses</option>
+                    <option value="pending">Pending</option>
+                    <option value="reviewed">Reviewed</option>
+                    <option value="resolved">Resolved</option>
+                    <option value="dismissed">Dismissed</option>
+                  </select>
+
+                  <select
+                    value={filterFlagType || ''}
+                    onChange={(e) => setFilterFlagType(e.target.value || null)}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="">All Types</option>
+                    {ethicsFlagTypes.map(flagType => (
+                      <option key={flagType} value={flagType}>{flagType}</option>
+                    ))}
+                  </select>
+
+                  <select
+                    value={filterAssignee || ''}
+                    onChange={(e) => setFilterAssignee((e.target.value || null) as 'me' | 'unassigned' | null)}
+                    className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    <option value="">Any Assignee</option>
+                    <option value="me">Assigned to me</option>
+                    <option value="unassigned">Unassigned</option>
+                  </select>
                 </div>
                 
                 <button
@@ -519,9 +677,61 @@ const AdminDashboard: React.FC = () => {
               </div>
             </div>
 
+            {/* Bulk Actions */}
+            {selectedAlertIds.size > 0 && (
+              <div className="bg-blue-50 p-4 rounded-lg border border-blue-200">
+                <div className="flex flex-col md:flex-row md:items-center gap-3">
+                  <span className="text-sm font-medium text-blue-900">{selectedAlertIds.size} selected</span>
+                  <input
+                    type="text"
+                    placeholder="Reviewer note (optional)"
+                    value={reviewNote}
+                    onChange={(e) => setReviewNote(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {(Object.keys(ethicsStatusActions) as EthicsAlertStatus[]).map(status => (
+                      <button
+                        key={status}
+                        onClick={() => handleEthicsStatusChange(Array.from(selectedAlertIds), status)}
+                        className={`px-3 py-1 text-sm rounded-md ${ethicsStatusActions[status].className}`}
+                      >
+                        {ethicsStatusActions[status].label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => handleAssignEthicsAlerts(Array.from(selectedAlertIds), user.id)}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                    >
+                      <UserCheck className="h-4 w-4" />
+                      <span>Assign to me</span>
+                    </button>
+                    <button
+                      onClick={() => handleAssignEthicsAlerts(Array.from(selectedAlertIds), null)}
+                      className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                    >
+                      Unassign
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {ethicsMessage && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+                {ethicsMessage}
+              </div>
+            )}
+
             {/* Ethics Alerts List */}
             <div className="bg-white rounded-lg shadow-sm border border-gray-200">
-              <div className="px-6 py-4 border-b border-gray-200">
+              <div className="px-6 py-4 border-b border-gray-200 flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={allFilteredSelected}
+                  onChange={() => setSelectedAlertIds(allFilteredSelected ? new Set() : new Set(filteredEthicsAlerts.map(alert => alert.id)))}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
                 <h3 className="text-lg font-medium text-gray-900">
                   Ethics Alerts ({filteredEthicsAlerts.length})
                 </h3>
@@ -531,6 +741,12 @@ const AdminDashboard: React.FC = () => {
                 {filteredEthicsAlerts.map((alert) => (
                   <div key={alert.id} className="p-6">
                     <div className="flex items-start justify-between">
+                      <input
+                        type="checkbox"
+                        checked={selectedAlertIds.has(alert.id)}
+                        onChange={() => toggleAlertSelection(alert.id)}
+                        className="h-4 w-4 mt-1 mr-4 text-blue-600 border-gray-300 rounded"
+                      />
                       <div className="flex-1">
                         <div className="flex items-center space-x-3 mb-2">
                           <h4 className="font-medium text-gray-900">{alert.paperTitle}</h4>
@@ -541,11 +757,7 @@ const AdminDashboard: React.FC = () => {
                           }`}>
                             {alert.severity.toUpperCase()}
                           </span>
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            alert.status === 'pending' ? 'bg-orange-100 text-orange-800' :
-                            alert.status === 'reviewed' ? 'bg-blue-100 text-blue-800' :
-                            'bg-green-100 text-green-800'
-                          }`}>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${ethicsStatusBadges[alert.status]}`}>
                             {alert.status.toUpperCase()}
                           </span>
                         </div>
@@ -554,21 +766,74 @@ const AdminDashboard: React.FC = () => {
                           <span className="font-medium">{alert.flagType}</span>
                           <span>•</span>
                           <span>{new Date(alert.createdAt).toLocaleDateString()}</span>
+                          <span>•</span>
+                          <span>
+                            {alert.assignee
+                              ? alert.assignee === user.id ? 'Assigned to you' : `Assigned to ${alert.assignee}`
+                              : 'Unassigned'}
+                          </span>
                         </div>
                         
                         <p className="text-gray-700 text-sm">{alert.description}</p>
+                        {alert.reviewerNotes && (
+                          <p className="text-sm text-gray-600 mt-2">
+                            <span className="font-medium">Reviewer note:</span> {alert.reviewerNotes}
+                          </p>
+                        )}
+
+                        {expandedAlertId === alert.id && (
+                          <div className="mt-4 border-t border-gray-100 pt-4 space-y-3">
+                            {alert.recommendation && (
+                              <p className="text-sm text-gray-600">
+                                <span className="font-medium">Recommendation:</span> {alert.recommendation}
+                              </p>
+                            )}
+                            {alert.sourceLocation && (
+                              <p className="text-xs text-gray-500">{alert.sourceLocation}</p>
+                            )}
+                            <div>
+                              <h5 className="text-sm font-medium text-gray-900 mb-2 flex items-center">
+                                <History className="h-4 w-4 mr-1" />
+                                Audit Trail
+                              </h5>
+                              <ul className="space-y-1 text-xs text-gray-600">
+                                <li className="flex items-center space-x-2">
+                                  <Clock className="h-3 w-3" />
+                                  <span>{alert.createdAt.toLocaleString()} • Raised by analysis{alert.authorId ? ` for ${alert.authorId}` : ''}</span>
+                                </li>
+                                {(alertHistory[alert.id] || []).map(event => (
+                                  <li key={event.id} className="flex items-center space-x-2">
+                                    <Clock className="h-3 w-3" />
+                                    <span>
+                                      {event.createdAt.toLocaleString()} • {event.actorId === user.id ? 'You' : event.actorId}{' '}
+                                      {event.action === 'status_changed'
+                                        ? `changed status from ${event.fromStatus} to ${event.toStatus}`
+                                        : event.action === 'assigned' ? event.note?.toLowerCase() : 'added a note'}
+                                      {event.action !== 'assigned' && event.note ? `: "${event.note}"` : ''}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          </div>
+                        )}
                       </div>
                       
                       <div className="ml-4 flex items-center space-x-2">
-                        {alert.status === 'pending' && (
+                        {AdminService.ETHICS_ALERT_TRANSITIONS[alert.status].map(status => (
                           <button
-                            onClick={() => handleResolveEthicsAlert(alert.id)}
-                            className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700"
+                            key={status}
+                            onClick={() => handleEthicsStatusChange([alert.id], status)}
+                            className={`px-3 py-1 text-sm rounded-md ${ethicsStatusActions[status].className}`}
                           >
-                            Resolve
+                            {ethicsStatusActions[status].label}
                           </button>
-                        )}
-                        <button className="p-2 text-gray-400 hover:text-gray-600">
+                        ))}
+                        <button
+                          onClick={() => toggleAlertHistory(alert.id)}
+                          className={`p-2 hover:text-gray-600 ${expandedAlertId === alert.id ? 'text-blue-600' : 'text-gray-400'}`}
+                          title="Show details and audit trail"
+                        >
                           <Eye className="h-4 w-4" />
                         </button>
                       </div>
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircleQuestion, Send, AlertTriangle, BookOpen } from 'lucide-react';
+import { Paper, PaperQuestion } from '../types';
+import { PaperChatService } from '../services/paperChat';
+import { LLMProvider } from '../services/llm';
+import QuoteVerificationBadge from './QuoteVerificationBadge';
+
+interface AskPanelProps {
+  summaryId: string;
+  paper: Paper;
+  provider: LLMProvider;
+}
+
+const exampleQuestions = [
+  'What were the inclusion and exclusion criteria?',
+  'Which baselines were the results compared against?',
+  'How large was the sample and how was it recruited?'
+];
+
+const AskPanel: React.FC<AskPanelProps> = ({ summaryId, paper, provider }) => {
+  const [conversation, setConversation] = useState<PaperQuestion[]>([]);
+  const [question, setQuestion] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    PaperChatService.getConversation(summaryId)
+      .then(questions => {
+        if (!cancelled) setConversation(questions);
+      })
+      .catch(loadError => console.error('Error loading conversation:', loadError))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [summaryId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [conversation.length, isAsking]);
+
+  const handleAsk = async (text: string = question) => {
+    const trimmed = text.trim();
+    if (!trimmed || isAsking) return;
+
+    setIsAsking(true);
+    setError(null);
+    try {
+      const answer = await PaperChatService.ask(summaryId, paper, trimmed, provider, conversation);
+      setConversation(prev => [...prev, answer]);
+      setQuestion('');
+    } catch (askError) {
+      console.error('Error asking question:', askError);
+      setError(askError instanceof Error ? askError.message : 'Failed to answer question');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="text-lg font-medium text-blue-900 mb-2 flex items-center">
+          <MessageCircleQuestion className="h-5 w-5 mr-2" />
+          Ask the Paper
+        </h3>
+        <p className="text-blue-700 text-sm">
+          Answers are drawn only from the paper's text and cite the passages they rely on. Questions and answers are saved with this analysis so collaborators can see them.
+        </p>
+      </div>
+
+      {conversation.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-gray-600 mb-4">No questions yet. Try one of these:</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {exampleQuestions.map(example => (
+              <button
+                key={example}
+                onClick={() => handleAsk(example)}
+                disabled={isAsking}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-full text-gray-700 hover:border-blue-400 hover:text-blue-700 disabled:opacity-50"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {conversation.map(turn => (
+            <div key={turn.id} className="space-y-3">
+              <div className="flex justify-end">
+                <div className="max-w-[80%] bg-blue-600 text-white px-4 py-2 rounded-lg">
+                  <p className="text-sm">{turn.question}</p>
+                </div>
+              </div>
+
+              <div className={`p-4 rounded-lg border ${
+                turn.grounded ? 'bg-white border-gray-200' : 'bg-amber-50 border-amber-200'
+              }`}>
+                {!turn.grounded && (
+                  <div className="flex items-center space-x-2 text-amber-800 text-xs font-medium mb-2">
+                    <AlertTriangle className="h-4 w-4" />
+                    <span>Not answered by the paper text</span>
+                  </div>
+                )}
+                <p className="text-gray-800 text-sm whitespace-pre-line">{turn.answer}</p>
+
+                {turn.citations.length > 0 && (
+                  <div className="mt-3 space-y-2">
+                    {turn.citations.map((citation, index) => (
+                      <div key={index} className="bg-gray-50 border-l-4 border-gray-300 p-3 rounded">
+                        <p className="text-sm text-gray-700 italic">"{citation.quote}"</p>
+                        <div className="flex items-center justify-between mt-2">
+                          <span className="flex items-center space-x-1 text-xs text-gray-500">
+                            <BookOpen className="h-3 w-3" />
+                            <span>{citation.pageNumber ? `Page ${citation.pageNumber}` : 'Page unknown'}</span>
+                          </span>
+                          <QuoteVerificationBadge verification={citation.verification} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <p className="text-xs text-gray-400 mt-3">
+                  {turn.createdAt.toLocaleString()}
+                  {turn.provider && ` • ${turn.provider}${turn.model ? ` (${turn.model})` : ''}`}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isAsking && (
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span>Searching the paper and drafting an answer...</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <div ref={bottomRef} />
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleAsk();
+        }}
+        className="flex items-end space-x-3"
+      >
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleAsk();
+            }
+          }}
+          placeholder="Ask a question about this paper..."
+          rows={2}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 resize-none"
+        />
+        <button
+          type="submit"
+          disabled={!question.trim() || isAsking}
+          className="flex items-center space-x-2 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Send className="h-4 w-4" />
+          <span>Ask</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AskPanel;
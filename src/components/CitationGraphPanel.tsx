@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { Network, Download, Check, ExternalLink } from 'lucide-react';
+import { CitationGraph, ParsedReference, Workspace } from '../types';
+import { CitationGraphService } from '../services/citationGraph';
+
+interface CitationGraphPanelProps {
+  workspace: Workspace;
+}
+
+const GRAPH_SIZE = 360;
+const NODE_RADIUS = 14;
+
+const CitationGraphPanel: React.FC<CitationGraphPanelProps> = ({ workspace }) => {
+  const [graph, setGraph] = useState<CitationGraph | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hoveredPaper, setHoveredPaper] = useState<string | null>(null);
+  const [importing, setImporting] = useState<string | null>(null);
+  const [imported, setImported] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    CitationGraphService.buildWorkspaceGraph(workspace)
+      .then(built => {
+        if (!cancelled) setGraph(built);
+      })
+      .catch(buildError => {
+        console.error('Error building citation graph:', buildError);
+        if (!cancelled) setError('Could not build the citation graph for this workspace.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace]);
+
+  const handleImport = async (key: string, reference: ParsedReference) => {
+    setImporting(key);
+    try {
+      await CitationGraphService.importReference(reference);
+      setImported(prev => new Set(prev).add(key));
+    } catch (importError) {
+      console.error('Error importing reference:', importError);
+      setError(`Could not import ${reference.title || reference.label}. Please try again.`);
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const nodeNumber = (paperId: string) => (graph?.nodes.findIndex(node => node.paperId === paperId) ?? -1) + 1;
+
+  // Papers on a circle so every citation is a visible chord
+  const positions = new Map<string, { x: number; y: number }>();
+  graph?.nodes.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / graph.nodes.length - Math.PI / 2;
+    const radius = graph.nodes.length === 1 ? 0 : GRAPH_SIZE / 2 - NODE_RADIUS * 2;
+    positions.set(node.paperId, {
+      x: GRAPH_SIZE / 2 + radius * Math.cos(angle),
+      y: GRAPH_SIZE / 2 + radius * Math.sin(angle)
+    });
+  });
+
+  const renderGraph = () => {
+    if (!graph) return null;
+
+    return (
+      <svg viewBox={`0 0 ${GRAPH_SIZE} ${GRAPH_SIZE}`} className="w-full max-w-sm mx-auto">
+        <defs>
+          <marker id="citation-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#6b7280" />
+          </marker>
+        </defs>
+        {graph.edges.map(edge => {
+          const from = positions.get(edge.from)!;
+          const to = positions.get(edge.to)!;
+          const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+          // Stop at the node's edge so the arrowhead stays visible
+          const endX = to.x - ((to.x - from.x) / length) * NODE_RADIUS;
+          const endY = to.y - ((to.y - from.y) / length) * NODE_RADIUS;
+          const highlighted = hoveredPaper === edge.from || hoveredPaper === edge.to;
+          return (
+            <line
+              key={`${edge.from}-${edge.to}`}
+              x1={from.x}
+              y1={from.y}
+              x2={endX}
+              y2={endY}
+              stroke={highlighted ? '#2563eb' : '#9ca3af'}
+              strokeWidth={highlighted ? 2 : 1}
+              strokeDasharray={edge.matchedBy === 'title' ? '4 3' : undefined}
+              markerEnd="url(#citation-arrow)"
+            />
+          );
+        })}
+        {graph.nodes.map((node, index) => {
+          const position = positions.get(node.paperId)!;
+          return (
+            <g
+              key={node.paperId}
+              onMouseEnter={() => setHoveredPaper(node.paperId)}
+              onMouseLeave={() => setHoveredPaper(null)}
+              className="cursor-default"
+            >
+              <title>{node.title}{node.year ? ` (${node.year})` : ''} — {node.referenceCount} references</title>
+              <circle
+                cx={position.x}
+                cy={position.y}
+                r={NODE_RADIUS}
+                fill={hoveredPaper === node.paperId ? '#2563eb' : '#dbeafe'}
+                stroke="#2563eb"
+              />
+              <text
+                x={position.x}
+                y={position.y + 4}
+                textAnchor="middle"
+                fontSize="11"
+                fill={hoveredPaper === node.paperId ? '#ffffff' : '#1e3a8a'}
+              >
+                {index + 1}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Network className="h-5 w-5 mr-2" />
+          Citation Graph
+        </h3>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !graph || graph.nodes.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Network className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+            <p>No analysed papers yet</p>
+            <p className="text-sm mt-1">Citations between papers appear here once papers in this workspace have been analysed.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-2 gap-6 items-start">
+              {renderGraph()}
+              <div>
+                <ol className="space-y-1 text-sm text-gray-700">
+                  {graph.nodes.map((node, index) => {
+                    const cites = graph.edges.filter(edge => edge.from === node.paperId).map(edge => nodeNumber(edge.to));
+                    const citedBy = graph.edges.filter(edge => edge.to === node.paperId).map(edge => nodeNumber(edge.from));
+                    return (
+                      <li
+                        key={node.paperId}
+                        onMouseEnter={() => setHoveredPaper(node.paperId)}
+                        onMouseLeave={() => setHoveredPaper(null)}
+                        className={`p-1 rounded ${hoveredPaper === node.paperId ? 'bg-blue-50' : ''}`}
+                      >
+                        [{index + 1}] {node.title}
+                        {node.year && <span className="text-gray-500"> ({node.year})</span>}
+                        <div className="text-xs text-gray-500">
+                          {node.referenceCount} references
+                          {cites.length > 0 && ` • cites ${cites.map(n => `[${n}]`).join(' ')}`}
+                          {citedBy.length > 0 && ` • cited by ${citedBy.map(n => `[${n}]`).join(' ')}`}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ol>
+                <p className="text-xs text-gray-400 mt-3">
+                  Solid arrows are matched by DOI, dashed arrows by title and year.
+                </p>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Shared References</h4>
+              {graph.sharedReferences.length === 0 ? (
+                <p className="text-sm text-gray-500">No reference is cited by more than one paper in this workspace.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {graph.sharedReferences.map(shared => (
+                    <li key={shared.key} className="flex items-start justify-between border border-gray-200 rounded-lg p-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{shared.reference.title || shared.reference.raw}</p>
+                        <p className="text-xs text-gray-600 mt-1">
+                          {shared.reference.authors.slice(0, 3).join(', ')}
+                          {shared.reference.authors.length > 3 && ' et al.'}
+                          {shared.reference.year && ` (${shared.reference.year})`}
+                        </p>
+                        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+                          <span>Cited by {shared.citedBy.map(paperId => `[${nodeNumber(paperId)}]`).join(' ')}</span>
+                          {shared.reference.doi && (
+                            <a
+                              href={`https://doi.org/${shared.reference.doi}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center font-mono text-blue-600 hover:underline break-all"
+                            >
+                              <ExternalLink className="h-3 w-3 mr-1" />
+                              {shared.reference.doi}
+                            </a>
+                          )}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleImport(shared.key, shared.reference)}
+                        disabled={importing !== null || imported.has(shared.key)}
+                        className="flex items-center space-x-1 ml-3 px-3 py-1 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+                      >
+                        {imported.has(shared.key) ? <Check className="h-3 w-3 text-green-600" /> : <Download className="h-3 w-3" />}
+                        <span>{imported.has(shared.key) ? 'Imported' : importing === shared.key ? 'Importing...' : 'Import'}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CitationGraphPanel;
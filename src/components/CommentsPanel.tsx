@@ -5,7 +5,7 @@ import { CollaborationService } from '../services/collaboration';
 
 interface CommentsPanelProps {
   summaryId: string;
-  targetSection?: 'summary' | 'keyPoints' | 'ethics' | 'xai';
+  targetSection?: 'summary' | 'keyPoints' | 'ethics' | 'xai' | 'gaps';
   targetId?: string;
 }
 
@@ -196,7 +196,8 @@ const CommentsPanel: React.FC<CommentsPanelProps> = ({ summaryId, targetSection,
               <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                 {targetSection === 'keyPoints' ? 'Key Points' : 
                  targetSection === 'ethics' ? 'Ethics Analysis' :
-                 targetSection === 'xai' ? 'XAI Data' : 'Summary'}
+                 targetSection === 'xai' ? 'XAI Data' :
+                 targetSection === 'gaps' ? 'Research Gaps' : 'Summary'}
               </span>
             )}
           </div>
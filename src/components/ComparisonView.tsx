@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { ArrowLeft, Save, Download, Sparkles, CheckCircle, AlertTriangle, Columns } from 'lucide-react';
+import { ExportOptions, PaperComparison, Summary } from '../types';
+import { ComparisonService } from '../services/comparison';
+import { ExportService } from '../services/exportService';
+
+interface ComparisonViewProps {
+  comparison: PaperComparison;
+  // Analyses of the compared papers; needed only to generate a synthesis
+  summaries: Summary[];
+  onClose: () => void;
+  onSaved?: (comparison: PaperComparison) => void;
+}
+
+const severityStyles: Record<string, string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-blue-100 text-blue-800'
+};
+
+const ComparisonView: React.FC<ComparisonViewProps> = ({ comparison: initial, summaries, onClose, onSaved }) => {
+  const [comparison, setComparison] = useState<PaperComparison>(initial);
+  const [activeSection, setActiveSection] = useState<'keyPoints' | 'limitations' | 'ethics' | 'confidence' | 'gaps'>('keyPoints');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportOptions['format']>('pdf');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const isSaved = !comparison.id.startsWith('temp-');
+  const canSynthesize = comparison.papers.every(paper => summaries.some(s => s.id === paper.summaryId));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const saved = await ComparisonService.saveComparison(comparison);
+      setComparison(saved);
+      onSaved?.(saved);
+      setMessage({ type: 'success', text: 'Comparison saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save comparison' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSynthesize = async () => {
+    setIsSynthesizing(true);
+    setMessage(null);
+    try {
+      const synthesis = await ComparisonService.generateSynthesis(comparison, summaries);
+      if (!synthesis) {
+        setMessage({ type: 'error', text: 'No AI provider is available to generate a synthesis.' });
+        return;
+      }
+      setComparison(prev => ({ ...prev, synthesis }));
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to generate synthesis' });
+    } finally {
+      setIsSynthesizing(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      await ExportService.exportComparison(comparison, {
+        format: exportFormat,
+        sections: {
+          summary: true,
+          keyPoints: true,
+          limitations: true,
+          citations: false,
+          ethicsAnalysis: true,
+          reportingGuidelines: false,
+          disclosures: false,
+          researchGaps: true,
+          xaiData: true,
+          comments: false,
+          metadata: true
+        },
+        includeGraphics: false,
+        includeWatermark: true
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to export comparison' });
+    }
+  };
+
+  const sections = [
+    { id: 'keyPoints', label: 'Key Points' },
+    { id: 'limitations', label: 'Limitations' },
+    { id: 'ethics', label: 'Ethics Flags' },
+    { id: 'confidence', label: 'Confidence' },
+    { id: 'gaps', label: 'Research Gaps' }
+  ] as const;
+
+  const renderListMatrix = (rows: PaperComparison['matrix']['keyPoints'], emptyText: string) => {
+    if (rows.length === 0) {
+      return (
+        <tr>
+          <td colSpan={comparison.papers.length + 1} className="p-4 text-sm text-gray-500 italic">{emptyText}</td>
+        </tr>
+      );
+    }
+    return rows.map((row, rowIndex) => {
+      const shared = row.cells.filter(cell => cell.length > 0).length;
+      return (
+        <tr key={rowIndex} className="align-top">
+          <td className="p-3 text-xs text-gray-500 whitespace-nowrap">
+            {shared > 1 ? (
+              <span className="inline-flex px-2 py-0.5 rounded-full bg-green-100 text-green-800">{shared} papers</span>
+            ) : (
+              <span className="inline-flex px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">1 paper</span>
+            )}
+          </td>
+          {row.cells.map((cell, cellIndex) => (
+            <td key={cellIndex} className="p-3 text-sm text-gray-700">
+              {cell.length === 0 ? (
+                <span className="text-gray-300">—</span>
+              ) : (
+                <ul className="space-y-1">
+                  {cell.map((statement, index) => <li key={index}>{statement}</li>)}
+                </ul>
+              )}
+            </td>
+          ))}
+        </tr>
+      );
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-start justify-between">
+          <div className="flex-1">
+            <button onClick={onClose} className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 mb-3">
+              <ArrowLeft className="h-4 w-4" />
+              <span>Back to history</span>
+            </button>
+            <div className="flex items-center space-x-2">
+              <Columns className="h-5 w-5 text-blue-600" />
+              <input
+                value={comparison.title}
+                onChange={(e) => setComparison(prev => ({ ...prev, title: e.target.value }))}
+                className="text-xl font-semibold text-gray-900 border-b border-transparent hover:border-gray-300 focus:border-blue-500 focus:outline-none flex-1"
+              />
+            </div>
+            <p className="text-sm text-gray-500 mt-1">
+              {comparison.papers.length} papers • {isSaved ? `Saved ${comparison.createdAt.toLocaleDateString()}` : 'Not saved'}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportOptions['format'])}
+              className="border border-gray-300 rounded-md px-2 py-2 text-sm"
+            >
+              <option value="pdf">PDF</option>
+              <option value="docx">Word (HTML)</option>
+              <option value="markdown">Markdown</option>
+              <option value="json">JSON</option>
+              <option value="csv">CSV</option>
+            </select>
+            <button
+              onClick={handleExport}
+              className="flex items-center space-x-2 px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>Export</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center space-x-2 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              <span>{isSaving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`mt-4 flex items-center space-x-2 text-sm p-3 rounded-md ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.type === 'success' ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        <ol className="mt-4 grid gap-2 md:grid-cols-2">
+          {comparison.papers.map((paper, index) => (
+            <li key={paper.summaryId} className="text-sm text-gray-700">
+              <span className="font-medium text-blue-700">[{index + 1}]</span> {paper.title}
+              {paper.authors.length > 0 && <span className="text-gray-500"> — {paper.authors.slice(0, 3).join(', ')}{paper.authors.length > 3 ? ' et al.' : ''}</span>}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {/* Synthesis */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium text-gray-900 flex items-center">
+            <Sparkles className="h-5 w-5 mr-2 text-purple-600" />
+            Agreements & Contradictions
+          </h3>
+          <button
+            onClick={handleSynthesize}
+            disabled={isSynthesizing || !canSynthesize}
+            title={canSynthesize ? undefined : 'The analyses for these papers are no longer available'}
+            className="flex items-center space-x-2 px-3 py-2 text-sm border border-purple-300 text-purple-700 rounded-md hover:bg-purple-50 disabled:opacity-50"
+          >
+            <Sparkles className="h-4 w-4" />
+            <span>{isSynthesizing ? 'Generating...' : comparison.synthesis ? 'Regenerate' : 'Generate synthesis'}</span>
+          </button>
+        </div>
+
+        {comparison.synthesis ? (
+          <div className="space-y-4">
+            <p className="text-gray-700">{comparison.synthesis.overview}</p>
+            {comparison.synthesis.agreements.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-green-800 mb-2">Agreements</h4>
+                <ul className="space-y-1">
+                  {comparison.synthesis.agreements.map((agreement, index) => (
+                    <li key={index} className="text-sm text-gray-700">
+                      • {agreement.statement} <span className="text-xs text-gray-500">({agreement.papers.map(p => `[${p}]`).join(' ')})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {comparison.synthesis.contradictions.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-red-800 mb-2">Contradictions</h4>
+                <div className="space-y-3">
+                  {comparison.synthesis.contradictions.map((contradiction, index) => (
+                    <div key={index} className="bg-red-50 border border-red-100 rounded-md p-3">
+                      <p className="text-sm font-medium text-gray-900">{contradiction.topic}</p>
+                      <ul className="mt-1 space-y-1">
+                        {contradiction.positions.map((position, positionIndex) => (
+                          <li key={positionIndex} className="text-sm text-gray-700">
+                            <span className="font-medium text-blue-700">[{position.paper}]</span> {position.position}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <p className="text-xs text-gray-400">
+              AI-generated from the saved analyses{comparison.synthesis.model ? ` (${comparison.synthesis.model})` : ''} • Verify against the papers before relying on it
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Optionally ask the AI to summarise where these papers agree and where they contradict each other.
+          </p>
+        )}
+      </div>
+
+      {/* Matrix */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="border-b border-gray-200">
+          <nav className="flex space-x-6 px-6">
+            {sections.map(section => (
+              <button
+                key={section.id}
+                onClick={() => setActiveSection(section.id)}
+                className={`py-3 px-1 border-b-2 text-sm font-medium ${
+                  activeSection === section.id
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {section.label}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="p-3 text-left text-xs font-medium text-gray-500 uppercase w-28">
+                  {activeSection === 'ethics' ? 'Type' : activeSection === 'confidence' ? 'Measure' : 'Shared by'}
+                </th>
+                {comparison.papers.map((paper, index) => (
+                  <th key={paper.summaryId} className="p-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    [{index + 1}] {paper.title.length > 40 ? `${paper.title.substring(0, 40)}...` : paper.title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {activeSection === 'keyPoints' && renderListMatrix(comparison.matrix.keyPoints, 'No key points to compare.')}
+              {activeSection === 'limitations' && renderListMatrix(comparison.matrix.limitations, 'No limitations to compare.')}
+              {activeSection === 'gaps' && renderListMatrix(comparison.matrix.researchGaps, 'No research gaps to compare.')}
+              {activeSection === 'ethics' && comparison.matrix.ethicsFlags.map(row => (
+                <tr key={row.label} className="align-top">
+                  <td className="p-3 text-sm font-medium text-gray-900 capitalize">{row.label.replace('-', ' ')}</td>
+                  {row.cells.map((cell, index) => (
+                    <td key={index} className="p-3 text-sm text-gray-700">
+                      {cell.severity ? (
+                        <div className="space-y-1">
+                          <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${severityStyles[cell.severity]}`}>
+                            {cell.severity} • {cell.count} {cell.count === 1 ? 'flag' : 'flags'}
+                          </span>
+                          {cell.descriptions.map((description, descriptionIndex) => (
+                            <p key={descriptionIndex} className="text-xs text-gray-600">{description}</p>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-gray-300">—</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {activeSection === 'confidence' && comparison.matrix.confidence.map(row => {
+                const values = row.cells.filter((cell): cell is number => cell !== null);
+                const best = values.length > 1 ? Math.max(...values) : null;
+                return (
+                  <tr key={row.label}>
+                    <td className="p-3 text-sm font-medium text-gray-900">{row.label}</td>
+                    {row.cells.map((cell, index) => (
+                      <td key={index} className="p-3 text-sm text-gray-700">
+                        {cell === null ? (
+                          <span className="text-gray-300">—</span>
+                        ) : (
+                          <div className="flex items-center space-x-2">
+                            <div className="w-24 bg-gray-200 rounded-full h-2">
+                              <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${Math.round(cell * 100)}%` }}></div>
+                            </div>
+                            <span className={cell === best ? 'font-semibold text-gray-900' : ''}>{Math.round(cell * 100)}%</span>
+                          </div>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonView;
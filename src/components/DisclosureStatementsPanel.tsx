@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { CheckCircle, AlertCircle, XCircle, BookOpen } from 'lucide-react';
+import { DisclosureType, Paper } from '../types';
+import { DisclosureExtractionService } from '../services/disclosureExtraction';
+
+interface DisclosureStatementsPanelProps {
+  paper: Paper;
+}
+
+const DisclosureStatementsPanel: React.FC<DisclosureStatementsPanelProps> = ({ paper }) => {
+  // Papers added before extraction existed have no stored statements
+  const statements = useMemo(
+    () => paper.metadata?.disclosures ??
+      (paper.content ? DisclosureExtractionService.extract(paper.content, paper.metadata?.pages) : {}),
+    [paper]
+  );
+
+  const types = Object.keys(DisclosureExtractionService.LABELS) as DisclosureType[];
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium text-gray-900 mb-3">Disclosure Statements</h3>
+      <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+        {types.map(type => {
+          const statement = statements[type];
+          return (
+            <div key={type} className="p-3 flex items-start space-x-3">
+              {!statement ? (
+                <XCircle className="h-5 w-5 text-gray-400 flex-shrink-0 mt-0.5" />
+              ) : statement.boilerplate ? (
+                <AlertCircle className="h-5 w-5 text-amber-500 flex-shrink-0 mt-0.5" />
+              ) : (
+                <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">{DisclosureExtractionService.LABELS[type]}</span>
+                  {statement?.pageNumber && (
+                    <span className="flex items-center space-x-1 text-xs text-gray-500">
+                      <BookOpen className="h-3 w-3" />
+                      <span>Page {statement.pageNumber}</span>
+                    </span>
+                  )}
+                </div>
+                {statement ? (
+                  <>
+                    <p className="text-sm text-gray-700 mt-1">{statement.text}</p>
+                    {statement.boilerplate && (
+                      <p className="text-xs text-amber-700 mt-1">Boilerplate wording that does not disclose anything specific</p>
+                    )}
+                    {statement.identifiers.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {statement.identifiers.map(identifier => (
+                          <span key={identifier} className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded font-mono break-all">
+                            {identifier}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500 mt-1">No statement found in the paper text</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DisclosureStatementsPanel;
@@ -1,14 +1,19 @@
 import React, { useState } from 'react';
 import { EthicsFlag, EducationalContent } from '../types';
 import { Shield, AlertTriangle, Info, ExternalLink, ChevronDown, ChevronRight } from 'lucide-react';
+import { AnalysisProfileService } from '../services/analysisProfiles';
 import EducationalTooltip from './EducationalTooltip';
 
 interface EthicsPanelProps {
   ethicsFlags: EthicsFlag[];
+  // Flag opened from a library search result
+  highlightIndex?: number;
 }
 
-const EthicsPanel: React.FC<EthicsPanelProps> = ({ ethicsFlags }) => {
-  const [expandedFlag, setExpandedFlag] = useState<string | null>(null);
+const EthicsPanel: React.FC<EthicsPanelProps> = ({ ethicsFlags, highlightIndex }) => {
+  const [expandedFlag, setExpandedFlag] = useState<string | null>(
+    highlightIndex !== undefined ? ethicsFlags[highlightIndex]?.id ?? null : null
+  );
 
   const educationalContent: EducationalContent[] = [
     {
@@ -79,8 +84,12 @@ const EthicsPanel: React.FC<EthicsPanelProps> = ({ ethicsFlags }) => {
       </div>
 
       <div className="space-y-4">
-        {ethicsFlags.map((flag) => (
-          <div key={flag.id} className={`border rounded-lg ${getSeverityColor(flag.severity)}`}>
+        {ethicsFlags.map((flag, index) => (
+          <div
+            key={flag.id}
+            id={index === highlightIndex ? 'search-focus' : undefined}
+            className={`border rounded-lg ${getSeverityColor(flag.severity)} ${index === highlightIndex ? 'ring-2 ring-blue-400' : ''}`}
+          >
             <button
               onClick={() => setExpandedFlag(expandedFlag === flag.id ? null : flag.id)}
               className="w-full flex items-center justify-between p-4 text-left"
@@ -88,7 +97,14 @@ const EthicsPanel: React.FC<EthicsPanelProps> = ({ ethicsFlags }) => {
               <div className="flex items-center space-x-3">
                 {getSeverityIcon(flag.severity)}
                 <div>
-                  <h4 className="font-medium capitalize">{flag.type.replace('-', ' ')}</h4>
+                  <h4 className="font-medium capitalize">
+                    {flag.type.replace('-', ' ')}
+                    {flag.check && (
+                      <span className="ml-2 text-xs normal-case font-normal px-2 py-0.5 rounded-full bg-white bg-opacity-60">
+                        {AnalysisProfileService.findCheck(flag.check)?.label || flag.check}
+                      </span>
+                    )}
+                  </h4>
                   <p className="text-sm opacity-75">{flag.description}</p>
                 </div>
               </div>
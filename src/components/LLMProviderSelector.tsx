@@ -1,38 +1,60 @@
-import React from 'react';
-import { Brain, Zap } from 'lucide-react';
-import { LLMProvider } from '../services/llm';
+import React, { useEffect, useState } from 'react';
+import { Brain, Zap, Sparkles, Server, Cpu, Loader2 } from 'lucide-react';
+import { LLMProvider, LLMService, ProviderInfo } from '../services/llm';
 
 interface LLMProviderSelectorProps {
   selectedProvider: LLMProvider;
   onProviderChange: (provider: LLMProvider) => void;
 }
 
+// Presentation for known provider ids; anything else registered gets the generic card
+const providerStyles: Record<string, { icon: React.ElementType; color: string }> = {
+  openai: { icon: Brain, color: 'blue' },
+  gemini: { icon: Zap, color: 'green' },
+  anthropic: { icon: Sparkles, color: 'orange' },
+  'openai-compatible': { icon: Server, color: 'purple' }
+};
+
 const LLMProviderSelector: React.FC<LLMProviderSelectorProps> = ({ 
   selectedProvider, 
   onProviderChange 
 }) => {
-  const providers = [
-    {
-      id: 'openai' as LLMProvider,
-      name: 'OpenAI GPT-4',
-      description: 'Advanced reasoning and comprehensive analysis',
-      icon: Brain,
-      color: 'blue',
-      available: !!import.meta.env.VITE_OPENAI_API_KEY
-    },
-    {
-      id: 'gemini' as LLMProvider,
-      name: 'Google Gemini',
-      description: 'Fast processing and detailed insights',
-      icon: Zap,
-      color: 'green',
-      available: !!import.meta.env.VITE_GEMINI_API_KEY
+  const [availableProviders, setAvailableProviders] = useState<ProviderInfo[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    LLMService.getAvailableProviders().then(available => {
+      if (!cancelled) setAvailableProviders(available);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Keep the selection on a provider that can actually serve the analysis
+  useEffect(() => {
+    if (availableProviders?.length && !availableProviders.some(p => p.id === selectedProvider)) {
+      onProviderChange(availableProviders[0].id);
     }
-  ];
+  }, [availableProviders, selectedProvider, onProviderChange]);
+
+  if (availableProviders === null) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>Checking available AI providers...</span>
+        </div>
+      </div>
+    );
+  }
 
-  const availableProviders = providers.filter(p => p.available);
+  const providers = availableProviders.map(provider => ({
+    ...provider,
+    ...(providerStyles[provider.id] || { icon: Cpu, color: 'gray' })
+  }));
 
-  if (availableProviders.length === 0) {
+  if (providers.length === 0) {
     return (
       <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
         <div className="flex items-center space-x-2">
@@ -40,7 +62,7 @@ const LLMProviderSelector: React.FC<LLMProviderSelectorProps> = ({
           <div>
             <h3 className="text-sm font-medium text-amber-800">No AI Providers Configured</h3>
             <p className="text-sm text-amber-700 mt-1">
-              Please configure OpenAI or Gemini API keys to enable AI analysis. The system will use enhanced fallback analysis.
+              Please configure a provider key for the llm-proxy edge function or a self-hosted endpoint to enable AI analysis. The system will use enhanced fallback analysis.
             </p>
           </div>
         </div>
@@ -48,8 +70,8 @@ const LLMProviderSelector: React.FC<LLMProviderSelectorProps> = ({
     );
   }
 
-  if (availableProviders.length === 1) {
-    const provider = availableProviders[0];
+  if (providers.length === 1) {
+    const provider = providers[0];
     const Icon = provider.icon;
     return (
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -68,7 +90,7 @@ const LLMProviderSelector: React.FC<LLMProviderSelectorProps> = ({
     <div className="bg-white border border-gray-200 rounded-lg p-4">
       <h3 className="text-sm font-medium text-gray-900 mb-3">Choose AI Provider</h3>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-        {availableProviders.map((provider) => {
+        {providers.map((provider) => {
           const Icon = provider.icon;
           const isSelected = selectedProvider === provider.id;
           
@@ -97,7 +119,7 @@ const LLMProviderSelector: React.FC<LLMProviderSelectorProps> = ({
         })}
       </div>
       <p className="text-xs text-gray-500 mt-3">
-        Both providers offer high-quality analysis. OpenAI GPT-4 excels at reasoning, while Gemini provides fast, detailed insights.
+        Hosted providers run through our secure proxy. Self-hosted models keep confidential manuscripts on your own network.
       </p>
     </div>
   );
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { BookOpen, Sparkles, AlertTriangle, GitCompare, Target, Shield, CheckCircle } from 'lucide-react';
+import { LiteratureReview, Workspace } from '../types';
+import { LiteratureReviewService } from '../services/literatureReview';
+import { LLMProvider } from '../services/llm';
+
+interface LiteratureReviewPanelProps {
+  workspace: Workspace;
+  provider: LLMProvider;
+}
+
+const severityStyles = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-green-100 text-green-800'
+};
+
+const LiteratureReviewPanel: React.FC<LiteratureReviewPanelProps> = ({ workspace, provider }) => {
+  const [reviews, setReviews] = useState<LiteratureReview[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    LiteratureReviewService.getReviews(workspace.id)
+      .then(loaded => {
+        if (cancelled) return;
+        setReviews(loaded);
+        setSelectedVersion(loaded[0]?.version ?? null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspace.id]);
+
+  const review = reviews.find(r => r.version === selectedVersion) || null;
+  const previous = review ? reviews.find(r => r.version === review.version - 1) || null : null;
+  const latest = reviews[0] || null;
+
+  const handleSynthesize = async () => {
+    setIsSynthesizing(true);
+    setError(null);
+    try {
+      const created = await LiteratureReviewService.synthesize(workspace, latest, provider);
+      setReviews(prev => [created, ...prev]);
+      setSelectedVersion(created.version);
+      setShowChanges(created.version > 1);
+    } catch (synthesisError) {
+      console.error('Error synthesizing literature review:', synthesisError);
+      setError(synthesisError instanceof Error ? synthesisError.message : 'Failed to synthesize literature review');
+    } finally {
+      setIsSynthesizing(false);
+    }
+  };
+
+  const paperTitle = (paperId: string) =>
+    review?.papers.find(p => p.paperId === paperId)?.title
+    || previous?.papers.find(p => p.paperId === paperId)?.title
+    || 'Unknown paper';
+
+  const paperNumber = (paperId: string) => (review?.papers.findIndex(p => p.paperId === paperId) ?? -1) + 1;
+
+  const renderAttribution = (paperIds: string[]) => (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {paperIds.map(paperId => (
+        <span
+          key={paperId}
+          title={paperTitle(paperId)}
+          className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full"
+        >
+          [{paperNumber(paperId)}]
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderChanges = () => {
+    if (!review || !previous) return null;
+
+    const previousThemes = new Set(previous.themes.map(theme => theme.title.toLowerCase()));
+    const currentThemes = new Set(review.themes.map(theme => theme.title.toLowerCase()));
+    const newThemes = review.themes.filter(theme => !previousThemes.has(theme.title.toLowerCase()));
+    const droppedThemes = previous.themes.filter(theme => !currentThemes.has(theme.title.toLowerCase()));
+    const previousFindings = new Set(previous.consensus.map(item => item.finding.toLowerCase()));
+    const newConsensus = review.consensus.filter(item => !previousFindings.has(item.finding.toLowerCase()));
+    const previousConflicts = new Set(previous.conflicts.map(conflict => conflict.topic.toLowerCase()));
+    const newConflicts = review.conflicts.filter(conflict => !previousConflicts.has(conflict.topic.toLowerCase()));
+
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3 text-sm">
+        <h4 className="font-medium text-blue-900">Changes since version {previous.version}</h4>
+        {review.changes.addedPaperIds.length > 0 && (
+          <div>
+            <p className="text-blue-800 font-medium">Papers added</p>
+            <ul className="list-disc list-inside text-blue-700">
+              {review.changes.addedPaperIds.map(paperId => <li key={paperId}>{paperTitle(paperId)}</li>)}
+            </ul>
+          </div>
+        )}
+        {(review.changes.updatedPaperIds?.length ?? 0) > 0 && (
+          <div>
+            <p className="text-blue-800 font-medium">Papers re-analysed</p>
+            <ul className="list-disc list-inside text-blue-700">
+              {review.changes.updatedPaperIds!.map(paperId => <li key={paperId}>{paperTitle(paperId)}</li>)}
+            </ul>
+          </div>
+        )}
+        {review.changes.removedPaperIds.length > 0 && (
+          <div>
+            <p className="text-blue-800 font-medium">Papers removed</p>
+            <ul className="list-disc list-inside text-blue-700">
+              {review.changes.removedPaperIds.map(paperId => <li key={paperId}>{paperTitle(paperId)}</li>)}
+            </ul>
+          </div>
+        )}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div><span className="font-semibold text-blue-900">{newThemes.length}</span> <span className="text-blue-700">new themes</span></div>
+          <div><span className="font-semibold text-blue-900">{droppedThemes.length}</span> <span className="text-blue-700">themes dropped</span></div>
+          <div><span className="font-semibold text-blue-900">{newConsensus.length}</span> <span className="text-blue-700">new consensus findings</span></div>
+          <div><span className="font-semibold text-blue-900">{newConflicts.length}</span> <span className="text-blue-700">new conflicts</span></div>
+        </div>
+        {(newThemes.length > 0 || droppedThemes.length > 0) && (
+          <ul className="space-y-1">
+            {newThemes.map(theme => <li key={`new-${theme.title}`} className="text-green-700">+ {theme.title}</li>)}
+            {droppedThemes.map(theme => <li key={`dropped-${theme.title}`} className="text-red-700">− {theme.title}</li>)}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <BookOpen className="h-5 w-5 mr-2" />
+          Literature Review
+        </h3>
+        <div className="flex items-center space-x-2">
+          {reviews.length > 1 && (
+            <select
+              value={selectedVersion ?? ''}
+              onChange={(e) => setSelectedVersion(Number(e.target.value))}
+              className="px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+            >
+              {reviews.map(r => (
+                <option key={r.version} value={r.version}>
+                  Version {r.version} • {r.createdAt.toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+          )}
+          {previous && (
+            <button
+              onClick={() => setShowChanges(!showChanges)}
+              className={`flex items-center space-x-1 px-3 py-1.5 border rounded-md text-sm ${
+                showChanges ? 'border-blue-500 text-blue-700 bg-blue-50' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <GitCompare className="h-4 w-4" />
+              <span>Compare with v{previous.version}</span>
+            </button>
+          )}
+          <button
+            onClick={handleSynthesize}
+            disabled={isSynthesizing || workspace.papers.length === 0}
+            className="flex items-center space-x-2 px-3 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Sparkles className="h-4 w-4" />
+            <span>{isSynthesizing ? 'Synthesizing...' : latest ? 'Update Review' : 'Synthesize'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !review ? (
+          <div className="text-center py-8 text-gray-500">
+            <BookOpen className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+            <p>No review yet</p>
+            <p className="text-sm mt-1">
+              Synthesize a structured review of the {workspace.papers.length} papers in this workspace. Papers that have not been analysed are skipped.
+            </p>
+          </div>
+        ) : (
+          <>
+            {showChanges && renderChanges()}
+
+            <div>
+              <p className="text-gray-800 whitespace-pre-line">{review.overview}</p>
+              <p className="text-xs text-gray-400 mt-2">
+                Version {review.version} • {review.papers.length} papers • {review.createdAt.toLocaleString()}
+                {review.provider && ` • ${review.provider}${review.model ? ` (${review.model})` : ''}`}
+              </p>
+            </div>
+
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Papers</h4>
+              <ol className="space-y-1 text-sm text-gray-700">
+                {review.papers.map((paper, index) => (
+                  <li key={paper.paperId}>
+                    [{index + 1}] {paper.title}
+                    {paper.authors.length > 0 && <span className="text-gray-500"> — {paper.authors.slice(0, 3).join(', ')}</span>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {review.themes.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2">Themes</h4>
+                <div className="space-y-3">
+                  {review.themes.map((theme, index) => (
+                    <div key={index} className="border border-gray-200 rounded-lg p-3">
+                      <p className="font-medium text-gray-900">{theme.title}</p>
+                      <p className="text-sm text-gray-700 mt-1">{theme.summary}</p>
+                      {renderAttribution(theme.paperIds)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {review.consensus.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                  <CheckCircle className="h-4 w-4 mr-1 text-green-600" />
+                  Consensus
+                </h4>
+                <div className="space-y-2">
+                  {review.consensus.map((item, index) => (
+                    <div key={index} className="bg-green-50 border-l-4 border-green-400 p-3 rounded">
+                      <p className="text-sm text-gray-800">{item.finding}</p>
+                      {renderAttribution(item.paperIds)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {review.conflicts.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-1 text-amber-600" />
+                  Conflicting Findings
+                </h4>
+                <div className="space-y-2">
+                  {review.conflicts.map((conflict, index) => (
+                    <div key={index} className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded">
+                      <p className="text-sm font-medium text-gray-900">{conflict.topic}</p>
+                      <ul className="mt-2 space-y-1">
+                        {conflict.positions.map((position, positionIndex) => (
+                          <li key={positionIndex} className="text-sm text-gray-700">
+                            <span className="font-medium" title={paperTitle(position.paperId)}>[{paperNumber(position.paperId)}]</span> {position.position}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {review.ethicsFlags.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                  <Shield className="h-4 w-4 mr-1" />
+                  Ethics Flags Across Papers
+                </h4>
+                <div className="space-y-2">
+                  {review.ethicsFlags.map(flag => (
+                    <div key={flag.type} className="flex items-start justify-between border border-gray-200 rounded-lg p-3">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 capitalize">{flag.type.replace('-', ' ')}</p>
+                        <p className="text-xs text-gray-500">{flag.count} flags in {flag.paperIds.length} of {review.papers.length} papers</p>
+                        {renderAttribution(flag.paperIds)}
+                      </div>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${severityStyles[flag.severity]}`}>
+                        {flag.severity}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {review.researchGaps.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-900 mb-2 flex items-center">
+                  <Target className="h-4 w-4 mr-1" />
+                  Research Gaps Across Papers
+                </h4>
+                <div className="space-y-2">
+                  {review.researchGaps.map((gap, index) => (
+                    <div key={index} className="flex items-start justify-between border border-gray-200 rounded-lg p-3">
+                      <div>
+                        <p className="text-sm text-gray-800">{gap.gap}</p>
+                        {renderAttribution(gap.paperIds)}
+                      </div>
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${severityStyles[gap.priority]}`}>
+                        {gap.priority}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiteratureReviewPanel;
@@ -134,6 +134,10 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({ isOpen, onClose
         return <UserPlus className="h-5 w-5 text-orange-500" />;
       case 'update':
         return <Info className="h-5 w-5 text-blue-500" />;
+      case 'review':
+        return <AlertTriangle className="h-5 w-5 text-amber-500" />;
+      case 'retraction':
+        return <AlertTriangle className="h-5 w-5 text-red-500" />;
       default:
         return <Bell className="h-5 w-5 text-gray-500" />;
     }
@@ -0,0 +1,73 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle, ScanLine, HelpCircle } from 'lucide-react';
+import { QuoteVerification } from '../types';
+
+interface QuoteVerificationBadgeProps {
+  verification?: QuoteVerification;
+}
+
+const QuoteVerificationBadge: React.FC<QuoteVerificationBadgeProps> = ({ verification }) => {
+  // Summaries generated before quote verification existed carry no status
+  if (!verification) return null;
+
+  const location = verification.pageNumber ? ` on p. ${verification.pageNumber}` : '';
+
+  // Text read by OCR can differ from the printed page, so the match is only as good as the recognition
+  const ocrWarning = verification.ocrConfidence !== undefined && (
+    <span
+      className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+      title="This page has no text layer and was read by OCR. Check the quote against the original PDF."
+    >
+      <ScanLine className="h-3 w-3" />
+      <span>OCR text ({Math.round(verification.ocrConfidence * 100)}% confidence)</span>
+    </span>
+  );
+
+  if (verification.status === 'verified') {
+    return (
+      <>
+        <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700">
+          <CheckCircle className="h-3 w-3" />
+          <span>Verified{location}</span>
+        </span>
+        {ocrWarning}
+      </>
+    );
+  }
+
+  if (verification.status === 'approximate') {
+    return (
+      <>
+        <span
+          className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700"
+          title={verification.matchedText ? `Closest text in paper: "${verification.matchedText}"` : undefined}
+        >
+          <AlertTriangle className="h-3 w-3" />
+          <span>Approximate match ({Math.round(verification.score * 100)}%){location}</span>
+        </span>
+        {ocrWarning}
+      </>
+    );
+  }
+
+  if (verification.status === 'too_short') {
+    return (
+      <span
+        className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+        title="A quote this short matches too many passages to count as evidence."
+      >
+        <HelpCircle className="h-3 w-3" />
+        <span>Too short to verify</span>
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+      <XCircle className="h-3 w-3" />
+      <span>Not found in paper</span>
+    </span>
+  );
+};
+
+export default QuoteVerificationBadge;
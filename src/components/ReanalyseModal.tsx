@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { X, RefreshCw, Compass } from 'lucide-react';
+import { AnalysisProfileId, ProfileSuggestion } from '../types';
+import { LLMProvider } from '../services/llm';
+import { AnalysisProfileService } from '../services/analysisProfiles';
+import LLMProviderSelector from './LLMProviderSelector';
+
+interface ReanalyseModalProps {
+  currentVersion?: number;
+  defaultProvider: LLMProvider;
+  defaultProfile: AnalysisProfileId;
+  suggestion: ProfileSuggestion;
+  isRunning: boolean;
+  error: string | null;
+  onConfirm: (provider: LLMProvider, profile: AnalysisProfileId) => void;
+  onClose: () => void;
+}
+
+const ReanalyseModal: React.FC<ReanalyseModalProps> = ({
+  currentVersion,
+  defaultProvider,
+  defaultProfile,
+  suggestion,
+  isRunning,
+  error,
+  onConfirm,
+  onClose
+}) => {
+  const [provider, setProvider] = useState<LLMProvider>(defaultProvider);
+  const [profile, setProfile] = useState<AnalysisProfileId>(defaultProfile);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <RefreshCw className="h-6 w-6 text-blue-600" />
+            <h2 className="text-xl font-semibold text-gray-900">Re-analyse Paper</h2>
+          </div>
+          {!isRunning && (
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="h-6 w-6" />
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-gray-600">
+            The paper is analysed again without using stored results. The new analysis is saved as
+            {currentVersion ? ` version ${currentVersion + 1}` : ' a new version'}; earlier versions, and the comments and feedback written on them, are kept.
+          </p>
+
+          <LLMProviderSelector selectedProvider={provider} onProviderChange={setProvider} />
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+              <Compass className="h-4 w-4 mr-2" />
+              Analysis Profile
+            </h3>
+            <div className="space-y-2">
+              {AnalysisProfileService.getProfiles().map(option => (
+                <label
+                  key={option.id}
+                  className={`flex items-start space-x-3 p-3 border rounded-lg cursor-pointer ${
+                    profile === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="reanalyse-profile"
+                    value={option.id}
+                    checked={profile === option.id}
+                    onChange={() => setProfile(option.id)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {option.name}
+                      {option.id === suggestion.profileId && (
+                        <span className="ml-2 text-xs font-normal text-blue-700">Suggested</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{suggestion.reason}.</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              disabled={isRunning}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(provider, profile)}
+              disabled={isRunning}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isRunning ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                  <span>Analysing...</span>
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="h-4 w-4" />
+                  <span>Re-analyse</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReanalyseModal;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { BookMarked, ChevronDown, ChevronRight, Download, ExternalLink, Search, AlertOctagon, Check } from 'lucide-react';
+import { Paper, ParsedReference } from '../types';
+import { CitationGraphService } from '../services/citationGraph';
+
+interface ReferencesPanelProps {
+  paper: Paper;
+}
+
+const ReferencesPanel: React.FC<ReferencesPanelProps> = ({ paper }) => {
+  const [references, setReferences] = useState<ParsedReference[]>(() => CitationGraphService.getReferences(paper));
+  const [expandedReference, setExpandedReference] = useState<number | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const [importing, setImporting] = useState<number | null>(null);
+  const [imported, setImported] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReferences(CitationGraphService.getReferences(paper));
+    setImported(new Set());
+  }, [paper]);
+
+  const retractedDois = new Set(
+    (paper.metadata?.citedRetractions || []).filter(cited => cited.status === 'retracted').map(cited => cited.doi)
+  );
+  const missingDois = references.filter(reference => !reference.doi && reference.title).length;
+  // Either cited in a way the parser does not recognise or listed without being cited
+  const uncited = references.filter(reference => reference.mentionCount === 0).length;
+
+  const handleResolve = async () => {
+    setIsResolving(true);
+    setError(null);
+    try {
+      setReferences(await CitationGraphService.resolveDois(paper, references));
+    } catch (resolveError) {
+      console.error('Error resolving reference DOIs:', resolveError);
+      setError('Could not look up DOIs. Please try again.');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const handleImport = async (reference: ParsedReference) => {
+    setImporting(reference.index);
+    setError(null);
+    try {
+      await CitationGraphService.importReference(reference, paper.id);
+      setImported(prev => new Set(prev).add(reference.index));
+    } catch (importError) {
+      console.error('Error importing reference:', importError);
+      setError(`Could not import ${reference.label}. Please try again.`);
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  if (references.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <BookMarked className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Reference List Found</h3>
+        <p className="text-gray-600">
+          No bibliography could be recognised in the text of this paper.
+        </p>
+        <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm text-blue-700">
+            References are read from a "References" or "Bibliography" section in numbered or author–year style.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-medium text-blue-900 mb-2 flex items-center">
+              <BookMarked className="h-5 w-5 mr-2" />
+              References ({references.length})
+            </h3>
+            <p className="text-blue-700 text-sm">
+              The paper's bibliography with the places it is cited in the text. Import any entry to analyse it as a paper.
+            </p>
+            {uncited > 0 && (
+              <p className="text-blue-700 text-sm mt-1">
+                {uncited} of {references.length} entries were not found cited in the text.
+              </p>
+            )}
+          </div>
+          {missingDois > 0 && (
+            <button
+              onClick={handleResolve}
+              disabled={isResolving}
+              className="flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex-shrink-0"
+            >
+              <Search className={`h-4 w-4 ${isResolving ? 'animate-pulse' : ''}`} />
+              <span>{isResolving ? 'Looking up...' : `Look up ${missingDois} missing DOIs`}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className="space-y-2">
+        {references.map(reference => (
+          <div key={reference.index} className="border border-gray-200 rounded-lg">
+            <div className="flex items-start justify-between p-4">
+              <button
+                onClick={() => setExpandedReference(expandedReference === reference.index ? null : reference.index)}
+                className="flex items-start space-x-3 text-left flex-1 min-w-0"
+              >
+                {expandedReference === reference.index ? (
+                  <ChevronDown className="h-4 w-4 mt-1 text-gray-400 flex-shrink-0" />
+                ) : (
+                  <ChevronRight className="h-4 w-4 mt-1 text-gray-400 flex-shrink-0" />
+                )}
+                <span className="text-sm font-mono text-gray-500 flex-shrink-0">{reference.label}</span>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">{reference.title || reference.raw}</p>
+                  <p className="text-xs text-gray-600 mt-1">
+                    {reference.authors.slice(0, 3).join(', ')}
+                    {reference.authors.length > 3 && ' et al.'}
+                    {reference.year && ` (${reference.year})`}
+                    {reference.venue && <span className="italic"> · {reference.venue}</span>}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                    {reference.doi && (
+                      <a
+                        href={`https://doi.org/${reference.doi}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={event => event.stopPropagation()}
+                        className="inline-flex items-center font-mono text-blue-600 hover:underline break-all"
+                      >
+                        <ExternalLink className="h-3 w-3 mr-1" />
+                        {reference.doi}
+                      </a>
+                    )}
+                    {reference.doiSource === 'crossref' && (
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">via Crossref</span>
+                    )}
+                    {reference.doi && retractedDois.has(reference.doi) && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+                        <AlertOctagon className="h-3 w-3 mr-1" />
+                        Retracted
+                      </span>
+                    )}
+                    <span className="text-gray-500">
+                      Cited {reference.mentionCount} {reference.mentionCount === 1 ? 'time' : 'times'}
+                    </span>
+                  </div>
+                </div>
+              </button>
+              <button
+                onClick={() => handleImport(reference)}
+                disabled={importing !== null || imported.has(reference.index)}
+                className="flex items-center space-x-1 ml-3 px-3 py-1 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex-shrink-0"
+              >
+                {imported.has(reference.index) ? <Check className="h-3 w-3 text-green-600" /> : <Download className="h-3 w-3" />}
+                <span>{imported.has(reference.index) ? 'Imported' : importing === reference.index ? 'Importing...' : 'Import'}</span>
+              </button>
+            </div>
+
+            {expandedReference === reference.index && (
+              <div className="px-4 pb-4 border-t border-gray-100 space-y-3">
+                <p className="mt-3 text-xs text-gray-500 font-mono bg-gray-50 p-2 rounded">{reference.raw}</p>
+                {reference.mentions.length > 0 ? (
+                  <ul className="space-y-2">
+                    {reference.mentions.map((mention, index) => (
+                      <li key={index} className="text-sm text-gray-700 border-l-2 border-blue-200 pl-3">
+                        {mention.pageNumber && <span className="text-xs text-gray-500 mr-2">p. {mention.pageNumber}</span>}
+                        …{mention.context}…
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-gray-500">No in-text citation of this entry was found.</p>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReferencesPanel;
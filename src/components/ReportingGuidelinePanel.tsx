@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ClipboardCheck, CheckCircle, AlertCircle, XCircle, BookOpen, Play, ExternalLink } from 'lucide-react';
+import { AnalysisProfileId, GuidelineAssessment, GuidelineItemStatus, Paper } from '../types';
+import { ReportingGuidelineService } from '../services/reportingGuidelines';
+import { LLMProvider } from '../services/llm';
+import QuoteVerificationBadge from './QuoteVerificationBadge';
+
+interface ReportingGuidelinePanelProps {
+  summaryId: string;
+  paper: Paper;
+  provider: LLMProvider;
+  profile?: AnalysisProfileId;
+}
+
+const statusStyles: Record<GuidelineItemStatus, { label: string; icon: typeof CheckCircle; color: string; bg: string }> = {
+  present: { label: 'Reported', icon: CheckCircle, color: 'text-green-600', bg: 'bg-green-50 border-green-200' },
+  partial: { label: 'Partially reported', icon: AlertCircle, color: 'text-yellow-600', bg: 'bg-yellow-50 border-yellow-200' },
+  missing: { label: 'Not reported', icon: XCircle, color: 'text-red-600', bg: 'bg-red-50 border-red-200' }
+};
+
+const ReportingGuidelinePanel: React.FC<ReportingGuidelinePanelProps> = ({ summaryId, paper, provider, profile }) => {
+  const guidelines = ReportingGuidelineService.getGuidelines();
+  const suggested = useMemo(() => ReportingGuidelineService.suggestGuideline(paper, profile), [paper, profile]);
+  const [guidelineId, setGuidelineId] = useState(suggested?.id || guidelines[0]?.id || '');
+  const [assessments, setAssessments] = useState<GuidelineAssessment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<GuidelineItemStatus | 'all'>('all');
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    ReportingGuidelineService.getAssessments(summaryId)
+      .then(loaded => {
+        if (!cancelled) setAssessments(loaded);
+      })
+      .catch(loadError => console.error('Error loading guideline assessments:', loadError))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [summaryId]);
+
+  const assessment = assessments.find(candidate => candidate.guidelineId === guidelineId);
+  const guideline = ReportingGuidelineService.getGuideline(guidelineId);
+
+  const handleCheck = async () => {
+    if (!guidelineId || isChecking) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      const result = await ReportingGuidelineService.assess(summaryId, paper, guidelineId, provider);
+      setAssessments(prev => [result, ...prev]);
+      setStatusFilter('all');
+    } catch (checkError) {
+      console.error('Error checking reporting guideline:', checkError);
+      setError(checkError instanceof Error ? checkError.message : 'Failed to check reporting guideline');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const sections = useMemo(() => {
+    const grouped = new Map<string, GuidelineAssessment['items']>();
+    (assessment?.items || [])
+      .filter(item => statusFilter === 'all' || item.status === statusFilter)
+      .forEach(item => grouped.set(item.section, [...(grouped.get(item.section) || []), item]));
+    return Array.from(grouped.entries());
+  }, [assessment, statusFilter]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="text-lg font-medium text-blue-900 mb-2 flex items-center">
+          <ClipboardCheck className="h-5 w-5 mr-2" />
+          Reporting Guideline Check
+        </h3>
+        <p className="text-blue-700 text-sm">
+          Scores the paper item by item against a published reporting checklist. Each item is marked as reported, partially reported or not reported, with the supporting passage and page where one was found.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Guideline</label>
+          <select
+            value={guidelineId}
+            onChange={(e) => setGuidelineId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          >
+            {guidelines.map(option => (
+              <option key={option.id} value={option.id}>
+                {option.name} {option.version}{option.id === suggested?.id ? ' (suggested)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={handleCheck}
+          disabled={!guidelineId || isChecking}
+          className="flex items-center space-x-2 px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Play className="h-4 w-4" />
+          <span>{assessment ? 'Run check again' : 'Run check'}</span>
+        </button>
+      </div>
+
+      {guideline && (
+        <p className="text-sm text-gray-600">
+          {guideline.description}
+          {guideline.url && (
+            <a href={guideline.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center ml-2 text-blue-600 hover:text-blue-800">
+              <ExternalLink className="h-3 w-3 mr-1" />
+              Checklist
+            </a>
+          )}
+        </p>
+      )}
+
+      {isChecking && (
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span>Checking {guideline?.items.length} items against the paper text...</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      {!assessment && !isChecking && (
+        <div className="text-center py-8">
+          <ClipboardCheck className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">This paper has not been checked against {guideline?.name || 'this guideline'} yet.</p>
+        </div>
+      )}
+
+      {assessment && (
+        <>
+          <div className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-900">
+                {assessment.guidelineName} {assessment.guidelineVersion} completeness
+              </span>
+              <span className="text-lg font-semibold text-gray-900">{Math.round(assessment.score * 100)}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2 mb-3">
+              <div
+                className={`h-2 rounded-full ${
+                  assessment.score >= 0.8 ? 'bg-green-500' : assessment.score >= 0.5 ? 'bg-yellow-500' : 'bg-red-500'
+                }`}
+                style={{ width: `${Math.round(assessment.score * 100)}%` }}
+              ></div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => setStatusFilter('all')}
+                className={`px-3 py-1 text-xs rounded-full border ${
+                  statusFilter === 'all' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'
+                }`}
+              >
+                All {assessment.items.length}
+              </button>
+              {(Object.keys(statusStyles) as GuidelineItemStatus[]).map(status => {
+                const style = statusStyles[status];
+                const Icon = style.icon;
+                return (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`flex items-center space-x-1 px-3 py-1 text-xs rounded-full border ${
+                      statusFilter === status ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'
+                    }`}
+                  >
+                    <Icon className={`h-3 w-3 ${style.color}`} />
+                    <span>{style.label} {assessment.counts[status]}</span>
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-400 mt-3">
+              Checked {assessment.createdAt.toLocaleString()}
+              {assessment.provider
+                ? ` • ${assessment.provider}${assessment.model ? ` (${assessment.model})` : ''}`
+                : ' • keyword matching (no AI provider was available)'}
+            </p>
+          </div>
+
+          {sections.map(([section, items]) => (
+            <div key={section}>
+              <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">{section}</h4>
+              <div className="space-y-3">
+                {items.map(item => {
+                  const style = statusStyles[item.status];
+                  const Icon = style.icon;
+                  return (
+                    <div key={item.itemId} className={`border rounded-lg p-4 ${style.bg}`}>
+                      <div className="flex items-start space-x-3">
+                        <Icon className={`h-5 w-5 mt-0.5 flex-shrink-0 ${style.color}`} />
+                        <div className="flex-1">
+                          <div className="flex items-center justify-between">
+                            <h5 className="font-medium text-gray-900">
+                              <span className="text-gray-500 mr-2">{item.itemId}</span>
+                              {item.topic}
+                            </h5>
+                            <span className={`text-xs font-medium ${style.color}`}>{style.label}</span>
+                          </div>
+                          <p className="text-sm text-gray-700 mt-1">{item.description}</p>
+
+                          {item.evidence && (
+                            <div className="bg-white border-l-4 border-gray-300 p-3 rounded mt-3">
+                              <p className="text-sm text-gray-700 italic">"{item.evidence}"</p>
+                              <div className="flex items-center justify-between mt-2">
+                                <span className="flex items-center space-x-1 text-xs text-gray-500">
+                                  <BookOpen className="h-3 w-3" />
+                                  <span>{item.pageNumber ? `Page ${item.pageNumber}` : 'Page unknown'}</span>
+                                </span>
+                                <QuoteVerificationBadge verification={item.verification} />
+                              </div>
+                            </div>
+                          )}
+
+                          {item.rationale && (
+                            <p className="text-xs text-gray-500 mt-2">
+                              {item.rationale}
+                              {item.assessedBy === 'keywords' && assessment.provider && ' (judged by keyword matching)'}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReportingGuidelinePanel;
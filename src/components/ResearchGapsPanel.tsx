@@ -1,18 +1,15 @@
 import React, { useState } from 'react';
-import { Lightbulb, TrendingUp, Target, ArrowRight, ChevronDown, ChevronRight } from 'lucide-react';
-
-interface ResearchGap {
-  gap: string;
-  description: string;
-  priority: 'high' | 'medium' | 'low';
-  suggestedApproach: string;
-}
+import { Lightbulb, TrendingUp, Target, ArrowRight, ChevronDown, ChevronRight, History } from 'lucide-react';
+import { ResearchGap } from '../types';
+import CommentsPanel from './CommentsPanel';
 
 interface ResearchGapsPanelProps {
-  researchGaps: ResearchGap[];
+  summaryId: string;
+  // Undefined for analyses saved before research gaps were persisted
+  researchGaps?: ResearchGap[];
 }
 
-const ResearchGapsPanel: React.FC<ResearchGapsPanelProps> = ({ researchGaps }) => {
+const ResearchGapsPanel: React.FC<ResearchGapsPanelProps> = ({ summaryId, researchGaps }) => {
   const [expandedGap, setExpandedGap] = useState<number | null>(null);
 
   const getPriorityColor = (priority: string) => {
@@ -33,6 +30,23 @@ const ResearchGapsPanel: React.FC<ResearchGapsPanelProps> = ({ researchGaps }) =
     }
   };
 
+  if (!researchGaps) {
+    return (
+      <div className="text-center py-8">
+        <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Research Gaps Not Available</h3>
+        <p className="text-gray-600">
+          This analysis was saved before research gaps were stored with summaries.
+        </p>
+        <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm text-blue-700">
+            Analyze the paper again to generate and keep its research gaps.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (researchGaps.length === 0) {
     return (
       <div className="text-center py-8">
@@ -144,6 +158,11 @@ const ResearchGapsPanel: React.FC<ResearchGapsPanelProps> = ({ researchGaps }) =
           <li>• Collaborate with experts in related fields for comprehensive solutions</li>
         </ul>
       </div>
+
+      <div>
+        <h4 className="font-medium text-gray-900 mb-3">Discussion</h4>
+        <CommentsPanel summaryId={summaryId} targetSection="gaps" />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { AlertOctagon, AlertTriangle, Info, ExternalLink, RefreshCw } from 'lucide-react';
+import { Paper, PaperMetadata } from '../types';
+import { RetractionService } from '../services/retractionCheck';
+
+interface RetractionBannerProps {
+  paper: Paper;
+}
+
+const bannerStyles = {
+  retracted: { icon: AlertOctagon, title: 'This paper has been retracted', box: 'border-red-300 bg-red-50', text: 'text-red-800', accent: 'text-red-600' },
+  'expression-of-concern': { icon: AlertTriangle, title: 'Expression of concern', box: 'border-amber-200 bg-amber-50', text: 'text-amber-800', accent: 'text-amber-600' },
+  corrected: { icon: Info, title: 'A correction has been published', box: 'border-blue-200 bg-blue-50', text: 'text-blue-800', accent: 'text-blue-600' }
+};
+
+const RetractionBanner: React.FC<RetractionBannerProps> = ({ paper }) => {
+  const [status, setStatus] = useState<Pick<PaperMetadata, 'retraction' | 'citedRetractions'>>({
+    retraction: paper.metadata?.retraction,
+    citedRetractions: paper.metadata?.citedRetractions
+  });
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus({ retraction: paper.metadata?.retraction, citedRetractions: paper.metadata?.citedRetractions });
+
+    // The stored result may be newer than the paper object, or stale enough to check again
+    RetractionService.getStatus(paper)
+      .then(loaded => {
+        if (!cancelled) setStatus(loaded);
+      })
+      .catch(error => console.error('Error loading retraction status:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paper]);
+
+  const handleCheckAgain = async () => {
+    setIsChecking(true);
+    try {
+      const updated = await RetractionService.recordCheck(paper, await RetractionService.checkPaper(paper));
+      setStatus({ retraction: updated.metadata?.retraction, citedRetractions: updated.metadata?.citedRetractions });
+    } catch (error) {
+      console.error('Error checking retraction status:', error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const retraction = status.retraction;
+  const citedRetracted = (status.citedRetractions || []).filter(cited => cited.status === 'retracted');
+
+  if ((!retraction || retraction.status === 'none') && citedRetracted.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      {retraction && retraction.status !== 'none' && (() => {
+        const style = bannerStyles[retraction.status];
+        const Icon = style.icon;
+        return (
+          <div className={`border-b px-6 py-4 ${style.box}`}>
+            <div className="flex items-start space-x-3">
+              <Icon className={`h-6 w-6 flex-shrink-0 ${style.accent}`} />
+              <div className="flex-1">
+                <p className={`font-semibold ${style.text}`}>{style.title}</p>
+                <ul className={`mt-1 space-y-1 text-sm ${style.text}`}>
+                  {retraction.notices.map((notice, index) => (
+                    <li key={index} className="flex items-center space-x-2">
+                      <span>{RetractionService.describeNotice(notice)}</span>
+                      {notice.noticeDoi && (
+                        <a
+                          href={`https://doi.org/${notice.noticeDoi}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`inline-flex items-center hover:underline ${style.accent}`}
+                        >
+                          <ExternalLink className="h-3 w-3 mr-1" />
+                          Read notice
+                        </a>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {retraction.status === 'retracted' && (
+                  <p className={`text-sm mt-2 ${style.text}`}>
+                    The analysis below describes a paper whose findings are no longer supported by its publisher.
+                  </p>
+                )}
+                <div className="flex items-center space-x-3 mt-2 text-xs text-gray-500">
+                  <span>Checked {new Date(retraction.checkedAt).toLocaleDateString()} via {retraction.source}</span>
+                  <button
+                    onClick={handleCheckAgain}
+                    disabled={isChecking}
+                    className="inline-flex items-center text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  >
+                    <RefreshCw className={`h-3 w-3 mr-1 ${isChecking ? 'animate-spin' : ''}`} />
+                    Check again
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })()}
+
+      {citedRetracted.length > 0 && (
+        <div className="border-b border-amber-200 bg-amber-50 px-6 py-3">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 text-sm text-amber-800">
+              <p>
+                This paper cites {citedRetracted.length} retracted {citedRetracted.length === 1 ? 'work' : 'works'}:
+              </p>
+              <ul className="mt-1 space-y-1 text-xs">
+                {citedRetracted.map(cited => (
+                  <li key={cited.doi}>
+                    <a
+                      href={`https://doi.org/${cited.doi}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-amber-700 hover:underline break-all"
+                    >
+                      {cited.doi}
+                    </a>
+                    {cited.notices[0] && <span> — {RetractionService.describeNotice(cited.notices[0])}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RetractionBanner;
@@ -28,6 +28,9 @@ const ShareModal: React.FC<ShareModalProps> = ({ summaryId, paperTitle, onClose
       limitations: true,
       citations: true,
       ethicsAnalysis: true,
+      reportingGuidelines: true,
+      disclosures: true,
+      researchGaps: true,
       xaiData: false,
       comments: false,
       metadata: true
@@ -326,6 +329,9 @@ const ShareModal: React.FC<ShareModalProps> = ({ summaryId, paperTitle, onClose
                     { key: 'limitations', label: 'Limitations', description: 'Study limitations' },
                     { key: 'citations', label: 'Citations', description: 'Referenced quotes' },
                     { key: 'ethicsAnalysis', label: 'Ethics Analysis', description: 'Bias and ethics flags' },
+                    { key: 'reportingGuidelines', label: 'Reporting Guidelines', description: 'Checklist results, where a check was run' },
+                    { key: 'disclosures', label: 'Disclosure Statements', description: 'Funding, interests, availability, ethics and registration' },
+                    { key: 'researchGaps', label: 'Research Gaps', description: 'Future work opportunities' },
                     { key: 'xaiData', label: 'XAI Data', description: 'Explainable AI details' },
                     { key: 'comments', label: 'Comments', description: 'Collaborative comments' },
                     { key: 'metadata', label: 'Metadata', description: 'Paper information' }
@@ -1,31 +1,111 @@
-import React, { useState } from 'react';
-import { Paper, Summary } from '../types';
-import { FileText, Eye, Shield, MessageSquare, Book, Share2, Users, Lightbulb } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AnalysisProfileId, LibrarySearchResult, Paper, Summary } from '../types';
+import { FileText, Eye, Shield, MessageSquare, Book, Share2, Users, Lightbulb, AlertTriangle, MessageCircleQuestion, History, RefreshCw, Compass, ClipboardCheck, BookMarked, Table } from 'lucide-react';
+import { LLMProvider } from '../services/llm';
+import { ApiService } from '../services/api';
+import { AnalysisProfileService } from '../services/analysisProfiles';
+import { LibrarySearchService } from '../services/librarySearch';
+import { DocumentTableService } from '../services/documentTables';
 import XAIPanel from './XAIPanel';
 import EthicsPanel from './EthicsPanel';
 import FeedbackPanel from './FeedbackPanel';
 import CommentsPanel from './CommentsPanel';
 import ResearchGapsPanel from './ResearchGapsPanel';
+import AskPanel from './AskPanel';
+import ReportingGuidelinePanel from './ReportingGuidelinePanel';
+import DisclosureStatementsPanel from './DisclosureStatementsPanel';
 import DisclosureModal from './DisclosureModal';
 import ShareModal from './ShareModal';
+import QuoteVerificationBadge from './QuoteVerificationBadge';
+import SummaryVersionsPanel from './SummaryVersionsPanel';
+import ReanalyseModal from './ReanalyseModal';
+import RetractionBanner from './RetractionBanner';
+import ReferencesPanel from './ReferencesPanel';
+import TablesFiguresPanel from './TablesFiguresPanel';
 
 interface SummaryDisplayProps {
   paper: Paper;
   summary: Summary;
+  provider?: LLMProvider;
+  // Library search result to open at: its key point, ethics flag or passage is highlighted
+  focus?: LibrarySearchResult;
 }
 
-const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
-  const [activeTab, setActiveTab] = useState<'summary' | 'xai' | 'ethics' | 'gaps' | 'feedback' | 'comments'>('summary');
+const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary: initialSummary, provider = 'openai', focus }) => {
+  const [activeTab, setActiveTab] = useState<'summary' | 'xai' | 'ethics' | 'guidelines' | 'references' | 'tables' | 'gaps' | 'ask' | 'feedback' | 'comments' | 'versions'>(
+    focus?.source === 'ethics_flag' ? 'ethics' : 'summary'
+  );
+  const [summary, setSummary] = useState<Summary>(initialSummary);
+  const [versions, setVersions] = useState<Summary[]>([initialSummary]);
   const [showDisclosure, setShowDisclosure] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showReanalyse, setShowReanalyse] = useState(false);
+  const [isReanalysing, setIsReanalysing] = useState(false);
+  const [reanalyseError, setReanalyseError] = useState<string | null>(null);
+  const [showDegradedDetails, setShowDegradedDetails] = useState(false);
+  const [tableFocus, setTableFocus] = useState<string | null>(null);
+  const degraded = summary.degraded || [];
+  const isFallback = degraded.some(field => field.path === '$');
+  const latestVersion = versions[0]?.version;
+
+  useEffect(() => {
+    setSummary(initialSummary);
+    setVersions([initialSummary]);
+    if (initialSummary.id.startsWith('temp-') || initialSummary.paperId.startsWith('temp-')) return;
+
+    let cancelled = false;
+    ApiService.getSummaryVersions(initialSummary.paperId).then(loaded => {
+      if (!cancelled && loaded.length > 0) setVersions(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [initialSummary]);
+
+  useEffect(() => {
+    if (!focus) return;
+    setActiveTab(focus.source === 'ethics_flag' ? 'ethics' : 'summary');
+    // Wait for the tab to render before scrolling to the match
+    const timer = setTimeout(() => {
+      document.getElementById('search-focus')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [focus]);
+
+  const handleReanalyse = async (selectedProvider: LLMProvider, profile: AnalysisProfileId) => {
+    setIsReanalysing(true);
+    setReanalyseError(null);
+
+    try {
+      const analysedPaper = { ...paper, id: summary.paperId };
+      const { summary: next } = await ApiService.generateSummary(analysedPaper, selectedProvider, { force: true, profile });
+      setVersions(previous => [next, ...previous.filter(version => version.id !== next.id)]);
+      setSummary(next);
+      setShowReanalyse(false);
+      setActiveTab('versions');
+
+      LibrarySearchService.indexSummary(analysedPaper, next)
+        .catch(indexError => console.error('❌ Error indexing analysis for search:', indexError));
+    } catch (error) {
+      console.error('❌ Error re-analysing paper:', error);
+      setReanalyseError(error instanceof Error ? error.message : 'Re-analysis failed');
+    } finally {
+      setIsReanalysing(false);
+    }
+  };
 
   const tabs = [
     { id: 'summary', label: 'Summary', icon: FileText },
     { id: 'xai', label: 'Explainable AI', icon: Eye },
     { id: 'ethics', label: 'Ethics Analysis', icon: Shield },
+    { id: 'guidelines', label: 'Reporting', icon: ClipboardCheck },
+    { id: 'references', label: 'References', icon: BookMarked },
+    { id: 'tables', label: 'Tables & Figures', icon: Table },
     { id: 'gaps', label: 'Research Gaps', icon: Lightbulb },
+    { id: 'ask', label: 'Ask', icon: MessageCircleQuestion },
     { id: 'comments', label: 'Comments', icon: MessageSquare },
     { id: 'feedback', label: 'Feedback', icon: Users },
+    { id: 'versions', label: versions.length > 1 ? `Versions (${versions.length})` : 'Versions', icon: History },
   ];
 
   return (
@@ -39,6 +119,38 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
               {paper.authors.join(', ')} • {paper.metadata?.journal} • {paper.metadata?.publishedDate}
             </p>
             <div className="flex items-center space-x-4 text-sm">
+              {summary.version && (
+                <div className="flex items-center space-x-1">
+                  <History className="h-4 w-4 text-gray-500" />
+                  {versions.length > 1 ? (
+                    <select
+                      value={summary.id}
+                      onChange={(e) => {
+                        const selected = versions.find(version => version.id === e.target.value);
+                        if (selected) setSummary(selected);
+                      }}
+                      className="text-gray-600 border border-gray-300 rounded px-1 py-0.5 text-sm"
+                    >
+                      {versions.map(version => (
+                        <option key={version.id} value={version.id}>
+                          Version {version.version} of {latestVersion}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-gray-600">Version {summary.version}</span>
+                  )}
+                </div>
+              )}
+              {summary.profile && summary.profile !== AnalysisProfileService.DEFAULT_PROFILE && (
+                <div
+                  className="flex items-center space-x-1"
+                  title={AnalysisProfileService.getProfile(summary.profile).description}
+                >
+                  <Compass className="h-4 w-4 text-blue-500" />
+                  <span className="text-gray-600">{AnalysisProfileService.getProfile(summary.profile).name} profile</span>
+                </div>
+              )}
               <div className="flex items-center space-x-1">
                 <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                 <span className="text-gray-600">Confidence: {Math.round(summary.confidence * 100)}%</span>
@@ -64,6 +176,16 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
             </div>
           </div>
           <div className="flex items-center space-x-3">
+            <button
+              onClick={() => {
+                setReanalyseError(null);
+                setShowReanalyse(true);
+              }}
+              className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Re-analyse</span>
+            </button>
             <button
               onClick={() => setShowShareModal(true)}
               className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
@@ -82,6 +204,40 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
         </div>
       </div>
 
+      <RetractionBanner paper={paper} />
+
+      {degraded.length > 0 && (
+        <div className="border-b border-amber-200 bg-amber-50 px-6 py-3">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+            <div className="flex-1 text-sm">
+              <p className="text-amber-800">
+                {isFallback
+                  ? 'This analysis was generated by heuristics because no AI model response was available. Treat it as a rough outline only.'
+                  : `${degraded.length} ${degraded.length === 1 ? 'value was' : 'values were'} filled in or corrected automatically because the AI model did not provide ${degraded.length === 1 ? 'it' : 'them'} in the expected form.`}
+              </p>
+              {!isFallback && (
+                <button
+                  onClick={() => setShowDegradedDetails(!showDegradedDetails)}
+                  className="text-amber-700 hover:text-amber-900 font-medium mt-1"
+                >
+                  {showDegradedDetails ? 'Hide details' : 'Show details'}
+                </button>
+              )}
+              {showDegradedDetails && (
+                <ul className="mt-2 space-y-1 text-xs text-amber-700">
+                  {degraded.map((field, index) => (
+                    <li key={index}>
+                      <code className="bg-amber-100 px-1 rounded">{field.path}</code> {field.reason}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="border-b border-gray-200">
         <nav className="flex space-x-8 px-6">
@@ -90,7 +246,10 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
             return (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as any)}
+                onClick={() => {
+                  setActiveTab(tab.id as any);
+                  setTableFocus(null);
+                }}
                 className={`flex items-center space-x-2 py-4 px-1 border-b-2 font-medium text-sm ${
                   activeTab === tab.id
                     ? 'border-blue-500 text-blue-600'
@@ -107,9 +266,28 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
 
       {/* Content */}
       <div className="p-6">
+        {versions.length > 1 && (activeTab === 'comments' || activeTab === 'feedback') && (
+          <p className="text-xs text-gray-500 mb-4">
+            Showing {activeTab} written on version {summary.version}. Switch versions in the header to see the others.
+          </p>
+        )}
+
         {activeTab === 'summary' && (
           <div className="space-y-6">
-            <div>
+            {focus?.source === 'passage' && (
+              <div id="search-focus" className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded">
+                <p className="text-xs font-medium text-yellow-800 mb-2">
+                  Matching passage from the paper
+                  {focus.pageStart && ` (${focus.pageStart === focus.pageEnd ? `p. ${focus.pageStart}` : `pp. ${focus.pageStart}-${focus.pageEnd}`})`}
+                </p>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{focus.content}</p>
+              </div>
+            )}
+
+            <div
+              id={focus?.source === 'summary' ? 'search-focus' : undefined}
+              className={focus?.source === 'summary' ? 'ring-2 ring-blue-400 rounded-lg p-3 -m-3' : undefined}
+            >
               <h3 className="text-lg font-medium text-gray-900 mb-3">Summary</h3>
               <p className="text-gray-700 leading-relaxed">{summary.content}</p>
             </div>
@@ -117,8 +295,14 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-3">Key Points</h3>
               <div className="space-y-3">
-                {summary.keyPoints.map((point) => (
-                  <div key={point.id} className="flex items-start space-x-3">
+                {summary.keyPoints.map((point, index) => (
+                  <div
+                    key={point.id}
+                    id={focus?.source === 'key_point' && focus.sourceIndex === index ? 'search-focus' : undefined}
+                    className={`flex items-start space-x-3 ${
+                      focus?.source === 'key_point' && focus.sourceIndex === index ? 'bg-yellow-50 ring-2 ring-yellow-300 rounded-lg p-2' : ''
+                    }`}
+                  >
                     <div className={`w-2 h-2 rounded-full mt-2 ${
                       point.importance === 'high' ? 'bg-red-500' :
                       point.importance === 'medium' ? 'bg-yellow-500' : 'bg-green-500'
@@ -126,7 +310,24 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
                     <div className="flex-1">
                       <p className="text-gray-700">{point.content}</p>
                       <p className="text-xs text-gray-500 mt-1">
-                        Source: {point.sourceSection} • Confidence: {Math.round(point.confidence * 100)}%
+                        Source: {point.sourceSection}
+                        {point.sourcePages && point.sourcePages.length > 0 && (
+                          <> ({point.sourcePages.length === 1 ? 'p.' : 'pp.'} {point.sourcePages.join(', ')})</>
+                        )} • Confidence: {Math.round(point.confidence * 100)}%
+                        {DocumentTableService.tableFor(paper.metadata?.tables || [], point.sourceSection) && (
+                          <>
+                            {' • '}
+                            <button
+                              onClick={() => {
+                                setTableFocus(point.id);
+                                setActiveTab('tables');
+                              }}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Check against {DocumentTableService.referenceIn(point.sourceSection)}
+                            </button>
+                          </>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -146,16 +347,30 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
               </ul>
             </div>
 
+            <DisclosureStatementsPanel paper={paper} />
+
             <div>
               <h3 className="text-lg font-medium text-gray-900 mb-3">Citations</h3>
               <div className="space-y-3">
                 {summary.citations.map((citation) => (
-                  <div key={citation.id} className="bg-gray-50 p-3 rounded-lg">
+                  <div
+                    key={citation.id}
+                    className={`p-3 rounded-lg ${
+                      citation.verification?.status === 'not_found'
+                        ? 'bg-red-50 border border-red-200'
+                        : citation.verification?.status === 'approximate'
+                          ? 'bg-amber-50 border border-amber-200'
+                          : 'bg-gray-50'
+                    }`}
+                  >
                     <p className="text-gray-700 italic">"{citation.text}"</p>
-                    <p className="text-xs text-gray-500 mt-2">
-                      {citation.sourceLocation} {citation.pageNumber ? `(p. ${citation.pageNumber})` : ''} • 
-                      Confidence: {Math.round(citation.confidence * 100)}%
-                    </p>
+                    <div className="flex items-center justify-between mt-2">
+                      <p className="text-xs text-gray-500">
+                        {citation.sourceLocation} {citation.pageNumber ? `(p. ${citation.pageNumber})` : ''} • 
+                        Confidence: {Math.round(citation.confidence * 100)}%
+                      </p>
+                      <QuoteVerificationBadge verification={citation.verification} />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -164,10 +379,32 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
         )}
 
         {activeTab === 'xai' && <XAIPanel xaiData={summary.xaiData} />}
-        {activeTab === 'ethics' && <EthicsPanel ethicsFlags={summary.ethicsFlags} />}
-        {activeTab === 'gaps' && <ResearchGapsPanel researchGaps={summary.researchGaps || []} />}
+        {activeTab === 'ethics' && (
+          <EthicsPanel
+            ethicsFlags={summary.ethicsFlags}
+            highlightIndex={focus?.source === 'ethics_flag' ? focus.sourceIndex : undefined}
+          />
+        )}
+        {activeTab === 'guidelines' && (
+          <ReportingGuidelinePanel
+            key={summary.id}
+            summaryId={summary.id}
+            paper={paper}
+            provider={provider}
+            profile={summary.profile}
+          />
+        )}
+        {activeTab === 'references' && <ReferencesPanel paper={paper} />}
+        {activeTab === 'tables' && (
+          <TablesFiguresPanel paper={paper} keyPoints={summary.keyPoints} focusKeyPointId={tableFocus} />
+        )}
+        {activeTab === 'gaps' && <ResearchGapsPanel key={summary.id} summaryId={summary.id} researchGaps={summary.researchGaps} />}
+        {activeTab === 'ask' && <AskPanel key={summary.id} summaryId={summary.id} paper={paper} provider={provider} />}
         {activeTab === 'comments' && <CommentsPanel summaryId={summary.id} />}
-        {activeTab === 'feedback' && <FeedbackPanel summaryId={summary.id} />}
+        {activeTab === 'feedback' && <FeedbackPanel key={summary.id} summaryId={summary.id} />}
+        {activeTab === 'versions' && (
+          <SummaryVersionsPanel versions={versions} current={summary} onSelectVersion={setSummary} />
+        )}
       </div>
 
       {showDisclosure && (
@@ -177,6 +414,19 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ paper, summary }) => {
         />
       )}
 
+      {showReanalyse && (
+        <ReanalyseModal
+          currentVersion={latestVersion}
+          defaultProvider={provider}
+          defaultProfile={summary.profile || AnalysisProfileService.DEFAULT_PROFILE}
+          suggestion={AnalysisProfileService.suggestProfile(paper)}
+          isRunning={isReanalysing}
+          error={reanalyseError}
+          onConfirm={handleReanalyse}
+          onClose={() => setShowReanalyse(false)}
+        />
+      )}
+
       {showShareModal && (
         <ShareModal
           summaryId={summary.id}
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { History, Plus, Minus, ArrowRight, TrendingUp, TrendingDown } from 'lucide-react';
+import { ListDiff, Summary } from '../types';
+import { SummaryDiffService } from '../services/summaryDiff';
+import { AnalysisProfileService } from '../services/analysisProfiles';
+
+interface SummaryVersionsPanelProps {
+  versions: Summary[];
+  current: Summary;
+  onSelectVersion: (summary: Summary) => void;
+}
+
+const versionLabel = (summary: Summary) =>
+  `Version ${summary.version ?? '?'} • ${summary.generatedAt.toLocaleDateString()}${summary.model ? ` • ${summary.model}` : ''}`;
+
+const SummaryVersionsPanel: React.FC<SummaryVersionsPanelProps> = ({ versions, current, onSelectVersion }) => {
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Default to comparing the displayed version with the one before it
+  useEffect(() => {
+    const index = versions.findIndex(v => v.id === current.id);
+    setToId(current.id);
+    setFromId(versions[index + 1]?.id || versions.find(v => v.id !== current.id)?.id || null);
+  }, [versions, current.id]);
+
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const diff = from && to && from.id !== to.id ? SummaryDiffService.diff(from, to) : null;
+
+  const renderList = <T,>(title: string, list: ListDiff<T>, describe: (item: T) => React.ReactNode) => (
+    <div>
+      <h4 className="font-medium text-gray-900 mb-2">
+        {title}
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {list.added.length} added • {list.removed.length} removed • {list.changed.length} changed • {list.unchanged} unchanged
+        </span>
+      </h4>
+      {list.added.length + list.removed.length + list.changed.length === 0 ? (
+        <p className="text-sm text-gray-500">No differences.</p>
+      ) : (
+        <ul className="space-y-2">
+          {list.added.map((item, index) => (
+            <li key={`added-${index}`} className="flex items-start space-x-2 bg-green-50 border-l-4 border-green-400 p-2 rounded text-sm">
+              <Plus className="h-4 w-4 text-green-600 mt-0.5 flex-shrink-0" />
+              <div className="text-gray-800">{describe(item)}</div>
+            </li>
+          ))}
+          {list.removed.map((item, index) => (
+            <li key={`removed-${index}`} className="flex items-start space-x-2 bg-red-50 border-l-4 border-red-400 p-2 rounded text-sm">
+              <Minus className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+              <div className="text-gray-800 line-through decoration-red-300">{describe(item)}</div>
+            </li>
+          ))}
+          {list.changed.map((pair, index) => (
+            <li key={`changed-${index}`} className="bg-amber-50 border-l-4 border-amber-400 p-2 rounded text-sm space-y-1">
+              <div className="text-gray-500">{describe(pair.before)}</div>
+              <div className="flex items-start space-x-2">
+                <ArrowRight className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                <div className="text-gray-800">{describe(pair.after)}</div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="text-lg font-medium text-blue-900 mb-2 flex items-center">
+          <History className="h-5 w-5 mr-2" />
+          Analysis Versions
+        </h3>
+        <p className="text-blue-700 text-sm">
+          Each re-analysis is kept as a new version. Comments and feedback belong to the version they were written on.
+        </p>
+      </div>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {versions.map(version => (
+          <button
+            key={version.id}
+            onClick={() => onSelectVersion(version)}
+            className={`w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50 ${
+              version.id === current.id ? 'bg-blue-50' : ''
+            }`}
+          >
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                Version {version.version ?? '?'}
+                {version.id === current.id && <span className="ml-2 text-xs text-blue-700">(displayed)</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                {version.generatedAt.toLocaleString()}
+                {version.provider && ` • ${version.provider}${version.model ? ` (${version.model})` : ''}`}
+                {version.profile && ` • ${AnalysisProfileService.getProfile(version.profile).name} profile`}
+              </p>
+            </div>
+            <div className="text-right text-xs text-gray-600">
+              <p>Confidence {Math.round(version.confidence * 100)}%</p>
+              <p>{version.keyPoints.length} key points • {version.ethicsFlags.length} ethics flags</p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {versions.length < 2 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          Only one version exists. Re-analyse the paper to create another and compare them here.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center md:space-x-3 space-y-2 md:space-y-0">
+            <select
+              value={fromId || ''}
+              onChange={(e) => setFromId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {versions.map(version => <option key={version.id} value={version.id}>{versionLabel(version)}</option>)}
+            </select>
+            <ArrowRight className="h-4 w-4 text-gray-400 hidden md:block" />
+            <select
+              value={toId || ''}
+              onChange={(e) => setToId(e.target.value)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {versions.map(version => <option key={version.id} value={version.id}>{versionLabel(version)}</option>)}
+            </select>
+          </div>
+
+          {!diff ? (
+            <p className="text-sm text-gray-500">Select two different versions to compare.</p>
+          ) : (
+            <>
+              <div className="flex items-center space-x-3 p-4 border border-gray-200 rounded-lg">
+                {diff.confidence.delta >= 0
+                  ? <TrendingUp className="h-5 w-5 text-green-600" />
+                  : <TrendingDown className="h-5 w-5 text-red-600" />}
+                <span className="text-sm text-gray-700">
+                  Confidence {Math.round(diff.confidence.before * 100)}% → {Math.round(diff.confidence.after * 100)}%
+                  <span className={`ml-2 font-medium ${diff.confidence.delta >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    ({diff.confidence.delta >= 0 ? '+' : ''}{Math.round(diff.confidence.delta * 100)} points)
+                  </span>
+                </span>
+              </div>
+
+              {renderList('Key Points', diff.keyPoints, point => (
+                <>
+                  {point.content}
+                  <span className="ml-2 text-xs text-gray-500">({point.importance})</span>
+                </>
+              ))}
+              {renderList('Ethics Flags', diff.ethicsFlags, flag => (
+                <>
+                  <span className="font-medium capitalize">{flag.type.replace('-', ' ')}</span>
+                  <span className="ml-1 text-xs text-gray-500">({flag.severity})</span>: {flag.description}
+                </>
+              ))}
+              {renderList('Limitations', diff.limitations, limitation => limitation)}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SummaryVersionsPanel;
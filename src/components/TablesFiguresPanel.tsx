@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Table, Image } from 'lucide-react';
+import { ExtractedTable, KeyPoint, Paper } from '../types';
+import { DocumentTableService } from '../services/documentTables';
+
+interface TablesFiguresPanelProps {
+  paper: Paper;
+  keyPoints: KeyPoint[];
+  // Key point to open with, from the "Table N" link in the summary
+  focusKeyPointId?: string | null;
+}
+
+const TablesFiguresPanel: React.FC<TablesFiguresPanelProps> = ({ paper, keyPoints, focusKeyPointId }) => {
+  const tables = paper.metadata?.tables || [];
+  const figures = (paper.metadata?.captions || []).filter(caption => caption.kind === 'figure');
+  const citingPoints = keyPoints.filter(point => DocumentTableService.tableFor(tables, point.sourceSection));
+  const [selectedPointId, setSelectedPointId] = useState<string | null>(focusKeyPointId || null);
+
+  useEffect(() => {
+    setSelectedPointId(focusKeyPointId || null);
+    if (!focusKeyPointId) return;
+    // Wait for the tab to render before scrolling to the table
+    const timer = setTimeout(() => {
+      document.getElementById('table-focus')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 50);
+    return () => clearTimeout(timer);
+  }, [focusKeyPointId]);
+
+  const selectedPoint = citingPoints.find(point => point.id === selectedPointId);
+  const selectedTable = selectedPoint ? DocumentTableService.tableFor(tables, selectedPoint.sourceSection) : null;
+  const highlighted = selectedPoint && selectedTable
+    ? DocumentTableService.matchingCells(selectedTable, selectedPoint.content)
+    : new Set<string>();
+
+  if (tables.length === 0 && figures.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Table className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">No Tables or Figures Found</h3>
+        <p className="text-gray-600">
+          No tables or figure captions could be recognised in the layout of this paper.
+        </p>
+        <div className="mt-4 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm text-blue-700">
+            Tables are read from uploaded files: rebuilt from text positions in PDFs, or taken from the markup of DOCX, LaTeX, HTML and JATS files. Scanned pages and papers added by link without a PDF have none.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const renderTable = (table: ExtractedTable, index: number) => {
+    const isSelected = table === selectedTable;
+    return (
+      <div
+        key={index}
+        id={isSelected ? 'table-focus' : undefined}
+        className={`border rounded-lg ${isSelected ? 'border-yellow-300 ring-2 ring-yellow-300' : 'border-gray-200'}`}
+      >
+        <div className="p-4 border-b border-gray-200">
+          <p className="text-sm font-medium text-gray-900">
+            {table.label || 'Untitled table'}
+            {table.pageNumber > 0 && <span className="text-xs font-normal text-gray-500 ml-2">p. {table.pageNumber}</span>}
+          </p>
+          {table.caption && <p className="text-sm text-gray-600 mt-1">{table.caption}</p>}
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <tbody>
+              {table.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium text-gray-900' : 'border-t border-gray-100 text-gray-700'}>
+                  {row.map((cell, columnIndex) => (
+                    <td
+                      key={columnIndex}
+                      className={`px-3 py-2 whitespace-nowrap ${
+                        isSelected && highlighted.has(`${rowIndex}:${columnIndex}`) ? 'bg-yellow-100' : ''
+                      }`}
+                    >
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-4 rounded-lg">
+        <h3 className="text-lg font-medium text-blue-900 mb-2 flex items-center">
+          <Table className="h-5 w-5 mr-2" />
+          Tables & Figures ({tables.length} tables, {figures.length} figures)
+        </h3>
+        <p className="text-blue-700 text-sm">
+          Tables extracted from the uploaded paper. Select a key point to check it against the table it cites; cells with the same numbers are highlighted.
+        </p>
+      </div>
+
+      {citingPoints.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Key points citing a table</h4>
+          <div className="space-y-2">
+            {citingPoints.map(point => (
+              <button
+                key={point.id}
+                onClick={() => setSelectedPointId(selectedPointId === point.id ? null : point.id)}
+                className={`w-full text-left p-3 rounded-lg border text-sm ${
+                  selectedPointId === point.id
+                    ? 'bg-yellow-50 border-yellow-300'
+                    : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <p className="text-gray-700">{point.content}</p>
+                <p className="text-xs text-gray-500 mt-1">Source: {point.sourceSection}</p>
+              </button>
+            ))}
+          </div>
+          {selectedPoint && highlighted.size === 0 && (
+            <p className="text-xs text-amber-700 mt-2">
+              None of the numbers in this key point appear in {selectedTable?.label}. Check the table before relying on it.
+            </p>
+          )}
+        </div>
+      )}
+
+      {tables.length > 0 && (
+        <div className="space-y-4">
+          {tables.map(renderTable)}
+        </div>
+      )}
+
+      {figures.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Figure captions</h4>
+          <div className="space-y-2">
+            {figures.map(figure => (
+              <div key={figure.label} className="flex items-start space-x-3 p-3 bg-gray-50 rounded-lg">
+                <Image className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                <div>
+                  <p className="text-sm text-gray-700">
+                    <span className="font-medium text-gray-900">{figure.label}.</span> {figure.text}
+                  </p>
+                  {figure.pageNumber > 0 && <p className="text-xs text-gray-500 mt-1">p. {figure.pageNumber}</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TablesFiguresPanel;
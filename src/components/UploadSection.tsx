@@ -1,10 +1,12 @@
 import React, { useState, useCallback } from 'react';
-import { Upload, FileText, Link, AlertCircle, CheckCircle, FileCheck, Search, BookOpen, ExternalLink, X } from 'lucide-react';
-import { Paper } from '../types';
+import { Upload, FileText, Link, AlertCircle, CheckCircle, FileCheck, Search, BookOpen, ExternalLink, X, Copy, Compass } from 'lucide-react';
+import { AnalysisOptions, AnalysisProfileId, Paper } from '../types';
 import { ApiService } from '../services/api';
+import { DocumentIngestionService } from '../services/documentIngestion';
+import { AnalysisProfileService } from '../services/analysisProfiles';
 
 interface UploadSectionProps {
-  onPaperSubmit: (paper: Paper) => void;
+  onPaperSubmit: (paper: Paper, options?: AnalysisOptions) => void;
 }
 
 const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
@@ -19,6 +21,10 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
     completed: boolean;
     error?: boolean;
   } | null>(null);
+  // Paper that matched one already in the user's library or workspaces, awaiting a choice
+  const [duplicatePaper, setDuplicatePaper] = useState<Paper | null>(null);
+  // 'auto' picks a profile from the paper's categories, journal and wording once it is loaded
+  const [profileChoice, setProfileChoice] = useState<AnalysisProfileId | 'auto'>('auto');
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -36,14 +42,25 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
     setDragActive(false);
 
     const files = Array.from(e.dataTransfer.files);
-    const pdfFile = files.find(file => file.type === 'application/pdf');
+    const paperFile = files.find(file => DocumentIngestionService.formatFromName(file));
     
-    if (pdfFile) {
-      handleFileUpload(pdfFile);
+    if (paperFile) {
+      handleFileUpload(paperFile);
     } else {
-      alert('Please drop a PDF file');
+      alert('Please drop a PDF, Word, LaTeX, HTML or JATS XML file');
     }
-  }, []);
+    // Recreated on profile change so dropped files use the current selection
+  }, [profileChoice]);
+
+  const submitPaper = (paper: Paper, options: AnalysisOptions = {}) => {
+    let profile = profileChoice;
+    if (profile === 'auto') {
+      const suggestion = AnalysisProfileService.suggestProfile(paper);
+      console.log(`🧭 Analysis profile: ${suggestion.profileId} (${suggestion.reason})`);
+      profile = suggestion.profileId;
+    }
+    onPaperSubmit(paper, { ...options, profile });
+  };
 
   const resetProgress = () => {
     console.log('🔄 Resetting upload progress state');
@@ -59,9 +76,11 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
     
     try {
       // Validate file
-      if (!file.type.includes('pdf')) {
-        throw new Error('Please select a PDF file');
+      const format = await DocumentIngestionService.detectFormat(file);
+      if (!format) {
+        throw new Error('Please select a PDF, Word (.docx), LaTeX, HTML or JATS XML file');
       }
+      const formatLabel = DocumentIngestionService.formatLabel(format);
 
       if (file.size > 50 * 1024 * 1024) {
         throw new Error('File size too large. Please use a file smaller than 50MB');
@@ -69,7 +88,7 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
 
       // Show progress stages
       setExtractionProgress({
-        stage: 'Validating PDF file',
+        stage: `Validating ${formatLabel} file`,
         details: `Processing ${file.name} (${(file.size / 1024 / 1024).toFixed(1)} MB)`,
         completed: false
       });
@@ -78,22 +97,24 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
 
       setExtractionProgress({
         stage: 'Extracting text content',
-        details: 'Using PDF.js to extract readable text and metadata...',
+        details: format === 'pdf'
+          ? 'Using PDF.js to extract readable text and metadata...'
+          : `Reading sections, tables and references from the ${formatLabel} markup...`,
         completed: false
       });
 
-      // Process the PDF
+      // Process the document
       let paper;
       try {
         console.log('📤 Calling ApiService.uploadPaper...');
         paper = await ApiService.uploadPaper(file);
         console.log('✅ ApiService.uploadPaper completed:', paper);
       } catch (processingError) {
-        console.error('❌ PDF processing error:', processingError);
+        console.error('❌ Document processing error:', processingError);
         
         setExtractionProgress({
           stage: 'Processing failed',
-          details: processingError.message || 'Failed to extract text from PDF',
+          details: processingError.message || `Failed to extract text from ${formatLabel} file`,
           completed: false,
           error: true
         });
@@ -108,7 +129,9 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
       console.log('✅ Setting completion state...');
       setExtractionProgress({
         stage: 'Analysis complete',
-        details: `Successfully extracted ${paper.metadata?.wordCount || 'unknown'} words from ${paper.metadata?.pageCount || 'unknown'} pages`,
+        details: `Successfully extracted ${paper.metadata?.wordCount || 'unknown'} words from ${
+          format === 'pdf' ? `${paper.metadata?.pageCount || 'unknown'} pages` : `${paper.metadata?.sections?.length || 0} sections`
+        }`,
         completed: true
       });
 
@@ -118,9 +141,14 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
       
       // Reset state BEFORE calling onPaperSubmit
       resetProgress();
+
+      if (paper.duplicate) {
+        setDuplicatePaper(paper);
+        return;
+      }
       
       // Submit the paper
-      onPaperSubmit(paper);
+      submitPaper(paper);
       
       console.log('✅ File upload process completed successfully');
 
@@ -175,8 +203,13 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
       // Reset state BEFORE calling onPaperSubmit
       resetProgress();
       setIdentifier('');
+
+      if (paper.duplicate) {
+        setDuplicatePaper(paper);
+        return;
+      }
       
-      onPaperSubmit(paper);
+      submitPaper(paper);
       
       console.log('✅ Identifier submission completed successfully');
 
@@ -196,6 +229,66 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
     }
   };
 
+  const handleDuplicateChoice = (options?: AnalysisOptions) => {
+    if (!duplicatePaper) return;
+    const paper = duplicatePaper;
+    setDuplicatePaper(null);
+    submitPaper(paper, options);
+  };
+
+  const renderDuplicateNotice = (paper: Paper) => {
+    const info = paper.duplicate!;
+    const locations = [
+      ...(info.inLibrary ? ['your library'] : []),
+      ...info.workspaces.map(workspace => `the "${workspace.name}" workspace`)
+    ];
+
+    return (
+      <div className="border border-blue-200 bg-blue-50 rounded-lg p-6">
+        <div className="flex items-start space-x-3">
+          <Copy className="h-6 w-6 text-blue-600 flex-shrink-0" />
+          <div className="flex-1">
+            <h3 className="text-lg font-medium text-blue-900">This paper is already in {locations.join(' and ')}</h3>
+            <p className="text-sm text-blue-800 mt-1">"{paper.title}"</p>
+            <p className="text-sm text-blue-700 mt-2">
+              {info.matchedBy === 'content' ? 'Matched by identical extracted text.' : 'Matched by DOI.'}{' '}
+              {info.analysisCount > 0
+                ? `Analysed ${info.analysisCount} ${info.analysisCount === 1 ? 'time' : 'times'}${info.lastAnalyzedAt ? `, most recently on ${info.lastAnalyzedAt.toLocaleDateString()}` : ''}.`
+                : 'It has not been analysed yet.'}
+            </p>
+            {info.analysisCount > 0 && (
+              <p className="text-xs text-blue-600 mt-1">
+                A stored analysis is reused when it was produced by the selected model with the current prompts; otherwise the paper is analysed again.
+              </p>
+            )}
+            <div className="flex flex-wrap gap-2 mt-4">
+              <button
+                onClick={() => handleDuplicateChoice()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+              >
+                {info.analysisCount > 0 ? 'Use Stored Analysis' : 'Analyze Paper'}
+              </button>
+              {info.analysisCount > 0 && (
+                <button
+                  onClick={() => handleDuplicateChoice({ force: true })}
+                  className="px-4 py-2 border border-blue-300 text-blue-700 bg-white rounded-md hover:bg-blue-50 text-sm font-medium"
+                >
+                  Re-run Analysis
+                </button>
+              )}
+              <button
+                onClick={() => setDuplicatePaper(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 bg-white rounded-md hover:bg-gray-50 text-sm font-medium"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   const getIdentifierPlaceholder = () => {
     return "Enter DOI, ArXiv ID, PubMed ID, or URL:\n• DOI: 10.1000/example\n• ArXiv: 2301.12345 or cs.AI/0123456\n• PubMed: 12345678\n• URL: https://arxiv.org/abs/2301.12345";
   };
@@ -211,7 +304,31 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
     <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
       <div className="mb-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-2">Submit Research Paper</h2>
-        <p className="text-sm text-gray-600">Upload a PDF or provide a DOI/URL to generate an AI-powered summary with ethical analysis.</p>
+        <p className="text-sm text-gray-600">Upload a paper (PDF, Word, LaTeX, HTML or JATS XML) or provide a DOI/URL to generate an AI-powered summary with ethical analysis.</p>
+      </div>
+
+      <div className="mb-6">
+        <label htmlFor="analysis-profile" className="block text-sm font-medium text-gray-700 mb-2 flex items-center">
+          <Compass className="h-4 w-4 mr-2" />
+          Analysis Profile
+        </label>
+        <select
+          id="analysis-profile"
+          value={profileChoice}
+          onChange={(e) => setProfileChoice(e.target.value as AnalysisProfileId | 'auto')}
+          disabled={isProcessing}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          <option value="auto">Auto-detect from categories, journal and content</option>
+          {AnalysisProfileService.getProfiles().map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {profileChoice === 'auto'
+            ? 'The profile sets the checklist the paper is analysed against. The general profile is used when no discipline is recognised.'
+            : AnalysisProfileService.getProfile(profileChoice).description}
+        </p>
       </div>
 
       <div className="flex space-x-4 mb-6">
@@ -225,7 +342,7 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
           } ${isProcessing ? 'opacity-50 cursor-not-allowed' : ''}`}
         >
           <Upload className="h-4 w-4 mx-auto mb-1" />
-          Upload PDF
+          Upload File
         </button>
         <button
           onClick={() => setInputMethod('identifier')}
@@ -241,7 +358,9 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
         </button>
       </div>
 
-      {inputMethod === 'upload' ? (
+      {duplicatePaper ? (
+        renderDuplicateNotice(duplicatePaper)
+      ) : inputMethod === 'upload' ? (
         <div
           className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
             dragActive
@@ -299,7 +418,7 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
                   {extractionProgress.completed && !extractionProgress.error && (
                     <div className="flex items-center justify-center text-sm text-green-600">
                       <FileCheck className="h-4 w-4 mr-2" />
-                      <span>PDF processing complete</span>
+                      <span>Document processing complete</span>
                     </div>
                   )}
                   {extractionProgress.error && (
@@ -323,11 +442,11 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
           ) : (
             <>
               <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-lg text-gray-600 mb-2">Drag and drop your PDF here</p>
+              <p className="text-lg text-gray-600 mb-2">Drag and drop your paper here</p>
               <p className="text-sm text-gray-500 mb-4">or click to select a file</p>
               <input
                 type="file"
-                accept=".pdf"
+                accept={DocumentIngestionService.ACCEPT}
                 onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])}
                 className="hidden"
                 id="file-upload"
@@ -339,10 +458,10 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
                   isProcessing ? 'opacity-50 cursor-not-allowed' : ''
                 }`}
               >
-                Select PDF File
+                Select File
               </label>
               <div className="mt-4 text-xs text-gray-500">
-                <p>✓ Fast PDF text extraction with optimized processing</p>
+                <p>✓ PDF, Word (.docx), LaTeX source (.tex or arXiv .tar.gz), HTML and JATS XML</p>
                 <p>✓ Automatic metadata and structure detection</p>
                 <p>✓ Support for complex academic papers (up to 50MB)</p>
                 <p>✓ Robust error handling and recovery</p>
@@ -498,7 +617,7 @@ const UploadSection: React.FC<UploadSectionProps> = ({ onPaperSubmit }) => {
         <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
         <p>
           All AI-generated content includes transparency metrics and requires usage disclosure for academic integrity.
-          PDF processing is optimized for fast extraction with robust error handling.
+          Document processing is optimized for fast extraction with robust error handling.
         </p>
       </div>
     </div>
@@ -16,11 +16,26 @@ import {
   Copy,
   ExternalLink,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  Columns,
+  ArrowLeft,
+  Database,
+  X
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { ApiService } from '../services/api';
-import { Paper, Summary } from '../types';
+import { ComparisonService } from '../services/comparison';
+import { LibraryEntry, LibrarySearchService } from '../services/librarySearch';
+import { LibrarySearchResult, Paper, PaperComparison, Summary } from '../types';
+import ComparisonView from './ComparisonView';
+import SummaryDisplay from './SummaryDisplay';
+
+const sourceLabels: Record<LibrarySearchResult['source'], string> = {
+  passage: 'Paper text',
+  summary: 'Summary',
+  key_point: 'Key point',
+  ethics_flag: 'Ethics flag'
+};
 
 interface HistoryItem {
   id: string;
@@ -44,6 +59,13 @@ const UserHistory: React.FC = () => {
   const [sortBy, setSortBy] = useState<'date' | 'title' | 'confidence'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
+  const [comparisons, setComparisons] = useState<PaperComparison[]>([]);
+  const [activeComparison, setActiveComparison] = useState<PaperComparison | null>(null);
+  const [searchResults, setSearchResults] = useState<LibrarySearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [indexedSummaryIds, setIndexedSummaryIds] = useState<Set<string>>(new Set());
+  const [indexProgress, setIndexProgress] = useState<{ done: number; total: number } | null>(null);
+  const [openAnalysis, setOpenAnalysis] = useState<(LibraryEntry & { focus?: LibrarySearchResult }) | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -60,7 +82,7 @@ const UserHistory: React.FC = () => {
       setLoading(true);
       setError(null);
       
-      const [papers, summaries] = await Promise.all([
+      const [papers, summaries, savedComparisons, indexed] = await Promise.all([
         ApiService.getUserPapers().catch(error => {
           console.error('Error loading papers:', error);
           return []; // Return empty array on error
@@ -68,7 +90,9 @@ const UserHistory: React.FC = () => {
         ApiService.getUserSummaries().catch(error => {
           console.error('Error loading summaries:', error);
           return []; // Return empty array on error
-        })
+        }),
+        ComparisonService.getUserComparisons(),
+        LibrarySearchService.getIndexedSummaryIds()
       ]);
 
       console.log(`📄 Loaded ${papers.length} papers and ${summaries.length} summaries`);
@@ -85,16 +109,19 @@ const UserHistory: React.FC = () => {
         ...summaries.map(summary => ({
           id: summary.id,
           type: 'summary' as const,
-          title: `Analysis: ${summary.paperId}`,
+          title: `Analysis: ${papers.find(paper => paper.id === summary.paperId)?.title || summary.paperId}`,
           createdAt: summary.generatedAt,
           status: 'completed' as const,
           confidence: summary.confidence,
           provider: 'AI Analysis',
+          paper: papers.find(paper => paper.id === summary.paperId),
           summary
         }))
       ];
 
       setHistoryItems(items);
+      setComparisons(savedComparisons);
+      setIndexedSummaryIds(indexed);
       console.log(`✅ History loaded successfully: ${items.length} total items`);
       
     } catch (error) {
@@ -163,6 +190,91 @@ const UserHistory: React.FC = () => {
     }
   };
 
+  // Papers uploaded by someone else are not in this user's list
+  const toEntry = (item: HistoryItem): LibraryEntry => ({
+    summary: item.summary!,
+    paper: item.paper || { id: item.summary!.paperId, title: item.title, authors: [] }
+  });
+
+  const selectedSummaryItems = historyItems.filter(item => item.type === 'summary' && selectedItems.has(item.id));
+  const canCompare = selectedSummaryItems.length >= ComparisonService.MIN_PAPERS &&
+    selectedSummaryItems.length <= ComparisonService.MAX_PAPERS;
+
+  const handleCompare = () => {
+    if (!canCompare) return;
+    try {
+      setActiveComparison(ComparisonService.createComparison(selectedSummaryItems.map(toEntry)));
+    } catch (compareError) {
+      setError(compareError instanceof Error ? compareError.message : 'Failed to compare analyses');
+    }
+  };
+
+  const handleComparisonSaved = (saved: PaperComparison) => {
+    setComparisons(prev => [saved, ...prev.filter(comparison => comparison.id !== saved.id)]);
+  };
+
+  const handleDeleteComparison = async (comparisonId: string) => {
+    if (!confirm('Delete this saved comparison?')) return;
+    try {
+      await ComparisonService.deleteComparison(comparisonId);
+      setComparisons(prev => prev.filter(comparison => comparison.id !== comparisonId));
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete comparison');
+    }
+  };
+
+  const libraryEntries = historyItems.filter(item => item.summary).map(toEntry);
+  const unindexedEntries = libraryEntries.filter(entry => !indexedSummaryIds.has(entry.summary.id));
+
+  const handleContentSearch = async () => {
+    if (!searchTerm.trim()) {
+      setSearchResults(null);
+      return;
+    }
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      setSearchResults(await LibrarySearchService.search(searchTerm, libraryEntries));
+    } catch (searchError) {
+      console.error('Error searching library:', searchError);
+      setError(searchError instanceof Error ? searchError.message : 'Failed to search your library');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleBuildIndex = async () => {
+    const pending = unindexedEntries;
+    setIndexProgress({ done: 0, total: pending.length });
+    try {
+      for (const [index, entry] of pending.entries()) {
+        await LibrarySearchService.indexSummary(entry.paper, entry.summary);
+        setIndexedSummaryIds(prev => new Set(prev).add(entry.summary.id));
+        setIndexProgress({ done: index + 1, total: pending.length });
+      }
+    } catch (indexError) {
+      setError(indexError instanceof Error ? indexError.message : 'Failed to build search index');
+    } finally {
+      setIndexProgress(null);
+    }
+  };
+
+  const handleOpenResult = (result: LibrarySearchResult) => {
+    const entry = libraryEntries.find(e => e.summary.id === result.summaryId);
+    if (entry) {
+      setOpenAnalysis({ ...entry, focus: result });
+    }
+  };
+
+  const describeLocation = (result: LibrarySearchResult) => {
+    const label = result.source === 'key_point' || result.source === 'ethics_flag'
+      ? `${sourceLabels[result.source]} ${result.sourceIndex + 1}`
+      : sourceLabels[result.source];
+    if (!result.pageStart) return label;
+    return `${label} • ${result.pageStart === result.pageEnd ? `p. ${result.pageStart}` : `pp. ${result.pageStart}-${result.pageEnd}`}`;
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed':
@@ -194,6 +306,38 @@ const UserHistory: React.FC = () => {
     );
   }
 
+  if (activeComparison) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <ComparisonView
+            comparison={activeComparison}
+            summaries={historyItems.filter(item => item.summary).map(item => item.summary!)}
+            onClose={() => setActiveComparison(null)}
+            onSaved={handleComparisonSaved}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (openAnalysis) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <button
+            onClick={() => setOpenAnalysis(null)}
+            className="flex items-center space-x-2 mb-4 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>{searchResults ? 'Back to search results' : 'Back to history'}</span>
+          </button>
+          <SummaryDisplay paper={openAnalysis.paper} summary={openAnalysis.summary} focus={openAnalysis.focus} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -205,6 +349,17 @@ const UserHistory: React.FC = () => {
               <p className="text-sm text-gray-600">View and manage your research analyses</p>
             </div>
             <div className="flex items-center space-x-4">
+              {selectedSummaryItems.length > 0 && (
+                <button
+                  onClick={handleCompare}
+                  disabled={!canCompare}
+                  title={canCompare ? undefined : `Select ${ComparisonService.MIN_PAPERS}-${ComparisonService.MAX_PAPERS} analyses to compare`}
+                  className="flex items-center space-x-2 px-3 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+                >
+                  <Columns className="h-4 w-4" />
+                  <span>Compare ({selectedSummaryItems.length})</span>
+                </button>
+              )}
               {selectedItems.size > 0 && (
                 <button
                   onClick={handleBulkDelete}
@@ -257,9 +412,21 @@ const UserHistory: React.FC = () => {
                   placeholder="Search analyses..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleContentSearch();
+                  }}
                   className="pl-10 pr-4 py-2 border border-gray-300 rounded-md text-sm focus:ring-blue-500 focus:border-blue-500"
                 />
               </div>
+
+              <button
+                onClick={handleContentSearch}
+                disabled={!searchTerm.trim() || isSearching}
+                title="Search paper text, summaries, key points and ethics flags"
+                className="px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isSearching ? 'Searching...' : 'Search content'}
+              </button>
               
               <select
                 value={filterType}
@@ -295,6 +462,66 @@ const UserHistory: React.FC = () => {
           </div>
         </div>
 
+        {/* Search index status */}
+        {unindexedEntries.length > 0 && (
+          <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 flex items-center justify-between">
+            <div className="flex items-center space-x-3 text-sm text-blue-800">
+              <Database className="h-5 w-5" />
+              <span>
+                {indexProgress
+                  ? `Indexing analyses for search (${indexProgress.done} of ${indexProgress.total})...`
+                  : `${unindexedEntries.length} of ${libraryEntries.length} analyses are not indexed for content search yet.`}
+              </span>
+            </div>
+            <button
+              onClick={handleBuildIndex}
+              disabled={!!indexProgress}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Build index
+            </button>
+          </div>
+        )}
+
+        {/* Content Search Results */}
+        {searchResults && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-8">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-medium text-gray-900">Content Search Results ({searchResults.length})</h3>
+              <button
+                onClick={() => setSearchResults(null)}
+                className="p-2 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            {searchResults.length === 0 ? (
+              <div className="p-8 text-center text-gray-600">
+                No passages, key points or ethics flags match this search.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {searchResults.map(result => (
+                  <button
+                    key={result.id}
+                    onClick={() => handleOpenResult(result)}
+                    className="w-full text-left px-6 py-4 hover:bg-gray-50"
+                  >
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium text-gray-900 truncate">{result.paperTitle}</h4>
+                      <span className="text-xs text-gray-500 flex-shrink-0 ml-4">
+                        {Math.round(result.score * 100)}% match
+                      </span>
+                    </div>
+                    <p className="text-xs text-blue-700 mt-1">{describeLocation(result)}</p>
+                    <p className="text-sm text-gray-600 mt-1 line-clamp-2">{result.content}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Statistics */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
@@ -348,6 +575,45 @@ const UserHistory: React.FC = () => {
           </div>
         </div>
 
+        {/* Saved Comparisons */}
+        {comparisons.length > 0 && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-8">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-medium text-gray-900">Saved Comparisons ({comparisons.length})</h3>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {comparisons.map(comparison => (
+                <div key={comparison.id} className="px-6 py-4 flex items-center justify-between hover:bg-gray-50">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Columns className="h-4 w-4 text-purple-600 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <h4 className="text-sm font-medium text-gray-900 truncate">{comparison.title}</h4>
+                      <p className="text-sm text-gray-500 truncate">
+                        {comparison.papers.map(paper => paper.title).join(' • ')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-gray-500">{comparison.createdAt.toLocaleDateString()}</span>
+                    <button
+                      onClick={() => setActiveComparison(comparison)}
+                      className="p-2 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100"
+                    >
+                      <Eye className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteComparison(comparison.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 rounded-md hover:bg-gray-100"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* History List */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200">
           <div className="px-6 py-4 border-b border-gray-200">
@@ -432,7 +698,11 @@ const UserHistory: React.FC = () => {
                     </div>
                     
                     <div className="flex items-center space-x-2">
-                      <button className="p-2 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100">
+                      <button
+                        onClick={() => item.summary && setOpenAnalysis(toEntry(item))}
+                        disabled={!item.summary}
+                        className="p-2 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100"
+                      >
                         <Eye className="h-4 w-4" />
                       </button>
                       <button className="p-2 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100">
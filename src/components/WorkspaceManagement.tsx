@@ -23,9 +23,16 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { CollaborationService } from '../services/collaboration';
+import { LLMProvider } from '../services/llm';
 import { Workspace, Collaborator, ActivityLog } from '../types';
+import LiteratureReviewPanel from './LiteratureReviewPanel';
+import CitationGraphPanel from './CitationGraphPanel';
 
-const WorkspaceManagement: React.FC = () => {
+interface WorkspaceManagementProps {
+  provider?: LLMProvider;
+}
+
+const WorkspaceManagement: React.FC<WorkspaceManagementProps> = ({ provider = 'openai' }) => {
   const { user } = useAuth();
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [selectedWorkspace, setSelectedWorkspace] = useState<Workspace | null>(null);
@@ -461,6 +468,12 @@ const WorkspaceManagement: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Literature Review */}
+                <LiteratureReviewPanel workspace={selectedWorkspace} provider={provider} />
+
+                {/* Citation Graph */}
+                <CitationGraphPanel workspace={selectedWorkspace} />
+
                 {/* Recent Activity */}
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200">
                   <div className="p-4 border-b border-gray-200">
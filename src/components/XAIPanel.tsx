@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { XAIData } from '../types';
 import { ChevronDown, ChevronRight, Target, TrendingUp, Eye } from 'lucide-react';
+import QuoteVerificationBadge from './QuoteVerificationBadge';
 
 interface XAIPanelProps {
   xaiData: XAIData;
@@ -111,7 +112,10 @@ const XAIPanel: React.FC<XAIPanelProps> = ({ xaiData }) => {
                 </div>
               </div>
               <p className="text-sm text-gray-700 italic mb-2">"{ref.originalText}"</p>
-              <p className="text-sm text-gray-600">→ {ref.summaryReference}</p>
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">→ {ref.summaryReference}</p>
+                <QuoteVerificationBadge verification={ref.verification} />
+              </div>
             </div>
           ))}
         </div>
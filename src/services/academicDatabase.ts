@@ -34,6 +34,20 @@ export interface CrossRefWork {
     'content-type': string;
     'content-version': string;
   }>;
+  // Retraction, correction and expression-of-concern notices that update this work
+  'updated-by'?: CrossRefUpdate[];
+  // Present when the work is itself a notice; lists the works it updates
+  'update-to'?: CrossRefUpdate[];
+}
+
+export interface CrossRefUpdate {
+  DOI: string;
+  type: string;
+  label?: string;
+  source?: string;
+  updated?: {
+    'date-parts': number[][];
+  };
 }
 
 export class AcademicDatabaseService {
@@ -212,7 +226,8 @@ export class AcademicDatabaseService {
     }
   }
 
-  private static async fetchFromCrossRef(doi: string): Promise<Partial<AcademicPaper>> {
+  /** Fetches a Crossref record, or null when the DOI is not registered with Crossref. */
+  static async fetchCrossRefWork(doi: string): Promise<CrossRefWork | null> {
     const response = await fetch(`${this.CROSSREF_API}/${doi}`, {
       headers: {
         'Accept': 'application/json',
@@ -220,12 +235,70 @@ export class AcademicDatabaseService {
       }
     });
 
+    if (response.status === 404) {
+      return null;
+    }
     if (!response.ok) {
       throw new Error(`CrossRef API error: ${response.statusText}`);
     }
 
     const data = await response.json();
-    const work: CrossRefWork = data.message;
+    return data.message;
+  }
+
+  /**
+   * Notices registered against any of the given DOIs. Crossref ORs repeated
+   * filters of the same name, so one request covers a batch of DOIs.
+   */
+  static async fetchCrossRefUpdates(dois: string[]): Promise<CrossRefWork[]> {
+    if (dois.length === 0) return [];
+
+    const filter = dois.map(doi => `updates:${doi}`).join(',');
+    const response = await fetch(`${this.CROSSREF_API}?filter=${encodeURIComponent(filter)}&rows=200`, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'SciAI-Trust-Toolkit/1.0 (mailto:research@example.com)'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`CrossRef API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.message?.items || [];
+  }
+
+  /**
+   * Best Crossref match for a free-text citation, with Crossref's relevance
+   * score. Callers decide whether the match is close enough to use.
+   */
+  static async searchCrossRefBibliographic(citation: string): Promise<(CrossRefWork & { score: number }) | null> {
+    const params = new URLSearchParams({
+      'query.bibliographic': citation.substring(0, 500),
+      rows: '1',
+      select: 'DOI,title,author,published,container-title,score'
+    });
+    const response = await fetch(`${this.CROSSREF_API}?${params.toString()}`, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'SciAI-Trust-Toolkit/1.0 (mailto:research@example.com)'
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`CrossRef API error: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return data.message?.items?.[0] || null;
+  }
+
+  private static async fetchFromCrossRef(doi: string): Promise<Partial<AcademicPaper>> {
+    const work = await this.fetchCrossRefWork(doi);
+    if (!work) {
+      throw new Error('CrossRef API error: Not Found');
+    }
 
     const authors = work.author?.map(author => 
       `${author.given || ''} ${author.family || ''}`.trim()
@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabase';
+import { EthicsAlert, EthicsAlertEvent, EthicsAlertStatus } from '../types';
+import { CollaborationService } from './collaboration';
 
 interface DashboardStats {
   totalAnalyses: number;
@@ -6,6 +8,12 @@ interface DashboardStats {
   totalFeedback: number;
   averageRating: number;
   ethicsFlags: number;
+  reportingChecks: {
+    assessments: number;
+    missingItems: number;
+    averageScore: number;
+    byGuideline: Record<string, { assessments: number; averageScore: number }>;
+  };
   activeUsers: number;
   recentAnalyses: number;
   feedbackTrends: {
@@ -28,18 +36,53 @@ interface FeedbackItem {
   userEmail: string;
 }
 
-interface EthicsAlert {
+interface EthicsAlertRow {
   id: string;
-  summaryId: string;
-  paperTitle: string;
-  flagType: string;
+  summary_id: string;
+  paper_id: string;
+  flag_index: number;
+  flag_type: string;
   severity: 'high' | 'medium' | 'low';
   description: string;
-  createdAt: Date;
-  status: 'pending' | 'reviewed' | 'resolved';
+  recommendation: string | null;
+  source_location: string | null;
+  status: EthicsAlertStatus;
+  assignee: string | null;
+  reviewer_notes: string | null;
+  author_id: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+  papers?: { title: string } | null;
+}
+
+interface EthicsAlertEventRow {
+  id: string;
+  alert_id: string;
+  actor_id: string;
+  action: EthicsAlertEvent['action'];
+  from_status: EthicsAlertStatus | null;
+  to_status: EthicsAlertStatus | null;
+  note: string | null;
+  created_at: string;
+}
+
+export interface EthicsAlertUpdateResult {
+  updated: EthicsAlert[];
+  // Alerts left unchanged because the requested status is not reachable from theirs
+  skipped: { id: string; status: EthicsAlertStatus }[];
 }
 
 export class AdminService {
+  // Alerts are reviewed before they can be resolved or dismissed; closed alerts can only be reopened
+  static readonly ETHICS_ALERT_TRANSITIONS: Record<EthicsAlertStatus, EthicsAlertStatus[]> = {
+    pending: ['reviewed'],
+    reviewed: ['resolved', 'dismissed', 'pending'],
+    resolved: ['pending'],
+    dismissed: ['pending']
+  };
+
   static async getDashboardStats(dateRange: '7d' | '30d' | '90d' | 'all'): Promise<DashboardStats> {
     try {
       // Calculate date filter
@@ -118,12 +161,40 @@ export class AdminService {
         }, 0);
       }
 
+      // Get reporting guideline checks
+      let assessmentsQuery = supabase
+        .from('guideline_assessments')
+        .select('guideline_name, guideline_version, score, missing_count');
+      if (dateFilter) {
+        assessmentsQuery = assessmentsQuery.gte('created_at', dateFilter);
+      }
+      const { data: assessments } = await assessmentsQuery;
+
+      const byGuideline: Record<string, { assessments: number; averageScore: number }> = {};
+      let missingItems = 0;
+      let totalScore = 0;
+      (assessments || []).forEach(assessment => {
+        const key = `${assessment.guideline_name} ${assessment.guideline_version}`;
+        const entry = byGuideline[key] || { assessments: 0, averageScore: 0 };
+        entry.averageScore = (entry.averageScore * entry.assessments + assessment.score) / (entry.assessments + 1);
+        entry.assessments++;
+        byGuideline[key] = entry;
+        missingItems += assessment.missing_count || 0;
+        totalScore += assessment.score;
+      });
+
       return {
         totalAnalyses: totalAnalyses || 0,
         totalUsers: totalUsers || 0,
         totalFeedback: totalFeedback || 0,
         averageRating,
         ethicsFlags,
+        reportingChecks: {
+          assessments: assessments?.length || 0,
+          missingItems,
+          averageScore: assessments?.length ? totalScore / assessments.length : 0,
+          byGuideline
+        },
         activeUsers: activeUsers || 0,
         recentAnalyses: recentAnalyses || 0,
         feedbackTrends: {
@@ -174,58 +245,259 @@ export class AdminService {
   static async getEthicsAlerts(): Promise<EthicsAlert[]> {
     try {
       const { data, error } = await supabase
-        .from('summaries')
+        .from('ethics_alerts')
         .select(`
-          id,
-          ethics_flags,
-          created_at,
+          *,
           papers (title)
         `)
-        .not('ethics_flags', 'eq', '[]')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      const alerts: EthicsAlert[] = [];
-      
-      data.forEach(summary => {
-        if (summary.ethics_flags && Array.isArray(summary.ethics_flags)) {
-          summary.ethics_flags.forEach((flag: any, index: number) => {
-            alerts.push({
-              id: `${summary.id}-${index}`,
-              summaryId: summary.id,
-              paperTitle: summary.papers?.title || 'Unknown Paper',
-              flagType: flag.type || 'unknown',
-              severity: flag.severity || 'medium',
-              description: flag.description || 'No description available',
-              createdAt: new Date(summary.created_at),
-              status: 'pending' // Default status
-            });
-          });
-        }
-      });
-
-      return alerts;
+      return (data || []).map(row => this.transformEthicsAlert(row));
     } catch (error) {
       console.error('Error fetching ethics alerts:', error);
       throw new Error('Failed to fetch ethics alerts');
     }
   }
 
-  static async updateEthicsAlert(alertId: string, status: 'pending' | 'reviewed' | 'resolved'): Promise<void> {
+  static canTransitionEthicsAlert(from: EthicsAlertStatus, to: EthicsAlertStatus): boolean {
+    return this.ETHICS_ALERT_TRANSITIONS[from].includes(to);
+  }
+
+  static async updateEthicsAlert(alertId: string, status: EthicsAlertStatus, note?: string): Promise<EthicsAlert> {
+    const result = await this.bulkUpdateEthicsAlerts([alertId], status, note);
+    if (result.skipped.length > 0) {
+      throw new Error(`Cannot change an alert from ${result.skipped[0].status} to ${status}`);
+    }
+    return result.updated[0];
+  }
+
+  static async bulkUpdateEthicsAlerts(
+    alertIds: string[],
+    status: EthicsAlertStatus,
+    note?: string
+  ): Promise<EthicsAlertUpdateResult> {
     try {
-      // For now, we'll just log the status change
-      // In a real implementation, you'd update a separate ethics_alerts table
-      console.log(`Ethics alert ${alertId} status updated to: ${status}`);
-      
-      // TODO: Implement actual status update in database
-      // This would require a separate table to track alert statuses
+      const actorId = await this.getActorId();
+      const current = await this.fetchEthicsAlerts(alertIds);
+
+      const skipped = current
+        .filter(alert => !this.canTransitionEthicsAlert(alert.status, status))
+        .map(alert => ({ id: alert.id, status: alert.status }));
+      const movable = current.filter(alert => this.canTransitionEthicsAlert(alert.status, status));
+
+      if (movable.length === 0) {
+        return { updated: [], skipped };
+      }
+
+      const now = new Date().toISOString();
+      const changes: Record<string, unknown> = { status, updated_at: now };
+      if (status === 'pending') {
+        // Reopening clears the previous review so the alert is picked up again
+        changes.reviewed_by = null;
+        changes.reviewed_at = null;
+      } else {
+        changes.reviewed_by = actorId;
+        changes.reviewed_at = now;
+      }
+      if (note?.trim()) {
+        changes.reviewer_notes = note.trim();
+      }
+
+      const { data, error } = await supabase
+        .from('ethics_alerts')
+        .update(changes)
+        .in('id', movable.map(alert => alert.id))
+        .select(`
+          *,
+          papers (title)
+        `);
+
+      if (error) throw error;
+
+      await this.recordEthicsAlertEvents(movable.map(alert => ({
+        alert_id: alert.id,
+        actor_id: actorId,
+        action: 'status_changed',
+        from_status: alert.status,
+        to_status: status,
+        note: note?.trim() || null
+      })));
+
+      const updated = (data || []).map(row => this.transformEthicsAlert(row));
+      if (status !== 'pending') {
+        await this.notifyEthicsAlertAuthors(updated, status);
+      }
+
+      console.log(`✅ ${updated.length} ethics alert(s) marked ${status}`);
+      return { updated, skipped };
     } catch (error) {
-      console.error('Error updating ethics alert:', error);
+      console.error('Error updating ethics alerts:', error);
       throw new Error('Failed to update ethics alert');
     }
   }
 
+  static async assignEthicsAlerts(alertIds: string[], assignee: string | null): Promise<EthicsAlert[]> {
+    try {
+      const actorId = await this.getActorId();
+
+      const { data, error } = await supabase
+        .from('ethics_alerts')
+        .update({ assignee, updated_at: new Date().toISOString() })
+        .in('id', alertIds)
+        .select(`
+          *,
+          papers (title)
+        `);
+
+      if (error) throw error;
+
+      await this.recordEthicsAlertEvents(alertIds.map(alertId => ({
+        alert_id: alertId,
+        actor_id: actorId,
+        action: 'assigned',
+        note: assignee ? `Assigned to ${assignee}` : 'Unassigned'
+      })));
+
+      return (data || []).map(row => this.transformEthicsAlert(row));
+    } catch (error) {
+      console.error('Error assigning ethics alerts:', error);
+      throw new Error('Failed to assign ethics alerts');
+    }
+  }
+
+  static async addEthicsAlertNote(alertId: string, note: string): Promise<EthicsAlert> {
+    try {
+      const actorId = await this.getActorId();
+
+      const { data, error } = await supabase
+        .from('ethics_alerts')
+        .update({ reviewer_notes: note.trim(), updated_at: new Date().toISOString() })
+        .eq('id', alertId)
+        .select(`
+          *,
+          papers (title)
+        `)
+        .single();
+
+      if (error) throw error;
+
+      await this.recordEthicsAlertEvents([{
+        alert_id: alertId,
+        actor_id: actorId,
+        action: 'note_added',
+        note: note.trim()
+      }]);
+
+      return this.transformEthicsAlert(data);
+    } catch (error) {
+      console.error('Error adding ethics alert note:', error);
+      throw new Error('Failed to add reviewer note');
+    }
+  }
+
+  static async getEthicsAlertHistory(alertId: string): Promise<EthicsAlertEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ethics_alert_events')
+        .select('*')
+        .eq('alert_id', alertId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map((row: EthicsAlertEventRow) => ({
+        id: row.id,
+        alertId: row.alert_id,
+        actorId: row.actor_id,
+        action: row.action,
+        fromStatus: row.from_status || undefined,
+        toStatus: row.to_status || undefined,
+        note: row.note || undefined,
+        createdAt: new Date(row.created_at)
+      }));
+    } catch (error) {
+      console.error('Error fetching ethics alert history:', error);
+      throw new Error('Failed to fetch ethics alert history');
+    }
+  }
+
+  private static async fetchEthicsAlerts(alertIds: string[]): Promise<EthicsAlert[]> {
+    const { data, error } = await supabase
+      .from('ethics_alerts')
+      .select(`
+        *,
+        papers (title)
+      `)
+      .in('id', alertIds);
+
+    if (error) throw error;
+    return (data || []).map(row => this.transformEthicsAlert(row));
+  }
+
+  private static async recordEthicsAlertEvents(events: Partial<EthicsAlertEventRow>[]): Promise<void> {
+    const { error } = await supabase
+      .from('ethics_alert_events')
+      .insert(events);
+
+    // The status change itself has gone through, so a missing audit row is logged rather than thrown
+    if (error) {
+      console.error('Error recording ethics alert history:', error);
+    }
+  }
+
+  // Tell each summary author once per summary that flags on their analysis were reviewed
+  private static async notifyEthicsAlertAuthors(alerts: EthicsAlert[], status: EthicsAlertStatus): Promise<void> {
+    const bySummary = new Map<string, EthicsAlert[]>();
+    alerts
+      .filter(alert => alert.authorId && alert.authorId !== 'anonymous')
+      .forEach(alert => bySummary.set(alert.summaryId, [...(bySummary.get(alert.summaryId) || []), alert]));
+
+    for (const [summaryId, summaryAlerts] of bySummary) {
+      const first = summaryAlerts[0];
+      const flagText = summaryAlerts.length === 1 ? `A ${first.severity} severity ${first.flagType} flag` : `${summaryAlerts.length} ethics flags`;
+      try {
+        await CollaborationService.createNotification(first.authorId!, {
+          type: 'review',
+          title: 'Ethics flag reviewed',
+          message: `${flagText} on your analysis of "${first.paperTitle}" ${summaryAlerts.length === 1 ? 'was' : 'were'} marked ${status}${first.reviewerNotes ? `: ${first.reviewerNotes}` : ''}`,
+          relatedId: summaryId
+        });
+      } catch (error) {
+        console.error('Error notifying summary author:', error);
+      }
+    }
+  }
+
+  private static async getActorId(): Promise<string> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id || 'anonymous';
+  }
+
+  private static transformEthicsAlert(row: EthicsAlertRow): EthicsAlert {
+    return {
+      id: row.id,
+      summaryId: row.summary_id,
+      paperId: row.paper_id,
+      paperTitle: row.papers?.title || 'Unknown Paper',
+      flagIndex: row.flag_index,
+      flagType: row.flag_type,
+      severity: row.severity,
+      description: row.description,
+      recommendation: row.recommendation || undefined,
+      sourceLocation: row.source_location || undefined,
+      status: row.status,
+      assignee: row.assignee || undefined,
+      reviewerNotes: row.reviewer_notes || undefined,
+      authorId: row.author_id || undefined,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
   static async exportData(
     type: 'feedback' | 'ethics' | 'analytics',
     options: { dateRange: string; searchTerm: string }
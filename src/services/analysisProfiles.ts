@@ -0,0 +1,184 @@
+import { AnalysisCheck, AnalysisProfile, AnalysisProfileId, Paper, ProfileSuggestion } from '../types';
+
+const PROFILES: AnalysisProfile[] = [
+  {
+    id: 'general',
+    name: 'General',
+    description: 'Discipline-neutral analysis for any research paper.',
+    focus: '',
+    expectedSections: ['Abstract', 'Introduction', 'Methods', 'Results', 'Discussion', 'Conclusion'],
+    checks: []
+  },
+  {
+    id: 'clinical-trial',
+    name: 'Clinical trial',
+    description: 'Randomised and controlled trials: allocation, blinding, registration and outcome reporting.',
+    focus: 'Treat this paper as a clinical trial report. Judge internal validity and completeness of reporting against CONSORT-style expectations. Report effect sizes with confidence intervals where given, and distinguish primary from secondary outcomes.',
+    expectedSections: ['Abstract', 'Introduction', 'Methods', 'Participants', 'Interventions', 'Outcomes', 'Randomisation', 'Statistical analysis', 'Results', 'Harms', 'Discussion', 'Trial registration', 'Funding'],
+    checks: [
+      { id: 'randomisation', label: 'Randomisation', category: 'methodology', question: 'Are sequence generation and allocation concealment described?' },
+      { id: 'blinding', label: 'Blinding', category: 'bias', question: 'Is it stated who was blinded (participants, care providers, outcome assessors) and how?' },
+      { id: 'trial-registration', label: 'Trial registration', category: 'disclosure', question: 'Is a registry and registration number (e.g. NCT, ISRCTN) given, and was it registered before enrolment?' },
+      { id: 'primary-outcome', label: 'Pre-specified outcomes', category: 'methodology', question: 'Is the primary outcome pre-specified, and are outcome changes since registration explained?' },
+      { id: 'sample-size', label: 'Sample size', category: 'methodology', question: 'Is a sample size calculation reported, and was the target reached?' },
+      { id: 'attrition', label: 'Attrition', category: 'data-quality', question: 'Are losses and exclusions after randomisation reported per arm, and is the analysis intention-to-treat?' },
+      { id: 'harms', label: 'Harms', category: 'disclosure', question: 'Are adverse events reported for each arm?' },
+      { id: 'consent', label: 'Consent and ethics approval', category: 'disclosure', question: 'Are informed consent and ethics committee approval stated?' }
+    ]
+  },
+  {
+    id: 'ml-paper',
+    name: 'Machine learning',
+    description: 'ML and AI papers: datasets, evaluation protocol, compute and reproducibility.',
+    focus: 'Treat this paper as a machine learning paper. Judge whether the reported improvements are supported by the evaluation protocol, and whether the work could be reproduced from what is reported. Name the datasets, baselines and metrics in the key points.',
+    expectedSections: ['Abstract', 'Introduction', 'Related Work', 'Method', 'Datasets', 'Experimental Setup', 'Results', 'Ablations', 'Limitations', 'Broader Impact', 'Reproducibility'],
+    checks: [
+      { id: 'dataset-licensing', label: 'Dataset licensing', category: 'disclosure', question: 'Are dataset sources, licences and consent for any personal data stated?' },
+      { id: 'data-leakage', label: 'Data leakage', category: 'data-quality', question: 'Are train, validation and test splits disjoint, and is test data kept out of model selection and pre-training?' },
+      { id: 'compute-reporting', label: 'Compute reporting', category: 'disclosure', question: 'Are hardware, training time or total compute reported?' },
+      { id: 'seeds-variance', label: 'Seeds and variance', category: 'methodology', question: 'Are results reported over multiple seeds with variance or confidence intervals?' },
+      { id: 'baselines', label: 'Baselines', category: 'bias', question: 'Are baselines tuned with comparable effort and compute?' },
+      { id: 'dataset-representation', label: 'Dataset representation', category: 'representation', question: 'Are the demographics or coverage of the data described, and are subgroup results reported where relevant?' },
+      { id: 'code-availability', label: 'Code and model availability', category: 'disclosure', question: 'Are code, weights or evaluation scripts released?' }
+    ]
+  },
+  {
+    id: 'qualitative',
+    name: 'Qualitative study',
+    description: 'Interview, focus group and ethnographic studies: sampling, reflexivity and analysis.',
+    focus: 'Treat this paper as a qualitative study. Do not criticise it for lacking statistical power or generalisability in the quantitative sense; judge credibility, transferability and transparency of the analytic process instead. Key points should describe themes with their supporting evidence.',
+    expectedSections: ['Abstract', 'Introduction', 'Methodology', 'Sampling', 'Data Collection', 'Analysis', 'Findings', 'Discussion', 'Reflexivity'],
+    checks: [
+      { id: 'sampling-saturation', label: 'Sampling and saturation', category: 'methodology', question: 'Are the sampling strategy and the point of data saturation explained?' },
+      { id: 'reflexivity', label: 'Reflexivity', category: 'bias', question: 'Do the researchers describe their position and how it may have shaped data collection and interpretation?' },
+      { id: 'analytic-approach', label: 'Analytic approach', category: 'methodology', question: 'Is the coding or analytic framework (e.g. thematic analysis, grounded theory) named and described?' },
+      { id: 'participant-voice', label: 'Participant voice', category: 'representation', question: 'Are themes supported by participant quotes from across the sample rather than a few voices?' },
+      { id: 'confidentiality', label: 'Consent and confidentiality', category: 'disclosure', question: 'Are consent, anonymisation and ethics approval described?' }
+    ]
+  },
+  {
+    id: 'systematic-review',
+    name: 'Systematic review',
+    description: 'Systematic reviews and meta-analyses: protocol, search, risk of bias and synthesis.',
+    focus: 'Treat this paper as a systematic review or meta-analysis. Judge whether the search, selection and synthesis could be repeated, and how strongly the pooled conclusions follow from the included studies. Report the number of included studies and pooled estimates in the key points.',
+    expectedSections: ['Abstract', 'Introduction', 'Protocol and Registration', 'Eligibility Criteria', 'Search Strategy', 'Study Selection', 'Data Extraction', 'Risk of Bias', 'Synthesis', 'Results', 'Discussion'],
+    checks: [
+      { id: 'protocol-registration', label: 'Protocol registration', category: 'disclosure', question: 'Was a protocol registered (e.g. PROSPERO) and are deviations reported?' },
+      { id: 'search-strategy', label: 'Search strategy', category: 'methodology', question: 'Are databases, dates and a full search string given?' },
+      { id: 'selection-process', label: 'Study selection', category: 'methodology', question: 'Were screening and extraction done independently by two reviewers, with a flow diagram?' },
+      { id: 'risk-of-bias', label: 'Risk of bias', category: 'bias', question: 'Is the risk of bias of included studies assessed with a named tool?' },
+      { id: 'heterogeneity', label: 'Heterogeneity', category: 'data-quality', question: 'Is heterogeneity quantified and explored before pooling?' },
+      { id: 'publication-bias', label: 'Publication bias', category: 'bias', question: 'Is publication or small-study bias assessed?' }
+    ]
+  }
+];
+
+interface ProfileSignals {
+  categories?: RegExp;
+  journal: RegExp;
+  text: RegExp[];
+}
+
+// Categories, journals and phrases in the title are strong evidence; phrases further down only count when several agree.
+// Reviews come before trials so a tie goes to the review, which usually also mentions trials.
+const SIGNALS: Record<Exclude<AnalysisProfileId, 'general'>, ProfileSignals> = {
+  'ml-paper': {
+    categories: /^(cs\.(LG|AI|CV|CL|NE|IR|RO)|stat\.ML)$/i,
+    journal: /machine learning|neural (information|networks|computation)|artificial intelligence|pattern analysis|NeurIPS|ICML|ICLR|computer vision|computational linguistics/i,
+    text: [/\bdeep learning\b/i, /\bneural networks?\b/i, /\btransformers?\b/i, /\bbenchmarks?\b/i, /\bfine-?tun/i, /\bhyperparameters?\b/i, /\b(training|test) (set|split)\b/i]
+  },
+  'systematic-review': {
+    journal: /cochrane|systematic reviews/i,
+    text: [/\bsystematic (literature )?review\b/i, /\bmeta-analys[ie]s\b/i, /\bPRISMA\b/, /\bPROSPERO\b/, /\bforest plot\b/i, /\brisk of bias\b/i]
+  },
+  'clinical-trial': {
+    categories: /^q-bio\.(QM|TO)$/i,
+    journal: /lancet|new england journal of medicine|\bjama\b|\bbmj\b|\btrials\b|clinical|annals of internal medicine|nature medicine/i,
+    text: [/\brandomi[sz]ed\b/i, /\bplacebo\b/i, /\b(double|single|triple)[- ]blind/i, /\bNCT\d{8}\b/, /\bISRCTN\d+/i, /\bCONSORT\b/, /\ballocation concealment\b/i, /\bintention[- ]to[- ]treat\b/i]
+  },
+  qualitative: {
+    journal: /qualitative/i,
+    text: [/\bsemi-structured interviews?\b/i, /\bthematic analysis\b/i, /\bfocus groups?\b/i, /\bgrounded theory\b/i, /\bphenomenolog/i, /\bethnograph/i, /\breflexivity\b/i]
+  }
+};
+
+// Only the opening of the paper is scanned so long reference lists do not dominate
+const TEXT_SCAN_CHARS = 8000;
+
+export class AnalysisProfileService {
+  static readonly DEFAULT_PROFILE: AnalysisProfileId = 'general';
+
+  static getProfiles(): AnalysisProfile[] {
+    return PROFILES;
+  }
+
+  static getProfile(id: AnalysisProfileId | undefined): AnalysisProfile {
+    return PROFILES.find(profile => profile.id === id) || PROFILES[0];
+  }
+
+  static findCheck(checkId: string): AnalysisCheck | undefined {
+    for (const profile of PROFILES) {
+      const check = profile.checks.find(c => c.id === checkId);
+      if (check) return check;
+    }
+    return undefined;
+  }
+
+  /**
+   * Suggests a profile from arXiv categories, the journal name and phrases in
+   * the title, abstract and opening text. Falls back to the general profile
+   * when nothing points clearly at one discipline.
+   */
+  static suggestProfile(paper: Paper): ProfileSuggestion {
+    const metadata = paper.metadata;
+    const categories = metadata?.categories || [];
+    const journal = metadata?.journal || '';
+    const heading = `${paper.title}\n${metadata?.abstract || ''}`;
+    const opening = `${heading}\n${(paper.content || '').substring(0, TEXT_SCAN_CHARS)}`;
+    // Where a phrase is found: the title names the study design, the abstract describes it
+    const sources: Array<{ text: string; weight: number }> = [
+      { text: paper.title, weight: 3 },
+      { text: heading, weight: 2 },
+      { text: opening, weight: 1 }
+    ];
+
+    let best: { suggestion: ProfileSuggestion; score: number } | null = null;
+
+    for (const [profileId, signals] of Object.entries(SIGNALS) as Array<[Exclude<AnalysisProfileId, 'general'>, ProfileSignals]>) {
+      const reasons: string[] = [];
+      let score = 0;
+
+      const category = signals.categories && categories.find(c => signals.categories!.test(c));
+      if (category) {
+        score += 3;
+        reasons.push(`arXiv category ${category}`);
+      }
+
+      if (journal && signals.journal.test(journal)) {
+        score += 3;
+        reasons.push(`journal "${journal}"`);
+      }
+
+      const phrases: Array<{ match: string; weight: number }> = [];
+      signals.text.forEach(pattern => {
+        for (const source of sources) {
+          const found = source.text.match(pattern);
+          if (found) {
+            phrases.push({ match: found[0], weight: source.weight });
+            break;
+          }
+        }
+      });
+      if (phrases.length > 0) {
+        score += phrases.reduce((sum, phrase) => sum + phrase.weight, 0);
+        reasons.push(`mentions of ${phrases.slice(0, 3).map(phrase => `"${phrase.match}"`).join(', ')}`);
+      }
+
+      if (score >= 3 && (!best || score > best.score)) {
+        best = { suggestion: { profileId, reason: `Suggested from ${reasons.join(' and ')}` }, score };
+      }
+    }
+
+    return best?.suggestion || { profileId: this.DEFAULT_PROFILE, reason: 'No discipline-specific signals found' };
+  }
+}
@@ -0,0 +1,216 @@
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  // Root schemas only; used as the structured output name sent to providers
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  additionalProperties?: boolean;
+}
+
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+const level: JsonSchema = { type: 'string', enum: ['high', 'medium', 'low'] };
+const score: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const text: JsonSchema = { type: 'string', minLength: 1 };
+
+const object = (properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema => ({
+  type: 'object',
+  properties,
+  required
+});
+
+/**
+ * Validates values against the small JSON Schema subset used for LLM output.
+ * Paths use JSONPath-style notation, e.g. `$.keyPoints[2].importance`.
+ */
+export class AnalysisSchemaService {
+  /** The LLMResponse fields a model is expected to produce. */
+  static readonly ANALYSIS_SCHEMA: JsonSchema = {
+    title: 'paper_analysis',
+    ...object({
+      content: text,
+      keyPoints: {
+        type: 'array',
+        items: object({
+          content: text,
+          importance: level,
+          sourceSection: text,
+          confidence: score
+        })
+      },
+      limitations: { type: 'array', items: text },
+      citations: {
+        type: 'array',
+        items: object({
+          text: text,
+          sourceLocation: text,
+          confidence: score
+        })
+      },
+      confidence: score,
+      ethicsFlags: {
+        type: 'array',
+        items: object({
+          type: { type: 'string', enum: ['bias', 'data-quality', 'representation', 'methodology', 'disclosure'] },
+          severity: level,
+          description: text,
+          recommendation: text,
+          sourceLocation: text,
+          // Set by profile-specific checks only
+          check: { type: 'string' }
+        }, ['type', 'severity', 'description', 'recommendation', 'sourceLocation'])
+      },
+      researchGaps: {
+        type: 'array',
+        items: object({
+          gap: text,
+          description: text,
+          priority: level,
+          suggestedApproach: text
+        })
+      },
+      xaiData: object({
+        decisionPathways: {
+          type: 'array',
+          items: object({
+            step: text,
+            reasoning: text,
+            confidence: score,
+            sources: { type: 'array', items: { type: 'string' } }
+          })
+        },
+        sourceReferences: {
+          type: 'array',
+          items: object({
+            originalText: text,
+            summaryReference: text,
+            relevanceScore: score,
+            location: text
+          })
+        },
+        confidenceBreakdown: object({
+          overall: score,
+          keyPoints: score,
+          citations: score,
+          limitations: score
+        }),
+        attentionWeights: {
+          type: 'array',
+          items: object({
+            text: text,
+            weight: score,
+            relevance: text
+          })
+        }
+      })
+    })
+  };
+
+  /** Used by the chunked-analysis reduce step, which only asks for a summary. */
+  static readonly SUMMARY_SCHEMA: JsonSchema = { title: 'paper_summary', ...object({ content: text }) };
+
+  static validate(value: unknown, schema: JsonSchema, path: string = '$'): SchemaValidationError[] {
+    const errors: SchemaValidationError[] = [];
+
+    if (schema.type && !this.matchesType(value, schema.type)) {
+      errors.push({ path, message: `expected ${schema.type}, got ${this.describeType(value)}` });
+      return errors;
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string)) {
+      errors.push({ path, message: `must be one of ${schema.enum.join(', ')}, got ${JSON.stringify(value)}` });
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path, message: `must be >= ${schema.minimum}, got ${value}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path, message: `must be <= ${schema.maximum}, got ${value}` });
+      }
+    }
+
+    if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push({ path, message: 'must not be empty' });
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...this.validate(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+
+    if (schema.type === 'object' && value && typeof value === 'object' && !Array.isArray(value)) {
+      const record = value as Record<string, unknown>;
+      (schema.required || []).forEach(key => {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      });
+      Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+        if (record[key] !== undefined && record[key] !== null) {
+          errors.push(...this.validate(record[key], propertySchema, `${path}.${key}`));
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  static formatErrors(errors: SchemaValidationError[], limit: number = 25): string {
+    const lines = errors.slice(0, limit).map(error => `- ${error.path}: ${error.message}`);
+    if (errors.length > limit) {
+      lines.push(`- ...and ${errors.length - limit} more`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Gemini's responseSchema is an OpenAPI subset: upper-case types and no
+   * numeric/length bounds. Bounds are still enforced by validate().
+   */
+  static toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+    const converted: Record<string, unknown> = {};
+    if (schema.type) converted.type = schema.type.toUpperCase();
+    if (schema.description) converted.description = schema.description;
+    if (schema.enum) converted.enum = schema.enum;
+    if (schema.items) converted.items = this.toGeminiSchema(schema.items);
+    if (schema.properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, this.toGeminiSchema(value)])
+      );
+      converted.required = schema.required || [];
+    }
+    return converted;
+  }
+
+  private static matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+    switch (type) {
+      case 'object':
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+}
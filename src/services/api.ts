@@ -1,37 +1,56 @@
-import { Paper, Summary } from '../types'
-import { LLMService, LLMProvider } from './llm'
+import { AnalysisOptions, AnalysisProfileId, AnalysisResult, DocumentLayout, Paper, PaperMetadata, PaperPage, RetractionStatus, Summary } from '../types'
+import { LLMService, LLMProvider, LLMResponse } from './llm'
 import { PDFProcessor } from './pdfProcessor'
+import { DocumentIngestionService } from './documentIngestion'
 import { AcademicDatabaseService } from './academicDatabase'
+import { PaperIdentityService } from './paperIdentity'
+import { AnalysisProfileService } from './analysisProfiles'
+import { DisclosureExtractionService } from './disclosureExtraction'
+import { RetractionService } from './retractionCheck'
+import { PaperMetadataService } from './paperMetadata'
 import { supabase } from '../lib/supabase'
 
 export class ApiService {
   static async uploadPaper(file: File): Promise<Paper> {
     try {
-      console.log('🔄 Starting PDF upload process...');
+      console.log('🔄 Starting document upload process...');
       
-      // Extract text and metadata from PDF
-      const extractionResult = await PDFProcessor.extractTextFromFile(file);
+      // Extract text and metadata with the extractor for the file's format
+      const extractionResult = await DocumentIngestionService.extractTextFromFile(file);
+      const { metadata } = extractionResult;
       
       // Extract title and authors
-      const title = extractionResult.metadata.title || 
+      const title = metadata.title || 
                    PDFProcessor.extractTitleFromText(extractionResult.text) || 
                    this.extractTitleFromFilename(file.name);
       
-      const authors = extractionResult.metadata.author ? 
-                     [extractionResult.metadata.author] : 
+      // Markup formats tag authors one by one; PDFs have at most a combined author field
+      const authors = metadata.authors?.length ? metadata.authors :
+                     metadata.author ? [metadata.author] : 
                      PDFProcessor.extractAuthorsFromText(extractionResult.text);
+      const doi = metadata.doi ? PaperIdentityService.normalizeDoi(metadata.doi) : null;
 
       // Enhanced metadata
       const enhancedMetadata = {
         ...extractionResult.metadata,
         originalFilename: file.name,
         uploadedAt: new Date().toISOString(),
-        abstract: PDFProcessor.extractAbstract(extractionResult.text),
-        keywords: PDFProcessor.extractKeywords(extractionResult.text),
+        abstract: metadata.abstract || PDFProcessor.extractAbstract(extractionResult.text),
+        keywords: metadata.keywords
+          ? metadata.keywords.split(/[;,]/).map(keyword => keyword.trim()).filter(Boolean)
+          : PDFProcessor.extractKeywords(extractionResult.text),
         structure: extractionResult.structure,
+        disclosures: DisclosureExtractionService.extract(extractionResult.text, extractionResult.pages),
+        references: extractionResult.references,
+        sections: extractionResult.sections,
+        captions: extractionResult.captions,
+        tables: extractionResult.tables,
         pages: extractionResult.pages.map(page => ({
           pageNumber: page.pageNumber,
-          wordCount: page.wordCount
+          text: page.text,
+          wordCount: page.wordCount,
+          source: page.source,
+          ocrConfidence: page.ocrConfidence
         }))
       };
 
@@ -46,6 +65,14 @@ export class ApiService {
         console.warn('Auth check failed, using anonymous user:', authError);
       }
 
+      const contentHash = await PaperIdentityService.contentHash(extractionResult.text);
+      const duplicate = await PaperIdentityService.findDuplicate(userId, { contentHash })
+        || (doi ? await PaperIdentityService.findDuplicate(userId, { doi }) : null);
+      if (duplicate?.paper) {
+        console.log('♻️ Paper is already in the library, reusing existing record');
+        return { ...duplicate.paper, uploadedFile: file, duplicate: duplicate.info };
+      }
+
       console.log('💾 Saving paper to database...');
 
       // Create paper record
@@ -55,6 +82,9 @@ export class ApiService {
           title,
           authors: authors.length > 0 ? authors : ['Unknown Author'],
           content: extractionResult.text,
+          content_hash: contentHash,
+          doi: metadata.doi,
+          doi_normalized: doi,
           metadata: {
             ...enhancedMetadata,
             uploadedBy: userId
@@ -77,7 +107,8 @@ export class ApiService {
             uploadedBy: userId,
             temporaryId: true,
             dbSaveError: error.message
-          }
+          },
+          duplicate: duplicate?.info
         };
       }
 
@@ -89,7 +120,8 @@ export class ApiService {
         authors: data.authors,
         content: data.content,
         uploadedFile: file,
-        metadata: data.metadata
+        metadata: data.metadata,
+        duplicate: duplicate?.info
       }
     } catch (error) {
       console.error('❌ Error uploading paper:', error);
@@ -100,9 +132,7 @@ export class ApiService {
   static async processPaperFromUrl(identifier: string, title?: string): Promise<Paper> {
     try {
       console.log('🔄 Processing paper from identifier:', identifier);
-      
-      const academicPaper = await AcademicDatabaseService.processPaperFromIdentifier(identifier);
-      
+
       // Get current user
       let userId = 'anonymous';
       try {
@@ -113,7 +143,37 @@ export class ApiService {
       } catch (authError) {
         console.warn('Auth check failed, using anonymous user:', authError);
       }
-      
+
+      // A DOI can be matched before any metadata is fetched
+      const requestedDoi = PaperIdentityService.normalizeDoi(identifier);
+      const known = await PaperIdentityService.findDuplicate(userId, { doi: requestedDoi });
+      if (known?.paper) {
+        console.log('♻️ Paper is already in the library, reusing existing record');
+        return { ...known.paper, duplicate: known.info };
+      }
+
+      const academicPaper = await AcademicDatabaseService.processPaperFromIdentifier(identifier);
+
+      // ArXiv, PubMed and URL identifiers only reveal their DOI after the lookup
+      const doi = PaperIdentityService.normalizeDoi(academicPaper.doi);
+      const duplicate = doi && doi !== requestedDoi
+        ? await PaperIdentityService.findDuplicate(userId, { doi })
+        : known;
+      if (duplicate?.paper) {
+        console.log('♻️ Paper is already in the library, reusing existing record');
+        return { ...duplicate.paper, duplicate: duplicate.info };
+      }
+
+      let retraction: RetractionStatus | undefined;
+      try {
+        [retraction] = doi ? await RetractionService.checkDois([doi]) : [];
+        if (retraction && retraction.status !== 'none') {
+          console.warn(`🚩 Paper has a ${retraction.status} notice`);
+        }
+      } catch (retractionError) {
+        console.warn('⚠️ Retraction check failed, will retry on the next library recheck:', retractionError);
+      }
+
       console.log('💾 Saving paper metadata to database...');
       
       const { data, error } = await supabase
@@ -123,6 +183,7 @@ export class ApiService {
           authors: academicPaper.authors.length > 0 ? academicPaper.authors : ['Unknown Author'],
           url: academicPaper.url,
           doi: academicPaper.doi,
+          doi_normalized: doi,
           content: academicPaper.abstract,
           metadata: {
             ...academicPaper.metadata,
@@ -135,7 +196,8 @@ export class ApiService {
             abstract: academicPaper.abstract,
             submittedAt: new Date().toISOString(),
             source: 'academic-database',
-            uploadedBy: userId
+            uploadedBy: userId,
+            retraction
           }
         })
         .select()
@@ -163,9 +225,11 @@ export class ApiService {
             submittedAt: new Date().toISOString(),
             source: 'academic-database',
             uploadedBy: userId,
+            retraction,
             temporaryId: true,
             dbSaveError: error.message
-          }
+          },
+          duplicate: duplicate?.info
         };
       }
 
@@ -178,7 +242,8 @@ export class ApiService {
         url: data.url,
         doi: data.doi,
         content: data.content,
-        metadata: data.metadata
+        metadata: data.metadata,
+        duplicate: duplicate?.info
       }
     } catch (error) {
       console.error('Error processing paper from identifier:', error)
@@ -186,16 +251,16 @@ export class ApiService {
     }
   }
 
-  static async generateSummary(paper: Paper, provider: LLMProvider = 'openai'): Promise<Summary> {
+  static async generateSummary(paper: Paper, provider: LLMProvider = 'openai', options: AnalysisOptions = {}): Promise<AnalysisResult> {
     try {
       console.log('🔄 Starting summary generation...');
       
       if (paper.content) {
-        return await this.generateSummaryFromContent(paper, paper.content, provider)
+        return await this.generateSummaryFromContent(paper, paper.content, provider, options)
       }
 
       if (paper.url || paper.doi) {
-        return await this.generateSummaryFromIdentifier(paper, provider)
+        return await this.generateSummaryFromIdentifier(paper, provider, options)
       }
 
       throw new Error('No content or identifier available for analysis')
@@ -205,81 +270,30 @@ export class ApiService {
     }
   }
 
-  private static async generateSummaryFromContent(paper: Paper, content: string, provider: LLMProvider): Promise<Summary> {
+  private static async generateSummaryFromContent(
+    paper: Paper,
+    content: string,
+    provider: LLMProvider,
+    options: AnalysisOptions
+  ): Promise<AnalysisResult> {
     try {
-      console.log('🤖 Analyzing paper content with AI...');
-      
-      const analysis = await LLMService.analyzePaper(content, paper.title, provider)
-
-      // Get current user
-      let userId = 'anonymous';
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          userId = user.id;
-        }
-      } catch (authError) {
-        console.warn('Auth check failed, using anonymous user:', authError);
-      }
-
-      console.log('💾 Saving analysis results...');
-
-      const { data, error } = await supabase
-        .from('summaries')
-        .insert({
-          paper_id: paper.id,
-          content: analysis.content,
-          key_points: analysis.keyPoints,
-          limitations: analysis.limitations,
-          citations: analysis.citations,
-          confidence: analysis.confidence,
-          ethics_flags: analysis.ethicsFlags,
-          xai_data: analysis.xaiData,
-          metadata: {
-            provider,
-            generatedBy: userId,
-            generatedAt: new Date().toISOString()
-          }
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('❌ Database error saving summary:', error);
-        // Create in-memory summary as fallback
-        const summary = {
-          id: `temp-summary-${Date.now()}`,
-          paper_id: paper.id,
-          content: analysis.content,
-          key_points: analysis.keyPoints,
-          limitations: analysis.limitations,
-          citations: analysis.citations,
-          confidence: analysis.confidence,
-          ethics_flags: analysis.ethicsFlags,
-          xai_data: analysis.xaiData,
-          created_at: new Date().toISOString(),
-          metadata: {
-            provider,
-            generatedBy: userId,
-            generatedAt: new Date().toISOString(),
-            temporaryId: true,
-            dbSaveError: error.message
-          }
-        };
-        return this.transformDatabaseSummary(summary, analysis.researchGaps);
-      }
-
-      console.log('✅ Analysis results processing completed successfully');
-      return this.transformDatabaseSummary(data, analysis.researchGaps)
+      return await this.analyzeWithCache(paper, content, paper.metadata?.pages, paper.metadata, provider, options)
     } catch (error) {
       console.error('Error in content analysis:', error)
       throw error
     }
   }
 
-  private static async generateSummaryFromIdentifier(paper: Paper, provider: LLMProvider): Promise<Summary> {
+  private static async generateSummaryFromIdentifier(
+    paper: Paper,
+    provider: LLMProvider,
+    options: AnalysisOptions
+  ): Promise<AnalysisResult> {
     try {
+      let current = paper;
       let fullTextContent = paper.content || '';
+      let pages = paper.metadata?.pages;
+      let layout: DocumentLayout | undefined = paper.metadata;
 
       if (paper.metadata?.pdfUrl && !fullTextContent) {
         try {
@@ -289,14 +303,43 @@ export class ApiService {
             const pdfFile = new File([pdfBlob], 'paper.pdf', { type: 'application/pdf' });
             const extractionResult = await PDFProcessor.extractTextFromFile(pdfFile);
             fullTextContent = extractionResult.text;
+            pages = extractionResult.pages;
+            layout = {
+              sections: extractionResult.sections,
+              captions: extractionResult.captions,
+              tables: extractionResult.tables
+            };
             
-            try {
-              await supabase
-                .from('papers')
-                .update({ content: fullTextContent })
-                .eq('id', paper.id);
-            } catch (updateError) {
-              console.warn('Failed to update paper content in database:', updateError);
+            const extracted: Partial<PaperMetadata> = {
+              pages,
+              disclosures: DisclosureExtractionService.extract(fullTextContent, pages),
+              references: extractionResult.references,
+              ...layout
+            };
+            current = {
+              ...paper,
+              content: fullTextContent,
+              metadata: { ...paper.metadata, ...extracted }
+            };
+
+            if (!paper.id.startsWith('temp-')) {
+              try {
+                const { error: updateError } = await supabase
+                  .from('papers')
+                  .update({
+                    content: fullTextContent,
+                    content_hash: await PaperIdentityService.contentHash(fullTextContent)
+                  })
+                  .eq('id', paper.id);
+                if (updateError) throw updateError;
+
+                const stored = await PaperMetadataService.merge(paper.id, extracted);
+                if (stored) {
+                  current = { ...current, metadata: stored };
+                }
+              } catch (updateError) {
+                console.warn('Failed to update paper content in database:', updateError);
+              }
             }
           }
         } catch (pdfError) {
@@ -309,70 +352,240 @@ export class ApiService {
                          `Title: ${paper.title}\nAuthors: ${paper.authors.join(', ')}\nJournal: ${paper.metadata?.journal || 'Unknown'}\nPublished: ${paper.metadata?.publishedDate || 'Unknown'}`;
       }
 
-      const analysis = await LLMService.analyzePaper(fullTextContent, paper.title, provider);
+      return await this.analyzeWithCache(current, fullTextContent, pages, layout, provider, options)
+    } catch (error) {
+      console.error('Error processing identifier:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Returns a stored analysis of the same text by the same provider, model,
+   * profile and prompt version when one exists, otherwise calls the model and
+   * stores the result.
+   */
+  private static async analyzeWithCache(
+    paper: Paper,
+    content: string,
+    pages: PaperPage[] | undefined,
+    layout: DocumentLayout | undefined,
+    provider: LLMProvider,
+    options: AnalysisOptions
+  ): Promise<AnalysisResult> {
+    const contentHash = await PaperIdentityService.contentHash(content);
+    const profile = AnalysisProfileService.getProfile(options.profile);
+    // Lookup and storage share this key, so a stored analysis is found again
+    const target = LLMService.resolveTarget(provider);
+
+    if (!options.force && target) {
+      const cached = await this.findCachedAnalysis(paper, contentHash, target, profile.id);
+      if (cached) {
+        return { paper, summary: cached };
+      }
+    }
+
+    const checked = await this.checkRetractions(paper, content);
+
+    console.log('🤖 Analyzing paper content with AI...');
+    const analysis = await LLMService.analyzePaper(content, paper.title, provider, pages, profile, layout);
+    const retractionFlags = RetractionService.toEthicsFlags(checked.metadata);
+    const summary = await this.storeAnalysis(
+      checked,
+      retractionFlags.length > 0 ? { ...analysis, ethicsFlags: [...retractionFlags, ...analysis.ethicsFlags] } : analysis,
+      provider,
+      target,
+      contentHash,
+      profile.id
+    );
+    return { paper: checked, summary };
+  }
 
-      let userId = 'anonymous';
-      try {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (user) {
-          userId = user.id;
+  /** Checks the paper and the works it cites for retractions unless that was already done for this text. */
+  private static async checkRetractions(paper: Paper, content: string): Promise<Paper> {
+    if (paper.metadata?.citedRetractions && (paper.metadata.retraction || !paper.doi)) {
+      return paper;
+    }
+
+    try {
+      return await RetractionService.recordCheck(paper, await RetractionService.checkPaper(paper, content));
+    } catch (error) {
+      console.warn('⚠️ Retraction check failed, analysing without it:', error);
+      return paper;
+    }
+  }
+
+  private static async findCachedAnalysis(
+    paper: Paper,
+    contentHash: string,
+    target: { provider: string; model: string },
+    profile: AnalysisProfileId
+  ): Promise<Summary | null> {
+    try {
+      const { data: rows, error } = await supabase
+        .from('summaries')
+        .select('*')
+        .eq('content_hash', contentHash)
+        .eq('provider', target.provider)
+        .eq('model', target.model)
+        .eq('prompt_version', LLMService.PROMPT_VERSION)
+        .eq('profile', profile)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      if (!rows || rows.length === 0) return null;
+
+      const own = rows.find(row => row.paper_id === paper.id);
+      if (own) {
+        console.log(`♻️ Reusing stored analysis ${own.id} (${target.provider}/${target.model})`);
+        return { ...this.transformDatabaseSummary(own), fromCache: true };
+      }
+
+      // Same text analysed for another paper record: store a copy against this one
+      const source = rows[0];
+      const copy = {
+        paper_id: paper.id,
+        content: source.content,
+        key_points: source.key_points,
+        limitations: source.limitations,
+        citations: source.citations,
+        confidence: source.confidence,
+        ethics_flags: source.ethics_flags,
+        xai_data: source.xai_data,
+        research_gaps: source.research_gaps,
+        content_hash: source.content_hash,
+        provider: source.provider,
+        model: source.model,
+        prompt_version: source.prompt_version,
+        profile: source.profile,
+        metadata: {
+          ...source.metadata,
+          cachedFrom: source.id,
+          generatedBy: await this.currentUserId(),
+          generatedAt: new Date().toISOString()
         }
-      } catch (authError) {
-        console.warn('Auth check failed, using anonymous user:', authError);
+      };
+
+      console.log(`♻️ Reusing stored analysis ${source.id} from another copy of this paper`);
+
+      if (paper.id.startsWith('temp-')) {
+        return { ...this.transformDatabaseSummary({ ...copy, id: `temp-summary-${Date.now()}`, created_at: source.created_at }), fromCache: true };
       }
 
-      const { data, error } = await supabase
+      const { data, error: insertError } = await this.insertSummary(copy);
+
+      if (insertError) throw insertError;
+
+      return { ...this.transformDatabaseSummary(data), fromCache: true };
+    } catch (error) {
+      console.warn('⚠️ Analysis cache lookup failed, running a new analysis:', error);
+      return null;
+    }
+  }
+
+  private static async storeAnalysis(
+    paper: Paper,
+    analysis: LLMResponse,
+    provider: LLMProvider,
+    target: { provider: string; model: string } | null,
+    contentHash: string,
+    profile: AnalysisProfileId
+  ): Promise<Summary> {
+    const userId = await this.currentUserId();
+
+    // Heuristic fallbacks are stored but never served from the cache, and neither is
+    // an analysis from a model other than the lookup key, which would never match it
+    const cacheable = !!analysis.model
+      && analysis.provider === target?.provider
+      && analysis.model === target?.model
+      && !(analysis.degraded || []).some(field => field.path === '$');
+    if (analysis.model && !cacheable && target && analysis.model !== target.model) {
+      console.warn(`⚠️ Analysis served by ${analysis.provider}/${analysis.model}, not ${target.provider}/${target.model}; storing it uncached`);
+    }
+
+    const row = {
+      paper_id: paper.id,
+      content: analysis.content,
+      key_points: analysis.keyPoints,
+      limitations: analysis.limitations,
+      citations: analysis.citations,
+      confidence: analysis.confidence,
+      ethics_flags: analysis.ethicsFlags,
+      xai_data: analysis.xaiData,
+      research_gaps: analysis.researchGaps || [],
+      content_hash: cacheable ? contentHash : null,
+      provider: analysis.provider || provider,
+      model: analysis.model || null,
+      prompt_version: LLMService.PROMPT_VERSION,
+      profile,
+      metadata: {
+        provider: analysis.provider || provider,
+        model: analysis.model,
+        profile,
+        generatedBy: userId,
+        generatedAt: new Date().toISOString(),
+        coverage: analysis.coverage,
+        degraded: analysis.degraded,
+        repaired: analysis.repaired
+      }
+    };
+
+    console.log('💾 Saving analysis results...');
+
+    const { data, error } = await this.insertSummary(row);
+
+    if (error) {
+      console.error('❌ Database error saving summary:', error);
+      // Create in-memory summary as fallback
+      return this.transformDatabaseSummary({
+        ...row,
+        id: `temp-summary-${Date.now()}`,
+        created_at: new Date().toISOString(),
+        metadata: {
+          ...row.metadata,
+          temporaryId: true,
+          dbSaveError: error.message
+        }
+      });
+    }
+
+    console.log('✅ Analysis results processing completed successfully');
+    return this.transformDatabaseSummary(data)
+  }
+
+  /**
+   * Inserts a summary row. The database numbers versions per paper; an insert
+   * that loses a race for a version number (unique violation 23505) is retried
+   * rather than leaving the analysis out of the version history.
+   */
+  private static async insertSummary(row: Record<string, unknown>, attempts = 3) {
+    for (let attempt = 1; ; attempt++) {
+      const result = await supabase
         .from('summaries')
-        .insert({
-          paper_id: paper.id,
-          content: analysis.content,
-          key_points: analysis.keyPoints,
-          limitations: analysis.limitations,
-          citations: analysis.citations,
-          confidence: analysis.confidence,
-          ethics_flags: analysis.ethicsFlags,
-          xai_data: analysis.xaiData,
-          metadata: {
-            provider,
-            generatedBy: userId,
-            generatedAt: new Date().toISOString()
-          }
-        })
+        .insert(row)
         .select()
-        .single()
+        .single();
 
-      if (error) {
-        console.error('Database error storing summary:', error)
-        const summary = {
-          id: `temp-summary-${Date.now()}`,
-          paper_id: paper.id,
-          content: analysis.content,
-          key_points: analysis.keyPoints,
-          limitations: analysis.limitations,
-          citations: analysis.citations,
-          confidence: analysis.confidence,
-          ethics_flags: analysis.ethicsFlags,
-          xai_data: analysis.xaiData,
-          created_at: new Date().toISOString(),
-          metadata: {
-            provider,
-            generatedBy: userId,
-            generatedAt: new Date().toISOString(),
-            temporaryId: true,
-            dbSaveError: error.message
-          }
-        };
-        return this.transformDatabaseSummary(summary, analysis.researchGaps);
+      if (result.error?.code !== '23505' || attempt >= attempts) {
+        return result;
       }
+      console.warn(`⚠️ Summary version taken by a concurrent save, retrying (${attempt}/${attempts})`);
+    }
+  }
 
-      return this.transformDatabaseSummary(data, analysis.researchGaps)
-    } catch (error) {
-      console.error('Error processing identifier:', error)
-      throw error
+  private static async currentUserId(): Promise<string> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        return user.id;
+      }
+    } catch (authError) {
+      console.warn('Auth check failed, using anonymous user:', authError);
     }
+    return 'anonymous';
   }
 
-  private static transformDatabaseSummary(dbSummary: any, researchGaps?: any[]): Summary {
+  private static transformDatabaseSummary(dbSummary: any): Summary {
     return {
       id: dbSummary.id,
       paperId: dbSummary.paper_id,
@@ -393,7 +606,13 @@ export class ApiService {
         ...ef
       })),
       xaiData: dbSummary.xai_data,
-      researchGaps: researchGaps || []
+      // NULL for summaries analysed before research gaps were stored
+      researchGaps: dbSummary.research_gaps ?? undefined,
+      degraded: dbSummary.metadata?.degraded || [],
+      version: dbSummary.version ?? undefined,
+      provider: dbSummary.provider ?? dbSummary.metadata?.provider,
+      model: dbSummary.model ?? dbSummary.metadata?.model,
+      profile: dbSummary.profile ?? dbSummary.metadata?.profile
     }
   }
 
@@ -527,6 +746,68 @@ export class ApiService {
     }
   }
 
+  /** Every analysis of a paper, newest version first. */
+  static async getSummaryVersions(paperId: string): Promise<Summary[]> {
+    try {
+      const { data: summaries, error } = await supabase
+        .from('summaries')
+        .select('*')
+        .eq('paper_id', paperId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      return (summaries || []).map(summary => this.transformDatabaseSummary(summary));
+    } catch (error) {
+      console.error('Error fetching summary versions:', error);
+      return [];
+    }
+  }
+
+  /** Latest summary of each paper that has been analysed; papers without one are skipped. */
+  static async getLatestSummariesForPapers(paperIds: string[]): Promise<Array<{ paper: Paper; summary: Summary }>> {
+    if (paperIds.length === 0) return [];
+
+    try {
+      const { data: summaries, error } = await supabase
+        .from('summaries')
+        .select(`
+          *,
+          papers (*)
+        `)
+        .in('paper_id', paperIds)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const latest = new Map<string, NonNullable<typeof summaries>[number]>();
+      (summaries || []).forEach(summary => {
+        if (!latest.has(summary.paper_id)) latest.set(summary.paper_id, summary);
+      });
+
+      return paperIds
+        .filter(paperId => latest.has(paperId))
+        .map(paperId => {
+          const summary = latest.get(paperId);
+          return {
+            paper: {
+              id: summary.papers.id,
+              title: summary.papers.title,
+              authors: summary.papers.authors,
+              doi: summary.papers.doi,
+              url: summary.papers.url,
+              content: summary.papers.content,
+              metadata: summary.papers.metadata
+            },
+            summary: this.transformDatabaseSummary(summary)
+          };
+        });
+    } catch (error) {
+      console.error('Error fetching summaries for papers:', error);
+      throw new Error('Failed to fetch paper summaries');
+    }
+  }
+
   private static extractTitleFromFilename(filename: string): string {
     return filename
       .replace(/\.[^/.]+$/, '')
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { PaperPage } from '../types';
+import { ChunkAnalysis, ChunkedAnalysisService, PaperChunk } from './chunkedAnalysis';
+import { LLMResponse } from './llm';
+
+const page = (pageNumber: number, text: string): PaperPage => ({
+  pageNumber,
+  text,
+  wordCount: text.split(/\s+/).length
+});
+
+const chunk = (index: number, text: string, pageNumber: number = index + 1): PaperChunk => ({
+  index,
+  text,
+  pageStart: pageNumber,
+  pageEnd: pageNumber,
+  pages: [page(pageNumber, text)],
+  paginated: true
+});
+
+const response = (overrides: Partial<LLMResponse> = {}): LLMResponse => ({
+  content: 'A chunk summary.',
+  keyPoints: [],
+  limitations: [],
+  citations: [],
+  confidence: 0.8,
+  ethicsFlags: [],
+  xaiData: {
+    decisionPathways: [],
+    sourceReferences: [],
+    confidenceBreakdown: { overall: 0.8, keyPoints: 0.8, citations: 0.8, limitations: 0.8 },
+    attentionWeights: []
+  },
+  researchGaps: [],
+  ...overrides
+});
+
+const keyPoint = (content: string, importance: 'high' | 'medium' | 'low' = 'medium') => ({
+  content,
+  importance,
+  sourceSection: 'Results',
+  confidence: 0.7
+});
+
+describe('ChunkedAnalysisService.createChunks', () => {
+  it('groups whole pages into chunks without exceeding the limit', () => {
+    const pages = [page(1, 'a'.repeat(60)), page(2, 'b'.repeat(30)), page(3, 'c'.repeat(50))];
+
+    const chunks = ChunkedAnalysisService.createChunks('', pages, 100);
+
+    expect(chunks.map(c => [c.pageStart, c.pageEnd])).toEqual([[1, 2], [3, 3]]);
+    expect(chunks[0].text).toBe(`${'a'.repeat(60)}\n\n${'b'.repeat(30)}`);
+    expect(chunks.every(c => c.paginated && c.text.length <= 100)).toBe(true);
+  });
+
+  it('splits an oversized page on sentence boundaries and keeps its page number', () => {
+    const sentence = (word: string) => `${word} ${'x'.repeat(40)} ends here. `;
+    const pages = [page(4, `${sentence('One')}${sentence('Two')}${sentence('Three')}`.trim())];
+
+    const chunks = ChunkedAnalysisService.createChunks('', pages, 80);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks.map(c => c.text.split(' ')[0])).toEqual(['One', 'Two', 'Three']);
+    expect(chunks.every(c => c.pageStart === 4 && c.pageEnd === 4 && c.text.endsWith('ends here.'))).toBe(true);
+  });
+
+  it('falls back to pseudo-pages when no page text is available', () => {
+    const content = 'First sentence of the paper. Second sentence of the paper. Third sentence of the paper.';
+
+    const chunks = ChunkedAnalysisService.createChunks(content, [{ pageNumber: 1, text: '', wordCount: 120 }], 40);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(c => !c.paginated)).toBe(true);
+    expect(chunks.map(c => c.text).join(' ')).toBe(content);
+  });
+});
+
+describe('ChunkedAnalysisService.mergeResponses', () => {
+  it('merges key points whose token overlap reaches the 0.7 threshold', () => {
+    // Seven of ten distinct tokens shared: Jaccard exactly 0.7
+    const base = 'caffeine delayed sleep onset seventeen minutes young adults crossover trial';
+    const atThreshold = 'caffeine delayed sleep onset seventeen minutes young';
+    // Six of ten: 0.6
+    const belowThreshold = 'caffeine delayed sleep onset seventeen minutes';
+
+    const merged = ChunkedAnalysisService.mergeResponses([
+      { chunk: chunk(0, 'x'.repeat(100)), response: response({ keyPoints: [keyPoint(base, 'medium')] }) },
+      { chunk: chunk(1, 'y'.repeat(100)), response: response({ keyPoints: [keyPoint(atThreshold, 'high'), keyPoint(belowThreshold)] }) }
+    ], 'Caffeine');
+
+    expect(merged.keyPoints.map(kp => kp.content)).toEqual([base, belowThreshold]);
+    expect(merged.keyPoints[0].importance).toBe('high');
+    expect(merged.keyPoints[0].sourcePages).toEqual([1, 2]);
+  });
+
+  it('scales the length-weighted confidence by the share of text analysed', () => {
+    const analyses: ChunkAnalysis[] = [
+      { chunk: chunk(0, 'a'.repeat(100)), response: response({ confidence: 0.8 }) },
+      { chunk: chunk(1, 'b'.repeat(100)), response: response({ confidence: 0.6 }) },
+      { chunk: chunk(2, 'c'.repeat(200)), response: null, error: 'timeout' }
+    ];
+
+    const merged = ChunkedAnalysisService.mergeResponses(analyses, 'Caffeine');
+
+    expect(merged.coverage).toEqual({ totalChunks: 3, analyzedChunks: 2, ratio: 0.5 });
+    // (0.8 × 100 + 0.6 × 100) / 200 = 0.7, times 50% coverage
+    expect(merged.confidence).toBeCloseTo(0.35);
+    expect(merged.xaiData.decisionPathways[0].reasoning).toContain('not analysed: Page 3');
+  });
+
+  it('re-roots degraded paths under the chunk they came from', () => {
+    const merged = ChunkedAnalysisService.mergeResponses([
+      { chunk: chunk(0, 'a'.repeat(50)), response: response() },
+      {
+        chunk: chunk(1, 'b'.repeat(50)),
+        response: response({ degraded: [{ path: '$.keyPoints[0].importance', reason: 'missing' }], repaired: true })
+      }
+    ], 'Caffeine');
+
+    expect(merged.degraded).toEqual([{ path: '$chunks[1].keyPoints[0].importance', reason: 'missing' }]);
+    expect(merged.repaired).toBe(true);
+  });
+
+  it('throws when no chunk was analysed', () => {
+    expect(() => ChunkedAnalysisService.mergeResponses(
+      [{ chunk: chunk(0, 'a'.repeat(50)), response: null }],
+      'Caffeine'
+    )).toThrow('No chunk could be analysed');
+  });
+});
@@ -0,0 +1,351 @@
+import { PaperPage } from '../types';
+import { LLMResponse } from './llm';
+
+export interface PaperChunk {
+  index: number;
+  text: string;
+  pageStart: number;
+  pageEnd: number;
+  pages: PaperPage[];
+  // False when the text had no page data and was split into pseudo-pages
+  paginated: boolean;
+}
+
+export interface ChunkAnalysis {
+  chunk: PaperChunk;
+  response: LLMResponse | null;
+  error?: string;
+}
+
+export class ChunkedAnalysisService {
+  // Roughly 3k tokens of paper text per request, leaving room for the prompt and the JSON answer
+  static readonly MAX_CHUNK_CHARS = 12000;
+  private static readonly DUPLICATE_THRESHOLD = 0.7;
+
+  static createChunks(content: string, pages?: PaperPage[], maxChars: number = this.MAX_CHUNK_CHARS): PaperChunk[] {
+    // Papers stored before page text was persisted only carry page numbers and word counts
+    const textPages = (pages || []).filter(page => typeof page.text === 'string' && page.text.trim().length > 0);
+    const paginated = textPages.length > 0;
+    const sourcePages = paginated ? textPages : this.splitIntoPseudoPages(content, maxChars);
+
+    console.log(`✂️ Chunking ${sourcePages.length} pages (max ${maxChars} characters per chunk)`);
+
+    const chunks: PaperChunk[] = [];
+    let current: PaperPage[] = [];
+    let currentLength = 0;
+
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push({
+        index: chunks.length,
+        text: current.map(page => page.text).join('\n\n'),
+        pageStart: current[0].pageNumber,
+        pageEnd: current[current.length - 1].pageNumber,
+        pages: current,
+        paginated
+      });
+      current = [];
+      currentLength = 0;
+    };
+
+    for (const page of sourcePages) {
+      // A single oversized page is split on sentence boundaries but keeps its page number
+      const pieces = page.text.length > maxChars ? this.splitLongText(page.text, maxChars) : [page.text];
+
+      for (const piece of pieces) {
+        if (currentLength + piece.length > maxChars) {
+          flush();
+        }
+        current.push({
+          pageNumber: page.pageNumber,
+          text: piece,
+          wordCount: piece.split(/\s+/).filter(word => word.length > 0).length
+        });
+        currentLength += piece.length + 2;
+      }
+    }
+    flush();
+
+    console.log(`✅ Created ${chunks.length} chunks`);
+    return chunks;
+  }
+
+  static mergeResponses(analyses: ChunkAnalysis[], title: string): LLMResponse {
+    const successful = analyses.filter((a): a is ChunkAnalysis & { response: LLMResponse } => a.response !== null);
+    const totalChars = analyses.reduce((sum, a) => sum + a.chunk.text.length, 0);
+    const analyzedChars = successful.reduce((sum, a) => sum + a.chunk.text.length, 0);
+    const coverage = totalChars > 0 ? analyzedChars / totalChars : 0;
+
+    console.log('🧩 === MERGING CHUNK ANALYSES ===');
+    console.log(`📊 Chunks analysed: ${successful.length}/${analyses.length}`);
+    console.log(`📊 Coverage: ${Math.round(coverage * 100)}%`);
+
+    if (successful.length === 0) {
+      throw new Error('No chunk could be analysed');
+    }
+
+    // Weight every per-chunk score by the share of text that chunk represents
+    const weighted = (pick: (response: LLMResponse) => number): number => {
+      const sum = successful.reduce((total, a) => total + pick(a.response) * a.chunk.text.length, 0);
+      return analyzedChars > 0 ? sum / analyzedChars : 0;
+    };
+
+    const chunkPages = (chunk: PaperChunk): number[] | undefined =>
+      chunk.paginated ? Array.from(new Set(chunk.pages.map(page => page.pageNumber))) : undefined;
+
+    const keyPoints = this.dedupe(
+      successful.flatMap(({ chunk, response }) => response.keyPoints.map(kp => ({
+        ...kp,
+        sourcePages: kp.sourcePages || this.locatePages(kp.content, chunk) || chunkPages(chunk),
+        chunkIndex: chunk.index
+      }))),
+      kp => kp.content,
+      (kept, duplicate) => ({
+        ...kept,
+        importance: this.higherPriority(kept.importance, duplicate.importance),
+        confidence: Math.max(kept.confidence, duplicate.confidence),
+        sourcePages: this.mergePages(kept.sourcePages, duplicate.sourcePages)
+      })
+    );
+
+    const citations = this.dedupe(
+      successful.flatMap(({ chunk, response }) => response.citations.map(c => {
+        const pages = this.locatePages(c.text, chunk);
+        return {
+          ...c,
+          pageNumber: c.pageNumber ?? (pages?.length === 1 ? pages[0] : chunk.paginated && chunk.pageStart === chunk.pageEnd ? chunk.pageStart : undefined),
+          chunkIndex: chunk.index
+        };
+      })),
+      c => c.text,
+      (kept, duplicate) => ({ ...kept, confidence: Math.max(kept.confidence, duplicate.confidence) })
+    );
+
+    const ethicsFlags = this.dedupe(
+      successful.flatMap(({ chunk, response }) => response.ethicsFlags.map(flag => ({
+        ...flag,
+        sourcePages: flag.sourcePages || chunkPages(chunk),
+        chunkIndex: chunk.index
+      }))),
+      flag => `${flag.type} ${flag.description}`,
+      (kept, duplicate) => ({
+        ...kept,
+        severity: this.higherPriority(kept.severity, duplicate.severity),
+        sourcePages: this.mergePages(kept.sourcePages, duplicate.sourcePages)
+      })
+    );
+
+    const limitations = this.dedupe(
+      successful.flatMap(({ response }) => response.limitations),
+      limitation => limitation,
+      kept => kept
+    );
+
+    const researchGaps = this.dedupe(
+      successful.flatMap(({ response }) => response.researchGaps),
+      gap => `${gap.gap} ${gap.description}`,
+      (kept, duplicate) => ({ ...kept, priority: this.higherPriority(kept.priority, duplicate.priority) })
+    );
+
+    const sourceReferences = this.dedupe(
+      successful.flatMap(({ chunk, response }) => response.xaiData.sourceReferences.map(ref => ({
+        ...ref,
+        location: !chunk.paginated
+          ? ref.location
+          : chunk.pageStart === chunk.pageEnd
+            ? `${ref.location} (p. ${chunk.pageStart})`
+            : `${ref.location} (pp. ${chunk.pageStart}-${chunk.pageEnd})`
+      }))),
+      ref => ref.originalText,
+      (kept, duplicate) => ({ ...kept, relevanceScore: Math.max(kept.relevanceScore, duplicate.relevanceScore) })
+    );
+
+    const attentionWeights = this.dedupe(
+      successful.flatMap(({ response }) => response.xaiData.attentionWeights),
+      weight => weight.text,
+      (kept, duplicate) => ({ ...kept, weight: Math.max(kept.weight, duplicate.weight) })
+    ).sort((a, b) => b.weight - a.weight).slice(0, 10);
+
+    const decisionPathways = this.dedupe(
+      successful.flatMap(({ response }) => response.xaiData.decisionPathways),
+      pathway => pathway.step,
+      (kept, duplicate) => ({
+        ...kept,
+        confidence: (kept.confidence + duplicate.confidence) / 2,
+        sources: Array.from(new Set([...kept.sources, ...duplicate.sources]))
+      })
+    );
+
+    // Unanalysed text lowers the overall score proportionally
+    const confidence = Math.max(0, Math.min(1, weighted(r => r.confidence) * coverage));
+    const describeChunk = (chunk: PaperChunk): string => {
+      const label = chunk.paginated ? 'Page' : 'Part';
+      return chunk.pageStart === chunk.pageEnd
+        ? `${label} ${chunk.pageStart}`
+        : `${label}s ${chunk.pageStart}-${chunk.pageEnd}`;
+    };
+    const failedSections = analyses.filter(a => a.response === null).map(a => describeChunk(a.chunk));
+
+    decisionPathways.unshift({
+      step: 'Chunked Full-Text Analysis',
+      reasoning: `The paper was split into ${analyses.length} sections that were analysed independently and merged. ` +
+        `${successful.length} of ${analyses.length} sections (${Math.round(coverage * 100)}% of the text) were analysed successfully` +
+        (failedSections.length > 0 ? `; not analysed: ${failedSections.join(', ')}.` : '.'),
+      confidence: coverage,
+      sources: successful.map(({ chunk }) => describeChunk(chunk))
+    });
+
+    const merged: LLMResponse = {
+      content: this.mergeSummaries(successful.map(a => a.response.content), title),
+      keyPoints,
+      limitations,
+      citations,
+      confidence,
+      ethicsFlags,
+      researchGaps,
+      xaiData: {
+        decisionPathways,
+        sourceReferences,
+        confidenceBreakdown: {
+          overall: confidence,
+          keyPoints: weighted(r => r.xaiData.confidenceBreakdown.keyPoints) * coverage,
+          citations: weighted(r => r.xaiData.confidenceBreakdown.citations) * coverage,
+          limitations: weighted(r => r.xaiData.confidenceBreakdown.limitations) * coverage
+        },
+        attentionWeights
+      },
+      coverage: {
+        totalChunks: analyses.length,
+        analyzedChunks: successful.length,
+        ratio: coverage
+      }
+    };
+
+    // Keep each chunk's degraded markers, re-rooted under the chunk they came from
+    const degraded = successful.flatMap(({ chunk, response }) =>
+      (response.degraded || []).map(field => ({
+        path: `$chunks[${chunk.index}]${field.path.substring(1)}`,
+        reason: field.reason
+      }))
+    );
+    if (degraded.length > 0) {
+      merged.degraded = degraded;
+    }
+    if (successful.some(({ response }) => response.repaired)) {
+      merged.repaired = true;
+    }
+
+    console.log(`🔑 Merged Key Points: ${keyPoints.length}`);
+    console.log(`📖 Merged Citations: ${citations.length}`);
+    console.log(`🛡️ Merged Ethics Flags: ${ethicsFlags.length}`);
+    console.log('🧩 === MERGE COMPLETED ===');
+
+    return merged;
+  }
+
+  // Used when the reduce request fails: keep the lead paragraph of each chunk summary
+  static mergeSummaries(summaries: string[], title: string): string {
+    const leads = summaries
+      .map(summary => summary.split(/\n\s*\n/)[0].trim())
+      .filter(lead => lead.length > 0);
+
+    const unique = this.dedupe(leads, lead => lead, kept => kept);
+    if (unique.length === 0) {
+      return `Analysis of "${title}" completed.`;
+    }
+    return unique.join('\n\n');
+  }
+
+  private static dedupe<T>(items: T[], key: (item: T) => string, combine: (kept: T, duplicate: T) => T): T[] {
+    const result: Array<{ item: T; tokens: Set<string> }> = [];
+
+    for (const item of items) {
+      const tokens = this.tokenize(key(item));
+      const match = result.find(existing => this.similarity(existing.tokens, tokens) >= this.DUPLICATE_THRESHOLD);
+
+      if (match) {
+        match.item = combine(match.item, item);
+      } else {
+        result.push({ item, tokens });
+      }
+    }
+
+    return result.map(entry => entry.item);
+  }
+
+  private static tokenize(text: string): Set<string> {
+    return new Set(
+      text
+        .toLowerCase()
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .split(/\s+/)
+        .filter(word => word.length > 2)
+    );
+  }
+
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    let intersection = 0;
+    a.forEach(token => {
+      if (b.has(token)) intersection++;
+    });
+    return intersection / (a.size + b.size - intersection);
+  }
+
+  private static locatePages(text: string, chunk: PaperChunk): number[] | undefined {
+    if (!chunk.paginated) return undefined;
+    const probe = text.toLowerCase().replace(/\s+/g, ' ').trim().substring(0, 50);
+    if (probe.length < 20) return undefined;
+
+    const pages = chunk.pages
+      .filter(page => page.text.toLowerCase().replace(/\s+/g, ' ').includes(probe))
+      .map(page => page.pageNumber);
+
+    return pages.length > 0 ? Array.from(new Set(pages)) : undefined;
+  }
+
+  private static mergePages(a?: number[], b?: number[]): number[] | undefined {
+    if (!a && !b) return undefined;
+    return Array.from(new Set([...(a || []), ...(b || [])])).sort((x, y) => x - y);
+  }
+
+  private static higherPriority<T extends 'high' | 'medium' | 'low'>(a: T, b: T): T {
+    const rank = { high: 3, medium: 2, low: 1 };
+    return rank[a] >= rank[b] ? a : b;
+  }
+
+  private static splitIntoPseudoPages(content: string, maxChars: number): PaperPage[] {
+    return this.splitLongText(content, maxChars).map((text, index) => ({
+      pageNumber: index + 1,
+      text,
+      wordCount: text.split(/\s+/).filter(word => word.length > 0).length
+    }));
+  }
+
+  private static splitLongText(text: string, maxChars: number): string[] {
+    const sentences = text.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) || [text];
+    const pieces: string[] = [];
+    let current = '';
+
+    for (const sentence of sentences) {
+      if (current.length + sentence.length > maxChars && current.length > 0) {
+        pieces.push(current.trim());
+        current = '';
+      }
+      // Sentences longer than a whole chunk are hard-wrapped
+      if (sentence.length > maxChars) {
+        for (let i = 0; i < sentence.length; i += maxChars) {
+          pieces.push(sentence.substring(i, i + maxChars).trim());
+        }
+        continue;
+      }
+      current += sentence;
+    }
+
+    if (current.trim().length > 0) {
+      pieces.push(current.trim());
+    }
+
+    return pieces.filter(piece => piece.length > 0);
+  }
+}
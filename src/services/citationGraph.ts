@@ -0,0 +1,191 @@
+import { CitationGraph, CitationGraphEdge, Paper, ParsedReference, SharedReference, Workspace } from '../types';
+import { AcademicDatabaseService } from './academicDatabase';
+import { ApiService } from './api';
+import { PaperIdentityService } from './paperIdentity';
+import { PaperMetadataService } from './paperMetadata';
+import { ReferenceParsingService } from './referenceParser';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Reference lists of analysed papers: DOI lookup for entries that print none,
+ * importing an entry as a paper, and the citation graph of a workspace.
+ */
+export class CitationGraphService {
+  // Crossref lookups per resolve run; long bibliographies are resolved over several runs
+  private static readonly MAX_LOOKUPS = 40;
+  // Word overlap needed before a Crossref match or a workspace paper is taken to be the cited work
+  private static readonly TITLE_MATCH_THRESHOLD = 0.8;
+
+  /** Stored references, or parsed from the text for papers added before parsing existed. */
+  static getReferences(paper: Paper): ParsedReference[] {
+    return paper.metadata?.references ??
+      (paper.content ? ReferenceParsingService.parse(paper.content, paper.metadata?.pages) : []);
+  }
+
+  /**
+   * Looks up DOIs for entries that have a title but no DOI and stores the
+   * result on the paper. Matches whose title differs from the parsed one are ignored.
+   */
+  static async resolveDois(paper: Paper, references: ParsedReference[]): Promise<ParsedReference[]> {
+    const unresolved = references.filter(reference => !reference.doi && reference.title).slice(0, this.MAX_LOOKUPS);
+    console.log(`🔗 Looking up DOIs for ${unresolved.length} references...`);
+
+    const resolved = new Map<number, string>();
+    for (const reference of unresolved) {
+      try {
+        const match = await AcademicDatabaseService.searchCrossRefBibliographic(reference.raw);
+        const doi = PaperIdentityService.normalizeDoi(match?.DOI);
+        if (doi && match?.title?.[0] && this.titleSimilarity(match.title[0], reference.title!) >= this.TITLE_MATCH_THRESHOLD) {
+          resolved.set(reference.index, doi);
+        }
+      } catch (error) {
+        console.warn(`⚠️ DOI lookup failed for reference ${reference.label}:`, error);
+      }
+    }
+
+    const updated = references.map(reference =>
+      resolved.has(reference.index) ? { ...reference, doi: resolved.get(reference.index), doiSource: 'crossref' as const } : reference
+    );
+    console.log(`✅ Resolved ${resolved.size} of ${unresolved.length} DOIs`);
+
+    if (!paper.id.startsWith('temp-')) {
+      try {
+        // Only the references key: the caller's copy lacks keys such as the retraction status
+        await PaperMetadataService.merge(paper.id, { references: updated });
+      } catch (error) {
+        console.error('Error saving resolved references:', error);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * Adds a reference to the user's library. Entries with a DOI go through the
+   * normal identifier import; others are stored from the parsed citation alone.
+   */
+  static async importReference(reference: ParsedReference, sourcePaperId?: string): Promise<Paper> {
+    if (reference.doi) {
+      return ApiService.processPaperFromUrl(reference.doi, reference.title);
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('papers')
+        .insert({
+          title: reference.title || reference.raw.substring(0, 200),
+          authors: reference.authors.length > 0 ? reference.authors : ['Unknown Author'],
+          content: reference.raw,
+          metadata: {
+            publishedDate: reference.year,
+            journal: reference.venue,
+            source: 'reference',
+            importedFrom: sourcePaperId,
+            submittedAt: new Date().toISOString(),
+            uploadedBy: user?.id || 'anonymous'
+          }
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      console.log(`✅ Imported reference "${data.title}"`);
+      return {
+        id: data.id,
+        title: data.title,
+        authors: data.authors,
+        content: data.content,
+        metadata: data.metadata
+      };
+    } catch (error) {
+      console.error('Error importing reference:', error);
+      throw new Error('Failed to import reference');
+    }
+  }
+
+  /**
+   * Which analysed papers in the workspace cite each other (by DOI, or by title
+   * and year when no DOI is known) and which references several of them share.
+   */
+  static async buildWorkspaceGraph(workspace: Workspace): Promise<CitationGraph> {
+    const entries = await ApiService.getLatestSummariesForPapers(workspace.papers);
+    const papers = entries.map(entry => ({ paper: entry.paper, references: this.getReferences(entry.paper) }));
+
+    const edges: CitationGraphEdge[] = [];
+    papers.forEach(citing => {
+      citing.references.forEach(reference => {
+        papers.forEach(cited => {
+          if (cited.paper.id === citing.paper.id || edges.some(edge => edge.from === citing.paper.id && edge.to === cited.paper.id)) return;
+
+          const matchedBy = this.matchesPaper(reference, cited.paper);
+          if (matchedBy) {
+            edges.push({ from: citing.paper.id, to: cited.paper.id, referenceIndex: reference.index, matchedBy });
+          }
+        });
+      });
+    });
+
+    const shared = new Map<string, SharedReference>();
+    papers.forEach(({ paper, references }) => {
+      references.forEach(reference => {
+        const key = this.referenceKey(reference);
+        if (!key) return;
+
+        const entry = shared.get(key) || { key, reference, citedBy: [] };
+        if (!entry.citedBy.includes(paper.id)) entry.citedBy.push(paper.id);
+        // Prefer the copy with the most detail for display and import
+        if (!entry.reference.doi && reference.doi) entry.reference = reference;
+        shared.set(key, entry);
+      });
+    });
+
+    return {
+      nodes: papers.map(({ paper, references }) => ({
+        paperId: paper.id,
+        title: paper.title,
+        year: paper.metadata?.publishedDate?.substring(0, 4),
+        referenceCount: references.length
+      })),
+      edges,
+      sharedReferences: Array.from(shared.values())
+        .filter(entry => entry.citedBy.length > 1)
+        .sort((a, b) => b.citedBy.length - a.citedBy.length)
+    };
+  }
+
+  private static matchesPaper(reference: ParsedReference, paper: Paper): 'doi' | 'title' | null {
+    const paperDoi = PaperIdentityService.normalizeDoi(paper.doi);
+    if (reference.doi && paperDoi) {
+      return reference.doi === paperDoi ? 'doi' : null;
+    }
+
+    const paperYear = paper.metadata?.publishedDate?.substring(0, 4);
+    const yearsAgree = !reference.year || !paperYear || reference.year === paperYear;
+    return reference.title && yearsAgree && this.titleSimilarity(reference.title, paper.title) >= this.TITLE_MATCH_THRESHOLD
+      ? 'title'
+      : null;
+  }
+
+  private static referenceKey(reference: ParsedReference): string | null {
+    if (reference.doi) return `doi:${reference.doi}`;
+    const title = this.normalizeTitle(reference.title || '');
+    return title.length >= 20 ? `title:${title}|${reference.year || ''}` : null;
+  }
+
+  private static normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  // Share of the shorter title's words that appear in the other
+  private static titleSimilarity(a: string, b: string): number {
+    const wordsA = new Set(this.normalizeTitle(a).split(' ').filter(word => word.length > 2));
+    const wordsB = new Set(this.normalizeTitle(b).split(' ').filter(word => word.length > 2));
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    const [smaller, larger] = wordsA.size <= wordsB.size ? [wordsA, wordsB] : [wordsB, wordsA];
+    const shared = Array.from(smaller).filter(word => larger.has(word)).length;
+    return shared / larger.size >= 0.5 ? shared / smaller.size : 0;
+  }
+}
@@ -6,9 +6,12 @@ import {
   Workspace, 
   Collaborator,
   ActivityLog,
-  Notification
+  Notification,
+  Summary
 } from '../types';
 import { ExportService } from './exportService';
+import { ReportingGuidelineService } from './reportingGuidelines';
+import { DisclosureExtractionService } from './disclosureExtraction';
 import { supabase } from '../lib/supabase';
 
 export class CollaborationService {
@@ -331,7 +334,8 @@ export class CollaborationService {
           id: `ef-${summary.id}-${index}`,
           ...ef
         })),
-        xaiData: summary.xai_data
+        xaiData: summary.xai_data,
+        researchGaps: summary.research_gaps ?? undefined
       };
 
       const paperData = {
@@ -341,7 +345,12 @@ export class CollaborationService {
         doi: summary.papers.doi,
         url: summary.papers.url,
         content: summary.papers.content,
-        metadata: summary.papers.metadata
+        metadata: {
+          ...summary.papers.metadata,
+          // Papers added before extraction existed have no stored statements
+          disclosures: summary.papers.metadata?.disclosures ??
+            DisclosureExtractionService.extract(summary.papers.content || '', summary.papers.metadata?.pages)
+        }
       };
 
       // Fetch comments if requested
@@ -350,6 +359,14 @@ export class CollaborationService {
         (summaryData as any).comments = comments;
       }
 
+      // Fetch reporting checklist results if requested, latest run per guideline
+      if (options.sections.reportingGuidelines) {
+        const assessments = await ReportingGuidelineService.getAssessments(summaryId);
+        (summaryData as Summary).guidelineAssessments = assessments.filter(
+          (assessment, index) => assessments.findIndex(other => other.guidelineId === assessment.guidelineId) === index
+        );
+      }
+
       // Use the ExportService to generate the export
       await ExportService.exportSummary(summaryData, paperData, options);
 
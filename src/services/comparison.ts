@@ -0,0 +1,344 @@
+import {
+  ComparedPaper,
+  ComparisonMatrix,
+  ComparisonRow,
+  ComparisonSynthesis,
+  EthicsComparisonCell,
+  EthicsFlag,
+  Paper,
+  PaperComparison,
+  Summary
+} from '../types';
+import { supabase } from '../lib/supabase';
+import { LLMProvider, LLMService } from './llm';
+import { JsonSchema } from './analysisSchema';
+import { PaperRetrievalService } from './paperRetrieval';
+
+export interface ComparisonEntry {
+  paper: Paper;
+  summary: Summary;
+}
+
+interface ModelSynthesis {
+  overview: string;
+  agreements: Array<{ statement: string; papers: number[] }>;
+  contradictions: Array<{ topic: string; positions: Array<{ paper: number; position: string }> }>;
+}
+
+interface ComparisonRowData {
+  id: string;
+  title: string;
+  papers: ComparedPaper[];
+  matrix: ComparisonMatrix;
+  synthesis: (Omit<ComparisonSynthesis, 'generatedAt'> & { generatedAt: string }) | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export class ComparisonService {
+  static readonly MIN_PAPERS = 2;
+  static readonly MAX_PAPERS = 5;
+
+  // Share of the shorter statement's stemmed terms that must overlap for two statements to share a row
+  private static readonly ALIGNMENT_THRESHOLD = 0.3;
+  private static readonly ETHICS_TYPES: EthicsFlag['type'][] = ['bias', 'data-quality', 'representation', 'methodology', 'disclosure'];
+  private static readonly SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+
+  private static readonly SYNTHESIS_SCHEMA: JsonSchema = {
+    title: 'paper_comparison',
+    type: 'object',
+    properties: {
+      overview: { type: 'string', minLength: 1 },
+      agreements: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            statement: { type: 'string', minLength: 1 },
+            papers: { type: 'array', items: { type: 'integer', minimum: 1 } }
+          },
+          required: ['statement', 'papers']
+        }
+      },
+      contradictions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            topic: { type: 'string', minLength: 1 },
+            positions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  paper: { type: 'integer', minimum: 1 },
+                  position: { type: 'string', minLength: 1 }
+                },
+                required: ['paper', 'position']
+              }
+            }
+          },
+          required: ['topic', 'positions']
+        }
+      }
+    },
+    required: ['overview', 'agreements', 'contradictions']
+  };
+
+  /** Builds an unsaved comparison; the matrix is computed locally without a model. */
+  static createComparison(entries: ComparisonEntry[]): PaperComparison {
+    if (entries.length < this.MIN_PAPERS || entries.length > this.MAX_PAPERS) {
+      throw new Error(`Select between ${this.MIN_PAPERS} and ${this.MAX_PAPERS} analyses to compare`);
+    }
+
+    return {
+      id: `temp-comparison-${Date.now()}`,
+      title: `Comparison of ${entries.length} papers`,
+      papers: entries.map(({ paper, summary }) => ({
+        summaryId: summary.id,
+        paperId: paper.id,
+        title: paper.title,
+        authors: paper.authors
+      })),
+      matrix: this.buildMatrix(entries.map(entry => entry.summary)),
+      createdBy: 'anonymous',
+      createdAt: new Date()
+    };
+  }
+
+  static buildMatrix(summaries: Summary[]): ComparisonMatrix {
+    return {
+      keyPoints: this.alignStatements(summaries.map(s => s.keyPoints.map(kp => kp.content))),
+      limitations: this.alignStatements(summaries.map(s => s.limitations)),
+      ethicsFlags: this.ETHICS_TYPES.map(type => ({
+        label: type,
+        cells: summaries.map(summary => this.ethicsCell(summary.ethicsFlags.filter(flag => flag.type === type)))
+      })),
+      confidence: [
+        { label: 'Overall', cells: summaries.map(s => s.xaiData?.confidenceBreakdown?.overall ?? s.confidence ?? null) },
+        { label: 'Key points', cells: summaries.map(s => s.xaiData?.confidenceBreakdown?.keyPoints ?? null) },
+        { label: 'Citations', cells: summaries.map(s => s.xaiData?.confidenceBreakdown?.citations ?? null) },
+        { label: 'Limitations', cells: summaries.map(s => s.xaiData?.confidenceBreakdown?.limitations ?? null) }
+      ],
+      researchGaps: this.alignStatements(summaries.map(s => (s.researchGaps || []).map(gap => gap.gap)))
+    };
+  }
+
+  /**
+   * Asks the model for agreements and contradictions between the papers.
+   * Returns null when no provider is available.
+   */
+  static async generateSynthesis(
+    comparison: PaperComparison,
+    summaries: Summary[],
+    provider?: LLMProvider
+  ): Promise<ComparisonSynthesis | null> {
+    try {
+      const prompt = this.buildSynthesisPrompt(comparison.papers, summaries);
+      const result = await LLMService.generateStructured<ModelSynthesis>(prompt, this.SYNTHESIS_SCHEMA, provider, comparison.title);
+      if (!result) return null;
+
+      if (typeof result.value?.overview !== 'string') {
+        throw new Error('Model response did not contain a synthesis');
+      }
+
+      // Drop references to papers that are not part of the comparison
+      const valid = (paper: unknown) => Number.isInteger(paper) && (paper as number) >= 1 && (paper as number) <= comparison.papers.length;
+
+      return {
+        overview: result.value.overview,
+        agreements: (result.value.agreements || [])
+          .map(agreement => ({ statement: agreement.statement, papers: (agreement.papers || []).filter(valid) }))
+          .filter(agreement => agreement.statement && agreement.papers.length >= 2),
+        contradictions: (result.value.contradictions || [])
+          .map(contradiction => ({
+            topic: contradiction.topic,
+            positions: (contradiction.positions || []).filter(position => valid(position.paper) && position.position)
+          }))
+          .filter(contradiction => contradiction.topic && contradiction.positions.length >= 2),
+        provider: result.provider,
+        model: result.model,
+        generatedAt: new Date()
+      };
+    } catch (error) {
+      console.error('Error generating comparison synthesis:', error);
+      throw new Error('Failed to generate synthesis');
+    }
+  }
+
+  static async saveComparison(comparison: PaperComparison): Promise<PaperComparison> {
+    try {
+      let userId = 'anonymous';
+      try {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) {
+          userId = user.id;
+        }
+      } catch (authError) {
+        console.warn('Auth check failed, using anonymous user:', authError);
+      }
+
+      const row = {
+        title: comparison.title,
+        summary_ids: comparison.papers.map(paper => paper.summaryId),
+        papers: comparison.papers,
+        matrix: comparison.matrix,
+        synthesis: comparison.synthesis || null
+      };
+
+      const isNew = comparison.id.startsWith('temp-');
+      const { data, error } = isNew
+        ? await supabase.from('paper_comparisons').insert({ ...row, created_by: userId }).select().single()
+        : await supabase.from('paper_comparisons').update(row).eq('id', comparison.id).select().single();
+
+      if (error) throw error;
+
+      console.log(`💾 Saved comparison ${data.id}`);
+      return this.transformComparison(data);
+    } catch (error) {
+      console.error('Error saving comparison:', error);
+      throw new Error('Failed to save comparison');
+    }
+  }
+
+  static async getUserComparisons(): Promise<PaperComparison[]> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('paper_comparisons')
+        .select('*')
+        .eq('created_by', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(row => this.transformComparison(row));
+    } catch (error) {
+      console.error('Error fetching comparisons:', error);
+      return [];
+    }
+  }
+
+  static async deleteComparison(comparisonId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('paper_comparisons')
+        .delete()
+        .eq('id', comparisonId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error deleting comparison:', error);
+      throw new Error('Failed to delete comparison');
+    }
+  }
+
+  /**
+   * Groups similar statements from different papers into shared rows. Rows
+   * covering more papers come first; a paper may contribute several statements
+   * to one row.
+   */
+  static alignStatements(perPaper: string[][]): ComparisonRow<string[]>[] {
+    const rows: Array<{ terms: Set<string>; cells: string[][] }> = [];
+
+    perPaper.forEach((statements, paperIndex) => {
+      statements.filter(statement => statement && statement.trim()).forEach(statement => {
+        const terms = new Set(PaperRetrievalService.terms(statement));
+        let best: { row: typeof rows[number]; score: number } | null = null;
+
+        for (const row of rows) {
+          const score = this.similarity(row.terms, terms);
+          if (score >= this.ALIGNMENT_THRESHOLD && (!best || score > best.score)) {
+            best = { row, score };
+          }
+        }
+
+        if (best) {
+          best.row.cells[paperIndex].push(statement);
+          terms.forEach(term => best!.row.terms.add(term));
+        } else {
+          const cells = perPaper.map(() => [] as string[]);
+          cells[paperIndex].push(statement);
+          rows.push({ terms, cells });
+        }
+      });
+    });
+
+    return rows
+      .map(row => ({ label: row.cells.find(cell => cell.length > 0)![0], cells: row.cells }))
+      .sort((a, b) => this.coverage(b.cells) - this.coverage(a.cells));
+  }
+
+  private static ethicsCell(flags: EthicsFlag[]): EthicsComparisonCell {
+    const severity = flags.reduce<EthicsComparisonCell['severity']>(
+      (highest, flag) => !highest || this.SEVERITY_RANK[flag.severity] > this.SEVERITY_RANK[highest] ? flag.severity : highest,
+      null
+    );
+    return { severity, count: flags.length, descriptions: flags.map(flag => flag.description) };
+  }
+
+  private static coverage(cells: string[][]): number {
+    return cells.filter(cell => cell.length > 0).length;
+  }
+
+  private static similarity(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let intersection = 0;
+    b.forEach(term => {
+      if (a.has(term)) intersection++;
+    });
+    return intersection / Math.min(a.size, b.size);
+  }
+
+  private static buildSynthesisPrompt(papers: ComparedPaper[], summaries: Summary[]): string {
+    const sections = papers.map((paper, index) => {
+      const summary = summaries.find(s => s.id === paper.summaryId);
+      if (!summary) return `PAPER ${index + 1}: "${paper.title}"\n(analysis unavailable)`;
+
+      return `PAPER ${index + 1}: "${paper.title}"${paper.authors.length ? ` by ${paper.authors.slice(0, 3).join(', ')}` : ''}
+Summary: ${summary.content.substring(0, 2000)}
+Key points:
+${summary.keyPoints.map(kp => `- ${kp.content}`).join('\n')}
+Limitations:
+${summary.limitations.map(limitation => `- ${limitation}`).join('\n')}`;
+    }).join('\n\n');
+
+    return `Compare the following ${papers.length} research papers, using only the analyses provided below.
+
+${sections}
+
+Identify:
+1. Agreements: findings or conclusions supported by two or more papers. List the paper numbers for each.
+2. Contradictions: topics where the papers report different or conflicting results, methods or conclusions. Give each paper's position.
+3. An overview paragraph that a researcher could use to decide how the papers relate.
+
+Only state what the analyses support. If the papers address different questions, say so in the overview and return empty lists.
+
+Respond with JSON in this exact format:
+{
+  "overview": "One paragraph describing how the papers relate",
+  "agreements": [
+    { "statement": "What the papers agree on", "papers": [1, 2] }
+  ],
+  "contradictions": [
+    { "topic": "What they disagree on", "positions": [{ "paper": 1, "position": "Paper 1's position" }, { "paper": 2, "position": "Paper 2's position" }] }
+  ]
+}`;
+  }
+
+  private static transformComparison(row: ComparisonRowData): PaperComparison {
+    return {
+      id: row.id,
+      title: row.title,
+      papers: row.papers || [],
+      matrix: row.matrix,
+      synthesis: row.synthesis ? { ...row.synthesis, generatedAt: new Date(row.synthesis.generatedAt) } : undefined,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined
+    };
+  }
+}
@@ -0,0 +1,264 @@
+import { AnalysisProfileId, DisclosureStatement, DisclosureStatements, DisclosureType, PaperPage } from '../types';
+import { LLMResponse } from './llm';
+
+interface DisclosureRule {
+  type: DisclosureType;
+  // Section headings as printed in the paper; matched in Title or UPPER case only
+  headings: string[];
+  // Cue for statements written inline rather than under a heading
+  cue: RegExp;
+  boilerplate: RegExp[];
+  identifiers: RegExp[];
+}
+
+interface HeadingMatch {
+  rule?: DisclosureRule;
+  start: number;
+  bodyStart: number;
+}
+
+const ON_REQUEST = /\b(?:available|provided|obtained|shared)\s+(?:from\s+the\s+(?:corresponding\s+)?authors?\s+)?(?:up)?on\s+(?:reasonable\s+)?request\b/i;
+const NOT_APPLICABLE = /^\s*(?:not applicable|n\/a|none)\.?\s*$/i;
+const LINKS = /\bhttps?:\/\/[^\s)\]]+|\b10\.\d{4,9}\/[^\s)\]]+|\bgithub\.com\/[\w.-]+\/[\w.-]+|\b(?:GSE|SRP|PRJNA|PRJEB)\d{4,}\b/g;
+
+const RULES: DisclosureRule[] = [
+  {
+    type: 'funding',
+    headings: ['Funding', 'Funding information', 'Funding sources', 'Sources of funding', 'Financial support', 'Financial disclosure', 'Role of the funding source'],
+    cue: /\b(?:(?:was|were|is|are)\s+(?:partly\s+|partially\s+|financially\s+)?(?:supported|funded)\s+by|received\s+no\s+(?:specific\s+)?(?:funding|grant)|no\s+(?:specific\s+|external\s+)?funding\s+was)\b/i,
+    boilerplate: [],
+    identifiers: [/\b(?:[Gg]rant|[Aa]ward|[Cc]ontract)s?\s*(?:[Nn]o\.?|[Nn]umbers?|#|ID)?\s*:?\s*([A-Z]{0,6}[-/ ]?\d[\w/-]{3,})/g]
+  },
+  {
+    type: 'competingInterests',
+    headings: ['Competing interests', 'Competing interest', 'Conflicts of interest', 'Conflict of interest', 'Declaration of competing interest', 'Declaration of interests', 'Declaration of conflicting interests'],
+    cue: /\b(?:declare[sd]?\s+(?:that\s+(?:they\s+have\s+|there\s+(?:is|are)\s+)?)?(?:no|the\s+following)\s+(?:known\s+)?(?:competing|conflicts?|conflicting|financial)|no\s+(?:competing\s+interests|conflicts?\s+of\s+interest)\s+(?:exist|to\s+declare|were\s+declared))/i,
+    boilerplate: [],
+    identifiers: []
+  },
+  {
+    type: 'dataAvailability',
+    headings: ['Data availability', 'Data availability statement', 'Data access', 'Data sharing', 'Data sharing statement', 'Availability of data and materials', 'Availability of data'],
+    cue: /\b(?:data(?:sets?)?\s+(?:that\s+support|used|generated|analy[sz]ed)[^.]{0,80}(?:are|is)\s+(?:publicly\s+|openly\s+|freely\s+)?available|data\s+(?:are|is)\s+(?:publicly\s+|openly\s+|freely\s+)?available|data\s+(?:have\s+been|were)\s+deposited)/i,
+    boilerplate: [ON_REQUEST, /\bwill\s+be\s+made\s+available\b/i],
+    identifiers: [LINKS]
+  },
+  {
+    type: 'codeAvailability',
+    headings: ['Code availability', 'Software availability', 'Code and data availability'],
+    cue: /\b(?:(?:source\s+)?code|software|scripts?|implementation)\s+(?:is|are|will\s+be|has\s+been)\s+(?:made\s+)?(?:publicly\s+|openly\s+|freely\s+)?(?:available|released)/i,
+    boilerplate: [ON_REQUEST, /\bwill\s+be\s+(?:made\s+)?(?:publicly\s+)?(?:available|released)\b/i],
+    identifiers: [LINKS]
+  },
+  {
+    type: 'ethicsApproval',
+    headings: ['Ethics approval', 'Ethics approval and consent to participate', 'Ethics statement', 'Ethical approval', 'Ethical considerations', 'Ethics', 'Institutional review board statement'],
+    cue: /\b(?:(?:approved|reviewed)\s+by|approval\s+(?:was\s+)?(?:obtained|granted)\s+(?:from|by)|waived\s+by)[^.]{0,120}(?:ethic|review\s+board|IRB|committee)|\b(?:IRB|institutional\s+review\s+board|ethics\s+committee)[^.]{0,80}approv/i,
+    boilerplate: [NOT_APPLICABLE],
+    identifiers: [/\b(?:[Pp]rotocol|[Aa]pproval|[Rr]eference|IRB|[Pp]ermit)\s*(?:[Nn]o\.?|[Nn]umber|#|ID|[Cc]ode)?\s*:?\s*([A-Z0-9]*\d[\w/.-]{2,})/g]
+  },
+  {
+    type: 'trialRegistration',
+    headings: ['Trial registration', 'Clinical trial registration', 'Registration'],
+    cue: /\b(?:(?:prospectively\s+|retrospectively\s+)?registered\s+(?:at|with|in|on)\s+[^.]{0,40}(?:ClinicalTrials\.gov|ISRCTN|registry|register|PROSPERO)|registration\s+(?:number|no\.?)\s*:?\s*[A-Z]{2,})/i,
+    boilerplate: [NOT_APPLICABLE],
+    identifiers: [/\b(?:NCT\d{8}|ISRCTN\d{8}|ACTRN\d{14}|ChiCTR[-A-Z0-9]{6,}|DRKS\d{8}|CRD\d{11}|EudraCT\s*(?:[Nn]o\.?|[Nn]umber)?\s*\d{4}-\d{6}-\d{2})\b/g]
+  }
+];
+
+// Back-matter headings that end a statement without being one
+const OTHER_HEADINGS = ['References', 'Acknowledgements', 'Acknowledgments', 'Author contributions', 'Authors\' contributions', 'Abbreviations', 'Supplementary material', 'Supplementary information', 'Consent for publication', 'Additional information', 'Declarations', 'Publisher\'s note', 'Open access', 'Footnotes'];
+
+/**
+ * Finds the funding, competing-interest, data and code availability, ethics
+ * approval and trial registration statements in a paper's text. Statements
+ * under a heading are preferred; inline sentences are used otherwise. Runs
+ * without a model, so disclosure checks never depend on one.
+ */
+export class DisclosureExtractionService {
+  static readonly LABELS: Record<DisclosureType, string> = {
+    funding: 'Funding',
+    competingInterests: 'Competing interests',
+    dataAvailability: 'Data availability',
+    codeAvailability: 'Code availability',
+    ethicsApproval: 'Ethics approval',
+    trialRegistration: 'Trial registration'
+  };
+
+  private static readonly MAX_STATEMENT_CHARS = 600;
+
+  private static headingPattern: RegExp | null = null;
+
+  static extract(content: string, pages?: PaperPage[]): DisclosureStatements {
+    const usablePages = (pages || []).filter(page => typeof page.text === 'string' && page.text.trim().length > 0);
+    const sources = usablePages.length > 0
+      ? usablePages.map(page => ({ text: page.text, pageNumber: page.pageNumber as number | undefined }))
+      : [{ text: content || '', pageNumber: undefined }];
+
+    const statements: DisclosureStatements = {};
+
+    // Headed statements take precedence over inline sentences anywhere in the paper
+    sources.forEach(source => {
+      const headings = this.findHeadings(source.text);
+      headings.forEach((heading, index) => {
+        if (!heading.rule || statements[heading.rule.type]) return;
+        const end = Math.min(
+          index + 1 < headings.length ? headings[index + 1].start : source.text.length,
+          heading.bodyStart + this.MAX_STATEMENT_CHARS
+        );
+        const text = this.trimStatement(source.text.substring(heading.bodyStart, end), end - heading.bodyStart >= this.MAX_STATEMENT_CHARS);
+        if (text.length >= 4) {
+          statements[heading.rule.type] = this.buildStatement(heading.rule, text, source.pageNumber);
+        }
+      });
+    });
+
+    RULES.filter(rule => !statements[rule.type]).forEach(rule => {
+      for (const source of sources) {
+        const sentence = this.sentences(source.text).find(candidate => rule.cue.test(candidate));
+        if (sentence) {
+          statements[rule.type] = this.buildStatement(rule, this.trimStatement(sentence, sentence.length > this.MAX_STATEMENT_CHARS), source.pageNumber);
+          break;
+        }
+      }
+    });
+
+    console.log(`📑 Disclosure statements found: ${Object.keys(statements).join(', ') || 'none'}`);
+    return statements;
+  }
+
+  /**
+   * Flags statements a paper of this kind should have but does not, and
+   * statements that are present only as boilerplate. Which statements are
+   * expected depends on the analysis profile and on what the text describes.
+   */
+  static toEthicsFlags(statements: DisclosureStatements, content: string, profile?: AnalysisProfileId): LLMResponse['ethicsFlags'] {
+    const participantMentions = (content.match(/\b(?:participants|patients|volunteers|respondents|interviewees|mice|rats|animals)\b/gi) || []).length;
+    const isTrial = profile === 'clinical-trial' || /\brandomi[sz]ed\b[^.]{0,40}\btrial\b/i.test(content);
+
+    const expected: Partial<Record<DisclosureType, 'high' | 'medium' | 'low'>> = {
+      funding: 'medium',
+      competingInterests: 'medium',
+      dataAvailability: 'low',
+      ...(profile === 'ml-paper' ? { codeAvailability: 'low' as const } : {}),
+      ...(participantMentions >= 3 ? { ethicsApproval: 'high' as const } : {}),
+      ...(isTrial ? { trialRegistration: 'high' as const } : profile === 'systematic-review' ? { trialRegistration: 'medium' as const } : {})
+    };
+
+    const flags: LLMResponse['ethicsFlags'] = [];
+    RULES.forEach(({ type }) => {
+      const severity = expected[type];
+      const statement = statements[type];
+      const label = this.LABELS[type].toLowerCase();
+
+      if (!statement) {
+        if (severity) {
+          flags.push({
+            type: 'disclosure',
+            severity,
+            description: `No ${label} statement was found in the paper`,
+            recommendation: this.recommendation(type),
+            sourceLocation: 'Declarations and back matter - statement not found'
+          });
+        }
+        return;
+      }
+
+      if (statement.boilerplate && (severity || type === 'dataAvailability' || type === 'codeAvailability')) {
+        flags.push({
+          type: 'disclosure',
+          severity: severity === 'high' ? 'medium' : 'low',
+          description: `The ${label} statement is boilerplate and does not disclose anything specific: "${statement.text}"`,
+          recommendation: this.recommendation(type),
+          sourceLocation: this.describeLocation(statement),
+          ...(statement.pageNumber ? { sourcePages: [statement.pageNumber] } : {})
+        });
+      } else if (type === 'trialRegistration' && severity && statement.identifiers.length === 0) {
+        flags.push({
+          type: 'disclosure',
+          severity: 'medium',
+          description: `The trial registration statement does not give a registry identifier: "${statement.text}"`,
+          recommendation: this.recommendation(type),
+          sourceLocation: this.describeLocation(statement),
+          ...(statement.pageNumber ? { sourcePages: [statement.pageNumber] } : {})
+        });
+      }
+    });
+
+    return flags;
+  }
+
+  private static findHeadings(text: string): HeadingMatch[] {
+    if (!this.headingPattern) {
+      const phrases = [...RULES.flatMap(rule => rule.headings), ...OTHER_HEADINGS]
+        .flatMap(phrase => [phrase, phrase.toUpperCase()])
+        .sort((a, b) => b.length - a.length)
+        .map(phrase => phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+      // A heading starts the text, a line or a sentence, and is followed by the statement itself
+      this.headingPattern = new RegExp(
+        `(?<=^|\\n\\s*|[.!?)\\]\\d]\\s+|Declarations\\s+|DECLARATIONS\\s+)(${phrases.join('|')})(?:\\s+[Ss]tatements?)?\\s*[:.]?\\s+(?=[A-Z0-9"“(])`,
+        'g'
+      );
+    }
+
+    return Array.from(text.matchAll(this.headingPattern)).map(match => {
+      const heading = match[1].replace(/\s+/g, ' ').toLowerCase();
+      return {
+        rule: RULES.find(rule => rule.headings.some(candidate => candidate.toLowerCase() === heading)),
+        start: match.index ?? 0,
+        bodyStart: (match.index ?? 0) + match[0].length
+      };
+    });
+  }
+
+  private static buildStatement(rule: DisclosureRule, text: string, pageNumber?: number): DisclosureStatement {
+    const identifiers = new Set<string>();
+    rule.identifiers.forEach(pattern => {
+      for (const match of text.matchAll(pattern)) {
+        identifiers.add((match[1] || match[0]).replace(/[.,;:]+$/, '').trim());
+      }
+    });
+
+    return {
+      text,
+      pageNumber,
+      boilerplate: rule.boilerplate.some(pattern => pattern.test(text)),
+      identifiers: Array.from(identifiers)
+    };
+  }
+
+  private static trimStatement(text: string, truncated: boolean): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (!truncated) return clean;
+    const lastSentence = clean.search(/[.!?](?=[^.!?]*$)/);
+    return lastSentence > 40 ? clean.substring(0, lastSentence + 1) : `${clean}...`;
+  }
+
+  private static sentences(text: string): string[] {
+    // Abbreviations such as "Grant No. 123" do not end a sentence
+    return text
+      .split(/(?<=[.!?])(?<!\b(?:No|Nos|no|et al|e\.g|i\.e|Dr|Fig|vs|Ref)\.)\s+(?=[A-Z])/)
+      .filter(sentence => sentence.trim().length > 20);
+  }
+
+  private static describeLocation(statement: DisclosureStatement): string {
+    return statement.pageNumber ? `Page ${statement.pageNumber}` : 'Declarations and back matter';
+  }
+
+  private static recommendation(type: DisclosureType): string {
+    switch (type) {
+      case 'funding':
+        return 'State all sources of funding with grant numbers, and the role of funders in the study';
+      case 'competingInterests':
+        return 'Include a competing interests statement for every author, stating explicitly when there are none';
+      case 'dataAvailability':
+        return 'Deposit the data in a public repository and cite its identifier, or explain the specific restrictions on access';
+      case 'codeAvailability':
+        return 'Release the code in a public repository with an archived version and link it from the paper';
+      case 'ethicsApproval':
+        return 'Name the approving ethics committee or IRB, give the approval reference and describe how consent was obtained';
+      case 'trialRegistration':
+        return 'Report the registry name and registration number, and whether registration was prospective';
+    }
+  }
+}
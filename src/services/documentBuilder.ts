@@ -0,0 +1,156 @@
+import { ParsedReference } from '../types';
+import {
+  DocumentFormat,
+  PDFCaption,
+  PDFDocumentExtraction,
+  PDFSection,
+  PDFTable,
+  analyzeDocumentStructure,
+  captionLabel,
+  countWords
+} from '../../supabase/functions/_shared/pdfExtraction';
+import { PDFExtractionResult } from './pdfProcessor';
+import { ReferenceParsingService } from './referenceParser';
+
+// Headings of a reference list, which formats without reference markup recognise by title
+export const REFERENCE_HEADING = /^(?:\d+\.?\s*)?(?:references|bibliography|literature cited|works cited|reference list)$/i;
+
+export type DocumentMetadata = Pick<
+  PDFDocumentExtraction['metadata'],
+  'title' | 'author' | 'authors' | 'abstract' | 'doi' | 'subject' | 'keywords' | 'creationDate' | 'modificationDate'
+>;
+
+/**
+ * Assembles the text of a document without pages (DOCX, LaTeX, HTML, JATS)
+ * block by block, recording where each heading starts, so the extractors of
+ * those formats return the same structure as a PDF extraction.
+ */
+export class DocumentBuilder {
+  private blocks: string[] = [];
+  private length = 0;
+  private sections: PDFSection[] = [];
+  private openSections: PDFSection[] = [];
+  private captions: PDFCaption[] = [];
+  private tables: PDFTable[] = [];
+  private referenceEntries: Array<{ text: string; known?: Partial<ParsedReference> }> = [];
+
+  constructor(private readonly format: DocumentFormat) {}
+
+  /** Starts a section; a number is taken from the title ("2.1 Methods") when none is given. */
+  heading(title: string, level: number, number?: string): void {
+    const text = clean(title);
+    if (!text) return;
+
+    const numbered = number ? null : text.match(/^((?:\d+\.)*\d+)\.?\s+(\S.*)$/);
+    const section: PDFSection = {
+      title: numbered ? numbered[2] : text,
+      number: number || numbered?.[1],
+      level,
+      pageStart: 0,
+      pageEnd: 0,
+      // Blocks after the first start after their separator
+      charStart: this.blocks.length > 0 ? this.length + 2 : 0,
+      children: []
+    };
+
+    while (this.openSections.length > 0 && this.openSections[this.openSections.length - 1].level >= level) {
+      this.openSections.pop();
+    }
+    const parent = this.openSections[this.openSections.length - 1];
+    (parent ? parent.children : this.sections).push(section);
+    this.openSections.push(section);
+
+    this.append(section.number ? `${section.number} ${section.title}` : section.title);
+  }
+
+  paragraph(text: string): void {
+    const cleaned = clean(text);
+    if (cleaned) this.append(cleaned);
+  }
+
+  caption(kind: PDFCaption['kind'], number: string, text: string): void {
+    const label = captionLabel(kind, number);
+    this.captions.push({ kind, label, number, text: clean(text), pageNumber: 0 });
+    this.paragraph(`${label}. ${text}`);
+  }
+
+  /** A table with its caption; the caption is only recorded when the table is numbered. */
+  table(rows: string[][], number?: string, caption?: string): void {
+    const cleanedRows = rows.map(row => row.map(clean)).filter(row => row.some(cell => cell.length > 0));
+    if (number) this.caption('table', number, caption || '');
+    else if (caption) this.paragraph(caption);
+    if (cleanedRows.length === 0) return;
+
+    this.tables.push({
+      label: number ? captionLabel('table', number) : undefined,
+      caption: caption ? clean(caption) : undefined,
+      pageNumber: 0,
+      rows: cleanedRows
+    });
+    this.append(cleanedRows.map(row => row.join(' ')).join('\n'));
+  }
+
+  /**
+   * An entry of a reference list the markup already separates. Entries are
+   * numbered in order, so in-text citations should be written as [n]; fields
+   * the markup tags are kept over the ones parsed from the text.
+   */
+  reference(text: string, known?: Partial<ParsedReference>): void {
+    // The list's own numbering is replaced by the builder's
+    const cleaned = clean(text).replace(/^(?:\[\d+\]|\d+\.)\s+/, '');
+    if (cleaned) this.referenceEntries.push({ text: cleaned, known });
+  }
+
+  build(metadata: DocumentMetadata, file: { name: string; size: number }): PDFExtractionResult {
+    const body = this.blocks.join('\n\n');
+    if (this.referenceEntries.length > 0) {
+      this.heading('References', 1);
+      this.referenceEntries.forEach((entry, index) => this.append(`[${index + 1}] ${entry.text}`));
+    }
+    const text = this.blocks.join('\n\n');
+
+    // Without separated entries the list is found in the text, as for PDFs
+    const references = this.referenceEntries.length > 0
+      ? ReferenceParsingService.fromEntries(this.referenceEntries.map(entry => entry.text), body)
+        .map((reference, index) => {
+          const known = Object.fromEntries(
+            Object.entries(this.referenceEntries[index].known || {}).filter(([, value]) => value !== undefined && value !== '')
+          );
+          return { ...reference, ...known, ...(known.doi ? { doiSource: 'text' as const } : {}) };
+        })
+      : ReferenceParsingService.parse(text);
+
+    const wordCount = countWords(text);
+    console.log(`📊 Extraction stats: ${wordCount} words, ${this.tables.length} tables, ${references.length} references`);
+
+    return {
+      text,
+      metadata: {
+        ...metadata,
+        author: metadata.author || metadata.authors?.join(', ') || undefined,
+        pageCount: 0,
+        wordCount,
+        extractedAt: new Date().toISOString(),
+        fileSize: file.size,
+        fileName: file.name,
+        format: this.format
+      },
+      pages: [],
+      structure: { ...analyzeDocumentStructure(text, this.sections), hasReferences: references.length > 0 },
+      sections: this.sections,
+      captions: this.captions,
+      tables: this.tables,
+      references
+    };
+  }
+
+  private append(block: string): void {
+    if (this.blocks.length > 0) this.length += 2;
+    this.blocks.push(block);
+    this.length += block.length;
+  }
+}
+
+function clean(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,122 @@
+import { DocumentFormat } from '../types';
+import { PDFExtractionResult, PDFProcessor } from './pdfProcessor';
+import { DocxExtractor } from './docxExtractor';
+import { LatexExtractor } from './latexExtractor';
+import { HtmlExtractor } from './htmlExtractor';
+import { JatsExtractor } from './jatsExtractor';
+
+const EXTENSIONS: Record<string, DocumentFormat> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  tex: 'latex',
+  ltx: 'latex',
+  gz: 'latex',
+  tgz: 'latex',
+  tar: 'latex',
+  zip: 'latex',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  xml: 'jats',
+  nxml: 'jats'
+};
+
+const MIME_TYPES: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/x-tex': 'latex',
+  'text/x-tex': 'latex',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'application/jats+xml': 'jats',
+  'application/xml': 'jats',
+  'text/xml': 'jats'
+};
+
+const FORMAT_LABELS: Record<DocumentFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  latex: 'LaTeX',
+  html: 'HTML',
+  jats: 'JATS XML'
+};
+
+/**
+ * Entry point for uploaded papers. Picks the extractor for the file's format;
+ * every extractor returns the same structure as PDF extraction, so the rest
+ * of the pipeline does not depend on the format.
+ */
+export class DocumentIngestionService {
+  private static readonly MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+  /** Value for a file input's accept attribute. */
+  static readonly ACCEPT = [
+    ...Object.keys(EXTENSIONS).map(extension => `.${extension}`),
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ].join(',');
+
+  static formatLabel(format: DocumentFormat): string {
+    return FORMAT_LABELS[format];
+  }
+
+  /** Format from the file's extension or MIME type, without reading it. */
+  static formatFromName(file: File): DocumentFormat | null {
+    const extension = file.name.toLowerCase().match(/\.([a-z]+)$/)?.[1] || '';
+    return EXTENSIONS[extension] || MIME_TYPES[file.type] || null;
+  }
+
+  /** Format from the name, or from the file's first bytes when the name does not tell. */
+  static async detectFormat(file: File): Promise<DocumentFormat | null> {
+    const fromName = this.formatFromName(file);
+    if (fromName) return fromName;
+
+    const head = new Uint8Array(await file.slice(0, 1024).arrayBuffer());
+    const text = new TextDecoder().decode(head);
+    if (text.startsWith('%PDF-')) return 'pdf';
+    if (head[0] === 0x50 && head[1] === 0x4b) return 'docx';
+    if (head[0] === 0x1f && head[1] === 0x8b) return 'latex';
+    if (/<article[\s>]/.test(text) && !/<html[\s>]/i.test(text)) return 'jats';
+    if (/<(?:!doctype html|html)[\s>]/i.test(text)) return 'html';
+    if (/\\(?:documentclass|begin\s*\{document\})/.test(text)) return 'latex';
+    return null;
+  }
+
+  static async extractTextFromFile(file: File): Promise<PDFExtractionResult> {
+    const format = await this.detectFormat(file);
+    if (!format) {
+      throw new Error('Unsupported file type. Please upload a PDF, Word (.docx), LaTeX, HTML or JATS XML file.');
+    }
+    if (file.size > this.MAX_FILE_SIZE) {
+      throw new Error('File too large. Please use a file smaller than 100MB.');
+    }
+
+    // PDFs keep their server retry and fallback result
+    if (format === 'pdf') {
+      return PDFProcessor.extractTextFromFile(file);
+    }
+
+    console.log(`🔄 Starting ${FORMAT_LABELS[format]} extraction: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
+    try {
+      const result = await this.extractorFor(format)(file);
+      console.log(`✅ ${FORMAT_LABELS[format]} extraction completed successfully`);
+      return result;
+    } catch (error) {
+      console.error(`❌ ${FORMAT_LABELS[format]} extraction failed:`, error);
+      throw new Error(`Failed to extract text from ${FORMAT_LABELS[format]} file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static extractorFor(format: Exclude<DocumentFormat, 'pdf'>): (file: File) => Promise<PDFExtractionResult> {
+    switch (format) {
+      case 'docx':
+        return file => DocxExtractor.extract(file);
+      case 'latex':
+        return file => LatexExtractor.extract(file);
+      case 'html':
+        return file => HtmlExtractor.extract(file);
+      case 'jats':
+        return file => JatsExtractor.extract(file);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { DocumentSection, QuoteVerification } from '../types';
+import { LLMResponse } from './llm';
+import { DocumentTableService } from './documentTables';
+
+/**
+ * Ties analysis output to the sections detected in the paper's layout, so
+ * key points and quotes name headings that exist instead of ones the model
+ * made up.
+ */
+export class DocumentSectionService {
+  // Sections listed in a prompt; deeper levels are dropped first
+  private static readonly MAX_PROMPT_SECTIONS = 40;
+
+  static flatten(sections: DocumentSection[]): DocumentSection[] {
+    return sections.flatMap(section => [section, ...this.flatten(section.children)]);
+  }
+
+  static label(section: DocumentSection): string {
+    return section.number ? `${section.number} ${section.title}` : section.title;
+  }
+
+  /** The innermost section that starts at or before a position in the page text. */
+  static sectionAt(sections: DocumentSection[], pageNumber: number, charStart: number = 0): DocumentSection | null {
+    let found: DocumentSection | null = null;
+    for (const section of this.flatten(sections)) {
+      const started = section.pageStart < pageNumber || (section.pageStart === pageNumber && section.charStart <= charStart);
+      if (!started) break;
+      if (pageNumber <= section.pageEnd) found = section;
+    }
+    return found;
+  }
+
+  /**
+   * The section a free-text location such as "Results, Table 2" or "Section
+   * 2.1" refers to, preferring numbers, then the longest matching title.
+   */
+  static match(sections: DocumentSection[], location: string): DocumentSection | null {
+    const flat = this.flatten(sections);
+    const text = this.normalise(location);
+    if (!text) return null;
+
+    const number = location.match(/\b(?:section|sec\.?|§)\s*((?:\d+\.)*\d+)/i)?.[1] || location.match(/^\s*((?:\d+\.)*\d+)\b/)?.[1];
+    const byNumber = number ? flat.find(section => section.number === number) : undefined;
+    if (byNumber) return byNumber;
+
+    return flat
+      .filter(section => {
+        const title = this.normalise(section.title);
+        return title.length > 0 && (` ${text} `.includes(` ${title} `) || ` ${title} `.includes(` ${text} `));
+      })
+      .sort((a, b) => b.title.length - a.title.length || b.level - a.level)[0] || null;
+  }
+
+  /** Prompt lines listing the sections, limited to the given page range when set. */
+  static describeForPrompt(sections: DocumentSection[], pageStart?: number, pageEnd?: number): string {
+    let flat = this.flatten(sections).filter(section =>
+      pageStart === undefined || pageEnd === undefined || (section.pageStart <= pageEnd && section.pageEnd >= pageStart)
+    );
+    for (let level = 4; flat.length > this.MAX_PROMPT_SECTIONS && level > 1; level--) {
+      flat = flat.filter(section => section.level < level);
+    }
+
+    return flat
+      .slice(0, this.MAX_PROMPT_SECTIONS)
+      .map(section => {
+        const indent = '  '.repeat(section.level - 1);
+        if (section.pageStart === 0) return `${indent}- ${this.label(section)}`;
+        const pages = section.pageStart === section.pageEnd ? `p. ${section.pageStart}` : `pp. ${section.pageStart}-${section.pageEnd}`;
+        return `${indent}- ${this.label(section)} (${pages})`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Replaces model-written locations with real section labels: quotes by where
+   * they were verified in the text, key points and ethics flags by the
+   * section their location names, or the section their pages fall in. A
+   * table or figure the location names is kept after the label.
+   */
+  static anchorResponse(response: LLMResponse, sections?: DocumentSection[]): LLMResponse {
+    if (!sections || sections.length === 0) return response;
+
+    const fromVerification = (verification?: QuoteVerification) =>
+      verification?.pageNumber ? this.sectionAt(sections, verification.pageNumber, verification.charStart) : null;
+    const fromPages = (pages?: number[]) => (pages && pages.length > 0 ? this.sectionAt(sections, pages[0]) : null);
+    const relabel = (location: string, section: DocumentSection | null) => {
+      if (!section) return location;
+      const reference = DocumentTableService.referenceIn(location);
+      return reference ? `${this.label(section)}, ${reference}` : this.label(section);
+    };
+
+    return {
+      ...response,
+      keyPoints: response.keyPoints.map(point => ({
+        ...point,
+        sourceSection: relabel(point.sourceSection, this.match(sections, point.sourceSection) || fromPages(point.sourcePages))
+      })),
+      citations: response.citations.map(citation => ({
+        ...citation,
+        sourceLocation: relabel(citation.sourceLocation, fromVerification(citation.verification) || this.match(sections, citation.sourceLocation))
+      })),
+      ethicsFlags: response.ethicsFlags.map(flag => ({
+        ...flag,
+        sourceLocation: relabel(flag.sourceLocation, this.match(sections, flag.sourceLocation) || fromPages(flag.sourcePages))
+      })),
+      xaiData: {
+        ...response.xaiData,
+        sourceReferences: response.xaiData.sourceReferences.map(ref => ({
+          ...ref,
+          location: relabel(ref.location, fromVerification(ref.verification) || this.match(sections, ref.location))
+        }))
+      }
+    };
+  }
+
+  private static normalise(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  }
+}
@@ -0,0 +1,77 @@
+import { ExtractedTable, FigureCaption } from '../types';
+
+/**
+ * Tables and figure captions extracted from the PDF layout: listed in the
+ * analysis prompt as structured context, and looked up again when a key point
+ * says which table it relies on.
+ */
+export class DocumentTableService {
+  // Table text in one prompt; whole tables are dropped once it is reached
+  private static readonly MAX_PROMPT_CHARS = 4000;
+  private static readonly MAX_PROMPT_CAPTIONS = 30;
+
+  private static readonly REFERENCE = /\b(Table|Tab\.|Figure|Fig\.)\s*(S?\d{1,3}[a-z]?|[IVX]{1,6})\b/i;
+
+  /** "Table 2" or "Figure 1" named in a location such as "Results, Table 2", if any. */
+  static referenceIn(location: string): string | null {
+    const match = location.match(this.REFERENCE);
+    if (!match) return null;
+    return `${match[1].toLowerCase().startsWith('tab') ? 'Table' : 'Figure'} ${match[2]}`;
+  }
+
+  /** The table a location refers to by label. */
+  static tableFor(tables: ExtractedTable[], location: string): ExtractedTable | null {
+    const reference = this.referenceIn(location);
+    if (!reference) return null;
+    return tables.find(table => table.label?.toLowerCase() === reference.toLowerCase()) || null;
+  }
+
+  /**
+   * Positions ("row:column") of the cells holding a number that also appears
+   * in the text, for highlighting. Single digits match too much to count.
+   */
+  static matchingCells(table: ExtractedTable, text: string): Set<string> {
+    const numbersIn = (value: string) => (value.match(/\d+(?:\.\d+)?/g) || []).filter(number => number.length > 1);
+    const numbers = new Set(numbersIn(text));
+    const cells = new Set<string>();
+    table.rows.forEach((row, rowIndex) =>
+      row.forEach((cell, columnIndex) => {
+        if (numbersIn(cell).some(number => numbers.has(number))) cells.add(`${rowIndex}:${columnIndex}`);
+      })
+    );
+    return cells;
+  }
+
+  /** Prompt text with the tables and captions, limited to the given page range when set. */
+  static describeForPrompt(
+    tables: ExtractedTable[],
+    captions: FigureCaption[],
+    pageStart?: number,
+    pageEnd?: number
+  ): string {
+    const inRange = (pageNumber: number) =>
+      pageStart === undefined || pageEnd === undefined || (pageNumber >= pageStart && pageNumber <= pageEnd);
+
+    const page = (pageNumber: number) => (pageNumber > 0 ? ` (p. ${pageNumber})` : '');
+
+    const blocks: string[] = [];
+    let length = 0;
+    for (const table of tables.filter(table => inRange(table.pageNumber))) {
+      const heading = `${table.label || 'Untitled table'}${page(table.pageNumber)}${table.caption ? `: ${table.caption}` : ''}`;
+      const block = [heading, ...table.rows.map(row => `| ${row.join(' | ')} |`)].join('\n');
+      if (length + block.length > this.MAX_PROMPT_CHARS) break;
+      blocks.push(block);
+      length += block.length;
+    }
+
+    const figures = captions
+      .filter(caption => caption.kind === 'figure' && inRange(caption.pageNumber))
+      .slice(0, this.MAX_PROMPT_CAPTIONS)
+      .map(caption => `- ${caption.label}${page(caption.pageNumber)}: ${caption.text}`);
+
+    return [
+      blocks.length > 0 ? `Tables:\n${blocks.join('\n\n')}` : '',
+      figures.length > 0 ? `Figure captions:\n${figures.join('\n')}` : ''
+    ].filter(Boolean).join('\n\n');
+  }
+}
@@ -0,0 +1,165 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { parseCaption } from '../../supabase/functions/_shared/pdfExtraction';
+import { DocumentBuilder, REFERENCE_HEADING } from './documentBuilder';
+import { PDFExtractionResult } from './pdfProcessor';
+
+interface ParagraphStyle {
+  name: string;
+  // Word's outline level, 0 for Heading 1
+  outlineLevel?: number;
+}
+
+/**
+ * Reads Word documents: headings from paragraph styles, tables from the
+ * document's own table markup, and metadata from its core properties.
+ */
+export class DocxExtractor {
+  private static readonly PARTS = ['word/document.xml', 'word/styles.xml', 'docProps/core.xml'];
+
+  static async extract(file: File): Promise<PDFExtractionResult> {
+    const parts = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      filter: entry => this.PARTS.includes(entry.name)
+    });
+    if (!parts['word/document.xml']) {
+      throw new Error('The file is not a Word document');
+    }
+
+    const document = parseXml(strFromU8(parts['word/document.xml']));
+    const styles = parts['word/styles.xml'] ? this.readStyles(parseXml(strFromU8(parts['word/styles.xml']))) : new Map<string, ParagraphStyle>();
+    const core = parts['docProps/core.xml'] ? parseXml(strFromU8(parts['docProps/core.xml'])) : null;
+
+    const builder = new DocumentBuilder('docx');
+    let title: string | undefined;
+    // Paragraphs under a reference heading are entries of the list, one per paragraph
+    let referenceLevel: number | null = null;
+    // Word puts table captions above the table, so one is held until the next element
+    let pendingCaption: { number: string; title: string } | null = null;
+    const flushCaption = () => {
+      if (pendingCaption) builder.caption('table', pendingCaption.number, pendingCaption.title);
+      pendingCaption = null;
+    };
+
+    const body = firstElement(document, 'body');
+    for (const element of body ? blockElements(body) : []) {
+      if (element.localName === 'tbl') {
+        const caption: { number: string; title: string } | null = pendingCaption;
+        pendingCaption = null;
+        builder.table(this.readTable(element), caption?.number, caption?.title);
+        continue;
+      }
+      if (element.localName !== 'p') continue;
+
+      const text = paragraphText(element);
+      if (!text.trim()) continue;
+      flushCaption();
+
+      const style = styles.get(childElement(childElement(element, 'pPr'), 'pStyle')?.getAttributeNS(WORD, 'val') || '');
+      const styleName = style?.name.toLowerCase() || '';
+      const headingLevel = this.headingLevel(element, style);
+
+      if (styleName === 'title' && !title) {
+        title = text.trim();
+        builder.paragraph(text);
+      } else if (REFERENCE_HEADING.test(text.trim())) {
+        // Often a bold body paragraph rather than a heading style
+        referenceLevel = headingLevel ?? 1;
+      } else if (headingLevel !== undefined) {
+        if (referenceLevel !== null && headingLevel <= referenceLevel) referenceLevel = null;
+        builder.heading(text, headingLevel);
+      } else if (referenceLevel !== null) {
+        builder.reference(text);
+      } else {
+        const caption = parseCaption(text.trim());
+        if (caption?.kind === 'table') pendingCaption = { number: caption.number, title: caption.title };
+        else if (caption) builder.caption('figure', caption.number, caption.title);
+        else builder.paragraph(text);
+      }
+    }
+    flushCaption();
+
+    const coreText = (name: string) => (core ? firstElement(core, name)?.textContent?.trim() || undefined : undefined);
+    return builder.build(
+      {
+        title: coreText('title') || title,
+        author: coreText('creator'),
+        subject: coreText('subject'),
+        keywords: coreText('keywords'),
+        creationDate: coreText('created'),
+        modificationDate: coreText('modified')
+      },
+      file
+    );
+  }
+
+  // From a "Heading N" style, or the outline level set on the paragraph or its style
+  private static headingLevel(paragraph: Element, style?: ParagraphStyle): number | undefined {
+    const named = style?.name.toLowerCase().match(/^heading\s?(\d)$/)?.[1];
+    if (named) return Number(named);
+
+    const outline = childElement(childElement(paragraph, 'pPr'), 'outlineLvl')?.getAttributeNS(WORD, 'val');
+    const level = outline ? Number(outline) : style?.outlineLevel;
+    // Level 9 is body text
+    return level !== undefined && level < 9 ? level + 1 : undefined;
+  }
+
+  private static readStyles(styles: Document): Map<string, ParagraphStyle> {
+    const byId = new Map<string, ParagraphStyle>();
+    Array.from(styles.getElementsByTagNameNS(WORD, 'style')).forEach(style => {
+      const id = style.getAttributeNS(WORD, 'styleId');
+      if (!id) return;
+      const outline = childElement(childElement(style, 'pPr'), 'outlineLvl')?.getAttributeNS(WORD, 'val');
+      byId.set(id, {
+        name: childElement(style, 'name')?.getAttributeNS(WORD, 'val') || id,
+        outlineLevel: outline !== null && outline !== undefined ? Number(outline) : undefined
+      });
+    });
+    return byId;
+  }
+
+  private static readTable(table: Element): string[][] {
+    return Array.from(table.children)
+      .filter(row => row.localName === 'tr')
+      .map(row =>
+        Array.from(row.children)
+          .filter(cell => cell.localName === 'tc')
+          .map(cell => Array.from(cell.getElementsByTagNameNS(WORD, 'p')).map(paragraphText).join(' '))
+      );
+  }
+}
+
+const WORD = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function parseXml(xml: string): Document {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The document XML could not be parsed');
+  }
+  return document;
+}
+
+// Core properties mix the dc, dcterms and cp namespaces, so they are matched by local name
+function firstElement(document: Document, localName: string): Element | undefined {
+  return Array.from(document.getElementsByTagName('*')).find(element => element.localName === localName);
+}
+
+// Paragraphs and tables, including those inside content controls
+function blockElements(parent: Element): Element[] {
+  return Array.from(parent.children).flatMap(child =>
+    child.localName === 'sdt' ? blockElements(childElement(child, 'sdtContent') || child) : [child]
+  );
+}
+
+function childElement(parent: Element | undefined, localName: string): Element | undefined {
+  return parent ? Array.from(parent.children).find(child => child.localName === localName) : undefined;
+}
+
+// Runs of text with tabs and breaks as spaces; deleted text and field codes live in other elements
+function paragraphText(paragraph: Element): string {
+  return Array.from(paragraph.getElementsByTagNameNS(WORD, '*'))
+    .map(element => {
+      if (element.localName === 't') return element.textContent || '';
+      if (element.localName === 'tab' || element.localName === 'br') return ' ';
+      return '';
+    })
+    .join('');
+}
@@ -0,0 +1,230 @@
+import { LLMService } from './llm';
+import { directApiKey, requestWithRetry } from './llmProviders';
+import { PaperRetrievalService } from './paperRetrieval';
+
+export interface EmbeddingProviderAdapter {
+  id: string;
+  name: string;
+  // Stored with every vector; vectors from different models are never compared
+  model: string;
+  isConfigured(): boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface OpenAICompatibleEmbeddingConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+const normalize = (vector: number[]): number[] => {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+};
+
+/**
+ * Offline fallback: feature-hashes stemmed terms and character trigrams into a
+ * fixed-size vector. It captures shared vocabulary and spelling variants rather
+ * than meaning, but needs no model download or network access.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProviderAdapter {
+  id = 'local-hashing';
+  name = 'Local term hashing';
+  model = 'hashing-384';
+
+  private static readonly DIMENSIONS = 384;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(HashingEmbeddingProvider.DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = this.hash(feature);
+      // The sign bit keeps colliding features from always reinforcing each other
+      vector[hash % HashingEmbeddingProvider.DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * weight;
+    };
+
+    PaperRetrievalService.terms(text).forEach(term => {
+      add(`t:${term}`, 1);
+      const padded = ` ${term} `;
+      for (let i = 0; i < padded.length - 2; i++) {
+        add(`c:${padded.substring(i, i + 3)}`, 0.25);
+      }
+    });
+
+    return normalize(vector);
+  }
+
+  // FNV-1a
+  private hash(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * OpenAI embeddings, requested through the llm-proxy edge function like the
+ * hosted LLM adapters. Only direct mode calls OpenAI from the browser. The
+ * proxy needs OPENAI_API_KEY; without it, set VITE_EMBEDDING_PROVIDER to
+ * local-hashing or a self-hosted model.
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProviderAdapter {
+  id = 'openai';
+  name = 'OpenAI embeddings';
+  model = 'text-embedding-3-small';
+
+  private static readonly API_URL = 'https://api.openai.com/v1/embeddings';
+
+  isConfigured(): boolean {
+    return LLMService.getMode() === 'proxy' || !!directApiKey('openai');
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (LLMService.getMode() === 'proxy') {
+      return this.embedThroughProxy(texts);
+    }
+
+    const response = await requestWithRetry('OpenAI embeddings', OpenAIEmbeddingProvider.API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${directApiKey('openai')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    const data = await response.json();
+    return this.readEmbeddings(data, texts.length, 'OpenAI');
+  }
+
+  private async embedThroughProxy(texts: string[]): Promise<number[][]> {
+    const data = await LLMService.invokeProxy<{
+      success?: boolean;
+      model?: string;
+      error?: string;
+      data?: Array<{ index: number; embedding: number[] }>;
+    }>('Embedding proxy', { action: 'embeddings', input: texts });
+
+    if (!data?.success) {
+      throw new Error(data?.error || 'No response from embedding proxy');
+    }
+    // Vectors are stored and compared per model, so a different one must not slip in
+    if (data.model !== this.model) {
+      throw new Error(`Embedding proxy used ${data.model}, expected ${this.model}`);
+    }
+
+    return this.readEmbeddings(data, texts.length, 'OpenAI');
+  }
+
+  protected readEmbeddings(data: { data?: Array<{ index: number; embedding: number[] }> }, expected: number, label: string): number[][] {
+    const rows = [...(data.data || [])].sort((a, b) => a.index - b.index);
+    if (rows.length !== expected) {
+      throw new Error(`${label} returned ${rows.length} embeddings for ${expected} inputs`);
+    }
+    return rows.map(row => normalize(row.embedding));
+  }
+}
+
+/**
+ * Any server exposing OpenAI's /embeddings endpoint (Ollama, llama.cpp, vLLM,
+ * text-embeddings-inference), so a local model can be used offline.
+ */
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: OpenAICompatibleEmbeddingConfig) {
+    super();
+    this.id = config.id;
+    this.name = config.name;
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && !!this.model;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await requestWithRetry(this.name, `${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    const data = await response.json();
+    return this.readEmbeddings(data, texts.length, this.name);
+  }
+}
+
+export class EmbeddingProviderRegistry {
+  private static providers = new Map<string, EmbeddingProviderAdapter>();
+
+  static register(provider: EmbeddingProviderAdapter): void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`⚠️ Replacing registered embedding provider "${provider.id}"`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  static unregister(id: string): void {
+    this.providers.delete(id);
+  }
+
+  static get(id: string): EmbeddingProviderAdapter | undefined {
+    return this.providers.get(id);
+  }
+
+  static list(): EmbeddingProviderAdapter[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * The provider named by VITE_EMBEDDING_PROVIDER, otherwise the first configured
+   * one in registration order. Local term hashing is always available last.
+   */
+  static getActive(): EmbeddingProviderAdapter {
+    const preferred = import.meta.env.VITE_EMBEDDING_PROVIDER
+      ? this.providers.get(import.meta.env.VITE_EMBEDDING_PROVIDER)
+      : undefined;
+    if (preferred?.isConfigured()) {
+      return preferred;
+    }
+
+    const fallback = new HashingEmbeddingProvider();
+    return this.list().find(provider => provider.isConfigured() && provider.id !== fallback.id)
+      || this.providers.get(fallback.id)
+      || fallback;
+  }
+}
+
+if (import.meta.env.VITE_LOCAL_EMBEDDING_BASE_URL) {
+  EmbeddingProviderRegistry.register(new OpenAICompatibleEmbeddingProvider({
+    id: 'openai-compatible',
+    name: import.meta.env.VITE_LOCAL_EMBEDDING_NAME || 'Self-hosted embeddings',
+    baseUrl: import.meta.env.VITE_LOCAL_EMBEDDING_BASE_URL,
+    model: import.meta.env.VITE_LOCAL_EMBEDDING_MODEL || 'nomic-embed-text',
+    apiKey: import.meta.env.VITE_LOCAL_EMBEDDING_API_KEY
+  }));
+}
+
+EmbeddingProviderRegistry.register(new OpenAIEmbeddingProvider());
+EmbeddingProviderRegistry.register(new HashingEmbeddingProvider());
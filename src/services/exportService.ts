@@ -1,5 +1,12 @@
 import jsPDF from 'jspdf';
-import { Summary, Paper, ExportOptions } from '../types';
+import { Summary, Paper, ExportOptions, QuoteVerification, PaperComparison, GuidelineItemStatus, DisclosureType } from '../types';
+import { DisclosureExtractionService } from './disclosureExtraction';
+
+interface ExportTable {
+  heading: string;
+  columns: string[];
+  rows: string[][];
+}
 
 export class ExportService {
   static async exportSummary(
@@ -115,7 +122,7 @@ export class ExportService {
       addText('Citations', 16, true);
       summary.citations.forEach((citation, index) => {
         addText(`${index + 1}. "${citation.text}"`);
-        addText(`   Source: ${citation.sourceLocation} | Confidence: ${Math.round(citation.confidence * 100)}%`, 10);
+        addText(`   Source: ${citation.sourceLocation} | Confidence: ${Math.round(citation.confidence * 100)}% | Quote: ${this.describeVerification(citation.verification)}`, 10);
       });
       yPosition += 5;
     }
@@ -132,6 +139,41 @@ export class ExportService {
       yPosition += 5;
     }
 
+    // Disclosure Statements
+    if (options.sections.disclosures && paper.metadata?.disclosures) {
+      addText('Disclosure Statements', 16, true);
+      this.disclosureRows(paper).forEach(row => {
+        addText(`${row.label}${row.page ? ` (p. ${row.page})` : ''}`, 12, true);
+        addText(row.statement ? `${row.statement}${row.boilerplate ? ' [boilerplate]' : ''}` : 'Not found in the paper text');
+        if (row.identifiers) addText(`Identifiers: ${row.identifiers}`, 10);
+      });
+      yPosition += 5;
+    }
+
+    // Reporting Guidelines
+    if (options.sections.reportingGuidelines && summary.guidelineAssessments?.length) {
+      summary.guidelineAssessments.forEach(assessment => {
+        addText(`Reporting Guideline: ${assessment.guidelineName} ${assessment.guidelineVersion}`, 16, true);
+        addText(`Completeness: ${Math.round(assessment.score * 100)}% (${assessment.counts.present} reported, ${assessment.counts.partial} partial, ${assessment.counts.missing} not reported)`);
+        assessment.items.forEach(item => {
+          addText(`${item.itemId}. ${item.topic}: ${this.describeGuidelineStatus(item.status)}`, 12, true);
+          if (item.evidence) addText(`"${item.evidence}" (${item.pageNumber ? `p. ${item.pageNumber}` : 'page unknown'})`, 10);
+        });
+        yPosition += 5;
+      });
+    }
+
+    // Research Gaps
+    if (options.sections.researchGaps && summary.researchGaps?.length) {
+      addText('Research Gaps', 16, true);
+      summary.researchGaps.forEach((gap, index) => {
+        addText(`${index + 1}. ${gap.gap} (${gap.priority} priority)`, 12, true);
+        addText(`Description: ${gap.description}`);
+        addText(`Suggested Approach: ${gap.suggestedApproach}`);
+      });
+      yPosition += 5;
+    }
+
     // XAI Data
     if (options.sections.xaiData && summary.xaiData) {
       addText('Explainable AI Analysis', 16, true);
@@ -216,7 +258,8 @@ export class ExportService {
       summary.citations.forEach((citation, index) => {
         markdown += `${index + 1}. > "${citation.text}"\n`;
         markdown += `   - Source: ${citation.sourceLocation}\n`;
-        markdown += `   - Confidence: ${Math.round(citation.confidence * 100)}%\n\n`;
+        markdown += `   - Confidence: ${Math.round(citation.confidence * 100)}%\n`;
+        markdown += `   - Quote check: ${this.describeVerification(citation.verification)}\n\n`;
       });
     }
 
@@ -231,6 +274,39 @@ export class ExportService {
       });
     }
 
+    // Disclosure Statements
+    if (options.sections.disclosures && paper.metadata?.disclosures) {
+      markdown += `## Disclosure Statements\n\n`;
+      this.disclosureRows(paper).forEach(row => {
+        markdown += `**${row.label}${row.page ? ` (p. ${row.page})` : ''}:** ${row.statement ? `${row.statement}${row.boilerplate ? ' _(boilerplate)_' : ''}` : '_Not found in the paper text_'}\n\n`;
+        if (row.identifiers) markdown += `Identifiers: ${row.identifiers}\n\n`;
+      });
+    }
+
+    // Reporting Guidelines
+    if (options.sections.reportingGuidelines && summary.guidelineAssessments?.length) {
+      summary.guidelineAssessments.forEach(assessment => {
+        markdown += `## Reporting Guideline: ${assessment.guidelineName} ${assessment.guidelineVersion}\n\n`;
+        markdown += `**Completeness:** ${Math.round(assessment.score * 100)}% (${assessment.counts.present} reported, ${assessment.counts.partial} partial, ${assessment.counts.missing} not reported)\n\n`;
+        markdown += `| Item | Topic | Status | Evidence | Page |\n|---|---|---|---|---|\n`;
+        assessment.items.forEach(item => {
+          const evidence = item.evidence ? `"${item.evidence.replace(/\|/g, '\\|')}"` : '';
+          markdown += `| ${item.itemId} | ${item.topic} | ${this.describeGuidelineStatus(item.status)} | ${evidence} | ${item.pageNumber ?? ''} |\n`;
+        });
+        markdown += `\n`;
+      });
+    }
+
+    // Research Gaps
+    if (options.sections.researchGaps && summary.researchGaps?.length) {
+      markdown += `## Research Gaps\n\n`;
+      summary.researchGaps.forEach((gap, index) => {
+        markdown += `### ${index + 1}. ${gap.gap} (${gap.priority} priority)\n\n`;
+        markdown += `**Description:** ${gap.description}\n\n`;
+        markdown += `**Suggested Approach:** ${gap.suggestedApproach}\n\n`;
+      });
+    }
+
     // XAI Data
     if (options.sections.xaiData && summary.xaiData) {
       markdown += `## Explainable AI Analysis\n\n`;
@@ -288,6 +364,13 @@ export class ExportService {
           .high-severity { background-color: #fee2e2; }
           .medium-severity { background-color: #fef3c7; }
           .low-severity { background-color: #dbeafe; }
+          .research-gap { background-color: #eff6ff; padding: 1em; margin: 1em 0; border-radius: 4px; }
+          .high-priority { border-left: 4px solid #dc2626; }
+          .medium-priority { border-left: 4px solid #d97706; }
+          .low-priority { border-left: 4px solid #2563eb; }
+          table { border-collapse: collapse; width: 100%; }
+          th, td { border: 1px solid #cbd5e1; padding: 6px; vertical-align: top; font-size: 11px; }
+          th { background-color: #f1f5f9; }
           .watermark { position: fixed; bottom: 20px; right: 20px; color: #9ca3af; font-size: 10px; }
         </style>
       </head>
@@ -343,7 +426,7 @@ export class ExportService {
       summary.citations.forEach((citation, index) => {
         html += `<div class="citation">`;
         html += `<p><strong>${index + 1}.</strong> "${citation.text}"</p>`;
-        html += `<small>Source: ${citation.sourceLocation} | Confidence: ${Math.round(citation.confidence * 100)}%</small>`;
+        html += `<small>Source: ${citation.sourceLocation} | Confidence: ${Math.round(citation.confidence * 100)}% | Quote check: ${this.describeVerification(citation.verification)}</small>`;
         html += `</div>`;
       });
     }
@@ -361,6 +444,41 @@ export class ExportService {
       });
     }
 
+    // Disclosure Statements
+    if (options.sections.disclosures && paper.metadata?.disclosures) {
+      html += `<h2>Disclosure Statements</h2>`;
+      this.disclosureRows(paper).forEach(row => {
+        html += `<p><strong>${row.label}${row.page ? ` (p. ${row.page})` : ''}:</strong> ${row.statement ? `${row.statement}${row.boilerplate ? ' <em>(boilerplate)</em>' : ''}` : '<em>Not found in the paper text</em>'}</p>`;
+        if (row.identifiers) html += `<p><small>Identifiers: ${row.identifiers}</small></p>`;
+      });
+    }
+
+    // Reporting Guidelines
+    if (options.sections.reportingGuidelines && summary.guidelineAssessments?.length) {
+      summary.guidelineAssessments.forEach(assessment => {
+        html += `<h2>Reporting Guideline: ${assessment.guidelineName} ${assessment.guidelineVersion}</h2>`;
+        html += `<p><strong>Completeness:</strong> ${Math.round(assessment.score * 100)}% (${assessment.counts.present} reported, ${assessment.counts.partial} partial, ${assessment.counts.missing} not reported)</p>`;
+        html += `<table><tr><th>Item</th><th>Topic</th><th>Status</th><th>Evidence</th><th>Page</th></tr>`;
+        assessment.items.forEach(item => {
+          html += `<tr><td>${item.itemId}</td><td>${item.topic}</td><td>${this.describeGuidelineStatus(item.status)}</td>`;
+          html += `<td>${item.evidence ? `"${item.evidence}"` : ''}</td><td>${item.pageNumber ?? ''}</td></tr>`;
+        });
+        html += `</table>`;
+      });
+    }
+
+    // Research Gaps
+    if (options.sections.researchGaps && summary.researchGaps?.length) {
+      html += `<h2>Research Gaps</h2>`;
+      summary.researchGaps.forEach((gap, index) => {
+        html += `<div class="research-gap ${gap.priority}-priority">`;
+        html += `<h3>${index + 1}. ${gap.gap} (${gap.priority} priority)</h3>`;
+        html += `<p><strong>Description:</strong> ${gap.description}</p>`;
+        html += `<p><strong>Suggested Approach:</strong> ${gap.suggestedApproach}</p>`;
+        html += `</div>`;
+      });
+    }
+
     // XAI Data
     if (options.sections.xaiData && summary.xaiData) {
       html += `<h2>Explainable AI Analysis</h2>`;
@@ -449,6 +567,18 @@ export class ExportService {
       exportData.ethicsFlags = summary.ethicsFlags;
     }
 
+    if (options.sections.disclosures) {
+      exportData.disclosures = paper.metadata?.disclosures || {};
+    }
+
+    if (options.sections.reportingGuidelines) {
+      exportData.guidelineAssessments = summary.guidelineAssessments || [];
+    }
+
+    if (options.sections.researchGaps) {
+      exportData.researchGaps = summary.researchGaps || [];
+    }
+
     if (options.sections.xaiData) {
       exportData.xaiData = summary.xaiData;
     }
@@ -490,6 +620,16 @@ export class ExportService {
       });
     }
 
+    // Citations
+    if (options.sections.citations && summary.citations.length > 0) {
+      csv += '\nCitations\n';
+      csv += 'Index,Text,Source,Confidence,Verification,Page,Char Start,Char End\n';
+      summary.citations.forEach((citation, index) => {
+        const verification = citation.verification;
+        csv += `${index + 1},"${citation.text.replace(/"/g, '""')}","${citation.sourceLocation.replace(/"/g, '""')}",${citation.confidence},"${verification?.status || 'unchecked'}",${verification?.pageNumber ?? ''},${verification?.charStart ?? ''},${verification?.charEnd ?? ''}\n`;
+      });
+    }
+
     // Ethics Flags
     if (options.sections.ethicsAnalysis && summary.ethicsFlags.length > 0) {
       csv += '\nEthics Flags\n';
@@ -499,6 +639,35 @@ export class ExportService {
       });
     }
 
+    // Disclosure Statements
+    if (options.sections.disclosures && paper.metadata?.disclosures) {
+      csv += '\nDisclosure Statements\n';
+      csv += 'Statement,Text,Boilerplate,Identifiers,Page\n';
+      this.disclosureRows(paper).forEach(row => {
+        csv += `"${row.label}","${(row.statement || '').replace(/"/g, '""')}",${row.boilerplate ? 'yes' : 'no'},"${row.identifiers.replace(/"/g, '""')}",${row.page ?? ''}\n`;
+      });
+    }
+
+    // Reporting Guidelines
+    if (options.sections.reportingGuidelines && summary.guidelineAssessments?.length) {
+      csv += '\nReporting Guidelines\n';
+      csv += 'Guideline,Item,Section,Topic,Status,Evidence,Page,Verification\n';
+      summary.guidelineAssessments.forEach(assessment => {
+        assessment.items.forEach(item => {
+          csv += `"${assessment.guidelineName} ${assessment.guidelineVersion}","${item.itemId}","${item.section.replace(/"/g, '""')}","${item.topic.replace(/"/g, '""')}","${item.status}","${(item.evidence || '').replace(/"/g, '""')}",${item.pageNumber ?? ''},"${item.verification?.status || ''}"\n`;
+        });
+      });
+    }
+
+    // Research Gaps
+    if (options.sections.researchGaps && summary.researchGaps?.length) {
+      csv += '\nResearch Gaps\n';
+      csv += 'Index,Gap,Priority,Description,Suggested Approach\n';
+      summary.researchGaps.forEach((gap, index) => {
+        csv += `${index + 1},"${gap.gap.replace(/"/g, '""')}","${gap.priority}","${gap.description.replace(/"/g, '""')}","${gap.suggestedApproach.replace(/"/g, '""')}"\n`;
+      });
+    }
+
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -509,4 +678,263 @@ export class ExportService {
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   }
-}
\ No newline at end of file
+
+  /**
+   * Exports a multi-paper comparison. Each matrix section becomes a table with
+   * one column per paper; sections follow the same ExportOptions switches as a
+   * single summary (summary = synthesis, xaiData = confidence, metadata = paper list).
+   */
+  static async exportComparison(comparison: PaperComparison, options: ExportOptions): Promise<void> {
+    try {
+      const tables = this.buildComparisonTables(comparison, options);
+      const filename = `comparison-${comparison.title.substring(0, 30).replace(/[^a-zA-Z0-9]/g, '_')}`;
+      const footer = `Generated by SciAI Trust Toolkit on ${new Date().toLocaleDateString()}`;
+      const synthesis = options.sections.summary ? comparison.synthesis : undefined;
+
+      switch (options.format) {
+        case 'pdf': {
+          const pdf = new jsPDF({ orientation: 'landscape' });
+          const margin = 15;
+          const pageHeight = pdf.internal.pageSize.height;
+          let y = 20;
+          const write = (text: string, fontSize: number = 10, isBold: boolean = false) => {
+            pdf.setFontSize(fontSize);
+            pdf.setFont('helvetica', isBold ? 'bold' : 'normal');
+            pdf.splitTextToSize(text, pdf.internal.pageSize.width - 2 * margin).forEach((line: string) => {
+              if (y > pageHeight - 20) {
+                pdf.addPage();
+                y = 20;
+              }
+              pdf.text(line, margin, y);
+              y += fontSize * 0.5;
+            });
+            y += 2;
+          };
+
+          write(comparison.title, 18, true);
+          if (synthesis) {
+            write('Synthesis', 14, true);
+            write(synthesis.overview);
+            synthesis.agreements.forEach(a => write(`Agreement (papers ${a.papers.join(', ')}): ${a.statement}`));
+            synthesis.contradictions.forEach(c => write(`Contradiction - ${c.topic}: ${c.positions.map(p => `[${p.paper}] ${p.position}`).join(' / ')}`));
+          }
+          tables.forEach(table => {
+            write(table.heading, 14, true);
+            table.rows.forEach(row => {
+              write(row[0], 10, true);
+              row.slice(1).forEach((cell, index) => write(`  ${table.columns[index + 1]}: ${cell || '-'}`, 9));
+            });
+          });
+          if (options.includeWatermark) write(footer, 8);
+          pdf.save(`${filename}.pdf`);
+          break;
+        }
+        case 'markdown': {
+          const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+          let markdown = `# ${comparison.title}\n\n`;
+          if (synthesis) {
+            markdown += `## Synthesis\n\n${synthesis.overview}\n\n`;
+            if (synthesis.agreements.length > 0) {
+              markdown += `### Agreements\n\n${synthesis.agreements.map(a => `- ${a.statement} (papers ${a.papers.join(', ')})`).join('\n')}\n\n`;
+            }
+            if (synthesis.contradictions.length > 0) {
+              markdown += `### Contradictions\n\n${synthesis.contradictions.map(c => `- **${c.topic}**: ${c.positions.map(p => `[${p.paper}] ${p.position}`).join('; ')}`).join('\n')}\n\n`;
+            }
+          }
+          tables.forEach(table => {
+            markdown += `## ${table.heading}\n\n`;
+            markdown += `| ${table.columns.map(escape).join(' | ')} |\n`;
+            markdown += `| ${table.columns.map(() => '---').join(' | ')} |\n`;
+            table.rows.forEach(row => {
+              markdown += `| ${row.map(cell => escape(cell || '-')).join(' | ')} |\n`;
+            });
+            markdown += '\n';
+          });
+          if (options.includeWatermark) markdown += `---\n\n*${footer}*\n`;
+          this.download(markdown, 'text/markdown', `${filename}.md`);
+          break;
+        }
+        case 'docx': {
+          let html = `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${comparison.title}</title>
+            <style>
+              body { font-family: 'Times New Roman', serif; line-height: 1.5; margin: 0.75in; }
+              h1 { color: #2563eb; border-bottom: 2px solid #2563eb; }
+              h2 { color: #1e40af; margin-top: 2em; }
+              table { border-collapse: collapse; width: 100%; }
+              th, td { border: 1px solid #cbd5e1; padding: 6px; vertical-align: top; font-size: 11px; }
+              th { background-color: #f1f5f9; }
+            </style></head><body>`;
+          html += `<h1>${comparison.title}</h1>`;
+          if (synthesis) {
+            html += `<h2>Synthesis</h2><p>${synthesis.overview}</p>`;
+            if (synthesis.agreements.length > 0) {
+              html += `<h3>Agreements</h3><ul>${synthesis.agreements.map(a => `<li>${a.statement} <small>(papers ${a.papers.join(', ')})</small></li>`).join('')}</ul>`;
+            }
+            if (synthesis.contradictions.length > 0) {
+              html += `<h3>Contradictions</h3><ul>${synthesis.contradictions.map(c => `<li><strong>${c.topic}</strong>: ${c.positions.map(p => `[${p.paper}] ${p.position}`).join('; ')}</li>`).join('')}</ul>`;
+            }
+          }
+          tables.forEach(table => {
+            html += `<h2>${table.heading}</h2><table><tr>${table.columns.map(column => `<th>${column}</th>`).join('')}</tr>`;
+            table.rows.forEach(row => {
+              html += `<tr>${row.map(cell => `<td>${(cell || '-').replace(/\n/g, '<br>')}</td>`).join('')}</tr>`;
+            });
+            html += `</table>`;
+          });
+          if (options.includeWatermark) html += `<p><small>${footer}</small></p>`;
+          html += `</body></html>`;
+          this.download(html, 'text/html', `${filename}.html`);
+          break;
+        }
+        case 'json': {
+          const exportData = {
+            exportInfo: {
+              exportedAt: new Date().toISOString(),
+              format: 'json',
+              sections: options.sections,
+              generatedBy: 'SciAI Trust Toolkit'
+            },
+            comparison: {
+              id: comparison.id,
+              title: comparison.title,
+              papers: options.sections.metadata ? comparison.papers : comparison.papers.map(p => ({ summaryId: p.summaryId, title: p.title })),
+              synthesis,
+              matrix: {
+                keyPoints: options.sections.keyPoints ? comparison.matrix.keyPoints : undefined,
+                limitations: options.sections.limitations ? comparison.matrix.limitations : undefined,
+                ethicsFlags: options.sections.ethicsAnalysis ? comparison.matrix.ethicsFlags : undefined,
+                confidence: options.sections.xaiData ? comparison.matrix.confidence : undefined,
+                researchGaps: options.sections.researchGaps ? comparison.matrix.researchGaps : undefined
+              }
+            }
+          };
+          this.download(JSON.stringify(exportData, null, 2), 'application/json', `${filename}.json`);
+          break;
+        }
+        case 'csv': {
+          const quote = (text: string) => `"${(text || '').replace(/"/g, '""')}"`;
+          let csv = '';
+          if (synthesis) {
+            csv += 'Synthesis\nType,Text,Papers\n';
+            csv += `Overview,${quote(synthesis.overview)},\n`;
+            synthesis.agreements.forEach(a => {
+              csv += `Agreement,${quote(a.statement)},${quote(a.papers.join('; '))}\n`;
+            });
+            synthesis.contradictions.forEach(c => {
+              csv += `Contradiction,${quote(`${c.topic}: ${c.positions.map(p => `[${p.paper}] ${p.position}`).join('; ')}`)},${quote(c.positions.map(p => p.paper).join('; '))}\n`;
+            });
+          }
+          tables.forEach(table => {
+            csv += `\n${table.heading}\n`;
+            csv += `${table.columns.map(quote).join(',')}\n`;
+            table.rows.forEach(row => {
+              csv += `${row.map(quote).join(',')}\n`;
+            });
+          });
+          this.download(csv, 'text/csv', `${filename}.csv`);
+          break;
+        }
+        default:
+          throw new Error(`Unsupported export format: ${options.format}`);
+      }
+    } catch (error) {
+      console.error('Comparison export error:', error);
+      throw new Error(`Failed to export: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private static buildComparisonTables(comparison: PaperComparison, options: ExportOptions): ExportTable[] {
+    const paperColumns = comparison.papers.map((paper, index) => `[${index + 1}] ${paper.title}`);
+    const listRows = (rows: PaperComparison['matrix']['keyPoints']) =>
+      rows.map(row => [row.label, ...row.cells.map(cell => cell.join('\n'))]);
+    const tables: ExportTable[] = [];
+
+    if (options.sections.metadata) {
+      tables.push({
+        heading: 'Papers',
+        columns: ['#', 'Title', 'Authors'],
+        rows: comparison.papers.map((paper, index) => [String(index + 1), paper.title, paper.authors.join(', ')])
+      });
+    }
+    if (options.sections.keyPoints) {
+      tables.push({ heading: 'Key Points', columns: ['Topic', ...paperColumns], rows: listRows(comparison.matrix.keyPoints) });
+    }
+    if (options.sections.limitations) {
+      tables.push({ heading: 'Limitations', columns: ['Topic', ...paperColumns], rows: listRows(comparison.matrix.limitations) });
+    }
+    if (options.sections.ethicsAnalysis) {
+      tables.push({
+        heading: 'Ethics Flags',
+        columns: ['Type', ...paperColumns],
+        rows: comparison.matrix.ethicsFlags.map(row => [
+          row.label,
+          ...row.cells.map(cell => cell.count > 0 ? `${cell.severity} (${cell.count}): ${cell.descriptions.join('; ')}` : '')
+        ])
+      });
+    }
+    if (options.sections.xaiData) {
+      tables.push({
+        heading: 'Confidence',
+        columns: ['Measure', ...paperColumns],
+        rows: comparison.matrix.confidence.map(row => [
+          row.label,
+          ...row.cells.map(cell => cell === null ? '' : `${Math.round(cell * 100)}%`)
+        ])
+      });
+    }
+    if (options.sections.researchGaps) {
+      tables.push({ heading: 'Research Gaps', columns: ['Topic', ...paperColumns], rows: listRows(comparison.matrix.researchGaps) });
+    }
+
+    return tables;
+  }
+
+  private static download(content: string, type: string, filename: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  private static disclosureRows(paper: Paper): Array<{ label: string; statement?: string; boilerplate: boolean; identifiers: string; page?: number }> {
+    const statements = paper.metadata?.disclosures || {};
+    return (Object.keys(DisclosureExtractionService.LABELS) as DisclosureType[]).map(type => ({
+      label: DisclosureExtractionService.LABELS[type],
+      statement: statements[type]?.text,
+      boilerplate: !!statements[type]?.boilerplate,
+      identifiers: (statements[type]?.identifiers || []).join(', '),
+      page: statements[type]?.pageNumber
+    }));
+  }
+
+  private static describeGuidelineStatus(status: GuidelineItemStatus): string {
+    switch (status) {
+      case 'present':
+        return 'Reported';
+      case 'partial':
+        return 'Partially reported';
+      default:
+        return 'Not reported';
+    }
+  }
+
+  private static describeVerification(verification?: QuoteVerification): string {
+    if (!verification) return 'Not checked';
+    const page = verification.pageNumber ? `, p. ${verification.pageNumber}` : '';
+    switch (verification.status) {
+      case 'verified':
+        return `Verified verbatim${page}`;
+      case 'approximate':
+        return `Approximate match (${Math.round(verification.score * 100)}%${page})`;
+      case 'too_short':
+        return 'Too short to verify';
+      default:
+        return 'Not found in paper';
+    }
+  }
+}
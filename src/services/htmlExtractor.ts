@@ -0,0 +1,119 @@
+import { parseCaption } from '../../supabase/functions/_shared/pdfExtraction';
+import { DocumentBuilder, REFERENCE_HEADING } from './documentBuilder';
+import { PDFExtractionResult } from './pdfProcessor';
+
+// Page furniture around the article on publisher and repository pages
+const SKIPPED = new Set(['script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside', 'form', 'button', 'svg', 'math']);
+const PARAGRAPHS = new Set(['p', 'li', 'dd', 'dt', 'blockquote', 'pre', 'address']);
+const BLOCKS = 'p, li, table, figure, h1, h2, h3, h4, h5, h6, div, section, article, ul, ol, dl, blockquote, pre';
+
+/**
+ * Reads saved article web pages. Headings, tables and figures come from the
+ * HTML elements, and metadata from the Highwire "citation_" meta tags that
+ * publishers add for indexing.
+ */
+export class HtmlExtractor {
+  static async extract(file: File): Promise<PDFExtractionResult> {
+    const document = new DOMParser().parseFromString(await file.text(), 'text/html');
+    const meta = (name: string) =>
+      Array.from(document.querySelectorAll(`meta[name="${name}" i], meta[property="${name}" i]`))
+        .map(element => element.getAttribute('content')?.trim() || '')
+        .filter(Boolean);
+
+    const root = document.querySelector('article') || document.querySelector('main') || document.body;
+    if (!root) {
+      throw new Error('The page has no content');
+    }
+
+    // A single h1 is the article title rather than a section
+    const h1s = root.querySelectorAll('h1');
+    const titleHeading = h1s.length === 1 ? h1s[0] : null;
+    const title = meta('citation_title')[0] || meta('dc.title')[0] || titleHeading?.textContent?.trim() || document.title.trim();
+
+    const builder = new DocumentBuilder('html');
+    const state = { inReferences: false, referenceLevel: 0, figureCount: 0, headingOffset: titleHeading ? 1 : 0 };
+    this.readElement(root, builder, state, titleHeading);
+
+    return builder.build(
+      {
+        title: title || undefined,
+        authors: meta('citation_author'),
+        abstract: meta('citation_abstract')[0] || meta('dc.description')[0] || undefined,
+        doi: meta('citation_doi')[0] || undefined,
+        keywords: meta('citation_keywords').join('; ') || meta('keywords')[0] || undefined,
+        subject: meta('citation_journal_title')[0] || undefined,
+        creationDate: meta('citation_publication_date')[0] || meta('citation_date')[0] || undefined
+      },
+      file
+    );
+  }
+
+  private static readElement(
+    element: Element,
+    builder: DocumentBuilder,
+    state: { inReferences: boolean; referenceLevel: number; figureCount: number; headingOffset: number },
+    titleHeading: Element | null
+  ): void {
+    Array.from(element.children).forEach(child => {
+      const tag = child.localName;
+      if (SKIPPED.has(tag) || child.getAttribute('hidden') !== null || child.getAttribute('aria-hidden') === 'true') return;
+
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading) {
+        const text = child.textContent?.trim() || '';
+        const level = Math.max(1, Number(heading[1]) - state.headingOffset);
+        if (child === titleHeading) {
+          builder.paragraph(text);
+        } else if (REFERENCE_HEADING.test(text)) {
+          // Entries under this heading go to the reference list, which the builder writes at the end
+          state.inReferences = true;
+          state.referenceLevel = level;
+        } else {
+          if (state.inReferences && level <= state.referenceLevel) state.inReferences = false;
+          builder.heading(text, level);
+        }
+        return;
+      }
+
+      if (tag === 'table') {
+        this.readTable(child, builder, child.querySelector('caption')?.textContent || '');
+      } else if (tag === 'figure') {
+        this.readFigure(child, builder, state);
+      } else if (PARAGRAPHS.has(tag) && !(tag === 'li' && child.querySelector(BLOCKS))) {
+        if (state.inReferences) builder.reference(child.textContent || '');
+        else builder.paragraph(child.textContent || '');
+      } else if (child.querySelector(BLOCKS)) {
+        this.readElement(child, builder, state, titleHeading);
+      } else if (child.textContent?.trim() && !/^(?:span|a|em|strong|b|i|sup|sub|small|img|br|label|input)$/.test(tag)) {
+        // Text in a <div> of its own, as many generated pages use for paragraphs
+        if (state.inReferences) builder.reference(child.textContent);
+        else builder.paragraph(child.textContent);
+      }
+    });
+  }
+
+  private static readTable(table: Element, builder: DocumentBuilder, captionText: string): void {
+    const rows = Array.from(table.querySelectorAll('tr')).map(row =>
+      Array.from(row.children)
+        .filter(cell => cell.localName === 'td' || cell.localName === 'th')
+        .map(cell => cell.textContent || '')
+    );
+    const caption = parseCaption(captionText.replace(/\s+/g, ' ').trim());
+    builder.table(rows, caption?.kind === 'table' ? caption.number : undefined, caption ? caption.title : captionText);
+  }
+
+  // Unnumbered figures are counted in document order
+  private static readFigure(figure: Element, builder: DocumentBuilder, state: { figureCount: number }): void {
+    const captionText = (figure.querySelector('figcaption')?.textContent || '').replace(/\s+/g, ' ').trim();
+    const table = figure.querySelector('table');
+    if (table) {
+      this.readTable(table, builder, captionText || table.querySelector('caption')?.textContent || '');
+      return;
+    }
+
+    state.figureCount++;
+    const caption = parseCaption(captionText);
+    if (caption) builder.caption(caption.kind, caption.number, caption.title);
+    else if (captionText) builder.caption('figure', String(state.figureCount), captionText);
+  }
+}
@@ -0,0 +1,221 @@
+import { ParsedReference } from '../types';
+import { DocumentBuilder } from './documentBuilder';
+import { PDFExtractionResult } from './pdfProcessor';
+import { PaperIdentityService } from './paperIdentity';
+
+/**
+ * Reads JATS XML, the format of PubMed Central and most publishers' XML
+ * feeds. Sections, tables, figure captions and the reference list are taken
+ * from their tags, so nothing has to be inferred from layout.
+ */
+export class JatsExtractor {
+  static async extract(file: File): Promise<PDFExtractionResult> {
+    const document = new DOMParser().parseFromString(await file.text(), 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('The XML could not be parsed');
+    }
+    const article = document.documentElement;
+    if (article.localName !== 'article') {
+      throw new Error('The XML is not a JATS article');
+    }
+
+    const meta = article.querySelector('front > article-meta');
+    const refs = Array.from(article.querySelectorAll('back ref-list ref'));
+    // In-text citations point at reference ids; they are written as [n] in reference list order
+    const referenceNumbers = new Map(refs.map((ref, index) => [ref.getAttribute('id') || '', index + 1]));
+
+    const builder = new DocumentBuilder('jats');
+    const title = text(meta?.querySelector('title-group > article-title'));
+    if (title) builder.paragraph(title);
+
+    const abstract = meta?.querySelector('abstract:not([abstract-type])') || meta?.querySelector('abstract');
+    if (abstract) {
+      builder.heading('Abstract', 1);
+      this.readContent(Array.from(abstract.children), builder, referenceNumbers, 2);
+    }
+
+    const body = article.querySelector(':scope > body');
+    if (body) this.readContent(Array.from(body.children), builder, referenceNumbers, 1);
+
+    // The reference list is added by the builder; acknowledgements, appendices and notes are kept
+    Array.from(article.querySelector(':scope > back')?.children || []).forEach(child => {
+      if (child.localName === 'ack') {
+        builder.heading(text(child.querySelector(':scope > title')) || 'Acknowledgements', 1);
+        this.readContent(Array.from(child.children), builder, referenceNumbers, 2);
+      } else if (child.localName !== 'ref-list') {
+        this.readContent([child], builder, referenceNumbers, 1);
+      }
+    });
+
+    refs.forEach(ref => {
+      const citation = ref.querySelector('mixed-citation, element-citation, citation');
+      if (citation) builder.reference(this.citationText(citation), this.citationFields(citation));
+    });
+
+    const authors = Array.from(meta?.querySelectorAll('contrib-group > contrib[contrib-type="author"]') || [])
+      .map(contrib => {
+        const name = contrib.querySelector('name');
+        if (!name) return text(contrib.querySelector('string-name, collab'));
+        return [text(name.querySelector('given-names')), text(name.querySelector('surname'))].filter(Boolean).join(' ');
+      })
+      .filter(Boolean);
+    const date = meta?.querySelector('pub-date[pub-type="epub"], pub-date[date-type="pub"], pub-date');
+
+    return builder.build(
+      {
+        title: title || undefined,
+        authors,
+        abstract: abstract ? text(abstract) : undefined,
+        doi: text(meta?.querySelector('article-id[pub-id-type="doi"]')) || undefined,
+        subject: text(meta?.querySelector('article-categories subject')) || undefined,
+        keywords: Array.from(meta?.querySelectorAll('kwd-group kwd') || []).map(text).join('; ') || undefined,
+        creationDate: date
+          ? [date.querySelector('year'), date.querySelector('month'), date.querySelector('day')]
+            .map(text)
+            .filter(Boolean)
+            .map(part => part.padStart(2, '0'))
+            .join('-')
+          : undefined
+      },
+      file
+    );
+  }
+
+  /** Sections become headings one level below their parent; other blocks are read in document order. */
+  private static readContent(
+    elements: Element[],
+    builder: DocumentBuilder,
+    referenceNumbers: Map<string, number>,
+    level: number
+  ): void {
+    elements.forEach(child => {
+      switch (child.localName) {
+        case 'sec':
+        case 'app':
+        case 'notes': {
+          const title = text(child.querySelector(':scope > title'));
+          const label = text(child.querySelector(':scope > label')).replace(/\.$/, '');
+          if (title) builder.heading(title, level, label || undefined);
+          this.readContent(Array.from(child.children), builder, referenceNumbers, title ? level + 1 : level);
+          break;
+        }
+        case 'p':
+          builder.paragraph(this.paragraphText(child, referenceNumbers));
+          // Tables and figures are often placed inside the paragraph that first cites them
+          child.querySelectorAll(':scope > table-wrap, :scope > fig').forEach(float => this.readFloat(float, builder));
+          break;
+        case 'table-wrap':
+        case 'fig':
+          this.readFloat(child, builder);
+          break;
+        case 'list':
+          child.querySelectorAll(':scope > list-item').forEach(item => builder.paragraph(this.paragraphText(item, referenceNumbers)));
+          break;
+        case 'disp-quote':
+        case 'boxed-text':
+        case 'app-group':
+        case 'fn-group':
+        case 'fig-group':
+        case 'table-wrap-group':
+          this.readContent(Array.from(child.children), builder, referenceNumbers, level);
+          break;
+        case 'fn':
+          builder.paragraph(this.paragraphText(child, referenceNumbers));
+          break;
+      }
+    });
+  }
+
+  private static readFloat(float: Element, builder: DocumentBuilder): void {
+    const label = text(float.querySelector(':scope > label'));
+    const number = label.match(/(S?\d+[a-z]?|[IVX]+)\s*[.:]?$/)?.[1];
+    const caption = text(float.querySelector(':scope > caption'));
+
+    if (float.localName === 'fig') {
+      if (number) builder.caption('figure', number, caption);
+      else if (caption) builder.paragraph(caption);
+      return;
+    }
+
+    const rows = Array.from(float.querySelectorAll('table tr')).map(row =>
+      Array.from(row.children).filter(cell => cell.localName === 'td' || cell.localName === 'th').map(text)
+    );
+    builder.table(rows, number, caption);
+  }
+
+  // Citations already in brackets, "[<xref>1</xref>, <xref>2</xref>]", would otherwise read "[[1], [2]]"
+  private static paragraphText(element: Element, referenceNumbers: Map<string, number>): string {
+    return this.inlineText(element, referenceNumbers)
+      .replace(/\[((?:\s*\[[\d, ]+\]\s*[,–-]?)+)\s*\]/g, (_, inner: string) => `[${inner.replace(/[[\]]/g, '').trim()}]`);
+  }
+
+  // Paragraph text with citations as [n] and nested tables and figures left out
+  private static inlineText(element: Element, referenceNumbers: Map<string, number>): string {
+    return Array.from(element.childNodes)
+      .map(node => {
+        if (node.nodeType === 3) return node.textContent || '';
+        if (node.nodeType !== 1) return '';
+        const child = node as Element;
+        if (['table-wrap', 'fig', 'label'].includes(child.localName)) return '';
+        if (child.localName === 'xref' && child.getAttribute('ref-type') === 'bibr') {
+          const numbers = (child.getAttribute('rid') || '').split(/\s+/)
+            .map(id => referenceNumbers.get(id))
+            .filter((number): number is number => number !== undefined);
+          return numbers.length > 0 ? `[${numbers.join(', ')}]` : child.textContent || '';
+        }
+        return this.inlineText(child, referenceNumbers);
+      })
+      .join('');
+  }
+
+  // Element citations carry no punctuation between their fields, so their text is written in Vancouver style
+  private static citationText(citation: Element): string {
+    if (citation.localName !== 'element-citation') {
+      return spacedText(citation);
+    }
+
+    const fields = this.citationFields(citation);
+    const names = this.names(citation).map(name => `${name.surname} ${name.given.replace(/[^A-Z]/g, '')}`.trim());
+    const pages = [text(citation.querySelector('fpage')), text(citation.querySelector('lpage'))].filter(Boolean).join('-');
+    const volume = text(citation.querySelector('volume'));
+    return [
+      names.join(', '),
+      fields.title,
+      fields.venue,
+      [fields.year, volume && `${volume}${pages ? `:${pages}` : ''}`].filter(Boolean).join(';'),
+      fields.doi && `doi:${fields.doi}`
+    ].filter(Boolean).join('. ');
+  }
+
+  private static citationFields(citation: Element): Partial<ParsedReference> {
+    const authors = this.names(citation).map(name => (name.given ? `${name.surname}, ${name.given}` : name.surname));
+    const doi = text(citation.querySelector('pub-id[pub-id-type="doi"]'));
+
+    return {
+      authors: authors.length > 0 ? authors : undefined,
+      title: text(citation.querySelector('article-title, chapter-title')) || undefined,
+      venue: text(citation.querySelector('source')) || undefined,
+      year: text(citation.querySelector('year')).match(/\d{4}/)?.[0],
+      doi: doi ? PaperIdentityService.normalizeDoi(doi) || undefined : undefined
+    };
+  }
+
+  private static names(citation: Element): Array<{ surname: string; given: string }> {
+    const group = citation.querySelector('person-group[person-group-type="author"]') || citation.querySelector('person-group') || citation;
+    return Array.from(group.querySelectorAll('name'))
+      .map(name => ({ surname: text(name.querySelector('surname')), given: text(name.querySelector('given-names')) }))
+      .filter(name => name.surname.length > 0);
+  }
+}
+
+// Names are tagged without spaces between their parts: <surname>Smith</surname><given-names>J</given-names>
+function spacedText(node: Node): string {
+  if (node.nodeType !== 1) return node.textContent || '';
+  const children = Array.from(node.childNodes);
+  const hasText = children.some(child => child.nodeType === 3 && child.textContent?.trim());
+  return children.map(spacedText).join(hasText ? '' : ' ');
+}
+
+function text(element: Element | null | undefined): string {
+  return element?.textContent?.replace(/\s+/g, ' ').trim() || '';
+}
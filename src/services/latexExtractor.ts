@@ -0,0 +1,766 @@
+import { gunzipSync, strFromU8, unzipSync } from 'fflate';
+import { ParsedReference } from '../types';
+import { DocumentBuilder } from './documentBuilder';
+import { PDFExtractionResult } from './pdfProcessor';
+import { PaperIdentityService } from './paperIdentity';
+
+interface LabelTarget {
+  name: 'Section' | 'Figure' | 'Table' | 'Equation';
+  number: string;
+}
+
+interface LatexContext {
+  builder: DocumentBuilder;
+  // Citation key -> position in the reference list
+  citations: Map<string, number>;
+  labels: Map<string, LabelTarget>;
+  // What a \label in running text refers to: the section being read
+  section: LabelTarget;
+  counters: { sections: number[]; figure: number; table: number; equation: number; appendix: boolean };
+}
+
+interface BibliographyEntry {
+  key: string;
+  text: string;
+  known?: Partial<ParsedReference>;
+}
+
+const SECTION_LEVELS: Record<string, number> = { chapter: 1, section: 1, subsection: 2, subsubsection: 3, paragraph: 4 };
+const FIGURE_ENVIRONMENTS = ['figure', 'wrapfigure', 'sidewaysfigure', 'SCfigure'];
+const TABLE_ENVIRONMENTS = ['table', 'wraptable', 'sidewaystable'];
+const TABULAR_ENVIRONMENTS = ['tabular', 'tabularx', 'tabulary', 'longtable', 'supertabular'];
+const MATH_ENVIRONMENTS = ['equation', 'align', 'gather', 'multline', 'eqnarray', 'displaymath', 'flalign'];
+// Read separately (front matter, bibliography) or not text at all
+const SKIPPED_ENVIRONMENTS = ['abstract', 'keywords', 'keyword', 'IEEEkeywords', 'thebibliography', 'comment', 'titlepage', 'tikzpicture', 'filecontents'];
+
+// Commands whose arguments are dropped, by number of mandatory arguments
+const DROPPED: Record<string, number> = {
+  label: 1, vspace: 1, hspace: 1, includegraphics: 1, bibliographystyle: 1, bibliography: 1, addbibresource: 1,
+  pagestyle: 1, thispagestyle: 1, setcounter: 2, addtocounter: 2, setlength: 2, addtolength: 2, renewcommand: 2,
+  newcommand: 2, cline: 1, rowcolor: 1, color: 1, definecolor: 3, title: 1, author: 1, date: 1, affiliation: 1,
+  affil: 1, address: 1, email: 1, institute: 1, thanks: 1, keywords: 1, orcid: 1, graphicspath: 1, hypersetup: 1,
+  input: 1, include: 1, caption: 1, captionof: 2, begin: 1, end: 1, abstract: 1, inst: 1, footnotetext: 1
+};
+// Commands that print their last argument, by number of mandatory arguments
+const LAST_ARGUMENT: Record<string, number> = {
+  href: 2, multicolumn: 3, multirow: 3, resizebox: 3, scalebox: 2, textcolor: 2, colorbox: 2, foreignlanguage: 2, rotatebox: 2
+};
+const SYMBOLS: Record<string, string> = {
+  ss: 'ß', o: 'ø', O: 'Ø', ae: 'æ', AE: 'Æ', aa: 'å', AA: 'Å', l: 'ł', L: 'Ł', oe: 'œ', OE: 'Œ', i: 'ı',
+  dots: '…', ldots: '…', textendash: '–', textemdash: '—', textquoteright: '’', textquoteleft: '‘',
+  LaTeX: 'LaTeX', TeX: 'TeX', textasciitilde: '~', textbar: '|', textless: '<', textgreater: '>', S: '§', P: '¶',
+  copyright: '©', textregistered: '®', textpm: '±', texttimes: '×', textdegree: '°', degree: '°', textmu: 'µ',
+  textbackslash: '\\', textperiodcentered: '·', textbullet: '•', item: ' ', par: ' ', newline: ' ', linebreak: ' '
+};
+const MATH_SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', eta: 'η', theta: 'θ', kappa: 'κ',
+  lambda: 'λ', mu: 'μ', nu: 'ν', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ', phi: 'φ', varphi: 'φ', chi: 'χ',
+  psi: 'ψ', omega: 'ω', Delta: 'Δ', Sigma: 'Σ', Omega: 'Ω', pm: '±', times: '×', cdot: '·', leq: '≤', le: '≤',
+  geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', sim: '∼', infty: '∞', to: '→', rightarrow: '→', ll: '≪', gg: '≫'
+};
+const ACCENTS: Record<string, string> = {
+  "'": '́', '`': '̀', '^': '̂', '"': '̈', '~': '̃', '=': '̄', '.': '̇',
+  c: '̧', v: '̌', u: '̆', H: '̋', k: '̨', r: '̊'
+};
+
+/**
+ * Reads LaTeX sources: a single .tex file, or an arXiv source tarball or
+ * Overleaf zip whose main file pulls in the others. Sections, floats and
+ * bibliography entries are read from their commands, keeping LaTeX's own
+ * numbering so "Table \ref{...}" reads as it does in the compiled paper.
+ */
+export class LatexExtractor {
+  private static readonly MAX_INPUT_DEPTH = 10;
+
+  static async extract(file: File): Promise<PDFExtractionResult> {
+    const files = this.readSources(file.name, new Uint8Array(await file.arrayBuffer()));
+    const main = this.findMainFile(files);
+    if (!main) {
+      throw new Error('No LaTeX file with \\begin{document} was found');
+    }
+
+    const source = this.expandInputs(files.get(main) || '', files, main, 0);
+    const bibliography = this.readBibliography(source, files, main);
+    const citations = new Map(bibliography.map((entry, index) => [entry.key, index + 1]));
+    console.log(`📚 Found ${bibliography.length} bibliography entries`);
+
+    const begin = source.search(/\\begin\s*\{document\}/);
+    const end = source.search(/\\end\s*\{document\}/);
+    const body = source.slice(begin >= 0 ? begin : 0, end >= 0 ? end : source.length);
+
+    // A \ref may point forward, so labels are collected in a first pass that is thrown away
+    const labels = new Map<string, LabelTarget>();
+    this.convert(body, this.createContext(new DocumentBuilder('latex'), citations, labels));
+    const context = this.createContext(new DocumentBuilder('latex'), citations, labels);
+
+    const title = this.commandArgument(source, 'title');
+    const titleText = title ? this.toText(title, context).replace(/\s+/g, ' ').trim() : undefined;
+    if (titleText) context.builder.paragraph(titleText);
+
+    const abstract = this.environment(source, 'abstract') ?? this.commandArgument(body, 'abstract');
+    if (abstract) {
+      context.builder.heading('Abstract', 1);
+      this.paragraphs(abstract, context);
+    }
+
+    this.convert(body, context);
+    bibliography.forEach(entry => context.builder.reference(entry.text, entry.known));
+
+    const keywords = this.commandArgument(source, 'keywords')
+      ?? this.environment(source, 'keywords')
+      ?? this.environment(source, 'keyword')
+      ?? this.environment(source, 'IEEEkeywords');
+
+    return context.builder.build(
+      {
+        title: titleText,
+        authors: this.readAuthors(source, context),
+        abstract: abstract ? this.toText(abstract, context).replace(/\s+/g, ' ').trim() : undefined,
+        keywords: keywords ? this.toText(keywords, context).replace(/\s+/g, ' ').trim() : undefined
+      },
+      file
+    );
+  }
+
+  private static createContext(builder: DocumentBuilder, citations: Map<string, number>, labels: Map<string, LabelTarget>): LatexContext {
+    return {
+      builder,
+      citations,
+      labels,
+      section: { name: 'Section', number: '' },
+      counters: { sections: [], figure: 0, table: 0, equation: 0, appendix: false }
+    };
+  }
+
+  /** Source files by path: from a tarball (optionally gzipped), a zip, or the file itself. */
+  private static readSources(fileName: string, data: Uint8Array): Map<string, string> {
+    const wanted = (name: string) => /\.(?:tex|ltx|bbl|bib)$/i.test(name);
+
+    if (data[0] === 0x50 && data[1] === 0x4b) {
+      const entries = unzipSync(data, { filter: entry => wanted(entry.name) });
+      return new Map(Object.entries(entries).map(([name, content]) => [name, strFromU8(content)]));
+    }
+
+    const unpacked = data[0] === 0x1f && data[1] === 0x8b ? gunzipSync(data) : data;
+    if (strFromU8(unpacked.subarray(257, 262)) === 'ustar') {
+      return this.readTar(unpacked, wanted);
+    }
+
+    // A gzipped single file, which arXiv serves for one-file submissions
+    const name = fileName.replace(/\.gz$/i, '');
+    return new Map([[/\.(?:tex|ltx)$/i.test(name) ? name : `${name}.tex`, strFromU8(unpacked)]]);
+  }
+
+  private static readTar(data: Uint8Array, wanted: (name: string) => boolean): Map<string, string> {
+    const files = new Map<string, string>();
+    let offset = 0;
+    let longName: string | null = null;
+
+    while (offset + 512 <= data.length) {
+      const header = data.subarray(offset, offset + 512);
+      if (header.every(byte => byte === 0)) break;
+
+      const field = (start: number, length: number) => strFromU8(header.subarray(start, start + length)).replace(/\0[\s\S]*$/, '');
+      const size = parseInt(field(124, 12).trim(), 8) || 0;
+      const type = String.fromCharCode(header[156]);
+      const prefix = field(345, 155);
+      const name = longName || (prefix ? `${prefix}/${field(0, 100)}` : field(0, 100));
+      const content = data.subarray(offset + 512, offset + 512 + size);
+      longName = null;
+
+      // GNU tar stores names over 100 characters in an entry of their own
+      if (type === 'L') longName = strFromU8(content).replace(/\0[\s\S]*$/, '');
+      else if ((type === '0' || type === '\0') && wanted(name)) files.set(name.replace(/^\.\//, ''), strFromU8(content));
+
+      offset += 512 + Math.ceil(size / 512) * 512;
+    }
+
+    return files;
+  }
+
+  // The file with \documentclass and \begin{document}; the longest wins when several do
+  private static findMainFile(files: Map<string, string>): string | null {
+    const candidates = Array.from(files.entries())
+      .filter(([name, text]) => /\.(?:tex|ltx)$/i.test(name) && /\\begin\s*\{document\}/.test(stripComments(text)))
+      .sort(([, a], [, b]) => Number(/\\documentclass/.test(b)) - Number(/\\documentclass/.test(a)) || b.length - a.length);
+    return candidates[0]?.[0] || null;
+  }
+
+  /** The main file with comments removed and \input and \include replaced by the files they name. */
+  private static expandInputs(text: string, files: Map<string, string>, main: string, depth: number): string {
+    const directory = main.includes('/') ? main.slice(0, main.lastIndexOf('/') + 1) : '';
+    return stripComments(text).replace(/\\(?:input|include|subfile)\s*\{([^}]+)\}/g, (_, path: string) => {
+      const name = path.trim().replace(/^\.\//, '');
+      const found = [name, `${name}.tex`, `${directory}${name}`, `${directory}${name}.tex`].find(candidate => files.has(candidate));
+      if (!found || depth >= this.MAX_INPUT_DEPTH) return '';
+      return this.expandInputs(files.get(found) || '', files, main, depth + 1);
+    });
+  }
+
+  /** Reads the document: headings numbered as LaTeX would, floats, displayed maths and paragraphs. */
+  private static convert(body: string, context: LatexContext): void {
+    const hasChapters = /\\chapter\b/.test(body);
+    const pattern = /\\(chapter|section|subsection|subsubsection|paragraph)\b(\*?)|\\begin\s*\{([a-zA-Z]+\*?)\}|\\appendix\b/g;
+    let buffer = '';
+    let position = 0;
+    const flush = () => {
+      this.paragraphs(buffer, context);
+      buffer = '';
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(body))) {
+      buffer += body.slice(position, match.index);
+      position = match.index + match[0].length;
+
+      if (match[0] === '\\appendix') {
+        flush();
+        context.counters.appendix = true;
+        context.counters.sections = [];
+      } else if (match[1]) {
+        const title = readArguments(body, position, 1);
+        if (title) {
+          flush();
+          this.heading(match[1], !!match[2], title.args[0], hasChapters, context);
+          position = title.end;
+        }
+      } else {
+        const environment = match[3];
+        const name = environment.replace(/\*$/, '');
+        const end = findEnvironmentEnd(body, position, environment);
+        const content = body.slice(position, end.contentEnd);
+
+        if (FIGURE_ENVIRONMENTS.includes(name) || TABLE_ENVIRONMENTS.includes(name)) {
+          flush();
+          this.readFloat(TABLE_ENVIRONMENTS.includes(name) ? 'table' : 'figure', content, context);
+          position = end.end;
+        } else if (TABULAR_ENVIRONMENTS.includes(name)) {
+          flush();
+          context.builder.table(this.readTabular(body.slice(match.index, end.end), context));
+          position = end.end;
+        } else if (MATH_ENVIRONMENTS.includes(name)) {
+          const target: LabelTarget = { name: 'Equation', number: environment.endsWith('*') ? '' : String(++context.counters.equation) };
+          this.recordLabels(content, target, context);
+          buffer += ` ${mathText(content)} `;
+          position = end.end;
+        } else if (SKIPPED_ENVIRONMENTS.includes(name)) {
+          position = end.end;
+        }
+        // Other environments (lists, centering, minipages) are read through
+      }
+      pattern.lastIndex = position;
+    }
+
+    buffer += body.slice(position);
+    flush();
+  }
+
+  private static heading(command: string, starred: boolean, title: string, hasChapters: boolean, context: LatexContext): void {
+    const level = SECTION_LEVELS[command] + (hasChapters && command !== 'chapter' ? 1 : 0);
+    let number: string | undefined;
+
+    if (!starred && command !== 'paragraph') {
+      const counters = context.counters.sections.slice(0, level);
+      while (counters.length < level) counters.push(0);
+      counters[level - 1]++;
+      context.counters.sections = counters;
+      // Appendix sections are lettered: A, A.1, ...
+      number = counters
+        .map((count, index) => (index === 0 && context.counters.appendix ? String.fromCharCode(64 + count) : String(count)))
+        .join('.');
+    }
+
+    context.section = { name: 'Section', number: number || '' };
+    context.builder.heading(this.toText(title, context), level, number);
+  }
+
+  private static readFloat(kind: 'figure' | 'table', content: string, context: LatexContext): void {
+    const captions = commandArguments(content, 'caption');
+    // With subfigures the caption of the whole float comes last
+    const caption = captions.length > 0 ? this.toText(captions[captions.length - 1], context).replace(/\s+/g, ' ').trim() : '';
+    const number = captions.length > 0 ? String(++context.counters[kind]) : undefined;
+    if (number) this.recordLabels(content, { name: kind === 'table' ? 'Table' : 'Figure', number }, context);
+
+    if (kind === 'figure') {
+      if (number) context.builder.caption('figure', number, caption);
+      return;
+    }
+    context.builder.table(this.readTabular(content, context), number, caption || undefined);
+  }
+
+  /** Rows and cells of the first tabular in the content. */
+  private static readTabular(content: string, context: LatexContext): string[][] {
+    const begin = content.match(/\\begin\s*\{(tabular\*?|tabularx|tabulary|longtable|supertabular)\}/);
+    if (!begin || begin.index === undefined) return [];
+
+    let position = begin.index + begin[0].length;
+    const placement = readGroup(content, position, '[');
+    if (placement) position = placement.end;
+    if (/^(?:tabular\*|tabularx|tabulary)$/.test(begin[1])) {
+      const width = readGroup(content, position);
+      if (width) position = width.end;
+    }
+    const columns = readGroup(content, position);
+    if (columns) position = columns.end;
+
+    const inner = content
+      .slice(position, findEnvironmentEnd(content, position, begin[1]).contentEnd)
+      .replace(/\\(?:hline|toprule|midrule|bottomrule|addlinespace|endhead|endfirsthead|endfoot|endlastfoot)\b(?:\s*\[[^\]]*\])?/g, '')
+      .replace(/\\(?:cline|cmidrule)\s*(?:\([^)]*\))?\s*\{[^}]*\}/g, '');
+
+    return splitTopLevel(inner, (text, index) => {
+      if (text.startsWith('\\\\', index)) return 2 + (text.slice(index + 2).match(/^\s*\[[^\]]*\]/)?.[0].length || 0);
+      return text.startsWith('\\tabularnewline', index) ? 15 : 0;
+    })
+      .map(row => splitTopLevel(row, (text, index) => (text[index] === '&' ? 1 : 0)).map(cell => this.toText(cell, context)))
+      .filter(row => row.some(cell => cell.trim().length > 0));
+  }
+
+  private static paragraphs(text: string, context: LatexContext): void {
+    text
+      .split(/\n[ \t]*\n|\\item\b(?:\s*\[[^\]]*\])?|\\par\b/)
+      .forEach(paragraph => context.builder.paragraph(this.toText(paragraph, context)));
+  }
+
+  private static recordLabels(content: string, target: LabelTarget, context: LatexContext): void {
+    for (const match of content.matchAll(/\\label\s*\{([^}]+)\}/g)) {
+      if (!context.labels.has(match[1])) context.labels.set(match[1], target);
+    }
+  }
+
+  /** Plain text of LaTeX markup: commands resolved or dropped, citations as [n], maths kept readable. */
+  private static toText(source: string, context: LatexContext): string {
+    let output = '';
+    let index = 0;
+
+    while (index < source.length) {
+      const char = source[index];
+
+      if (char === '\\') {
+        const name = source.slice(index + 1).match(/^(?:[a-zA-Z@]+\*?|[\s\S])/)?.[0] || '';
+        index += 1 + name.length;
+        const result = this.command(name.replace(/\*$/, ''), source, index, context);
+        output += result.text;
+        index = result.end;
+      } else if (char === '$') {
+        const display = source.startsWith('$$', index);
+        const close = source.indexOf(display ? '$$' : '$', index + (display ? 2 : 1));
+        const end = close >= 0 ? close : source.length;
+        output += mathText(source.slice(index + (display ? 2 : 1), end));
+        index = end + (display ? 2 : 1);
+      } else if (char === '{' || char === '}') {
+        index++;
+      } else if (char === '~') {
+        output += ' ';
+        index++;
+      } else if (source.startsWith('---', index)) {
+        output += '—';
+        index += 3;
+      } else if (source.startsWith('--', index)) {
+        output += '–';
+        index += 2;
+      } else if (source.startsWith('``', index)) {
+        output += '“';
+        index += 2;
+      } else if (source.startsWith("''", index)) {
+        output += '”';
+        index += 2;
+      } else {
+        output += char;
+        index++;
+      }
+    }
+
+    return output;
+  }
+
+  // One command at `index` (just after its name): its text and where reading continues
+  private static command(name: string, source: string, index: number, context: LatexContext): { text: string; end: number } {
+    if (name === '\\') {
+      const skip = readGroup(source, index, '[');
+      return { text: ' ', end: skip ? skip.end : index };
+    }
+    if ('%&_#${}'.includes(name)) return { text: name, end: index };
+    if (' ,;:!/-@'.includes(name) || /^\s$/.test(name)) return { text: name === '-' || name === '@' ? '' : ' ', end: index };
+    if (name === '(' || name === '[') {
+      const close = source.indexOf(name === '(' ? '\\)' : '\\]', index);
+      const end = close >= 0 ? close : source.length;
+      return { text: mathText(source.slice(index, end)), end: end + 2 };
+    }
+
+    if (ACCENTS[name] && source[index] !== undefined) {
+      // \'e, \'{e}, \c{c}, \v s
+      const group = readGroup(source, index);
+      const letter = group ? group.content.replace(/^\\/, '') : source.slice(index).match(/^\s*([a-zA-Z])/)?.[1];
+      if (letter && letter.length === 1) {
+        const consumed = group ? group.end : index + (source.slice(index).match(/^\s*[a-zA-Z]/)?.[0].length || 0);
+        return { text: `${letter}${ACCENTS[name]}`.normalize('NFC'), end: consumed };
+      }
+    }
+
+    if (/^(?:[a-z]*cite[a-z]*|Cite[a-z]*)$/.test(name)) {
+      const args = readArguments(source, index, 1);
+      if (!args) return { text: '', end: index };
+      const numbers = args.args[0].split(',').map(key => context.citations.get(key.trim())).filter((n): n is number => n !== undefined);
+      return { text: name !== 'nocite' && numbers.length > 0 ? `[${numbers.join(', ')}]` : '', end: args.end };
+    }
+
+    if (/^(?:ref|eqref|autoref|cref|Cref|pageref|nameref|vref)$/.test(name)) {
+      const args = readArguments(source, index, 1);
+      if (!args) return { text: '', end: index };
+      const targets = args.args[0].split(',').map(key => context.labels.get(key.trim()));
+      const text = targets
+        .map(target => {
+          if (!target?.number) return '??';
+          if (name === 'eqref') return `(${target.number})`;
+          return /^(?:autoref|cref|Cref)$/.test(name) ? `${target.name} ${target.number}` : target.number;
+        })
+        .join(', ');
+      return { text, end: args.end };
+    }
+
+    if (name === 'label') {
+      const args = readArguments(source, index, 1);
+      if (args && !context.labels.has(args.args[0])) context.labels.set(args.args[0], context.section);
+      return { text: '', end: args ? args.end : index };
+    }
+
+    if (name === 'footnote') {
+      const args = readArguments(source, index, 1);
+      return args ? { text: ` (${this.toText(args.args[0], context).trim()})`, end: args.end } : { text: '', end: index };
+    }
+
+    if (name === 'url' || name === 'nolinkurl') {
+      const args = readArguments(source, index, 1);
+      return args ? { text: args.args[0], end: args.end } : { text: '', end: index };
+    }
+
+    if (DROPPED[name] !== undefined) {
+      const args = readArguments(source, index, DROPPED[name]);
+      return { text: '', end: args ? args.end : index };
+    }
+
+    if (LAST_ARGUMENT[name] !== undefined) {
+      const args = readArguments(source, index, LAST_ARGUMENT[name]);
+      return args ? { text: this.toText(args.args[args.args.length - 1], context), end: args.end } : { text: '', end: index };
+    }
+
+    if (SYMBOLS[name] !== undefined) {
+      // {} after a symbol command only stops it from swallowing the following space
+      return { text: SYMBOLS[name], end: source.startsWith('{}', index) ? index + 2 : index };
+    }
+
+    // Formatting (\emph, \textbf, ...) and unknown commands print their argument, if any
+    const optional = readGroup(source, index, '[');
+    const group = readGroup(source, optional ? optional.end : index);
+    if (group && /^[a-zA-Z]/.test(name)) {
+      return { text: this.toText(group.content, context), end: group.end };
+    }
+    return { text: '', end: index };
+  }
+
+  private static readAuthors(source: string, context: LatexContext): string[] {
+    return commandArguments(source, 'author')
+      .flatMap(author => author.split(/\\and\b|\\AND\b/))
+      // Affiliations follow the name on the next line
+      .map(author => author.split(/\\\\/)[0])
+      .map(author => author.replace(/\\(?:thanks|footnote|inst|textsuperscript|affil|email)\s*\{[^}]*\}|\$\^\{?[^$]*\}?\$/g, ''))
+      .map(author => this.toText(author, context).replace(/\s+/g, ' ').replace(/[,*†‡\d\s]+$/, '').trim())
+      .filter(author => author.length > 1);
+  }
+
+  /** Entries from \bibitem lists (inline or in a .bbl), a biblatex .bbl, or the cited entries of .bib files. */
+  private static readBibliography(source: string, files: Map<string, string>, main: string): BibliographyEntry[] {
+    const inline = this.environment(source, 'thebibliography');
+    if (inline) return this.readBibitems(inline);
+
+    const bbl = files.get(main.replace(/\.(?:tex|ltx)$/i, '.bbl'))
+      || Array.from(files.entries()).find(([name]) => /\.bbl$/i.test(name))?.[1];
+    if (bbl && /\\bibitem\b/.test(bbl)) return this.readBibitems(bbl);
+    if (bbl && /\\entry\s*\{/.test(bbl)) return this.readBiblatexEntries(bbl);
+
+    const bibFiles = [...commandArguments(source, 'bibliography'), ...commandArguments(source, 'addbibresource')]
+      .flatMap(names => names.split(','))
+      .map(name => name.trim().replace(/\.bib$/i, ''))
+      .map(name => files.get(`${name}.bib`) || Array.from(files.entries()).find(([path]) => path.endsWith(`/${name}.bib`))?.[1])
+      .filter((text): text is string => !!text);
+    if (bibFiles.length === 0) return [];
+
+    const entries = new Map(bibFiles.flatMap(text => Array.from(parseBib(text).entries())));
+    const citeAll = /\\nocite\s*\{\s*\*\s*\}/.test(source);
+    const cited = new Set<string>();
+    for (const match of source.matchAll(/\\(?:[a-z]*cite[a-z]*|Cite[a-z]*)\*?\s*(?:\[[^\]]*\]\s*){0,2}\{([^}]+)\}/g)) {
+      match[1].split(',').forEach(key => cited.add(key.trim()));
+    }
+
+    return Array.from(citeAll ? new Set([...cited, ...entries.keys()]) : cited)
+      .filter(key => entries.has(key))
+      .map(key => this.bibEntry(key, entries.get(key)!));
+  }
+
+  private static readBibitems(text: string): BibliographyEntry[] {
+    const context = this.createContext(new DocumentBuilder('latex'), new Map(), new Map());
+    const entries: BibliographyEntry[] = [];
+    const pattern = /\\bibitem\b/g;
+    const starts: Array<{ key: string; start: number; end: number }> = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      let position = match.index + match[0].length;
+      const label = readGroup(text, position, '[');
+      if (label) position = label.end;
+      const key = readGroup(text, position);
+      if (!key) continue;
+      starts.push({ key: key.content.trim(), start: match.index, end: key.end });
+    }
+
+    starts.forEach((item, index) => {
+      const raw = text.slice(item.end, starts[index + 1]?.start ?? text.length).replace(/\\end\s*\{thebibliography\}[\s\S]*$/, '');
+      const entry = this.toText(raw.replace(/\\newblock\b/g, ' '), context).replace(/\s+/g, ' ').trim();
+      if (entry) entries.push({ key: item.key, text: entry });
+    });
+    return entries;
+  }
+
+  private static readBiblatexEntries(bbl: string): BibliographyEntry[] {
+    const context = this.createContext(new DocumentBuilder('latex'), new Map(), new Map());
+    return bbl.split(/\\entry\s*(?=\{)/).slice(1).flatMap(entry => {
+      const key = readGroup(entry, 0);
+      if (!key) return [];
+
+      const field = (name: string) => {
+        const start = entry.search(new RegExp(`\\\\field\\s*\\{${name}\\}`));
+        if (start < 0) return undefined;
+        const value = readGroup(entry, entry.indexOf('}', start) + 1);
+        return value ? this.toText(value.content, context).trim() : undefined;
+      };
+      const authorList = entry.match(/\\name\s*\{author\}([\s\S]*?)(?:\\name\s*\{|\\list\s*\{|\\strng|\\field)/)?.[1] || '';
+      const authors = Array.from(authorList.matchAll(/family=\{([^}]*)\}(?:,\s*familyi=\{[^}]*\})?(?:,\s*given=\{([^}]*)\})?/g))
+        .map(name => ({ family: this.toText(name[1], context), given: this.toText(name[2] || '', context) }));
+      const venue = field('journaltitle') || field('booktitle')
+        || this.toText(entry.match(/\\list\s*\{publisher\}\s*\{\d+\}\s*\{\s*\{([^}]*)\}/)?.[1] || '', context) || undefined;
+
+      return [this.formatEntry(key.content.trim(), {
+        authors,
+        title: field('title'),
+        year: field('year') || field('date')?.slice(0, 4),
+        venue,
+        volume: field('volume'),
+        pages: field('pages'),
+        doi: entry.match(/\\verb\s*\{doi\}\s*\\verb\s+(\S+)/)?.[1]
+      })];
+    });
+  }
+
+  private static bibEntry(key: string, fields: Record<string, string>): BibliographyEntry {
+    const context = this.createContext(new DocumentBuilder('latex'), new Map(), new Map());
+    const text = (value?: string) => (value ? this.toText(value, context).replace(/\s+/g, ' ').trim() : undefined);
+
+    const authors = (fields.author || '').split(/\s+and\s+/).filter(Boolean).map(name => {
+      const cleaned = text(name) || '';
+      // "Smith, John" or "John Smith"
+      if (cleaned.includes(',')) {
+        const [family, given] = cleaned.split(',').map(part => part.trim());
+        return { family, given: given || '' };
+      }
+      const words = cleaned.split(' ');
+      return { family: words[words.length - 1], given: words.slice(0, -1).join(' ') };
+    });
+
+    return this.formatEntry(key, {
+      authors,
+      title: text(fields.title),
+      year: text(fields.year) || text(fields.date)?.slice(0, 4),
+      venue: text(fields.journal || fields.journaltitle || fields.booktitle || fields.publisher || fields.school || fields.institution),
+      volume: text(fields.volume),
+      pages: text(fields.pages),
+      doi: text(fields.doi)
+    });
+  }
+
+  // APA-style text, which the reference parser reads reliably, plus the fields as they were tagged
+  private static formatEntry(
+    key: string,
+    fields: { authors: Array<{ family: string; given: string }>; title?: string; year?: string; venue?: string; volume?: string; pages?: string; doi?: string }
+  ): BibliographyEntry {
+    const authors = fields.authors.map(({ family, given }) => {
+      const initials = given.split(/[\s-]+/).filter(Boolean).map(part => `${part[0]}.`).join(' ');
+      return initials ? `${family}, ${initials}` : family;
+    });
+    const doi = fields.doi ? PaperIdentityService.normalizeDoi(fields.doi) || undefined : undefined;
+    const text = [
+      `${authors.join(', ')}${fields.year ? ` (${fields.year})` : ''}.`,
+      fields.title ? `${fields.title.replace(/[.]$/, '')}.` : '',
+      fields.venue ? `${fields.venue}${fields.volume ? `, ${fields.volume}` : ''}${fields.pages ? `, ${fields.pages.replace(/-+/, '-')}` : ''}.` : '',
+      doi ? `doi:${doi}` : ''
+    ].filter(Boolean).join(' ');
+
+    return {
+      key,
+      text,
+      known: { authors: authors.length > 0 ? authors : undefined, title: fields.title, year: fields.year, venue: fields.venue, doi }
+    };
+  }
+
+  private static commandArgument(source: string, name: string): string | undefined {
+    return commandArguments(source, name)[0];
+  }
+
+  private static environment(source: string, name: string): string | undefined {
+    const begin = source.match(new RegExp(`\\\\begin\\s*\\{${name}\\}`));
+    if (!begin || begin.index === undefined) return undefined;
+    const start = begin.index + begin[0].length;
+    return source.slice(start, findEnvironmentEnd(source, start, name).contentEnd);
+  }
+}
+
+function stripComments(text: string): string {
+  return text
+    .replace(/(^|[^\\])%.*$/gm, '$1')
+    .replace(/\\begin\s*\{comment\}[\s\S]*?\\end\s*\{comment\}/g, '')
+    .replace(/\\iffalse\b[\s\S]*?\\fi\b/g, '');
+}
+
+// Maths as readable text: Greek letters and relations as symbols, other commands and braces removed
+function mathText(math: string): string {
+  return math
+    .replace(/\\label\s*\{[^}]*\}/g, '')
+    .replace(/\\(?:mathrm|text|textrm|mathit|mathbf|operatorname|mbox|mathcal)\s*\{([^{}]*)\}/g, '$1')
+    .replace(/\\frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\\([a-zA-Z]+)/g, (_, name: string) => MATH_SYMBOLS[name] || '')
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(/\\\\/g, ' ')
+    .replace(/[{}&]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The brace (or bracket) group opening at `start` after optional whitespace, and the index after it
+function readGroup(source: string, start: number, open: '{' | '[' = '{'): { content: string; end: number } | null {
+  const first = start + (source.slice(start).match(/^[ \t]*\n?[ \t]*/)?.[0].length || 0);
+  if (source[first] !== open) return null;
+
+  let depth = 0;
+  for (let index = first; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\') {
+      index++;
+      continue;
+    }
+    if (char === '{') depth++;
+    else if (char === '}') depth--;
+    if (depth === 0 && (open === '{' ? char === '}' : char === ']')) {
+      return { content: source.slice(first + 1, index), end: index + 1 };
+    }
+  }
+  return null;
+}
+
+// Optional [..] groups are skipped; null when a mandatory argument is missing
+function readArguments(source: string, start: number, count: number): { args: string[]; end: number } | null {
+  let position = start;
+  for (let optional = readGroup(source, position, '['); optional; optional = readGroup(source, position, '[')) {
+    position = optional.end;
+  }
+
+  const args: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const group = readGroup(source, position);
+    if (!group) return null;
+    args.push(group.content);
+    position = group.end;
+  }
+  return { args, end: position };
+}
+
+function commandArguments(source: string, name: string): string[] {
+  return Array.from(source.matchAll(new RegExp(`\\\\${name}(?![a-zA-Z])\\*?`, 'g')))
+    .map(match => readArguments(source, (match.index || 0) + match[0].length, 1)?.args[0])
+    .filter((arg): arg is string => arg !== undefined);
+}
+
+// Where the environment's content ends and where its \end{...} does, allowing nesting of the same environment
+function findEnvironmentEnd(source: string, contentStart: number, environment: string): { contentEnd: number; end: number } {
+  const escaped = environment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`\\\\(begin|end)\\s*\\{${escaped}\\}`, 'g');
+  pattern.lastIndex = contentStart;
+  let depth = 1;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    depth += match[1] === 'begin' ? 1 : -1;
+    if (depth === 0) return { contentEnd: match.index, end: match.index + match[0].length };
+  }
+  return { contentEnd: source.length, end: source.length };
+}
+
+// Splits at separators outside braces; `separator` returns the separator's length at an index, or 0
+function splitTopLevel(text: string, separator: (text: string, index: number) => number): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (depth === 0) {
+      const length = separator(text, index);
+      if (length > 0) {
+        parts.push(text.slice(start, index));
+        start = index + length;
+        index += length - 1;
+        continue;
+      }
+    }
+    if (char === '\\') index++;
+    else if (char === '{') depth++;
+    else if (char === '}') depth--;
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// BibTeX entries by key, with field names in lower case and values without their outer braces or quotes
+function parseBib(text: string): Map<string, Record<string, string>> {
+  const entries = new Map<string, Record<string, string>>();
+  const pattern = /@([a-zA-Z]+)\s*\{/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (/^(?:comment|string|preamble)$/i.test(match[1])) continue;
+    const group = readGroup(text, match.index + match[0].length - 1);
+    if (!group) continue;
+    pattern.lastIndex = group.end;
+
+    const content = group.content;
+    const keyEnd = content.indexOf(',');
+    if (keyEnd < 0) continue;
+    const fields: Record<string, string> = {};
+    const field = /\s*,?\s*([a-zA-Z_-]+)\s*=\s*/y;
+    let position = keyEnd + 1;
+
+    for (field.lastIndex = position; ; field.lastIndex = position) {
+      const found = field.exec(content);
+      if (!found) break;
+      position = field.lastIndex;
+
+      let value = '';
+      if (content[position] === '{') {
+        const braced = readGroup(content, position);
+        if (!braced) break;
+        value = braced.content;
+        position = braced.end;
+      } else if (content[position] === '"') {
+        const close = content.slice(position + 1).search(/(?<!\\)"/);
+        value = content.slice(position + 1, close >= 0 ? position + 1 + close : content.length);
+        position = close >= 0 ? position + close + 2 : content.length;
+      } else {
+        value = content.slice(position).match(/^[^,}\s]*/)?.[0] || '';
+        position += value.length;
+      }
+      fields[found[1].toLowerCase()] = value;
+    }
+
+    entries.set(content.slice(0, keyEnd).trim(), fields);
+  }
+  return entries;
+}
@@ -0,0 +1,272 @@
+import { LibrarySearchResult, Paper, Summary } from '../types';
+import { supabase } from '../lib/supabase';
+import { EmbeddingProviderRegistry } from './embeddings';
+import { PaperRetrievalService } from './paperRetrieval';
+
+export interface LibraryEntry {
+  paper: Paper;
+  summary: Summary;
+}
+
+type SearchChunk = Pick<LibrarySearchResult, 'source' | 'sourceIndex' | 'content' | 'pageStart' | 'pageEnd'>;
+
+interface SearchResultRow {
+  id: string;
+  paper_id: string;
+  summary_id: string;
+  paper_title: string;
+  source: LibrarySearchResult['source'];
+  source_index: number;
+  content: string;
+  page_start: number | null;
+  page_end: number | null;
+  semantic_score: number;
+  keyword_score: number;
+  score: number;
+}
+
+/**
+ * Hybrid full-text and embedding search over the user's analysed papers.
+ * Each analysis is split into passages of the paper text, the summary, key
+ * points and ethics flags; every chunk is embedded with the active embedding
+ * provider and stored in `search_chunks`.
+ */
+export class LibrarySearchService {
+  // Weight of cosine similarity in the combined score; the rest is full-text rank
+  private static readonly SEMANTIC_WEIGHT = 0.7;
+  private static readonly MIN_SIMILARITY = 0.2;
+  private static readonly EMBED_BATCH = 32;
+
+  // Embedded chunks for the offline fallback, keyed by model and summary id
+  private static localIndex = new Map<string, Array<SearchChunk & { embedding: number[] }>>();
+
+  static buildChunks(paper: Paper, summary: Summary): SearchChunk[] {
+    const chunks: SearchChunk[] = [];
+
+    if (summary.content) {
+      chunks.push({ source: 'summary', sourceIndex: 0, content: summary.content });
+    }
+
+    summary.keyPoints.forEach((point, index) => {
+      chunks.push({
+        source: 'key_point',
+        sourceIndex: index,
+        content: point.content,
+        pageStart: point.sourcePages?.[0],
+        pageEnd: point.sourcePages?.[point.sourcePages.length - 1]
+      });
+    });
+
+    summary.ethicsFlags.forEach((flag, index) => {
+      chunks.push({
+        source: 'ethics_flag',
+        sourceIndex: index,
+        content: `${flag.type.replace('-', ' ')}: ${flag.description} ${flag.recommendation}`.trim(),
+        pageStart: flag.sourcePages?.[0],
+        pageEnd: flag.sourcePages?.[flag.sourcePages.length - 1]
+      });
+    });
+
+    if (paper.content) {
+      PaperRetrievalService.createPassages(paper.content, paper.metadata?.pages).forEach(passage => {
+        chunks.push({
+          source: 'passage',
+          sourceIndex: passage.index,
+          content: passage.text,
+          pageStart: passage.paginated ? passage.pageStart : undefined,
+          pageEnd: passage.paginated ? passage.pageEnd : undefined
+        });
+      });
+    }
+
+    return chunks;
+  }
+
+  /** Replaces the stored chunks for an analysis. Returns the number of chunks indexed. */
+  static async indexSummary(paper: Paper, summary: Summary): Promise<number> {
+    if (paper.id.startsWith('temp-') || summary.id.startsWith('temp-')) {
+      console.log('⏭️ Skipping search indexing for an unsaved analysis');
+      return 0;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return 0;
+
+      const provider = EmbeddingProviderRegistry.getActive();
+      const chunks = this.buildChunks(paper, summary);
+      const embeddings = await this.embed(chunks.map(chunk => chunk.content));
+
+      const { error: deleteError } = await supabase
+        .from('search_chunks')
+        .delete()
+        .eq('summary_id', summary.id);
+
+      if (deleteError) throw deleteError;
+
+      const { error } = await supabase
+        .from('search_chunks')
+        .insert(chunks.map((chunk, index) => ({
+          user_id: user.id,
+          paper_id: paper.id,
+          summary_id: summary.id,
+          source: chunk.source,
+          source_index: chunk.sourceIndex,
+          content: chunk.content,
+          page_start: chunk.pageStart ?? null,
+          page_end: chunk.pageEnd ?? null,
+          embedding: JSON.stringify(embeddings[index]),
+          embedding_model: provider.model
+        })));
+
+      if (error) throw error;
+
+      console.log(`🔎 Indexed ${chunks.length} chunks for "${paper.title}" with ${provider.model}`);
+      return chunks.length;
+    } catch (error) {
+      console.error('Error indexing analysis for search:', error);
+      throw new Error('Failed to index analysis for search');
+    }
+  }
+
+  /** Analyses already indexed with the active embedding model. */
+  static async getIndexedSummaryIds(): Promise<Set<string>> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return new Set();
+
+      const { data, error } = await supabase
+        .from('search_chunks')
+        .select('summary_id')
+        .eq('user_id', user.id)
+        .eq('embedding_model', EmbeddingProviderRegistry.getActive().model)
+        .eq('source', 'summary');
+
+      if (error) throw error;
+
+      return new Set((data || []).map(row => row.summary_id as string));
+    } catch (error) {
+      console.error('Error fetching search index status:', error);
+      return new Set();
+    }
+  }
+
+  /**
+   * Ranks chunks across the library. Uses the stored index when the database
+   * supports it, otherwise searches the given entries in the browser.
+   */
+  static async search(query: string, entries: LibraryEntry[], limit: number = 20): Promise<LibrarySearchResult[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    const provider = EmbeddingProviderRegistry.getActive();
+    const [queryEmbedding] = await this.embed([trimmed]);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return this.searchLocally(trimmed, queryEmbedding, entries, limit);
+
+      const { data, error } = await supabase.rpc('search_library', {
+        query_text: trimmed,
+        query_embedding: JSON.stringify(queryEmbedding),
+        query_model: provider.model,
+        match_count: limit,
+        semantic_weight: this.SEMANTIC_WEIGHT,
+        min_similarity: this.MIN_SIMILARITY
+      });
+
+      if (error) throw error;
+
+      console.log(`🔎 Library search returned ${data?.length || 0} results`);
+      return ((data || []) as SearchResultRow[]).map(row => this.transformResult(row));
+    } catch (error) {
+      console.warn('⚠️ Library search unavailable, searching loaded analyses locally:', error);
+      return this.searchLocally(trimmed, queryEmbedding, entries, limit);
+    }
+  }
+
+  private static async searchLocally(
+    query: string,
+    queryEmbedding: number[],
+    entries: LibraryEntry[],
+    limit: number
+  ): Promise<LibrarySearchResult[]> {
+    const model = EmbeddingProviderRegistry.getActive().model;
+    const candidates: Array<{ entry: LibraryEntry; chunk: SearchChunk & { embedding: number[] } }> = [];
+
+    for (const entry of entries) {
+      const key = `${model}:${entry.summary.id}`;
+      let chunks = this.localIndex.get(key);
+      if (!chunks) {
+        const built = this.buildChunks(entry.paper, entry.summary);
+        const embeddings = await this.embed(built.map(chunk => chunk.content));
+        chunks = built.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] }));
+        this.localIndex.set(key, chunks);
+      }
+      chunks.forEach(chunk => candidates.push({ entry, chunk }));
+    }
+
+    // BM25 over all chunks, squashed into [0, 1) the way ts_rank_cd normalisation 32 does
+    const keywordScores = new Map<number, number>();
+    PaperRetrievalService.search(
+      query,
+      candidates.map((candidate, index) => ({ index, text: candidate.chunk.content, pageStart: 0, pageEnd: 0, paginated: false })),
+      candidates.length
+    ).forEach(passage => keywordScores.set(passage.index, passage.score / (passage.score + 1)));
+
+    return candidates
+      .map(({ entry, chunk }, index) => {
+        const semanticScore = this.cosine(queryEmbedding, chunk.embedding);
+        const keywordScore = keywordScores.get(index) || 0;
+        return {
+          id: `${entry.summary.id}:${chunk.source}:${chunk.sourceIndex}`,
+          paperId: entry.paper.id,
+          summaryId: entry.summary.id,
+          paperTitle: entry.paper.title,
+          source: chunk.source,
+          sourceIndex: chunk.sourceIndex,
+          content: chunk.content,
+          pageStart: chunk.pageStart,
+          pageEnd: chunk.pageEnd,
+          semanticScore,
+          keywordScore,
+          score: this.SEMANTIC_WEIGHT * semanticScore + (1 - this.SEMANTIC_WEIGHT) * keywordScore
+        };
+      })
+      .filter(result => result.keywordScore > 0 || result.semanticScore >= this.MIN_SIMILARITY)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private static async embed(texts: string[]): Promise<number[][]> {
+    const provider = EmbeddingProviderRegistry.getActive();
+    const embeddings: number[][] = [];
+    for (let start = 0; start < texts.length; start += this.EMBED_BATCH) {
+      embeddings.push(...await provider.embed(texts.slice(start, start + this.EMBED_BATCH)));
+    }
+    return embeddings;
+  }
+
+  // Providers return unit vectors, so the dot product is the cosine similarity
+  private static cosine(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+    return a.reduce((sum, value, index) => sum + value * b[index], 0);
+  }
+
+  private static transformResult(row: SearchResultRow): LibrarySearchResult {
+    return {
+      id: row.id,
+      paperId: row.paper_id,
+      summaryId: row.summary_id,
+      paperTitle: row.paper_title,
+      source: row.source,
+      sourceIndex: row.source_index,
+      content: row.content,
+      pageStart: row.page_start ?? undefined,
+      pageEnd: row.page_end ?? undefined,
+      score: row.score,
+      semanticScore: row.semantic_score,
+      keywordScore: row.keyword_score
+    };
+  }
+}
@@ -0,0 +1,427 @@
+import { ComparedPaper, EthicsFlag, LiteratureReview, Paper, Summary, Workspace } from '../types';
+import { supabase } from '../lib/supabase';
+import { ApiService } from './api';
+import { ComparisonService } from './comparison';
+import { LLMProvider, LLMService } from './llm';
+import { JsonSchema } from './analysisSchema';
+
+interface ReviewEntry {
+  paper: Paper;
+  summary: Summary;
+}
+
+interface ModelReview {
+  overview: string;
+  themes: Array<{ title: string; summary: string; papers: number[] }>;
+  consensus: Array<{ finding: string; papers: number[] }>;
+  conflicts: Array<{ topic: string; positions: Array<{ paper: number; position: string }> }>;
+}
+
+type ReviewContent = Pick<LiteratureReview, 'overview' | 'themes' | 'consensus' | 'conflicts'>;
+
+interface LiteratureReviewRow {
+  id: string;
+  workspace_id: string;
+  version: number;
+  papers: ComparedPaper[];
+  overview: string;
+  themes: LiteratureReview['themes'];
+  consensus: LiteratureReview['consensus'];
+  conflicts: LiteratureReview['conflicts'];
+  ethics_flags: LiteratureReview['ethicsFlags'];
+  research_gaps: LiteratureReview['researchGaps'];
+  changes: LiteratureReview['changes'];
+  provider: string | null;
+  model: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+/**
+ * Builds a literature review over every analysed paper in a workspace. Papers
+ * are sent to the model in batches: the first batch produces a review and each
+ * later batch is merged into it. Regenerating only sends papers that were added
+ * or re-analysed since the previous version, and every run is stored as a new
+ * version.
+ */
+export class LiteratureReviewService {
+  private static readonly BATCH_SIZE = 6;
+  private static readonly SUMMARY_CHARS = 1500;
+  private static readonly SEVERITY_RANK = { low: 1, medium: 2, high: 3 };
+
+  private static readonly REVIEW_SCHEMA: JsonSchema = {
+    title: 'literature_review',
+    type: 'object',
+    properties: {
+      overview: { type: 'string', minLength: 1 },
+      themes: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1 },
+            summary: { type: 'string', minLength: 1 },
+            papers: { type: 'array', items: { type: 'integer', minimum: 1 } }
+          },
+          required: ['title', 'summary', 'papers']
+        }
+      },
+      consensus: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            finding: { type: 'string', minLength: 1 },
+            papers: { type: 'array', items: { type: 'integer', minimum: 1 } }
+          },
+          required: ['finding', 'papers']
+        }
+      },
+      conflicts: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            topic: { type: 'string', minLength: 1 },
+            positions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  paper: { type: 'integer', minimum: 1 },
+                  position: { type: 'string', minLength: 1 }
+                },
+                required: ['paper', 'position']
+              }
+            }
+          },
+          required: ['topic', 'positions']
+        }
+      }
+    },
+    required: ['overview', 'themes', 'consensus', 'conflicts']
+  };
+
+  /** All versions for a workspace, newest first. */
+  static async getReviews(workspaceId: string): Promise<LiteratureReview[]> {
+    try {
+      const { data, error } = await supabase
+        .from('literature_reviews')
+        .select('*')
+        .eq('workspace_id', workspaceId)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(row => this.transformReview(row));
+    } catch (error) {
+      console.error('Error fetching literature reviews:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Produces the next version of the workspace review. With a previous version,
+   * only papers added or re-analysed since then are sent to the model; removed
+   * papers are dropped from the attributions without a model call. The version
+   * number is assigned by the database when the review is saved.
+   */
+  static async synthesize(
+    workspace: Workspace,
+    previous: LiteratureReview | null,
+    provider?: LLMProvider
+  ): Promise<LiteratureReview> {
+    console.log(`📚 Synthesizing literature review for workspace "${workspace.name}"`);
+
+    const entries = await ApiService.getLatestSummariesForPapers(workspace.papers);
+    if (entries.length === 0) {
+      throw new Error('None of the papers in this workspace has been analysed yet');
+    }
+
+    const currentIds = new Set(entries.map(entry => entry.paper.id));
+    const previousSummaries = new Map(previous?.papers.map(paper => [paper.paperId, paper.summaryId]) || []);
+    const added = entries.filter(entry => !previousSummaries.has(entry.paper.id));
+    // A paper re-analysed since the previous version has a newer latest summary;
+    // its old contributions are dropped and it is reviewed again like a new paper
+    const updated = entries.filter(entry =>
+      previousSummaries.has(entry.paper.id) && previousSummaries.get(entry.paper.id) !== entry.summary.id
+    );
+    const updatedPaperIds = updated.map(entry => entry.paper.id);
+    const removedPaperIds = Array.from(previousSummaries.keys()).filter(paperId => !currentIds.has(paperId));
+    const pending = [...added, ...updated];
+
+    if (previous && pending.length === 0 && removedPaperIds.length === 0) {
+      throw new Error('The review already covers the latest analysis of every paper in this workspace');
+    }
+
+    let content: ReviewContent | null = previous ? this.withoutPapers(previous, [...removedPaperIds, ...updatedPaperIds]) : null;
+    let known: ReviewEntry[] = previous
+      ? entries.filter(entry => previousSummaries.get(entry.paper.id) === entry.summary.id)
+      : [];
+    let served: { provider: string; model: string } | null = null;
+
+    for (let start = 0; start < pending.length; start += this.BATCH_SIZE) {
+      const batch = pending.slice(start, start + this.BATCH_SIZE);
+      console.log(`📚 Reviewing papers ${start + 1}-${start + batch.length} of ${pending.length} new or re-analysed papers`);
+
+      const numbered = [...known, ...batch];
+      const prompt = content
+        ? this.buildMergePrompt(content, known, batch)
+        : this.buildReviewPrompt(batch);
+
+      const result = await LLMService.generateStructured<ModelReview>(prompt, this.REVIEW_SCHEMA, provider, workspace.name);
+      if (!result) {
+        throw new Error('No AI provider is available to synthesize a review');
+      }
+      if (typeof result.value?.overview !== 'string') {
+        throw new Error('Failed to synthesize review: model response did not contain a review');
+      }
+
+      content = this.resolvePapers(result.value, numbered);
+      known = numbered;
+      served = { provider: result.provider, model: result.model };
+    }
+
+    const summaries = entries.map(entry => entry.summary);
+    const review: Omit<LiteratureReview, 'id' | 'version' | 'createdBy' | 'createdAt'> = {
+      workspaceId: workspace.id,
+      papers: entries.map(({ paper, summary }) => ({
+        summaryId: summary.id,
+        paperId: paper.id,
+        title: paper.title,
+        authors: paper.authors
+      })),
+      ...content!,
+      ethicsFlags: this.aggregateEthicsFlags(entries.map(entry => entry.paper.id), summaries),
+      researchGaps: this.aggregateResearchGaps(entries.map(entry => entry.paper.id), summaries),
+      changes: {
+        mode: previous ? 'incremental' : 'full',
+        addedPaperIds: added.map(entry => entry.paper.id),
+        updatedPaperIds,
+        removedPaperIds
+      },
+      provider: served?.provider || previous?.provider,
+      model: served?.model || previous?.model
+    };
+
+    return this.saveReview(review, (previous?.version || 0) + 1);
+  }
+
+  private static aggregateEthicsFlags(paperIds: string[], summaries: Summary[]): LiteratureReview['ethicsFlags'] {
+    const byType = new Map<EthicsFlag['type'], LiteratureReview['ethicsFlags'][number]>();
+
+    summaries.forEach((summary, index) => {
+      summary.ethicsFlags.forEach(flag => {
+        const entry = byType.get(flag.type) || { type: flag.type, severity: flag.severity, count: 0, paperIds: [] };
+        entry.count++;
+        if (this.SEVERITY_RANK[flag.severity] > this.SEVERITY_RANK[entry.severity]) {
+          entry.severity = flag.severity;
+        }
+        if (!entry.paperIds.includes(paperIds[index])) {
+          entry.paperIds.push(paperIds[index]);
+        }
+        byType.set(flag.type, entry);
+      });
+    });
+
+    return Array.from(byType.values())
+      .sort((a, b) => this.SEVERITY_RANK[b.severity] - this.SEVERITY_RANK[a.severity] || b.paperIds.length - a.paperIds.length);
+  }
+
+  // Gaps raised by several papers are merged into one row and listed first
+  private static aggregateResearchGaps(paperIds: string[], summaries: Summary[]): LiteratureReview['researchGaps'] {
+    const gaps = summaries.map(summary => summary.researchGaps || []);
+    const rows = ComparisonService.alignStatements(gaps.map(list => list.map(gap => gap.gap)));
+
+    return rows.map(row => {
+      const matched = row.cells.flatMap((cell, index) => gaps[index].filter(gap => cell.includes(gap.gap)));
+      return {
+        gap: row.label,
+        priority: matched.reduce<LiteratureReview['researchGaps'][number]['priority']>(
+          (highest, gap) => this.SEVERITY_RANK[gap.priority] > this.SEVERITY_RANK[highest] ? gap.priority : highest,
+          'low'
+        ),
+        paperIds: row.cells.map((cell, index) => cell.length > 0 ? paperIds[index] : null).filter((id): id is string => id !== null)
+      };
+    });
+  }
+
+  private static withoutPapers(review: LiteratureReview, removedPaperIds: string[]): ReviewContent {
+    if (removedPaperIds.length === 0) {
+      return { overview: review.overview, themes: review.themes, consensus: review.consensus, conflicts: review.conflicts };
+    }
+
+    const keep = (paperIds: string[]) => paperIds.filter(paperId => !removedPaperIds.includes(paperId));
+    return {
+      overview: review.overview,
+      themes: review.themes
+        .map(theme => ({ ...theme, paperIds: keep(theme.paperIds) }))
+        .filter(theme => theme.paperIds.length > 0),
+      consensus: review.consensus
+        .map(item => ({ ...item, paperIds: keep(item.paperIds) }))
+        .filter(item => item.paperIds.length >= 2),
+      conflicts: review.conflicts
+        .map(conflict => ({ ...conflict, positions: conflict.positions.filter(p => !removedPaperIds.includes(p.paperId)) }))
+        .filter(conflict => conflict.positions.length >= 2)
+    };
+  }
+
+  // Maps the model's 1-based paper numbers back to paper ids, dropping unknown numbers
+  private static resolvePapers(value: ModelReview, numbered: ReviewEntry[]): ReviewContent {
+    const toId = (paper: unknown) =>
+      Number.isInteger(paper) && (paper as number) >= 1 && (paper as number) <= numbered.length
+        ? numbered[(paper as number) - 1].paper.id
+        : null;
+    const toIds = (papers: unknown) =>
+      Array.from(new Set((Array.isArray(papers) ? papers : []).map(toId).filter((id): id is string => id !== null)));
+
+    return {
+      overview: value.overview,
+      themes: (value.themes || [])
+        .map(theme => ({ title: theme.title, summary: theme.summary, paperIds: toIds(theme.papers) }))
+        .filter(theme => theme.title && theme.paperIds.length > 0),
+      consensus: (value.consensus || [])
+        .map(item => ({ finding: item.finding, paperIds: toIds(item.papers) }))
+        .filter(item => item.finding && item.paperIds.length >= 2),
+      conflicts: (value.conflicts || [])
+        .map(conflict => ({
+          topic: conflict.topic,
+          positions: (conflict.positions || [])
+            .map(position => ({ paperId: toId(position.paper), position: position.position }))
+            .filter((position): position is { paperId: string; position: string } => position.paperId !== null && !!position.position)
+        }))
+        .filter(conflict => conflict.topic && conflict.positions.length >= 2)
+    };
+  }
+
+  private static describePapers(entries: ReviewEntry[], offset: number = 0): string {
+    return entries.map(({ paper, summary }, index) => `PAPER ${offset + index + 1}: "${paper.title}"${paper.authors.length ? ` by ${paper.authors.slice(0, 3).join(', ')}` : ''}
+Summary: ${summary.content.substring(0, this.SUMMARY_CHARS)}
+Key points:
+${summary.keyPoints.map(kp => `- ${kp.content}`).join('\n')}
+Limitations:
+${summary.limitations.map(limitation => `- ${limitation}`).join('\n')}`).join('\n\n');
+  }
+
+  private static readonly RESPONSE_FORMAT = `Respond with JSON in this exact format:
+{
+  "overview": "2-3 paragraph overview of the body of literature",
+  "themes": [
+    { "title": "Theme name", "summary": "What the papers contribute to this theme", "papers": [1, 3] }
+  ],
+  "consensus": [
+    { "finding": "Finding supported by several papers", "papers": [1, 2] }
+  ],
+  "conflicts": [
+    { "topic": "Point of disagreement", "positions": [{ "paper": 1, "position": "Paper 1's finding" }, { "paper": 2, "position": "Paper 2's finding" }] }
+  ]
+}`;
+
+  private static buildReviewPrompt(entries: ReviewEntry[]): string {
+    return `Write a structured literature review of the following ${entries.length} research papers, using only the analyses provided.
+
+${this.describePapers(entries)}
+
+Group the papers into themes, note findings on which several papers agree (consensus) and findings that conflict, and attribute every statement to the paper numbers it comes from. Do not introduce information that is not in the analyses.
+
+${this.RESPONSE_FORMAT}`;
+  }
+
+  private static buildMergePrompt(content: ReviewContent, known: ReviewEntry[], added: ReviewEntry[]): string {
+    const number = (paperId: string) => known.findIndex(entry => entry.paper.id === paperId) + 1;
+    const existing = {
+      overview: content.overview,
+      themes: content.themes.map(theme => ({ title: theme.title, summary: theme.summary, papers: theme.paperIds.map(number) })),
+      consensus: content.consensus.map(item => ({ finding: item.finding, papers: item.paperIds.map(number) })),
+      conflicts: content.conflicts.map(conflict => ({
+        topic: conflict.topic,
+        positions: conflict.positions.map(position => ({ paper: number(position.paperId), position: position.position }))
+      }))
+    };
+
+    return `Update an existing literature review with newly added papers.
+
+PAPERS ALREADY COVERED:
+${known.map(({ paper }, index) => `PAPER ${index + 1}: "${paper.title}"`).join('\n')}
+
+EXISTING REVIEW:
+${JSON.stringify(existing, null, 2)}
+
+NEW PAPERS:
+${this.describePapers(added, known.length)}
+
+Integrate the new papers: add them to existing themes or create new themes, extend or revise consensus findings, and record any conflicts between new and existing papers. Keep existing content and paper numbers unless a new paper changes them. Attribute every statement to paper numbers and use only the information provided.
+
+Return the complete updated review.
+
+${this.RESPONSE_FORMAT}`;
+  }
+
+  private static async saveReview(
+    review: Omit<LiteratureReview, 'id' | 'version' | 'createdBy' | 'createdAt'>,
+    expectedVersion: number
+  ): Promise<LiteratureReview> {
+    let userId = 'anonymous';
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        userId = user.id;
+      }
+    } catch (authError) {
+      console.warn('Auth check failed, using anonymous user:', authError);
+    }
+
+    const { data, error } = await supabase
+      .from('literature_reviews')
+      .insert({
+        workspace_id: review.workspaceId,
+        papers: review.papers,
+        overview: review.overview,
+        themes: review.themes,
+        consensus: review.consensus,
+        conflicts: review.conflicts,
+        ethics_flags: review.ethicsFlags,
+        research_gaps: review.researchGaps,
+        changes: review.changes,
+        provider: review.provider,
+        model: review.model,
+        created_by: userId
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Database error saving literature review:', error);
+      return {
+        ...review,
+        id: `temp-review-${Date.now()}`,
+        version: expectedVersion,
+        createdBy: userId,
+        createdAt: new Date()
+      };
+    }
+
+    console.log(`✅ Saved literature review version ${data.version}`);
+    return this.transformReview(data);
+  }
+
+  private static transformReview(row: LiteratureReviewRow): LiteratureReview {
+    return {
+      id: row.id,
+      workspaceId: row.workspace_id,
+      version: row.version,
+      papers: row.papers || [],
+      overview: row.overview,
+      themes: row.themes || [],
+      consensus: row.consensus || [],
+      conflicts: row.conflicts || [],
+      ethicsFlags: row.ethics_flags || [],
+      researchGaps: row.research_gaps || [],
+      changes: row.changes || { mode: 'full', addedPaperIds: [], removedPaperIds: [] },
+      provider: row.provider || undefined,
+      model: row.model || undefined,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+import { LLMService } from './llm';
+import { LLMProviderRegistry, MockLLMProvider } from './llmProviders';
+import { LLMFixture, LLMFixtureService } from './llmFixtures';
+import { AnalysisSchemaService } from './analysisSchema';
+
+const PAPER = readFileSync(new URL('../../fixtures/papers/caffeine-sleep.txt', import.meta.url), 'utf8');
+const TITLE = PAPER.split('\n')[0];
+
+// Recorded from the mock provider with VITE_LLM_FIXTURES=record
+const FIXTURE: LLMFixture = JSON.parse(readFileSync(
+  new URL('../../fixtures/llm/59121ae3821267e72f56ad7c6652f9e9a033833c435c3fbe85872cf55d94e982.json', import.meta.url),
+  'utf8'
+));
+
+describe('LLMService.analyzePaper with replayed fixtures', () => {
+  let mock: MockLLMProvider;
+
+  beforeEach(() => {
+    mock = new MockLLMProvider();
+    LLMProviderRegistry.register(mock);
+    LLMFixtureService.setStore(null);
+    LLMFixtureService.setMode('replay');
+  });
+
+  afterEach(() => {
+    LLMProviderRegistry.unregister('mock');
+    LLMFixtureService.setMode(null);
+  });
+
+  it('answers from the checked-in fixture without calling the provider', async () => {
+    const response = await LLMService.analyzePaper(PAPER, TITLE, 'mock');
+    const recorded = JSON.parse(FIXTURE.response);
+
+    expect(mock.attempts).toBe(0);
+    expect(response.provider).toBe(FIXTURE.provider);
+    expect(response.model).toBe(FIXTURE.model);
+    expect(response.content).toBe(recorded.content);
+    expect(response.keyPoints.map(point => point.content)).toEqual(recorded.keyPoints.map((point: { content: string }) => point.content));
+    expect(response.limitations).toEqual(recorded.limitations);
+    expect(response.degraded?.some(entry => entry.path === '$')).toBeFalsy();
+  });
+
+  it('falls back to the heuristic analysis when no fixture matches the prompt', async () => {
+    const response = await LLMService.analyzePaper(`${PAPER}\nAn added sentence changes the prompt.`, TITLE, 'mock');
+
+    expect(mock.attempts).toBe(0);
+    expect(response.degraded?.[0]?.path).toBe('$');
+  });
+});
+
+describe('LLMService provider resolution', () => {
+  let mock: MockLLMProvider;
+
+  beforeEach(() => {
+    mock = new MockLLMProvider();
+    LLMProviderRegistry.register(mock);
+    LLMFixtureService.setMode('off');
+  });
+
+  afterEach(() => {
+    LLMProviderRegistry.unregister('mock');
+    LLMFixtureService.setMode(null);
+  });
+
+  it('never sends a prompt to another provider than the one requested', async () => {
+    const result = await LLMService.generateStructured('Summarise this.', { type: 'object' }, 'not-registered');
+
+    expect(result).toBeNull();
+    expect(LLMService.resolveTarget('not-registered')).toBeNull();
+    expect(mock.attempts).toBe(0);
+  });
+});
+
+describe('LLMService.analyzePaper schema validation and repair', () => {
+  let mock: MockLLMProvider;
+  const valid = MockLLMProvider.defaultResponse(`Title: "${TITLE}"`);
+
+  beforeEach(() => {
+    mock = new MockLLMProvider();
+    LLMProviderRegistry.register(mock);
+    LLMFixtureService.setMode('off');
+  });
+
+  afterEach(() => {
+    LLMProviderRegistry.unregister('mock');
+    LLMFixtureService.setMode(null);
+  });
+
+  it('repairs a malformed first reply with one more request', async () => {
+    mock.script({ type: 'malformed' }, { type: 'ok', response: valid });
+
+    const response = await LLMService.analyzePaper(PAPER, TITLE, 'mock');
+
+    expect(mock.attempts).toBe(2);
+    expect(mock.requests[1].prompt).toContain('Your previous response did not match the required JSON structure.');
+    expect(response.repaired).toBe(true);
+    expect(response.model).toBe('mock-1');
+    expect(response.keyPoints.map(point => point.content)).toEqual(valid.keyPoints.map(point => point.content));
+    expect(response.degraded?.some(entry => entry.path === '$')).toBeFalsy();
+  });
+
+  it('keeps a reply still invalid after repair and marks the defaulted fields', async () => {
+    const invalid = {
+      ...valid,
+      confidence: 1.4,
+      keyPoints: [{ ...valid.keyPoints[0], importance: 'urgent' }]
+    };
+    mock.script({ type: 'ok', response: invalid }, { type: 'ok', response: invalid });
+
+    const response = await LLMService.analyzePaper(PAPER, TITLE, 'mock');
+    const paths = response.degraded?.map(entry => entry.path);
+
+    expect(mock.attempts).toBe(2);
+    expect(response.repaired).toBe(true);
+    expect(response.keyPoints[0].importance).toBe('medium');
+    expect(response.confidence).toBeLessThanOrEqual(1);
+    expect(paths).toContain('$.keyPoints[0].importance');
+    expect(paths).toContain('$.confidence');
+    expect(paths).not.toContain('$');
+  });
+
+  it('drops items without their text instead of filling in placeholders', async () => {
+    const gaps = {
+      ...valid,
+      keyPoints: [{ ...valid.keyPoints[0], content: ' ' }, valid.keyPoints[1]],
+      limitations: ['', ...valid.limitations],
+      citations: [{ ...valid.citations[0], text: undefined }]
+    };
+    expect(AnalysisSchemaService.validate(gaps, AnalysisSchemaService.ANALYSIS_SCHEMA).map(error => error.path)).toEqual([
+      '$.keyPoints[0].content',
+      '$.limitations[0]',
+      '$.citations[0].text'
+    ]);
+    mock.script({ type: 'ok', response: gaps }, { type: 'ok', response: gaps });
+
+    const response = await LLMService.analyzePaper(PAPER, TITLE, 'mock');
+
+    expect(response.keyPoints.map(point => point.content)).toEqual([valid.keyPoints[1].content]);
+    expect(response.limitations).toEqual(valid.limitations);
+    expect(response.citations).toEqual([]);
+    expect(response.degraded).toEqual(expect.arrayContaining([
+      { path: '$.keyPoints[0].content', reason: 'missing, item dropped' },
+      { path: '$.limitations[0]', reason: 'missing, item dropped' },
+      { path: '$.citations[0].text', reason: 'missing, item dropped' }
+    ]));
+  });
+});
@@ -1,16 +1,33 @@
-interface LLMResponse {
+import { AnalysisProfile, DegradedField, DocumentLayout, PaperPage, QuoteVerification } from '../types';
+import { supabase } from '../lib/supabase';
+import { ChunkedAnalysisService, ChunkAnalysis, PaperChunk } from './chunkedAnalysis';
+import { LLMProviderAdapter, LLMProviderRegistry, requestWithRetry } from './llmProviders';
+import { LLMCompletion, LLMFixtureService } from './llmFixtures';
+import { AnalysisSchemaService, JsonSchema, SchemaValidationError } from './analysisSchema';
+import { QuoteVerificationService } from './quoteVerification';
+import { StatisticalConsistencyService } from './statisticalConsistency';
+import { DisclosureExtractionService } from './disclosureExtraction';
+import { DocumentSectionService } from './documentSections';
+import { DocumentTableService } from './documentTables';
+
+export interface LLMResponse {
   content: string;
   keyPoints: Array<{
     content: string;
     importance: 'high' | 'medium' | 'low';
     sourceSection: string;
     confidence: number;
+    sourcePages?: number[];
+    chunkIndex?: number;
   }>;
   limitations: string[];
   citations: Array<{
     text: string;
     sourceLocation: string;
     confidence: number;
+    pageNumber?: number;
+    chunkIndex?: number;
+    verification?: QuoteVerification;
   }>;
   confidence: number;
   ethicsFlags: Array<{
@@ -19,6 +36,9 @@ interface LLMResponse {
     description: string;
     recommendation: string;
     sourceLocation: string;
+    sourcePages?: number[];
+    chunkIndex?: number;
+    check?: string;
   }>;
   xaiData: {
     decisionPathways: Array<{
@@ -32,6 +52,7 @@ interface LLMResponse {
       summaryReference: string;
       relevanceScore: number;
       location: string;
+      verification?: QuoteVerification;
     }>;
     confidenceBreakdown: {
       overall: number;
@@ -51,69 +72,98 @@ interface LLMResponse {
     priority: 'high' | 'medium' | 'low';
     suggestedApproach: string;
   }>;
+  coverage?: {
+    totalChunks: number;
+    analyzedChunks: number;
+    ratio: number;
+  };
+  provider?: string;
+  model?: string;
+  // Fields the model did not produce; empty or absent when everything came from the model
+  degraded?: DegradedField[];
+  // True when the first response failed schema validation and a repair round-trip was used
+  repaired?: boolean;
+}
+
+interface StructuredResult {
+  value: unknown;
+  completion: LLMCompletion;
+  errors: SchemaValidationError[];
+  repaired: boolean;
+}
+
+export interface StructuredCompletion<T> {
+  value: T;
+  provider: string;
+  model: string;
+  // Validation errors left after the repair round-trip; empty when the output matched the schema
+  errors: SchemaValidationError[];
+  repaired: boolean;
+}
+
+// Id of an adapter in LLMProviderRegistry, e.g. 'openai', 'gemini', 'anthropic'
+export type LLMProvider = string;
+
+export interface ProviderInfo {
+  id: LLMProvider;
+  name: string;
+  description: string;
+  model: string;
 }
 
-export type LLMProvider = 'openai' | 'gemini';
+// 'proxy' sends prompts through the llm-proxy edge function so provider keys stay server-side.
+// 'direct' calls providers from the browser with keys only the dev server injects (see vite.config.ts).
+export type LLMMode = 'proxy' | 'direct';
 
 export class LLMService {
-  private static readonly OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-  private static readonly GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent';
+  // Part of the analysis cache key; bump whenever the analysis prompts or schema change
+  static readonly PROMPT_VERSION = '2025-07-25';
+
+  private static readonly SYSTEM_PROMPT = 'You are an expert research assistant specializing in academic paper analysis with a focus on ethics, transparency, and explainable AI. Always respond with valid JSON that matches the expected schema exactly.';
+  private static readonly TEMPERATURE = 0.3;
+  private static readonly MAX_TOKENS = 4000;
   
   static async analyzePaper(
     content: string, 
     title: string, 
-    provider: LLMProvider = 'openai'
+    provider?: LLMProvider,
+    pages?: PaperPage[],
+    profile?: AnalysisProfile,
+    layout?: DocumentLayout
   ): Promise<LLMResponse> {
     console.log('\n🔍 === LLM ANALYSIS STARTING ===');
-    console.log(`📊 Provider: ${provider.toUpperCase()}`);
+    console.log(`📊 Provider: ${provider ? provider.toUpperCase() : 'DEFAULT'}`);
     console.log(`📄 Paper Title: "${title}"`);
     console.log(`📝 Content Length: ${content.length} characters`);
     console.log(`📝 Word Count: ~${content.split(/\s+/).length} words`);
+    console.log(`🧭 Profile: ${profile?.name || 'General'}`);
     
-    const openaiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    
-    console.log(`🔑 OpenAI Key Available: ${openaiKey ? 'YES' : 'NO'}`);
-    console.log(`🔑 Gemini Key Available: ${geminiKey ? 'YES' : 'NO'}`);
-    
-    // Check if we have the required API key for the selected provider
-    if (provider === 'openai' && !openaiKey) {
-      console.warn('⚠️ OpenAI API key not found, trying Gemini...');
-      if (geminiKey) {
-        provider = 'gemini';
-        console.log('🔄 Switched to Gemini provider');
-      } else {
-        console.warn('⚠️ No API keys found, using enhanced fallback analysis');
-        return this.generateEnhancedFallbackAnalysis(content, title);
-      }
-    }
-    
-    if (provider === 'gemini' && !geminiKey) {
-      console.warn('⚠️ Gemini API key not found, trying OpenAI...');
-      if (openaiKey) {
-        provider = 'openai';
-        console.log('🔄 Switched to OpenAI provider');
-      } else {
-        console.warn('⚠️ No API keys found, using enhanced fallback analysis');
-        return this.generateEnhancedFallbackAnalysis(content, title);
-      }
+    const mode = this.getMode();
+    console.log(`🔐 Mode: ${mode.toUpperCase()}`);
+
+    const adapter = this.resolveAdapter(provider);
+    if (!adapter) {
+      console.warn(`⚠️ ${provider ? `${provider} is not usable` : 'No usable LLM provider found'}, using enhanced fallback analysis`);
+      return this.finaliseResponse(this.generateEnhancedFallbackAnalysis(content, title), content, pages, profile, layout);
     }
 
+    const chunks = ChunkedAnalysisService.createChunks(content, pages);
+
     try {
-      console.log(`🚀 Starting ${provider.toUpperCase()} API call...`);
+      console.log(`🚀 Starting ${adapter.name} API call...`);
       const startTime = Date.now();
       
       let response: LLMResponse;
-      if (provider === 'openai') {
-        response = await this.callOpenAI(content, title, openaiKey);
+      if (chunks.length > 1) {
+        response = await this.analyzeChunks(chunks, title, adapter, profile, layout);
       } else {
-        response = await this.callGemini(content, title, geminiKey);
+        response = await this.callProvider(adapter, content, title, this.buildAnalysisPrompt(content, title, undefined, profile, layout));
       }
       
       const endTime = Date.now();
       const duration = endTime - startTime;
       
-      console.log(`✅ ${provider.toUpperCase()} API call completed in ${duration}ms`);
+      console.log(`✅ ${adapter.name} API call completed in ${duration}ms`);
       console.log('📊 === RESPONSE SUMMARY ===');
       console.log(`📝 Summary Length: ${response.content.length} characters`);
       console.log(`🔑 Key Points: ${response.keyPoints.length}`);
@@ -125,260 +175,400 @@ export class LLMService {
       console.log(`🎯 Overall Confidence: ${Math.round(response.confidence * 100)}%`);
       console.log('🔍 === LLM ANALYSIS COMPLETED ===\n');
       
-      return response;
+      return this.finaliseResponse(response, content, pages, profile, layout);
     } catch (error) {
-      console.error(`❌ ${provider} API error, falling back to enhanced analysis:`, error);
+      console.error(`❌ ${adapter.name} API error, falling back to enhanced analysis:`, error);
       console.log('🔄 Switching to fallback analysis...');
-      return this.generateEnhancedFallbackAnalysis(content, title);
+      return this.finaliseResponse(this.generateEnhancedFallbackAnalysis(content, title), content, pages, profile, layout);
     }
   }
 
-  private static async sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Runs a prompt other than the full paper analysis (questions, comparisons,
+   * reviews) through the same provider resolution, fixtures and schema repair.
+   * Returns null when no provider is usable so callers can degrade without a model.
+   */
+  static async generateStructured<T>(
+    prompt: string,
+    schema: JsonSchema,
+    provider?: LLMProvider,
+    title: string = ''
+  ): Promise<StructuredCompletion<T> | null> {
+    const adapter = this.resolveAdapter(provider);
+    if (!adapter) {
+      console.warn(`⚠️ ${provider ? `${provider} is not usable` : 'No usable LLM provider found'} for structured request`);
+      return null;
+    }
+
+    const result = await this.requestStructured(adapter, title, prompt, schema);
+    return {
+      value: result.value as T,
+      provider: result.completion.provider,
+      model: result.completion.model,
+      errors: result.errors,
+      repaired: result.repaired
+    };
+  }
+
+  /**
+   * Checks every citation and source reference against the full paper text and
+   * records the status, page and character span. Citation page numbers come
+   * from the matched text rather than the model's location hints.
+   */
+  private static verifyQuotes(response: LLMResponse, content: string, pages?: PaperPage[]): LLMResponse {
+    const quotes = [
+      ...response.citations.map(c => c.text),
+      ...response.xaiData.sourceReferences.map(ref => ref.originalText)
+    ];
+    const results = QuoteVerificationService.verifyQuotes(quotes, content, pages);
+
+    response.citations.forEach((citation, index) => {
+      citation.verification = results[index];
+      if (results[index].pageNumber) {
+        citation.pageNumber = results[index].pageNumber;
+      }
+    });
+    response.xaiData.sourceReferences.forEach((ref, index) => {
+      ref.verification = results[response.citations.length + index];
+    });
+
+    const counts = results.reduce((acc, r) => ({ ...acc, [r.status]: (acc[r.status] || 0) + 1 }), {} as Record<string, number>);
+    console.log(`🔎 Quote verification: ${counts.verified || 0} verified, ${counts.approximate || 0} approximate, ${counts.not_found || 0} not found`);
+
+    return response;
+  }
+
+  /**
+   * Verifies quotes and replaces model-written locations with detected section
+   * headings, then adds the checks that need no model: a data-quality
+   * flag for every reported p-value that does not match the one recomputed
+   * from its test statistic, and disclosure flags for missing or boilerplate
+   * funding, interest, availability, ethics and registration statements.
+   */
+  private static finaliseResponse(
+    response: LLMResponse,
+    content: string,
+    pages?: PaperPage[],
+    profile?: AnalysisProfile,
+    layout?: DocumentLayout
+  ): LLMResponse {
+    const verified = DocumentSectionService.anchorResponse(this.verifyQuotes(response, content, pages), layout?.sections);
+    const flags = [
+      ...StatisticalConsistencyService.toEthicsFlags(StatisticalConsistencyService.check(content, pages)),
+      ...DisclosureExtractionService.toEthicsFlags(DisclosureExtractionService.extract(content, pages), content, profile?.id)
+    ];
+    return flags.length > 0 ? { ...verified, ethicsFlags: [...verified.ethicsFlags, ...flags] } : verified;
   }
 
-  private static async callOpenAI(content: string, title: string, apiKey: string): Promise<LLMResponse> {
-    const prompt = this.buildAnalysisPrompt(content, title);
-    const maxRetries = 7; // Increased from 3 to 7 for better rate limit handling
-    let lastError: Error | null = null;
+  private static async analyzeChunks(
+    chunks: PaperChunk[],
+    title: string,
+    adapter: LLMProviderAdapter,
+    profile?: AnalysisProfile,
+    layout?: DocumentLayout
+  ): Promise<LLMResponse> {
+    console.log(`🧩 === CHUNKED ANALYSIS: ${chunks.length} CHUNKS ===`);
 
-    console.log('📤 === OPENAI REQUEST ===');
-    console.log(`🎯 Model: gpt-4-turbo-preview`);
-    console.log(`📏 Prompt Length: ${prompt.length} characters`);
-    console.log(`🔧 Temperature: 0.3`);
-    console.log(`📊 Max Tokens: 4000`);
-    console.log(`🔄 Max Retries: ${maxRetries}`);
-    
-    // Log first 500 characters of prompt for debugging
-    console.log('📝 Prompt Preview:');
-    console.log(prompt.substring(0, 500) + (prompt.length > 500 ? '...' : ''));
+    // Map: chunks run one at a time so a long paper does not trip provider rate limits
+    const analyses: ChunkAnalysis[] = [];
+    for (const chunk of chunks) {
+      console.log(`🧩 Analysing chunk ${chunk.index + 1}/${chunks.length} (pages ${chunk.pageStart}-${chunk.pageEnd}, ${chunk.text.length} characters)`);
+      const prompt = this.buildAnalysisPrompt(chunk.text, title, { chunk, totalChunks: chunks.length }, profile, layout);
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        console.log(`🔄 Attempt ${attempt + 1}/${maxRetries}`);
-        
-        const requestBody = {
-          model: 'gpt-4-turbo-preview',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert research assistant specializing in academic paper analysis with a focus on ethics, transparency, and explainable AI. Always respond with valid JSON that matches the expected schema exactly.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 4000,
-        };
+        const response = await this.callProvider(adapter, chunk.text, title, prompt);
+        analyses.push({ chunk, response });
+      } catch (error) {
+        console.error(`❌ Chunk ${chunk.index + 1} failed, continuing with remaining chunks:`, error);
+        analyses.push({ chunk, response: null, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
 
-        console.log('📤 Sending request to OpenAI...');
-        const response = await fetch(this.OPENAI_API_URL, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-        });
+    // Reduce: merge the partial analyses, then ask the model for one coherent summary
+    const merged = ChunkedAnalysisService.mergeResponses(analyses, title);
+    const partialSummaries = analyses
+      .filter(a => a.response !== null)
+      .map(a => ({ chunk: a.chunk, summary: a.response!.content }));
 
-        console.log(`📥 Response Status: ${response.status} ${response.statusText}`);
-
-        if (response.status === 429) {
-          // Rate limit hit - implement improved exponential backoff
-          const retryAfter = response.headers.get('retry-after');
-          const baseDelay = retryAfter ? parseInt(retryAfter) * 1000 : 2000; // Increased base delay
-          
-          // Enhanced exponential backoff with jitter and longer delays
-          const exponentialDelay = Math.min(60000, baseDelay * Math.pow(2, attempt)); // Cap at 60 seconds
-          const jitter = Math.random() * 2000; // Increased jitter
-          const totalDelay = exponentialDelay + jitter;
-          
-          console.warn(`⏳ OpenAI rate limit hit (attempt ${attempt + 1}/${maxRetries}). Retrying in ${Math.round(totalDelay/1000)}s...`);
-          console.warn(`   Base delay: ${Math.round(baseDelay/1000)}s, Exponential: ${Math.round(exponentialDelay/1000)}s, Jitter: ${Math.round(jitter/1000)}s`);
-          
-          if (attempt < maxRetries - 1) {
-            await this.sleep(totalDelay);
-            continue;
-          } else {
-            throw new Error(`OpenAI API rate limit exceeded after ${maxRetries} attempts`);
-          }
-        }
+    try {
+      const reducePrompt = this.buildReducePrompt(title, partialSummaries, merged);
+      const reduced = await this.requestStructured(adapter, title, reducePrompt, AnalysisSchemaService.SUMMARY_SCHEMA);
+      if (reduced.errors.length === 0) {
+        merged.content = (reduced.value as { content: string }).content;
+      } else {
+        console.warn('⚠️ Summary reduce response failed validation, keeping merged chunk summaries');
+      }
+    } catch (error) {
+      console.warn('⚠️ Summary reduce step failed, keeping merged chunk summaries:', error);
+    }
 
-        if (response.status === 503 || response.status === 502) {
-          // Service unavailable - retry with exponential backoff
-          const delay = Math.min(30000, 1000 * Math.pow(2, attempt) + Math.random() * 1000);
-          console.warn(`⏳ OpenAI service unavailable (${response.status}). Retrying in ${Math.round(delay/1000)}s...`);
-          
-          if (attempt < maxRetries - 1) {
-            await this.sleep(delay);
-            continue;
-          } else {
-            throw new Error(`OpenAI API service unavailable after ${maxRetries} attempts`);
-          }
-        }
+    const served = analyses.find(a => a.response !== null)?.response;
+    merged.provider = served?.provider || adapter.id;
+    merged.model = served?.model || adapter.model;
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('❌ OpenAI API Error Response:', errorText);
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-        }
+    return merged;
+  }
 
-        const data = await response.json();
-        console.log('📊 OpenAI Response Metadata:');
-        console.log(`💰 Usage - Prompt Tokens: ${data.usage?.prompt_tokens || 'N/A'}`);
-        console.log(`💰 Usage - Completion Tokens: ${data.usage?.completion_tokens || 'N/A'}`);
-        console.log(`💰 Usage - Total Tokens: ${data.usage?.total_tokens || 'N/A'}`);
-        
-        const aiResponse = data.choices[0]?.message?.content;
+  static getMode(): LLMMode {
+    return import.meta.env.VITE_LLM_MODE === 'direct' ? 'direct' : 'proxy';
+  }
 
-        if (!aiResponse) {
-          console.error('❌ No response content from OpenAI');
-          throw new Error('No response from OpenAI');
-        }
+  /**
+   * Proxied adapters are assumed usable in proxy mode (the edge function rejects
+   * providers it has no key for); everything else must be configured locally.
+   * Replay mode needs no provider at all.
+   */
+  private static isUsable(adapter: LLMProviderAdapter): boolean {
+    if (LLMFixtureService.getMode() === 'replay') return true;
+    return (adapter.proxied && this.getMode() === 'proxy') || adapter.isConfigured();
+  }
 
-        console.log('📝 Raw Response Length:', aiResponse.length);
-        console.log('📝 Raw Response Preview:');
-        console.log(aiResponse.substring(0, 300) + (aiResponse.length > 300 ? '...' : ''));
-
-        try {
-          console.log('🔄 Parsing JSON response...');
-          const parsed = JSON.parse(aiResponse);
-          console.log('✅ JSON parsing successful');
-          
-          const validated = this.validateAndNormalizeResponse(parsed, content);
-          console.log('✅ Response validation successful');
-          
-          return validated;
-        } catch (parseError) {
-          console.error('❌ Failed to parse OpenAI response as JSON:', parseError);
-          console.error('📝 Raw response that failed to parse:', aiResponse);
-          throw new Error('Invalid JSON response from OpenAI');
-        }
+  /** Provider and model an analysis request would be sent to, or null when none is usable. */
+  static resolveTarget(provider?: LLMProvider): { provider: string; model: string } | null {
+    const adapter = this.resolveAdapter(provider);
+    return adapter ? { provider: adapter.id, model: adapter.model } : null;
+  }
+
+  /**
+   * An explicitly requested provider is never swapped for another one: the paper
+   * may be confidential and the user chose where it goes. Only when no provider
+   * was chosen does this pick the first usable one.
+   */
+  private static resolveAdapter(provider?: LLMProvider): LLMProviderAdapter | null {
+    if (provider) {
+      const requested = LLMProviderRegistry.get(provider);
+      return requested && this.isUsable(requested) ? requested : null;
+    }
+    return LLMProviderRegistry.list().find(adapter => this.isUsable(adapter)) || null;
+  }
+
+  /**
+   * Lists registered providers that can serve an analysis. Proxied providers are
+   * included when the llm-proxy edge function has their key (or, in direct mode,
+   * when the local env has it); browser-side providers when they are configured.
+   */
+  static async getAvailableProviders(): Promise<ProviderInfo[]> {
+    let serverProviders: string[] = [];
 
+    if (this.getMode() === 'proxy') {
+      try {
+        const { data, error } = await supabase.functions.invoke('llm-proxy', {
+          body: { action: 'providers' }
+        });
+
+        if (error) throw error;
+        serverProviders = data?.providers || [];
       } catch (error) {
-        lastError = error as Error;
-        console.error(`❌ OpenAI API call failed (attempt ${attempt + 1}):`, error);
-        
-        // Enhanced retry logic for different error types
-        const errorMessage = error.message.toLowerCase();
-        const isRateLimitError = errorMessage.includes('429') || errorMessage.includes('rate limit');
-        const isServiceError = errorMessage.includes('503') || errorMessage.includes('502') || errorMessage.includes('service unavailable');
-        const isNetworkError = errorMessage.includes('fetch') || errorMessage.includes('network') || errorMessage.includes('timeout');
-        
-        // Retry for rate limits, service errors, and network issues
-        if (isRateLimitError || isServiceError || isNetworkError) {
-          if (attempt < maxRetries - 1) {
-            // Different backoff strategies for different error types
-            let delay;
-            if (isRateLimitError) {
-              delay = Math.min(60000, 3000 * Math.pow(2, attempt) + Math.random() * 2000); // Longer delays for rate limits
-            } else if (isServiceError) {
-              delay = Math.min(30000, 1500 * Math.pow(2, attempt) + Math.random() * 1000); // Medium delays for service errors
-            } else {
-              delay = Math.min(15000, 1000 * Math.pow(2, attempt) + Math.random() * 500); // Shorter delays for network errors
-            }
-            
-            console.warn(`⏳ Retrying OpenAI API call in ${Math.round(delay/1000)}s... (Error type: ${isRateLimitError ? 'Rate Limit' : isServiceError ? 'Service Error' : 'Network Error'})`);
-            await this.sleep(delay);
-            continue;
-          }
-        }
-        
-        // For other errors or if we've exhausted retries, throw the error
-        if (attempt === maxRetries - 1) {
-          throw lastError;
-        }
+        console.error('❌ Failed to load providers from llm-proxy:', error);
       }
     }
 
-    // This should never be reached, but just in case
-    throw lastError || new Error('Unknown error occurred during OpenAI API calls');
+    return LLMProviderRegistry.list()
+      .filter(adapter => adapter.proxied && this.getMode() === 'proxy'
+        ? serverProviders.includes(adapter.id)
+        : adapter.isConfigured())
+      .map(adapter => ({
+        id: adapter.id,
+        name: adapter.name,
+        description: adapter.description,
+        model: adapter.model
+      }));
   }
 
-  private static async callGemini(content: string, title: string, apiKey: string): Promise<LLMResponse> {
-    const prompt = this.buildAnalysisPrompt(content, title);
+  private static async callProvider(
+    adapter: LLMProviderAdapter,
+    content: string,
+    title: string,
+    prompt: string = this.buildAnalysisPrompt(content, title)
+  ): Promise<LLMResponse> {
+    const result = await this.requestStructured(adapter, title, prompt, AnalysisSchemaService.ANALYSIS_SCHEMA);
+
+    // Source references are grounded against the paper text, which only the browser holds
+    const validated = this.validateAndNormalizeResponse(result.value, content);
+    validated.provider = result.completion.provider;
+    validated.model = result.completion.model;
+    if (result.repaired) {
+      validated.repaired = true;
+    }
+    console.log('✅ Response validation successful');
+
+    return validated;
+  }
 
-    console.log('📤 === GEMINI REQUEST ===');
-    console.log(`🎯 Model: gemini-1.5-flash-latest`);
-    console.log(`📏 Prompt Length: ${prompt.length} characters`);
-    console.log(`🔧 Temperature: 0.3`);
-    console.log(`📊 Max Output Tokens: 4000`);
-    
-    // Log first 500 characters of prompt for debugging
-    console.log('📝 Prompt Preview:');
-    console.log(prompt.substring(0, 500) + (prompt.length > 500 ? '...' : ''));
-
-    const requestBody = {
-      contents: [{
-        parts: [{
-          text: `You are an expert research assistant specializing in academic paper analysis with a focus on ethics, transparency, and explainable AI. Always respond with valid JSON that matches the expected schema exactly.\n\n${prompt}`
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 4000,
+  /**
+   * Requests JSON matching the schema and validates it. A response that is not
+   * valid JSON or fails validation gets exactly one repair round-trip listing the
+   * errors; whichever attempt has fewer errors is returned with its remaining errors.
+   */
+  private static async requestStructured(
+    adapter: LLMProviderAdapter,
+    title: string,
+    prompt: string,
+    schema: JsonSchema
+  ): Promise<StructuredResult> {
+    const completion = await this.requestCompletion(adapter, title, prompt, schema);
+    const first = this.parseAndValidate(completion.text, schema);
+
+    if (first.errors.length === 0) {
+      return { value: first.value, completion, errors: [], repaired: false };
+    }
+
+    console.warn(`⚠️ ${adapter.name} response failed schema validation (${first.errors.length} errors), requesting repair...`);
+    console.warn(AnalysisSchemaService.formatErrors(first.errors));
+
+    try {
+      const repairPrompt = this.buildRepairPrompt(prompt, completion.text, first.errors);
+      const repairCompletion = await this.requestCompletion(adapter, title, repairPrompt, schema);
+      const second = this.parseAndValidate(repairCompletion.text, schema);
+
+      if (second.value !== undefined && (first.value === undefined || second.errors.length <= first.errors.length)) {
+        console.log(`🔧 Repair round-trip left ${second.errors.length} validation errors`);
+        return { value: second.value, completion: repairCompletion, errors: second.errors, repaired: true };
       }
-    };
+    } catch (repairError) {
+      console.warn('⚠️ Repair round-trip failed:', repairError);
+    }
 
-    console.log('📤 Sending request to Gemini...');
-    const response = await fetch(`${this.GEMINI_API_URL}?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+    if (first.value === undefined) {
+      console.error('📝 Raw response that failed to parse:', completion.text);
+      throw new Error(`Invalid JSON response from ${adapter.name}`);
+    }
 
-    console.log(`📥 Response Status: ${response.status} ${response.statusText}`);
+    return { value: first.value, completion, errors: first.errors, repaired: false };
+  }
+
+  private static parseAndValidate(raw: string, schema: JsonSchema): { value: unknown; errors: SchemaValidationError[] } {
+    console.log('📝 Raw Response Length:', raw.length);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Gemini API Error Response:', errorText);
-      throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+    let value: unknown;
+    try {
+      // Some models wrap JSON in markdown fences despite the instructions
+      value = JSON.parse(raw.replace(/```json\n?|\n?```/g, '').trim());
+    } catch (parseError) {
+      return {
+        value: undefined,
+        errors: [{ path: '$', message: `is not valid JSON (${parseError instanceof Error ? parseError.message : 'parse error'})` }]
+      };
     }
 
-    const data = await response.json();
-    console.log('📊 Gemini Response Metadata:');
-    console.log(`📊 Candidates: ${data.candidates?.length || 0}`);
-    
-    const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    return { value, errors: AnalysisSchemaService.validate(value, schema) };
+  }
+
+  /**
+   * Gets the raw completion text, from fixtures in replay mode, otherwise from the
+   * proxy or the adapter itself. Record mode saves every live completion.
+   */
+  private static async requestCompletion(
+    adapter: LLMProviderAdapter,
+    title: string,
+    prompt: string,
+    schema: JsonSchema
+  ): Promise<LLMCompletion> {
+    const fixtureMode = LLMFixtureService.getMode();
+    if (fixtureMode === 'replay') {
+      return LLMFixtureService.replay(adapter.model, this.SYSTEM_PROMPT, prompt);
+    }
 
-    if (!aiResponse) {
-      console.error('❌ No response content from Gemini');
-      console.error('📊 Full response structure:', JSON.stringify(data, null, 2));
-      throw new Error('No response from Gemini');
+    let completion: LLMCompletion;
+    if (adapter.proxied && this.getMode() === 'proxy') {
+      completion = await this.callProxy(adapter, title, prompt, schema);
+    } else {
+      console.log(`📤 === ${adapter.name.toUpperCase()} REQUEST ===`);
+      console.log(`🎯 Model: ${adapter.model}`);
+      console.log(`📏 Prompt Length: ${prompt.length} characters`);
+      console.log('📝 Prompt Preview:');
+      console.log(prompt.substring(0, 500) + (prompt.length > 500 ? '...' : ''));
+
+      const text = await adapter.complete({
+        systemPrompt: this.SYSTEM_PROMPT,
+        prompt,
+        temperature: this.TEMPERATURE,
+        maxTokens: this.MAX_TOKENS,
+        responseSchema: { name: schema.title || 'response', schema }
+      });
+      completion = { text, provider: adapter.id, model: adapter.model };
     }
 
-    console.log('📝 Raw Response Length:', aiResponse.length);
-    console.log('📝 Raw Response Preview:');
-    console.log(aiResponse.substring(0, 300) + (aiResponse.length > 300 ? '...' : ''));
+    if (fixtureMode === 'record') {
+      await LLMFixtureService.record(adapter.model, this.SYSTEM_PROMPT, prompt, completion);
+    }
 
+    return completion;
+  }
+
+  private static async callProxy(
+    adapter: LLMProviderAdapter,
+    title: string,
+    prompt: string,
+    schema: JsonSchema
+  ): Promise<LLMCompletion> {
+    console.log('📤 === LLM PROXY REQUEST ===');
+    console.log(`🎯 Requested Provider: ${adapter.id} (${adapter.model})`);
+    console.log(`📏 Prompt Length: ${prompt.length} characters`);
+
+    // The edge function never substitutes another provider and rejects a model it does
+    // not serve, so analyses are cached under the model asked for
+    let data: { success?: boolean; text?: unknown; provider: string; model: string; error?: string };
     try {
-      console.log('🔄 Cleaning and parsing JSON response...');
-      // Clean up the response in case Gemini adds markdown formatting
-      const cleanedResponse = aiResponse.replace(/```json\n?|\n?```/g, '').trim();
-      console.log('📝 Cleaned Response Preview:');
-      console.log(cleanedResponse.substring(0, 300) + (cleanedResponse.length > 300 ? '...' : ''));
-      
-      const parsed = JSON.parse(cleanedResponse);
-      console.log('✅ JSON parsing successful');
-      
-      const validated = this.validateAndNormalizeResponse(parsed, content);
-      console.log('✅ Response validation successful');
-      
-      return validated;
-    } catch (parseError) {
-      console.error('❌ Failed to parse Gemini response as JSON:', parseError);
-      console.error('📝 Raw response that failed to parse:', aiResponse);
-      throw new Error('Invalid JSON response from Gemini');
+      data = await this.invokeProxy('LLM proxy', {
+        provider: adapter.id,
+        model: adapter.model,
+        title,
+        prompt,
+        responseSchema: { name: schema.title || 'response', schema }
+      });
+    } catch (error) {
+      console.error('❌ LLM proxy error:', error);
+      throw error;
+    }
+
+    if (!data?.success || typeof data.text !== 'string') {
+      throw new Error(data?.error || 'No response from LLM proxy');
     }
+
+    console.log(`✅ Proxy served by ${data.provider} (${data.model})`);
+
+    return {
+      text: data.text,
+      provider: data.provider,
+      model: data.model
+    };
   }
 
-  private static buildAnalysisPrompt(content: string, title: string): string {
-    // Truncate content if too long to fit in context window
-    const maxContentLength = 8000;
+  /**
+   * POSTs to the llm-proxy edge function. The function only retries for a few
+   * seconds and hands longer provider rate limits and outages back as 429/503
+   * with Retry-After, which requestWithRetry waits out here.
+   */
+  static async invokeProxy<T>(label: string, body: object): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+    const response = await requestWithRetry(label, `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/llm-proxy`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session?.access_token ?? anonKey}`,
+        'apikey': anonKey,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    }, {
+      // Longer than the function's own provider timeout, so its 504 arrives first
+      timeoutMs: 150000
+    });
+
+    return response.json();
+  }
+
+  private static buildAnalysisPrompt(
+    content: string,
+    title: string,
+    chunkContext?: { chunk: PaperChunk; totalChunks: number },
+    profile?: AnalysisProfile,
+    layout?: DocumentLayout
+  ): string {
+    // Callers chunk long papers, so this only guards against a single oversized chunk
+    const maxContentLength = ChunkedAnalysisService.MAX_CHUNK_CHARS;
     const truncatedContent = content.length > maxContentLength 
       ? content.substring(0, maxContentLength) + '\n\n[Content truncated for analysis]'
       : content;
@@ -388,8 +578,15 @@ export class LLMService {
     console.log(`   Final Length: ${truncatedContent.length} characters`);
     console.log(`   Truncated: ${content.length > maxContentLength ? 'YES' : 'NO'}`);
 
-    return `Analyze this research paper with focus on transparency, ethics, explainability, and identifying research gaps. Extract REAL source references from the actual document content.
+    const chunkNote = chunkContext
+      ? `\nThis is part ${chunkContext.chunk.index + 1} of ${chunkContext.totalChunks} of the paper` +
+        (chunkContext.chunk.paginated ? ` (pages ${chunkContext.chunk.pageStart}-${chunkContext.chunk.pageEnd})` : '') +
+        `. Analyse ONLY the content of this part; other parts are analysed separately and merged afterwards. ` +
+        `Return fewer items rather than inventing findings that are not in this part.\n`
+      : '';
 
+    return `Analyze this research paper with focus on transparency, ethics, explainability, and identifying research gaps. Extract REAL source references from the actual document content.
+${chunkNote}${this.buildProfileNote(profile, !!chunkContext)}${this.buildSectionNote(layout, chunkContext?.chunk)}${this.buildTableNote(layout, chunkContext?.chunk)}
 Title: ${title}
 
 Content: ${truncatedContent}
@@ -485,9 +682,123 @@ CRITICAL REQUIREMENTS:
 - All location references must be specific (section names, paragraph numbers, etc.)`;
   }
 
+  /**
+   * The headings detected in the PDF layout, so locations name real sections.
+   * Empty for papers without detected headings.
+   */
+  private static buildSectionNote(layout: DocumentLayout | undefined, chunk?: PaperChunk): string {
+    const sections = layout?.sections;
+    if (!sections || sections.length === 0) return '';
+
+    const list = chunk?.paginated
+      ? DocumentSectionService.describeForPrompt(sections, chunk.pageStart, chunk.pageEnd)
+      : DocumentSectionService.describeForPrompt(sections);
+    if (!list) return '';
+
+    return `
+Sections of this paper${chunk?.paginated ? ' covered by this part' : ''}:
+${list}
+
+Use these section names, exactly as written, in sourceSection, sourceLocation and location. Do not name sections that are not listed.
+`;
+  }
+
+  /**
+   * Tables rebuilt from the PDF layout and the figure captions, since table
+   * cells read as loose numbers in the page text.
+   */
+  private static buildTableNote(layout: DocumentLayout | undefined, chunk?: PaperChunk): string {
+    if (!layout?.tables?.length && !layout?.captions?.length) return '';
+
+    const description = chunk?.paginated
+      ? DocumentTableService.describeForPrompt(layout.tables || [], layout.captions || [], chunk.pageStart, chunk.pageEnd)
+      : DocumentTableService.describeForPrompt(layout.tables || [], layout.captions || []);
+    if (!description) return '';
+
+    return `
+${description}
+
+Read results from these tables rather than from the numbers scattered in the content. When a key point relies on a table or figure, name it in sourceSection (e.g. 'Results, Table 2').
+`;
+  }
+
+  /**
+   * Discipline-specific instructions for a non-general profile; the general
+   * profile keeps the discipline-neutral prompt.
+   */
+  private static buildProfileNote(profile: AnalysisProfile | undefined, partial: boolean): string {
+    if (!profile || profile.id === 'general') return '';
+
+    const checks = profile.checks
+      .map(check => `- ${check.id} (type "${check.category}"): ${check.question}`)
+      .join('\n');
+
+    return `
+Analysis profile: ${profile.name}
+${profile.focus}
+
+Expected sections: ${profile.expectedSections.join(', ')}. Use these names in sourceSection and sourceLocation where they apply.${partial ? '' : ' If an expected section is missing, list its absence as a limitation.'}
+
+Profile checks - assess each one against the paper. For every check that is not met or not reported${partial ? ' in this part' : ''}, add an ethicsFlags item with "check" set to the check id and "type" set to the type given here:
+${checks}
+`;
+  }
+
+  private static buildReducePrompt(
+    title: string,
+    partialSummaries: Array<{ chunk: PaperChunk; summary: string }>,
+    merged: LLMResponse
+  ): string {
+    const sections = partialSummaries
+      .map(({ chunk, summary }) => `Part ${chunk.index + 1}${chunk.paginated ? ` (pages ${chunk.pageStart}-${chunk.pageEnd})` : ''}:\n${summary}`)
+      .join('\n\n');
+
+    const keyFindings = merged.keyPoints
+      .filter(kp => kp.importance === 'high')
+      .map(kp => `- ${kp.content}`)
+      .join('\n');
+
+    return `The research paper "${title}" was analysed in ${partialSummaries.length} parts. Combine the partial summaries below into one coherent summary of the whole paper.
+
+${sections}
+
+Most important findings across all parts:
+${keyFindings || '- None marked as high importance'}
+
+Respond with JSON in this exact format:
+{
+  "content": "2-3 paragraph comprehensive summary covering the full paper (motivation, methods, results, limitations)"
+}
+
+Do not introduce information that is not present in the partial summaries.`;
+  }
+
+  private static buildRepairPrompt(
+    originalPrompt: string,
+    previousResponse: string,
+    errors: SchemaValidationError[]
+  ): string {
+    return `${originalPrompt}
+
+Your previous response did not match the required JSON structure.
+
+Previous response:
+${previousResponse.substring(0, 8000)}
+
+Validation errors (JSONPath):
+${AnalysisSchemaService.formatErrors(errors)}
+
+Return the complete corrected JSON object only. Fix every listed error, keep all values that were already valid, and take any missing values from the paper content above. Do not add commentary or markdown.`;
+  }
+
   private static validateAndNormalizeResponse(response: any, originalContent: string): LLMResponse {
     console.log('🔍 === RESPONSE VALIDATION ===');
     console.log('📊 Validating response structure...');
+
+    const isObject = !!response && typeof response === 'object' && !Array.isArray(response);
+    if (!isObject) {
+      response = {};
+    }
     
     // Log the structure of the response for debugging
     console.log('📋 Response Keys:', Object.keys(response));
@@ -497,36 +808,77 @@ CRITICAL REQUIREMENTS:
     console.log('📊 Research Gaps Count:', Array.isArray(response.researchGaps) ? response.researchGaps.length : 'Invalid');
     console.log('📊 Source References Count:', Array.isArray(response.xaiData?.sourceReferences) ? response.xaiData.sourceReferences.length : 'Invalid');
     
+    // Anything not taken verbatim from the model is recorded here so the UI can flag it
+    const degraded: DegradedField[] = [];
+    const mark = (path: string, reason: string) => degraded.push({ path, reason });
+
+    const text = (value: unknown, path: string, fallback: string): string => {
+      if (typeof value === 'string' && value.trim()) return value;
+      mark(path, `missing, shown as "${fallback}"`);
+      return fallback;
+    };
+    const oneOf = <T extends string>(value: unknown, allowed: T[], fallback: T, path: string): T => {
+      if (allowed.includes(value as T)) return value as T;
+      mark(path, `missing or invalid (${JSON.stringify(value)}), defaulted to "${fallback}"`);
+      return fallback;
+    };
+    const score = (value: unknown, fallback: number, path: string): number => {
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        mark(path, `missing, defaulted to ${fallback}`);
+        return fallback;
+      }
+      if (value < 0 || value > 1) {
+        mark(path, `out of range (${value}), clamped`);
+      }
+      return Math.max(0, Math.min(1, value));
+    };
+    const list = (value: unknown, path: string): Array<Record<string, unknown>> => {
+      if (Array.isArray(value)) return value.map(item => item && typeof item === 'object' ? item : {});
+      mark(path, 'missing, treated as empty');
+      return [];
+    };
+    // Items without their essential text are dropped rather than filled with placeholder wording
+    const hasText = (value: unknown, path: string): value is string => {
+      if (typeof value === 'string' && value.trim()) return true;
+      mark(path, 'missing, item dropped');
+      return false;
+    };
+
     // Enhanced source reference validation and extraction
     const validateSourceReferences = (sourceRefs: any[]): any[] => {
-      if (!Array.isArray(sourceRefs)) {
+      if (!Array.isArray(sourceRefs) || sourceRefs.length === 0) {
         console.warn('⚠️ No source references provided, extracting from content...');
+        mark('$.xaiData.sourceReferences', 'not provided, extracted from the paper text');
         return this.extractSourceReferencesFromContent(originalContent, response.content || '');
       }
 
+      const checks = QuoteVerificationService.verifyQuotes(
+        sourceRefs.map(ref => typeof ref.originalText === 'string' ? ref.originalText : ''),
+        originalContent
+      );
+
       const validatedRefs = sourceRefs.map((ref, index) => {
         // Validate that originalText exists in the actual content
         const originalText = ref.originalText || '';
-        const isValidReference = originalText.length > 20 && 
-          (originalContent.toLowerCase().includes(originalText.toLowerCase().substring(0, 50)) ||
-           this.findSimilarText(originalContent, originalText));
+        const isValidReference = originalText.length > 20 && (checks[index].status === 'verified' || checks[index].status === 'approximate');
 
         if (!isValidReference) {
           console.warn(`⚠️ Source reference ${index + 1} not found in content, generating alternative...`);
+          mark(`$.xaiData.sourceReferences[${index}]`, 'text not found in the paper, replaced with a passage from the paper');
           return this.generateValidSourceReference(originalContent, ref.summaryReference || `Reference ${index + 1}`, index);
         }
 
         return {
           originalText: originalText,
-          summaryReference: ref.summaryReference || `Summary reference ${index + 1}`,
-          relevanceScore: typeof ref.relevanceScore === 'number' ? 
-            Math.max(0, Math.min(1, ref.relevanceScore)) : 0.75,
-          location: ref.location || `Content section ${index + 1}`
+          summaryReference: text(ref.summaryReference, `$.xaiData.sourceReferences[${index}].summaryReference`, 'Not specified'),
+          relevanceScore: score(ref.relevanceScore, 0.75, `$.xaiData.sourceReferences[${index}].relevanceScore`),
+          location: text(ref.location, `$.xaiData.sourceReferences[${index}].location`, 'Not specified')
         };
       });
 
       // Ensure we have at least 5 source references
       while (validatedRefs.length < 5) {
+        mark(`$.xaiData.sourceReferences[${validatedRefs.length}]`, 'added from the paper text to reach the minimum of 5');
         const newRef = this.generateValidSourceReference(
           originalContent, 
           `Additional reference ${validatedRefs.length + 1}`, 
@@ -539,48 +891,81 @@ CRITICAL REQUIREMENTS:
       return validatedRefs;
     };
 
+    const levels: Array<'high' | 'medium' | 'low'> = ['high', 'medium', 'low'];
+    const flagTypes: Array<'bias' | 'data-quality' | 'representation' | 'methodology' | 'disclosure'> =
+      ['bias', 'data-quality', 'representation', 'methodology', 'disclosure'];
+    const breakdown = response.xaiData?.confidenceBreakdown;
+
     // Ensure all required fields exist with proper types
-    const validated = {
-      content: response.content || 'Analysis completed',
-      keyPoints: Array.isArray(response.keyPoints) ? response.keyPoints.map((kp: any) => ({
-        content: kp.content || 'Key point identified',
-        importance: ['high', 'medium', 'low'].includes(kp.importance) ? kp.importance : 'medium',
-        sourceSection: kp.sourceSection || 'Paper content',
-        confidence: typeof kp.confidence === 'number' ? Math.max(0, Math.min(1, kp.confidence)) : 0.75
-      })) : [],
-      limitations: Array.isArray(response.limitations) ? response.limitations : [],
-      citations: Array.isArray(response.citations) ? response.citations.map((c: any) => ({
-        text: c.text || 'Citation text',
-        sourceLocation: c.sourceLocation || 'Paper content',
-        confidence: typeof c.confidence === 'number' ? Math.max(0, Math.min(1, c.confidence)) : 0.80
-      })) : [],
-      confidence: typeof response.confidence === 'number' ? Math.max(0, Math.min(1, response.confidence)) : 0.75,
-      ethicsFlags: Array.isArray(response.ethicsFlags) ? response.ethicsFlags.map((ef: any) => ({
-        type: ['bias', 'data-quality', 'representation', 'methodology', 'disclosure'].includes(ef.type) ? ef.type : 'methodology',
-        severity: ['high', 'medium', 'low'].includes(ef.severity) ? ef.severity : 'medium',
-        description: ef.description || 'Ethics consideration identified',
-        recommendation: ef.recommendation || 'Review and address this concern',
-        sourceLocation: ef.sourceLocation || 'Paper content'
-      })) : [],
-      researchGaps: Array.isArray(response.researchGaps) ? response.researchGaps.map((rg: any) => ({
-        gap: rg.gap || 'Research gap identified',
-        description: rg.description || 'Further research needed',
-        priority: ['high', 'medium', 'low'].includes(rg.priority) ? rg.priority : 'medium',
-        suggestedApproach: rg.suggestedApproach || 'Additional studies recommended'
-      })) : [],
+    const validated: LLMResponse = {
+      content: text(response.content, '$.content', 'The model did not return a summary for this paper.'),
+      keyPoints: list(response.keyPoints, '$.keyPoints')
+        .map((kp, i) => ({ kp, i }))
+        .filter(({ kp, i }) => hasText(kp.content, `$.keyPoints[${i}].content`))
+        .map(({ kp, i }) => ({
+          content: kp.content as string,
+          importance: oneOf(kp.importance, levels, 'medium', `$.keyPoints[${i}].importance`),
+          sourceSection: text(kp.sourceSection, `$.keyPoints[${i}].sourceSection`, 'Not specified'),
+          confidence: score(kp.confidence, 0.75, `$.keyPoints[${i}].confidence`)
+        })),
+      limitations: (Array.isArray(response.limitations) ? response.limitations as unknown[] : list(response.limitations, '$.limitations'))
+        .filter((l, i): l is string => hasText(l, `$.limitations[${i}]`)),
+      citations: list(response.citations, '$.citations')
+        .map((c, i) => ({ c, i }))
+        .filter(({ c, i }) => hasText(c.text, `$.citations[${i}].text`))
+        .map(({ c, i }) => ({
+          text: c.text as string,
+          sourceLocation: text(c.sourceLocation, `$.citations[${i}].sourceLocation`, 'Not specified'),
+          confidence: score(c.confidence, 0.80, `$.citations[${i}].confidence`)
+        })),
+      confidence: score(response.confidence, 0.75, '$.confidence'),
+      ethicsFlags: list(response.ethicsFlags, '$.ethicsFlags')
+        .map((ef, i) => ({ ef, i }))
+        .filter(({ ef, i }) => hasText(ef.description, `$.ethicsFlags[${i}].description`))
+        .map(({ ef, i }) => ({
+          type: oneOf(ef.type, flagTypes, 'methodology', `$.ethicsFlags[${i}].type`),
+          severity: oneOf(ef.severity, levels, 'medium', `$.ethicsFlags[${i}].severity`),
+          description: ef.description as string,
+          recommendation: text(ef.recommendation, `$.ethicsFlags[${i}].recommendation`, 'No recommendation provided'),
+          sourceLocation: text(ef.sourceLocation, `$.ethicsFlags[${i}].sourceLocation`, 'Not specified'),
+          ...(typeof ef.check === 'string' && ef.check.trim() ? { check: ef.check.trim() } : {})
+        })),
+      researchGaps: list(response.researchGaps, '$.researchGaps')
+        .map((rg, i) => ({ rg, i }))
+        .filter(({ rg, i }) => hasText(rg.gap, `$.researchGaps[${i}].gap`))
+        .map(({ rg, i }) => ({
+          gap: rg.gap as string,
+          description: text(rg.description, `$.researchGaps[${i}].description`, 'No description provided'),
+          priority: oneOf(rg.priority, levels, 'medium', `$.researchGaps[${i}].priority`),
+          suggestedApproach: text(rg.suggestedApproach, `$.researchGaps[${i}].suggestedApproach`, 'No approach suggested')
+        })),
       xaiData: {
-        decisionPathways: Array.isArray(response.xaiData?.decisionPathways) ? response.xaiData.decisionPathways : [],
+        decisionPathways: list(response.xaiData?.decisionPathways, '$.xaiData.decisionPathways') as LLMResponse['xaiData']['decisionPathways'],
         sourceReferences: validateSourceReferences(response.xaiData?.sourceReferences || []),
-        confidenceBreakdown: response.xaiData?.confidenceBreakdown || {
+        confidenceBreakdown: breakdown && typeof breakdown === 'object' ? {
+          overall: score(breakdown.overall, 0.75, '$.xaiData.confidenceBreakdown.overall'),
+          keyPoints: score(breakdown.keyPoints, 0.75, '$.xaiData.confidenceBreakdown.keyPoints'),
+          citations: score(breakdown.citations, 0.80, '$.xaiData.confidenceBreakdown.citations'),
+          limitations: score(breakdown.limitations, 0.70, '$.xaiData.confidenceBreakdown.limitations')
+        } : (mark('$.xaiData.confidenceBreakdown', 'missing, default scores used'), {
           overall: 0.75,
           keyPoints: 0.75,
           citations: 0.80,
           limitations: 0.70
-        },
-        attentionWeights: Array.isArray(response.xaiData?.attentionWeights) ? response.xaiData.attentionWeights : []
+        }),
+        attentionWeights: list(response.xaiData?.attentionWeights, '$.xaiData.attentionWeights') as LLMResponse['xaiData']['attentionWeights']
       }
     };
 
+    if (!isObject) {
+      degraded.unshift({ path: '$', reason: 'response was not a JSON object' });
+    }
+
+    if (degraded.length > 0) {
+      console.warn(`⚠️ ${degraded.length} values were synthesized or defaulted instead of model-produced`);
+      validated.degraded = degraded;
+    }
+
     console.log('✅ Validation completed successfully');
     console.log('📊 Final Validated Counts:');
     console.log(`   Key Points: ${validated.keyPoints.length}`);
@@ -647,17 +1032,6 @@ CRITICAL REQUIREMENTS:
     return references;
   }
 
-  private static findSimilarText(content: string, targetText: string): boolean {
-    if (targetText.length < 20) return false;
-    
-    // Check for partial matches (at least 70% of words should match)
-    const targetWords = targetText.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-    const contentLower = content.toLowerCase();
-    
-    const matchingWords = targetWords.filter(word => contentLower.includes(word));
-    return matchingWords.length / targetWords.length > 0.7;
-  }
-
   private static generateValidSourceReference(content: string, summaryRef: string, index: number): any {
     const sentences = content.split(/[.!?]+/).filter(s => s.trim().length > 50 && s.trim().length < 300);
     
@@ -899,13 +1273,6 @@ CRITICAL REQUIREMENTS:
       confidence,
       
       ethicsFlags: [
-        ...(!hasEthics ? [{
-          type: "disclosure" as const,
-          severity: "medium" as const,
-          description: "Limited explicit discussion of ethical considerations, consent procedures, or institutional approval processes",
-          recommendation: "Include comprehensive ethics statement with IRB approval details and participant consent procedures",
-          sourceLocation: "Throughout paper - ethics documentation missing or insufficient"
-        }] : []),
         ...(!hasStatistics && hasResults ? [{
           type: "methodology" as const,
           severity: "medium" as const,
@@ -988,7 +1355,8 @@ CRITICAL REQUIREMENTS:
             relevance: "Analytical methods ensuring valid interpretation of results"
           }] : [])
         ]
-      }
+      },
+      degraded: [{ path: '$', reason: 'heuristic fallback analysis; no model output was used' }]
     };
 
     console.log('✅ Fallback analysis completed');
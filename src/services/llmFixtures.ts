@@ -0,0 +1,147 @@
+export interface LLMCompletion {
+  text: string;
+  provider: string;
+  model: string;
+}
+
+export interface LLMFixture {
+  key: string;
+  provider: string;
+  model: string;
+  promptPreview: string;
+  response: string;
+  recordedAt: string;
+}
+
+export interface FixtureStore {
+  get(key: string): Promise<LLMFixture | null>;
+  put(fixture: LLMFixture): Promise<void>;
+  list(): Promise<LLMFixture[]>;
+}
+
+// 'record' saves every live completion, 'replay' answers only from fixtures and never calls a provider
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export class FixtureNotFoundError extends Error {
+  constructor(public key: string, model: string) {
+    super(`No LLM fixture recorded for ${model} prompt ${key.substring(0, 12)}`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+export class MemoryFixtureStore implements FixtureStore {
+  private fixtures = new Map<string, LLMFixture>();
+
+  constructor(fixtures: LLMFixture[] = []) {
+    fixtures.forEach(fixture => this.fixtures.set(fixture.key, fixture));
+  }
+
+  async get(key: string): Promise<LLMFixture | null> {
+    return this.fixtures.get(key) || null;
+  }
+
+  async put(fixture: LLMFixture): Promise<void> {
+    this.fixtures.set(fixture.key, fixture);
+  }
+
+  async list(): Promise<LLMFixture[]> {
+    return Array.from(this.fixtures.values());
+  }
+}
+
+/**
+ * Fixtures checked into fixtures/llm/*.json. During `vite dev` newly recorded
+ * fixtures are also written there by the llm-fixtures dev server plugin.
+ */
+export class FileFixtureStore extends MemoryFixtureStore {
+  private static readonly DEV_SERVER_ENDPOINT = '/__llm-fixtures';
+
+  constructor() {
+    const files = import.meta.glob<LLMFixture>('/fixtures/llm/*.json', { eager: true, import: 'default' });
+    super(Object.values(files));
+  }
+
+  async put(fixture: LLMFixture): Promise<void> {
+    await super.put(fixture);
+
+    if (!import.meta.env.DEV) return;
+
+    try {
+      await fetch(FileFixtureStore.DEV_SERVER_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fixture)
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not write LLM fixture file, keeping it in memory only:', error);
+    }
+  }
+}
+
+export class LLMFixtureService {
+  private static modeOverride: FixtureMode | null = null;
+  private static store: FixtureStore | null = null;
+
+  static getMode(): FixtureMode {
+    if (this.modeOverride) return this.modeOverride;
+    const mode = import.meta.env.VITE_LLM_FIXTURES;
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+  }
+
+  static setMode(mode: FixtureMode | null): void {
+    this.modeOverride = mode;
+  }
+
+  static getStore(): FixtureStore {
+    if (!this.store) {
+      this.store = new FileFixtureStore();
+    }
+    return this.store;
+  }
+
+  static setStore(store: FixtureStore | null): void {
+    this.store = store;
+  }
+
+  /**
+   * SHA-256 of the model and the full prompt text, so any prompt change
+   * (including the system prompt) produces a new fixture.
+   */
+  static async fixtureKey(model: string, systemPrompt: string, prompt: string): Promise<string> {
+    const data = new TextEncoder().encode(`${model}\n${systemPrompt}\n${prompt}`);
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  static async replay(model: string, systemPrompt: string, prompt: string): Promise<LLMCompletion> {
+    const key = await this.fixtureKey(model, systemPrompt, prompt);
+    const fixture = await this.getStore().get(key);
+
+    if (!fixture) {
+      throw new FixtureNotFoundError(key, model);
+    }
+
+    console.log(`📼 Replaying LLM fixture ${key.substring(0, 12)} (${fixture.provider}/${fixture.model})`);
+    return { text: fixture.response, provider: fixture.provider, model: fixture.model };
+  }
+
+  static async record(model: string, systemPrompt: string, prompt: string, completion: LLMCompletion): Promise<void> {
+    try {
+      const key = await this.fixtureKey(model, systemPrompt, prompt);
+      await this.getStore().put({
+        key,
+        provider: completion.provider,
+        model: completion.model,
+        promptPreview: prompt.substring(0, 200),
+        response: completion.text,
+        recordedAt: new Date().toISOString()
+      });
+      console.log(`📼 Recorded LLM fixture ${key.substring(0, 12)}`);
+    } catch (error) {
+      // Recording must never break a live analysis
+      console.error('❌ Failed to record LLM fixture:', error);
+    }
+  }
+}
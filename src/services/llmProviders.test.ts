@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockLLMProvider } from './llmProviders';
+
+const REQUEST = { systemPrompt: 'Respond with JSON.', prompt: 'Title: "Caffeine"', temperature: 0, maxTokens: 100 };
+
+describe('MockLLMProvider through requestWithRetry', () => {
+  beforeEach(() => {
+    // No jitter, so every recorded delay is the bare backoff
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially from the Retry-After header and then succeeds', async () => {
+    const mock = new MockLLMProvider().script(
+      { type: 'rateLimit', retryAfter: 1 },
+      { type: 'rateLimit', retryAfter: 1 },
+      { type: 'text', text: '{"content": "ok"}' }
+    );
+
+    const text = await mock.complete(REQUEST);
+
+    expect(text).toBe('{"content": "ok"}');
+    expect(mock.attempts).toBe(3);
+    expect(mock.delays).toEqual([1000, 2000]);
+  });
+
+  it('throws after the last rate-limited attempt without sleeping again', async () => {
+    const mock = new MockLLMProvider({ maxRetries: 3 }).script(
+      { type: 'rateLimit' },
+      { type: 'rateLimit' },
+      { type: 'rateLimit' }
+    );
+
+    await expect(mock.complete(REQUEST)).rejects.toThrow('Mock API rate limit exceeded after 3 attempts');
+    expect(mock.attempts).toBe(3);
+    expect(mock.delays).toEqual([2000, 4000]);
+  });
+
+  it('gives up at once when Retry-After is longer than a minute', async () => {
+    const mock = new MockLLMProvider().script({ type: 'rateLimit', retryAfter: 3600 });
+
+    await expect(mock.complete(REQUEST)).rejects.toThrow('Mock API rate limit exceeded');
+    expect(mock.attempts).toBe(1);
+    expect(mock.delays).toEqual([]);
+  });
+
+  it('retries 502 and 503 and reports the outage after max retries', async () => {
+    const mock = new MockLLMProvider({ maxRetries: 2 }).script(
+      { type: 'unavailable', status: 502 },
+      { type: 'unavailable' }
+    );
+
+    await expect(mock.complete(REQUEST)).rejects.toThrow('Mock API service unavailable after 2 attempts');
+    expect(mock.attempts).toBe(2);
+    expect(mock.delays).toEqual([1000]);
+  });
+
+  it('aborts an attempt that outlives the timeout and retries it', async () => {
+    const mock = new MockLLMProvider({ timeoutMs: 10 }).script({ type: 'timeout' });
+
+    const text = await mock.complete(REQUEST);
+
+    expect(JSON.parse(text).content).toContain('Mock analysis of "Caffeine"');
+    expect(mock.attempts).toBe(2);
+    expect(mock.delays).toEqual([1000]);
+  });
+
+  it('throws the timeout once every attempt has timed out', async () => {
+    const mock = new MockLLMProvider({ maxRetries: 2, timeoutMs: 10 }).script({ type: 'timeout' }, { type: 'timeout' });
+
+    await expect(mock.complete(REQUEST)).rejects.toThrow('Mock API request timed out after 10ms');
+    expect(mock.attempts).toBe(2);
+    expect(mock.delays).toEqual([1000]);
+  });
+
+  it('does not retry other client errors', async () => {
+    const mock = new MockLLMProvider().script({ type: 'error', status: 400 });
+
+    await expect(mock.complete(REQUEST)).rejects.toThrow('Mock API error: 400 Mock Error');
+    expect(mock.attempts).toBe(1);
+    expect(mock.delays).toEqual([]);
+  });
+
+  it('returns a malformed body as is, leaving the repair to the caller', async () => {
+    const mock = new MockLLMProvider().script({ type: 'malformed' });
+
+    const text = await mock.complete(REQUEST);
+
+    expect(() => JSON.parse(text)).toThrow();
+    expect(mock.attempts).toBe(1);
+    expect(mock.delays).toEqual([]);
+  });
+});
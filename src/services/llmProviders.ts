@@ -0,0 +1,532 @@
+import { AnalysisSchemaService, JsonSchema } from './analysisSchema';
+
+export interface CompletionRequest {
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  // Sent as native structured output where the provider supports it
+  responseSchema?: { name: string; schema: JsonSchema };
+}
+
+export interface LLMProviderAdapter {
+  id: string;
+  name: string;
+  description: string;
+  model: string;
+  /**
+   * Hosted providers with paid keys. In proxy mode their requests go through the
+   * llm-proxy edge function; other adapters are always called from the browser.
+   */
+  proxied: boolean;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  description?: string;
+  // vLLM and recent Ollama accept OpenAI's json_schema response_format; many other servers do not
+  structuredOutput?: boolean;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  timeoutMs?: number;
+  // Injectable so the mock provider can drive the loop without network or real delays
+  fetchImpl?: (url: string, init: RequestInit) => Promise<Response>;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// Longest Retry-After worth waiting for; beyond it (e.g. an exhausted daily quota) the error is thrown
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+// The `error` message of a JSON error body, such as llm-proxy's, for the thrown error
+const errorDetail = (body: string): string => {
+  try {
+    const message = JSON.parse(body)?.error;
+    return typeof message === 'string' ? `: ${message}` : '';
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Key for calling a hosted provider from the browser. Only `vite dev` with
+ * VITE_LLM_MODE=direct fills these in; production builds never contain keys.
+ */
+export function directApiKey(provider: keyof typeof __LLM_DIRECT_KEYS__): string | undefined {
+  return __LLM_DIRECT_KEYS__[provider] || undefined;
+}
+
+/**
+ * POSTs to a provider, retrying rate limits, provider outages, timeouts and network
+ * failures with exponential backoff and jitter. Any other HTTP error is thrown immediately.
+ */
+export async function requestWithRetry(
+  label: string,
+  url: string,
+  init: RequestInit,
+  options: RetryOptions = {}
+): Promise<Response> {
+  const maxRetries = options.maxRetries ?? 7;
+  const timeoutMs = options.timeoutMs ?? 120000;
+  const fetchImpl = options.fetchImpl ?? ((input: string, requestInit: RequestInit) => fetch(input, requestInit));
+  const wait = options.sleep ?? sleep;
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    console.log(`🔄 ${label} attempt ${attempt + 1}/${maxRetries}`);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetchImpl(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new Error(`${label} API request timed out after ${timeoutMs}ms`)
+        : error as Error;
+      const delay = Math.min(15000, 1000 * Math.pow(2, attempt) + Math.random() * 500);
+      console.warn(`⏳ ${label} network error (attempt ${attempt + 1}/${maxRetries}). Retrying in ${Math.round(delay/1000)}s...`, lastError);
+      if (attempt < maxRetries - 1) {
+        await wait(delay);
+      }
+      continue;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    console.log(`📥 Response Status: ${response.status} ${response.statusText}`);
+
+    if (response.status === 429) {
+      const retryAfter = response.headers.get('retry-after');
+      if (retryAfter && parseInt(retryAfter) > MAX_RETRY_AFTER_SECONDS) {
+        throw new Error(`${label} API rate limit exceeded${errorDetail(await response.text())}`);
+      }
+      const baseDelay = retryAfter ? parseInt(retryAfter) * 1000 : 2000;
+
+      const exponentialDelay = Math.min(60000, baseDelay * Math.pow(2, attempt)); // Cap at 60 seconds
+      const jitter = Math.random() * 2000;
+      const totalDelay = exponentialDelay + jitter;
+
+      lastError = new Error(`${label} API rate limit exceeded after ${maxRetries} attempts`);
+      console.warn(`⏳ ${label} rate limit hit (attempt ${attempt + 1}/${maxRetries}). Retrying in ${Math.round(totalDelay/1000)}s...`);
+
+      if (attempt < maxRetries - 1) {
+        await wait(totalDelay);
+        continue;
+      }
+      throw lastError;
+    }
+
+    if (response.status === 503 || response.status === 502) {
+      const delay = Math.min(30000, 1000 * Math.pow(2, attempt) + Math.random() * 1000);
+      lastError = new Error(`${label} API service unavailable after ${maxRetries} attempts`);
+      console.warn(`⏳ ${label} service unavailable (${response.status}). Retrying in ${Math.round(delay/1000)}s...`);
+
+      if (attempt < maxRetries - 1) {
+        await wait(delay);
+        continue;
+      }
+      throw lastError;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ ${label} API Error Response:`, errorText);
+      throw new Error(`${label} API error: ${response.status} ${response.statusText}${errorDetail(errorText)}`);
+    }
+
+    return response;
+  }
+
+  throw lastError || new Error(`Unknown error occurred during ${label} API calls`);
+}
+
+export class OpenAIProvider implements LLMProviderAdapter {
+  id = 'openai';
+  name = 'OpenAI GPT-4';
+  description = 'Advanced reasoning and comprehensive analysis';
+  model = 'gpt-4o';
+  proxied = true;
+
+  private static readonly API_URL = 'https://api.openai.com/v1/chat/completions';
+
+  isConfigured(): boolean {
+    return !!directApiKey('openai');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await requestWithRetry('OpenAI', OpenAIProvider.API_URL, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${directApiKey('openai')}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.prompt }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema, strict: false }
+          }
+        })
+      }),
+    });
+
+    const data = await response.json();
+    console.log(`💰 Usage - Total Tokens: ${data.usage?.total_tokens || 'N/A'}`);
+
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error('No response from OpenAI');
+    }
+    return text;
+  }
+}
+
+export class GeminiProvider implements LLMProviderAdapter {
+  id = 'gemini';
+  name = 'Google Gemini';
+  description = 'Fast processing and detailed insights';
+  model = 'gemini-1.5-flash-latest';
+  proxied = true;
+
+  isConfigured(): boolean {
+    return !!directApiKey('gemini');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent`;
+    const response = await requestWithRetry('Gemini', `${url}?key=${directApiKey('gemini')}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{ text: `${request.systemPrompt}\n\n${request.prompt}` }]
+        }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          ...(request.responseSchema && {
+            responseMimeType: 'application/json',
+            responseSchema: AnalysisSchemaService.toGeminiSchema(request.responseSchema.schema)
+          })
+        }
+      }),
+    });
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      console.error('📊 Full response structure:', JSON.stringify(data, null, 2));
+      throw new Error('No response from Gemini');
+    }
+    return text;
+  }
+}
+
+export class AnthropicProvider implements LLMProviderAdapter {
+  id = 'anthropic';
+  name = 'Anthropic Claude';
+  description = 'Careful long-context reading and nuanced critique';
+  model = 'claude-3-5-sonnet-latest';
+  proxied = true;
+
+  private static readonly API_URL = 'https://api.anthropic.com/v1/messages';
+
+  isConfigured(): boolean {
+    return !!directApiKey('anthropic');
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await requestWithRetry('Anthropic', AnthropicProvider.API_URL, {
+      method: 'POST',
+      headers: {
+        'x-api-key': directApiKey('anthropic') || '',
+        'anthropic-version': '2023-06-01',
+        // Direct mode only; proxy mode keeps the key on the server
+        'anthropic-dangerous-direct-browser-access': 'true',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }),
+    });
+
+    const data = await response.json();
+    const text = data.content?.find((block: { type: string }) => block.type === 'text')?.text;
+    if (!text) {
+      throw new Error('No response from Anthropic');
+    }
+    return text;
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API (vLLM, Ollama, llama.cpp).
+ * These run on the team's own network, so requests never go through the proxy.
+ */
+export class OpenAICompatibleProvider implements LLMProviderAdapter {
+  id: string;
+  name: string;
+  description: string;
+  model: string;
+  proxied = false;
+
+  private baseUrl: string;
+  private apiKey?: string;
+  private structuredOutput: boolean;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.structuredOutput = !!config.structuredOutput;
+    this.description = config.description || `Self-hosted ${config.model} - manuscripts stay on your network`;
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && !!this.model;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await requestWithRetry(this.name, `${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.prompt }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(this.structuredOutput && request.responseSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema }
+          }
+        })
+      }),
+    });
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) {
+      throw new Error(`No response from ${this.name}`);
+    }
+    return text;
+  }
+}
+
+export type MockStep =
+  | { type: 'ok'; response?: unknown }
+  | { type: 'text'; text: string }
+  | { type: 'malformed' }
+  | { type: 'rateLimit'; retryAfter?: number }
+  | { type: 'unavailable'; status?: 502 | 503 }
+  | { type: 'error'; status: number }
+  | { type: 'timeout' };
+
+export interface MockProviderOptions {
+  maxRetries?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Deterministic offline provider. Each HTTP attempt consumes the next scripted
+ * step; with an empty script it answers with a valid analysis derived from the
+ * prompt. Requests run through requestWithRetry, so scripted 429s, 5xx and
+ * timeouts exercise the real retry loop, with backoff delays recorded instead of slept.
+ */
+export class MockLLMProvider implements LLMProviderAdapter {
+  id = 'mock';
+  name = 'Mock provider';
+  description = 'Deterministic scripted responses for offline testing';
+  model = 'mock-1';
+  proxied = false;
+
+  requests: CompletionRequest[] = [];
+  attempts = 0;
+  delays: number[] = [];
+
+  private steps: MockStep[] = [];
+  private options: MockProviderOptions;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.options = options;
+  }
+
+  script(...steps: MockStep[]): this {
+    this.steps.push(...steps);
+    return this;
+  }
+
+  reset(): void {
+    this.steps = [];
+    this.requests = [];
+    this.attempts = 0;
+    this.delays = [];
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.requests.push(request);
+
+    const response = await requestWithRetry('Mock', 'mock://llm/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify(request)
+    }, {
+      maxRetries: this.options.maxRetries,
+      timeoutMs: this.options.timeoutMs ?? 50,
+      fetchImpl: (_url, init) => this.respond(request, init.signal),
+      sleep: async (ms) => {
+        this.delays.push(ms);
+      }
+    });
+
+    const data = await response.json();
+    return data.choices[0].message.content;
+  }
+
+  private respond(request: CompletionRequest, signal?: AbortSignal | null): Promise<Response> {
+    this.attempts++;
+    const step = this.steps.shift() || { type: 'ok' };
+    const completion = (content: string) => new Response(
+      JSON.stringify({ choices: [{ message: { content } }] }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+    switch (step.type) {
+      case 'ok':
+        return Promise.resolve(completion(JSON.stringify(step.response ?? MockLLMProvider.defaultResponse(request.prompt))));
+      case 'text':
+        return Promise.resolve(completion(step.text));
+      case 'malformed':
+        return Promise.resolve(completion('{"content": "Truncated analysis", "keyPoints": [{"content": '));
+      case 'rateLimit':
+        return Promise.resolve(new Response('Rate limit exceeded', {
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: step.retryAfter !== undefined ? { 'retry-after': String(step.retryAfter) } : {}
+        }));
+      case 'unavailable':
+        return Promise.resolve(new Response('Service unavailable', { status: step.status ?? 503, statusText: 'Service Unavailable' }));
+      case 'error':
+        return Promise.resolve(new Response('Mock error', { status: step.status, statusText: 'Mock Error' }));
+      case 'timeout':
+        // Never answers; requestWithRetry's timeout aborts the attempt
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        });
+    }
+  }
+
+  /**
+   * A schema-complete analysis that depends only on the prompt text.
+   */
+  static defaultResponse(prompt: string) {
+    const title = prompt.match(/Title:\s*"?([^"\n]+)"?/)?.[1]?.trim() || 'Untitled paper';
+    let hash = 0;
+    for (let i = 0; i < prompt.length; i++) {
+      hash = (hash * 31 + prompt.charCodeAt(i)) >>> 0;
+    }
+    const confidence = 0.6 + (hash % 30) / 100;
+
+    return {
+      content: `Mock analysis of "${title}". This deterministic summary is produced offline for testing.`,
+      keyPoints: [
+        { content: `The paper "${title}" states its research question clearly.`, importance: 'high', sourceSection: 'Introduction', confidence },
+        { content: 'The methodology is described in enough detail to reproduce.', importance: 'medium', sourceSection: 'Methods', confidence }
+      ],
+      limitations: ['Mock responses do not reflect the paper content.'],
+      citations: [{ text: 'Mock citation', sourceLocation: 'References', confidence }],
+      confidence,
+      ethicsFlags: [],
+      researchGaps: [{ gap: 'Mock gap', description: 'Placeholder research gap.', priority: 'low', suggestedApproach: 'None' }],
+      xaiData: {
+        decisionPathways: [{ step: 'Mock analysis', reasoning: 'Deterministic fixture output', confidence, sources: ['prompt'] }],
+        sourceReferences: [],
+        confidenceBreakdown: { overall: confidence, keyPoints: confidence, citations: confidence, limitations: confidence },
+        attentionWeights: []
+      }
+    };
+  }
+}
+
+export class LLMProviderRegistry {
+  private static providers = new Map<string, LLMProviderAdapter>();
+
+  static register(provider: LLMProviderAdapter): void {
+    if (this.providers.has(provider.id)) {
+      console.warn(`⚠️ Replacing registered LLM provider "${provider.id}"`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  static unregister(id: string): void {
+    this.providers.delete(id);
+  }
+
+  static get(id: string): LLMProviderAdapter | undefined {
+    return this.providers.get(id);
+  }
+
+  static list(): LLMProviderAdapter[] {
+    return Array.from(this.providers.values());
+  }
+
+  static getDisplayName(id: string): string {
+    return this.providers.get(id)?.name || id;
+  }
+}
+
+LLMProviderRegistry.register(new OpenAIProvider());
+LLMProviderRegistry.register(new GeminiProvider());
+LLMProviderRegistry.register(new AnthropicProvider());
+
+if (import.meta.env.VITE_LLM_MOCK === 'true') {
+  LLMProviderRegistry.register(new MockLLMProvider());
+}
+
+if (import.meta.env.VITE_LOCAL_LLM_BASE_URL) {
+  LLMProviderRegistry.register(new OpenAICompatibleProvider({
+    id: 'openai-compatible',
+    name: import.meta.env.VITE_LOCAL_LLM_NAME || 'Self-hosted model',
+    baseUrl: import.meta.env.VITE_LOCAL_LLM_BASE_URL,
+    model: import.meta.env.VITE_LOCAL_LLM_MODEL || 'default',
+    apiKey: import.meta.env.VITE_LOCAL_LLM_API_KEY,
+    structuredOutput: import.meta.env.VITE_LOCAL_LLM_STRUCTURED_OUTPUT === 'true'
+  }));
+}
@@ -0,0 +1,81 @@
+import { createWorker, OEM, Worker } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+
+export interface OcrPageResult {
+  text: string;
+  // Tesseract's mean word confidence, 0-1
+  confidence: number;
+}
+
+/** The engine itself could not start (usually missing language data), so no page can be read. */
+export class OcrEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrEngineError';
+  }
+}
+
+/**
+ * Reads rendered page images with Tesseract. The engine runs in its own Web
+ * Worker; its script and WebAssembly core are bundled with the app, and
+ * language data is served from VITE_OCR_LANG_PATH (default /tessdata, which
+ * `npm run setup:ocr` fills from @tesseract.js-data), so nothing is fetched from a CDN.
+ */
+export class OcrService {
+  private static worker: Promise<Worker> | null = null;
+
+  private static getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const language = import.meta.env.VITE_OCR_LANGUAGE || 'eng';
+      console.log(`🔤 Starting OCR engine (${language})...`);
+
+      this.worker = createWorker(language, OEM.LSTM_ONLY, {
+        // Absolute URLs, because the worker resolves relative ones against its own script
+        workerPath: new URL(tesseractWorkerUrl, window.location.href).href,
+        corePath: new URL(tesseractCoreUrl, window.location.href).href,
+        langPath: new URL(import.meta.env.VITE_OCR_LANG_PATH || '/tessdata', window.location.href).href,
+        workerBlobURL: false
+      }).catch(error => {
+        this.worker = null;
+        throw error;
+      });
+    }
+    return this.worker;
+  }
+
+  static async recognize(image: HTMLCanvasElement): Promise<OcrPageResult> {
+    let worker: Worker;
+    try {
+      worker = await this.getWorker();
+    } catch (error) {
+      console.error('Error starting OCR engine:', error);
+      throw new OcrEngineError('Failed to start OCR engine');
+    }
+
+    try {
+      const { data } = await worker.recognize(image);
+
+      return {
+        text: data.text.replace(/\s+/g, ' ').trim(),
+        confidence: Math.round(data.confidence) / 100
+      };
+    } catch (error) {
+      console.error('Error running OCR:', error);
+      throw new Error('Failed to run OCR');
+    }
+  }
+
+  /** Frees the engine's memory once a document is done; the next call starts a new one. */
+  static async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      try {
+        await (await worker).terminate();
+      } catch (error) {
+        console.warn('⚠️ Failed to stop OCR engine:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,278 @@
+import { AnswerCitation, Paper, PaperPage, PaperQuestion } from '../types';
+import { supabase } from '../lib/supabase';
+import { LLMProvider, LLMService } from './llm';
+import { JsonSchema } from './analysisSchema';
+import { PaperRetrievalService, RetrievedPassage } from './paperRetrieval';
+import { QuoteVerificationService } from './quoteVerification';
+
+interface PaperQuestionRow {
+  id: string;
+  summary_id: string;
+  user_id: string;
+  question: string;
+  answer: string;
+  grounded: boolean;
+  citations: AnswerCitation[] | null;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+}
+
+interface ModelAnswer {
+  answer: string;
+  grounded: boolean;
+  citations: Array<{ passage: number; quote: string }>;
+}
+
+/**
+ * Answers follow-up questions about a paper from its own text. Relevant
+ * passages are retrieved first, the model may only use those, and every quote
+ * it cites is checked against the paper before the answer is shown.
+ */
+export class PaperChatService {
+  static readonly NOT_IN_PAPER_ANSWER = 'The paper text does not appear to address this question, so no answer was generated.';
+  static readonly UNVERIFIED_ANSWER = 'An answer was generated, but none of the passages it cited could be found in the paper text, so it is not shown.';
+  static readonly NO_PROVIDER_ANSWER = 'No AI provider is available to answer questions. The passages most relevant to your question are quoted below.';
+
+  private static readonly MAX_PASSAGES = 6;
+  private static readonly HISTORY_TURNS = 3;
+  private static readonly FALLBACK_QUOTE_CHARS = 300;
+
+  private static readonly ANSWER_SCHEMA: JsonSchema = {
+    title: 'paper_answer',
+    type: 'object',
+    properties: {
+      answer: { type: 'string', minLength: 1 },
+      grounded: { type: 'boolean' },
+      citations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            passage: { type: 'integer', minimum: 1 },
+            quote: { type: 'string', minLength: 1 }
+          },
+          required: ['passage', 'quote']
+        }
+      }
+    },
+    required: ['answer', 'grounded', 'citations']
+  };
+
+  static async getConversation(summaryId: string): Promise<PaperQuestion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('paper_questions')
+        .select('*')
+        .eq('summary_id', summaryId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(row => this.transformQuestion(row));
+    } catch (error) {
+      console.error('Error fetching paper questions:', error);
+      throw new Error('Failed to fetch conversation');
+    }
+  }
+
+  static async ask(
+    summaryId: string,
+    paper: Paper,
+    question: string,
+    provider: LLMProvider,
+    history: PaperQuestion[] = []
+  ): Promise<PaperQuestion> {
+    console.log(`💬 Answering question about "${paper.title}": ${question}`);
+
+    const { content, pages } = await PaperRetrievalService.loadPaperText(paper);
+    const passages = PaperRetrievalService.search(
+      question,
+      PaperRetrievalService.createPassages(content, pages),
+      this.MAX_PASSAGES
+    );
+    console.log(`🔎 Retrieved ${passages.length} passages`);
+
+    let answer: Omit<PaperQuestion, 'id' | 'summaryId' | 'userId' | 'question' | 'createdAt'>;
+
+    if (passages.length === 0) {
+      answer = { answer: this.NOT_IN_PAPER_ANSWER, grounded: false, citations: [] };
+    } else {
+      const prompt = this.buildPrompt(paper.title, question, passages, history);
+      const result = await LLMService.generateStructured<ModelAnswer>(prompt, this.ANSWER_SCHEMA, provider, paper.title);
+
+      if (!result) {
+        answer = {
+          answer: this.NO_PROVIDER_ANSWER,
+          grounded: false,
+          citations: this.verifyCitations(
+            passages.slice(0, 3).map(passage => ({ passage, quote: this.excerpt(passage.text) })),
+            content,
+            pages
+          )
+        };
+      } else {
+        if (typeof result.value?.answer !== 'string') {
+          throw new Error('Failed to answer question: model response did not contain an answer');
+        }
+        answer = { ...this.groundAnswer(result.value, passages, content, pages), provider: result.provider, model: result.model };
+      }
+    }
+
+    return this.saveQuestion(summaryId, question, answer);
+  }
+
+  /**
+   * Keeps only citations whose quotes are found in the paper. A model answer
+   * that claims support but has no surviving citation is withheld.
+   */
+  private static groundAnswer(
+    value: ModelAnswer,
+    passages: RetrievedPassage[],
+    content: string,
+    pages?: PaperPage[]
+  ): Pick<PaperQuestion, 'answer' | 'grounded' | 'citations'> {
+    const cited = (Array.isArray(value.citations) ? value.citations : [])
+      .filter(citation => typeof citation?.quote === 'string' && citation.quote.trim().length > 0)
+      .map(citation => ({ passage: passages[citation.passage - 1], quote: citation.quote.trim() }));
+
+    const citations = this.verifyCitations(cited, content, pages)
+      .filter(citation => citation.verification?.status !== 'not_found' && citation.verification?.status !== 'too_short');
+
+    if (!value.grounded) {
+      return { answer: value.answer, grounded: false, citations };
+    }
+
+    if (citations.length === 0) {
+      console.warn('⚠️ Answer claimed to be grounded but no cited quote was found in the paper');
+      return { answer: this.UNVERIFIED_ANSWER, grounded: false, citations: [] };
+    }
+
+    return { answer: value.answer, grounded: true, citations };
+  }
+
+  private static verifyCitations(
+    cited: Array<{ passage?: RetrievedPassage; quote: string }>,
+    content: string,
+    pages?: PaperPage[]
+  ): AnswerCitation[] {
+    const results = QuoteVerificationService.verifyQuotes(cited.map(c => c.quote), content, pages);
+
+    return cited.map(({ passage, quote }, index) => ({
+      quote,
+      verification: results[index],
+      pageNumber: results[index].pageNumber ??
+        (passage?.paginated && passage.pageStart === passage.pageEnd ? passage.pageStart : undefined)
+    }));
+  }
+
+  private static buildPrompt(
+    title: string,
+    question: string,
+    passages: RetrievedPassage[],
+    history: PaperQuestion[]
+  ): string {
+    const passageText = passages
+      .map((passage, index) => {
+        const location = passage.paginated
+          ? passage.pageStart === passage.pageEnd ? `page ${passage.pageStart}` : `pages ${passage.pageStart}-${passage.pageEnd}`
+          : 'page unknown';
+        return `[${index + 1}] (${location})\n${passage.text}`;
+      })
+      .join('\n\n');
+
+    const recent = history.slice(-this.HISTORY_TURNS);
+    const historyText = recent.length > 0
+      ? `Earlier questions in this conversation (for context only, not evidence):\n${recent.map(turn => `Q: ${turn.question}\nA: ${turn.answer}`).join('\n\n')}\n\n`
+      : '';
+
+    return `Answer a researcher's question about the paper "${title}" using ONLY the numbered passages below, which were retrieved from the paper's text.
+
+PASSAGES:
+${passageText}
+
+${historyText}QUESTION: ${question}
+
+Rules:
+- Use only information stated in the passages. Do not use outside knowledge and do not guess.
+- Support every claim with at least one citation: the passage number and an exact quote (a contiguous sentence or phrase copied verbatim from that passage).
+- If the passages do not contain the answer, set "grounded" to false, say plainly that the paper text provided does not address the question, and return no citations.
+- Keep the answer concise (at most one short paragraph).
+
+Respond with JSON in this exact format:
+{
+  "answer": "Answer to the question, or a statement that the paper does not address it",
+  "grounded": true,
+  "citations": [
+    { "passage": 1, "quote": "Exact text copied from passage 1" }
+  ]
+}`;
+  }
+
+  private static excerpt(text: string): string {
+    if (text.length <= this.FALLBACK_QUOTE_CHARS) return text.trim();
+    const cut = text.substring(0, this.FALLBACK_QUOTE_CHARS);
+    return cut.substring(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length).trim();
+  }
+
+  private static async saveQuestion(
+    summaryId: string,
+    question: string,
+    answer: Omit<PaperQuestion, 'id' | 'summaryId' | 'userId' | 'question' | 'createdAt'>
+  ): Promise<PaperQuestion> {
+    let userId = 'anonymous';
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        userId = user.id;
+      }
+    } catch (authError) {
+      console.warn('Auth check failed, using anonymous user:', authError);
+    }
+
+    const { data, error } = await supabase
+      .from('paper_questions')
+      .insert({
+        summary_id: summaryId,
+        user_id: userId,
+        question,
+        answer: answer.answer,
+        grounded: answer.grounded,
+        citations: answer.citations,
+        provider: answer.provider,
+        model: answer.model
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Database error saving question:', error);
+      // Keep the answer visible for this session even if it could not be shared
+      return {
+        id: `temp-question-${Date.now()}`,
+        summaryId,
+        userId,
+        question,
+        ...answer,
+        createdAt: new Date()
+      };
+    }
+
+    return this.transformQuestion(data);
+  }
+
+  private static transformQuestion(row: PaperQuestionRow): PaperQuestion {
+    return {
+      id: row.id,
+      summaryId: row.summary_id,
+      userId: row.user_id,
+      question: row.question,
+      answer: row.answer,
+      grounded: row.grounded,
+      citations: row.citations || [],
+      provider: row.provider || undefined,
+      model: row.model || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
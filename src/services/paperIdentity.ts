@@ -0,0 +1,133 @@
+import { DuplicatePaperInfo, Paper } from '../types';
+import { supabase } from '../lib/supabase';
+
+interface PaperRow {
+  id: string;
+  title: string;
+  authors: string[];
+  doi: string | null;
+  url: string | null;
+  content: string | null;
+  metadata: Paper['metadata'] & { uploadedBy?: string };
+}
+
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  owner_id: string;
+  collaborators: Array<{ id: string }> | null;
+}
+
+export interface DuplicateLookup {
+  // The user's own copy of the paper, reused instead of inserting a new row
+  paper: Paper | null;
+  info: DuplicatePaperInfo;
+}
+
+/**
+ * Identifies papers by a hash of their extracted text or by normalised DOI so
+ * repeat uploads reuse the existing row and cached analyses.
+ */
+export class PaperIdentityService {
+  /** SHA-256 of the text with case, Unicode forms and whitespace normalised. */
+  static async contentHash(text: string): Promise<string> {
+    const normalized = text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+    return Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /** Lower-case DOI without `doi:` or resolver URL prefixes, or null when the value holds no DOI. */
+  static normalizeDoi(value?: string | null): string | null {
+    const match = value?.trim().match(/10\.\d{4,9}\/\S+/i);
+    return match ? match[0].replace(/[.,;]+$/, '').toLowerCase() : null;
+  }
+
+  /**
+   * Looks for the paper in the user's library and in workspaces they belong to.
+   * Returns null when it is new to them or the lookup fails.
+   */
+  static async findDuplicate(
+    userId: string,
+    key: { contentHash?: string; doi?: string | null }
+  ): Promise<DuplicateLookup | null> {
+    if (userId === 'anonymous' || (!key.contentHash && !key.doi)) {
+      return null;
+    }
+
+    try {
+      const matchedBy: DuplicatePaperInfo['matchedBy'] = key.contentHash ? 'content' : 'doi';
+      const { data: papers, error } = await supabase
+        .from('papers')
+        .select('*')
+        .eq(key.contentHash ? 'content_hash' : 'doi_normalized', key.contentHash || key.doi)
+        .order('created_at', { ascending: true })
+        .limit(50);
+
+      if (error) throw error;
+      if (!papers || papers.length === 0) return null;
+
+      const rows = papers as PaperRow[];
+      const own = rows.find(row => row.metadata?.uploadedBy === userId) || null;
+      const workspaces = await this.findWorkspaces(userId, rows.map(row => row.id));
+
+      if (!own && workspaces.length === 0) return null;
+
+      const { data: summaries, error: summaryError } = await supabase
+        .from('summaries')
+        .select('created_at')
+        .in('paper_id', rows.map(row => row.id))
+        .order('created_at', { ascending: false });
+
+      if (summaryError) throw summaryError;
+
+      console.log(`🔁 Paper already known (matched by ${matchedBy}): ${own ? 'in library' : `in ${workspaces.length} workspace(s)`}`);
+
+      return {
+        paper: own ? this.transformPaper(own) : null,
+        info: {
+          matchedBy,
+          inLibrary: !!own,
+          workspaces,
+          analysisCount: summaries?.length || 0,
+          lastAnalyzedAt: summaries?.[0] ? new Date(summaries[0].created_at) : undefined
+        }
+      };
+    } catch (error) {
+      console.warn('⚠️ Duplicate lookup failed, treating paper as new:', error);
+      return null;
+    }
+  }
+
+  private static async findWorkspaces(userId: string, paperIds: string[]): Promise<DuplicatePaperInfo['workspaces']> {
+    const found = new Map<string, DuplicatePaperInfo['workspaces'][number]>();
+
+    for (const paperId of paperIds.slice(0, 10)) {
+      const { data, error } = await supabase
+        .from('workspaces')
+        .select('id, name, owner_id, collaborators')
+        .contains('papers', JSON.stringify([paperId]));
+
+      if (error) throw error;
+
+      ((data || []) as WorkspaceRow[])
+        .filter(row => row.owner_id === userId || (row.collaborators || []).some(collaborator => collaborator.id === userId))
+        .forEach(row => found.set(row.id, { id: row.id, name: row.name }));
+    }
+
+    return Array.from(found.values());
+  }
+
+  private static transformPaper(row: PaperRow): Paper {
+    return {
+      id: row.id,
+      title: row.title,
+      authors: row.authors,
+      doi: row.doi || undefined,
+      url: row.url || undefined,
+      content: row.content || undefined,
+      metadata: row.metadata
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { PaperMetadata } from '../types';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Writes to papers.metadata. Extraction, retraction checks and reference
+ * resolution each own some keys and hold copies of the paper loaded at
+ * different times, so a write sets only its own keys instead of replacing
+ * the column from a copy that may be stale.
+ */
+export class PaperMetadataService {
+  /** Sets the given top-level keys. Returns the stored metadata, or null when no row was updated. */
+  static async merge(paperId: string, patch: Partial<PaperMetadata>): Promise<PaperMetadata | null> {
+    const { data, error } = await supabase.rpc('merge_paper_metadata', {
+      target_paper: paperId,
+      patch
+    });
+
+    if (error) throw error;
+    return (data as PaperMetadata | null) ?? null;
+  }
+}
@@ -0,0 +1,113 @@
+import { Paper, PaperPage } from '../types';
+import { supabase } from '../lib/supabase';
+import { ChunkedAnalysisService } from './chunkedAnalysis';
+
+export interface Passage {
+  index: number;
+  text: string;
+  pageStart: number;
+  pageEnd: number;
+  // False when the paper had no page text and page numbers are pseudo-pages
+  paginated: boolean;
+}
+
+export interface RetrievedPassage extends Passage {
+  score: number;
+}
+
+/**
+ * Lexical (BM25) retrieval over short passages of the extracted paper text.
+ * Passages reuse the chunker so they never cross more than one page boundary
+ * without recording it.
+ */
+export class PaperRetrievalService {
+  static readonly PASSAGE_CHARS = 1200;
+
+  private static readonly K1 = 1.5;
+  private static readonly B = 0.75;
+  private static readonly STEM_LENGTH = 5;
+  private static readonly STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have',
+    'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'they', 'this', 'to',
+    'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'paper', 'authors', 'study'
+  ]);
+
+  // Summaries loaded from history may carry a paper without its text
+  static async loadPaperText(paper: Paper): Promise<{ content: string; pages?: PaperPage[] }> {
+    if (paper.content) {
+      return { content: paper.content, pages: paper.metadata?.pages };
+    }
+
+    const { data, error } = await supabase
+      .from('papers')
+      .select('content, metadata')
+      .eq('id', paper.id)
+      .single();
+
+    if (error || !data?.content) {
+      console.warn('⚠️ No stored text for paper, falling back to abstract:', error);
+      return { content: paper.metadata?.abstract || '', pages: undefined };
+    }
+
+    return { content: data.content, pages: data.metadata?.pages };
+  }
+
+  static createPassages(content: string, pages?: PaperPage[]): Passage[] {
+    return ChunkedAnalysisService.createChunks(content, pages, this.PASSAGE_CHARS).map(chunk => ({
+      index: chunk.index,
+      text: chunk.text,
+      pageStart: chunk.pageStart,
+      pageEnd: chunk.pageEnd,
+      paginated: chunk.paginated
+    }));
+  }
+
+  /** Ranks passages against the query; passages sharing no terms are left out. */
+  static search(query: string, passages: Passage[], limit: number = 5): RetrievedPassage[] {
+    const queryTerms = Array.from(new Set(this.terms(query)));
+    if (queryTerms.length === 0 || passages.length === 0) {
+      return [];
+    }
+
+    const documents = passages.map(passage => this.terms(passage.text));
+    const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(terms => {
+      new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    return passages
+      .map((passage, index) => {
+        const terms = documents[index];
+        const frequencies = new Map<string, number>();
+        terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+        const score = queryTerms.reduce((total, term) => {
+          const frequency = frequencies.get(term) || 0;
+          if (frequency === 0) return total;
+          const df = documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (passages.length - df + 0.5) / (df + 0.5));
+          const norm = frequency + this.K1 * (1 - this.B + this.B * terms.length / averageLength);
+          return total + idf * (frequency * (this.K1 + 1)) / norm;
+        }, 0);
+
+        return { ...passage, score };
+      })
+      .filter(passage => passage.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  }
+
+  /** Normalised, stemmed index terms with stop words removed. */
+  static terms(text: string): string[] {
+    return (text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+      .filter(term => !this.STOP_WORDS.has(term) && (term.length > 1 || /\d/.test(term)))
+      .map(term => this.stem(term));
+  }
+
+  // Truncation stemming: "excluded", "exclusion" and "exclusions" all become "exclu"
+  private static stem(term: string): string {
+    return /^\d/.test(term) ? term : term.substring(0, this.STEM_LENGTH);
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import * as pdfjsLegacy from 'pdfjs-dist/legacy/build/pdf.mjs';
+// Registers the worker on globalThis so PDF.js parses on this thread under Node
+import 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+// The browser build needs DOM APIs; the legacy build is the same parser for Node
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'));
+
+import { PDFProcessor } from './pdfProcessor';
+import { PdfJsLike, extractFromPdfData } from '../../supabase/functions/_shared/pdfExtraction';
+
+// Generated with jsPDF from caffeine-sleep.txt; Results starts on page 2
+const PDF = readFileSync(new URL('../../fixtures/papers/caffeine-sleep.pdf', import.meta.url));
+const FILE_NAME = 'caffeine-sleep.pdf';
+
+describe('PDF extraction', () => {
+  it('reads the same pages and text in the browser and in the extract-pdf edge function', async () => {
+    const browser = await PDFProcessor.extractTextFromFile(new File([PDF], FILE_NAME, { type: 'application/pdf' }));
+    const server = await extractFromPdfData(pdfjsLegacy as unknown as PdfJsLike, new Uint8Array(PDF), { name: FILE_NAME, size: PDF.length });
+
+    expect(browser.pages).toHaveLength(2);
+    expect(browser.pages[0].text).toContain('Evening Caffeine Intake and Sleep Onset');
+    expect(browser.pages[1].text).toContain('Mean sleep onset latency was 31 minutes');
+    expect(browser.text).toContain('t(31) = 3.42, p = .002');
+
+    expect(server.pages).toEqual(browser.pages);
+    expect(server.text).toBe(browser.text);
+    expect(server.sections).toEqual(browser.sections);
+    // The browser sets hasReferences from the parsed list, which needs at least three entries
+    expect({ ...server.structure, hasReferences: false }).toEqual({ ...browser.structure, hasReferences: false });
+  });
+});
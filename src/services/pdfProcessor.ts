@@ -1,49 +1,41 @@
 import * as pdfjsLib from 'pdfjs-dist';
 import pdfjsWorker from 'pdfjs-dist/build/pdf.worker.mjs?url';
+import { ParsedReference } from '../types';
+import {
+  PDFDocumentExtraction,
+  analyzeDocumentStructure,
+  cleanExtractedText,
+  countWords,
+  extractFromPdfDocument
+} from '../../supabase/functions/_shared/pdfExtraction';
+import { ReferenceParsingService } from './referenceParser';
+import { OcrEngineError, OcrService } from './ocr';
+import { supabase } from '../lib/supabase';
 
 // Configure PDF.js worker with local worker file
 pdfjsLib.GlobalWorkerOptions.workerSrc = pdfjsWorker;
 
-export interface PDFExtractionResult {
-  text: string;
-  metadata: {
-    title?: string;
-    author?: string;
-    subject?: string;
-    creator?: string;
-    producer?: string;
-    creationDate?: string;
-    modificationDate?: string;
-    pageCount: number;
-    wordCount: number;
-    extractedAt: string;
-    fileSize: number;
-    fileName: string;
-  };
-  pages: Array<{
-    pageNumber: number;
-    text: string;
-    wordCount: number;
-  }>;
-  structure: {
-    hasAbstract: boolean;
-    hasIntroduction: boolean;
-    hasMethodology: boolean;
-    hasResults: boolean;
-    hasConclusion: boolean;
-    hasReferences: boolean;
-    sections: string[];
-  };
+// Browser and extract-pdf edge function share one extraction; references are parsed here
+export interface PDFExtractionResult extends PDFDocumentExtraction {
+  references: ParsedReference[];
 }
 
 export class PDFProcessor {
+  private static readonly MAX_FILE_SIZE = 100 * 1024 * 1024;
+  // Pages with fewer words than this in their text layer are treated as image-only
+  private static readonly MIN_TEXT_LAYER_WORDS = 5;
+  // OCR takes seconds per page, so very long scans are only read in part
+  private static readonly MAX_OCR_PAGES = 40;
+  // Render scale for OCR; about 150 dpi for a letter-size page
+  private static readonly OCR_RENDER_SCALE = 2;
+
   static async extractTextFromFile(file: File): Promise<PDFExtractionResult> {
     console.log('🔄 Starting optimized PDF text extraction...');
     console.log(`📄 File: ${file.name} (${(file.size / 1024 / 1024).toFixed(2)} MB)`);
     
     try {
       // Quick validation
-      if (file.size > 100 * 1024 * 1024) { // 100MB limit
+      if (file.size > this.MAX_FILE_SIZE) { // 100MB limit
         throw new Error('File too large. Please use a file smaller than 100MB.');
       }
 
@@ -54,6 +46,15 @@ export class PDFProcessor {
       
     } catch (error) {
       console.error('❌ PDF extraction failed:', error);
+
+      if (file.size <= this.MAX_FILE_SIZE) {
+        try {
+          console.log('🔄 Retrying extraction on the server...');
+          return await this.extractTextOnServer(file);
+        } catch (serverError) {
+          console.error('❌ Server-side PDF extraction failed:', serverError);
+        }
+      }
       
       // Provide a fallback result instead of throwing
       console.log('🔄 Creating fallback extraction result...');
@@ -83,134 +84,132 @@ export class PDFProcessor {
 
       console.log(`✅ PDF loaded successfully (${pdf.numPages} pages)`);
       
-      // Extract metadata quickly
-      console.log('📋 Extracting metadata...');
-      let metadata;
-      try {
-        metadata = await pdf.getMetadata();
-      } catch (metaError) {
-        console.warn('⚠️ Metadata extraction failed, using defaults');
-        metadata = { info: {} };
-      }
-
-      const info = metadata.info || {};
-      
-      // Extract text from pages with optimizations
-      console.log('📝 Extracting text from pages...');
-      const pages: Array<{ pageNumber: number; text: string; wordCount: number }> = [];
-      let fullText = '';
+      const extraction = await extractFromPdfDocument(pdf, file);
+      return this.withReferences(await this.readImagePages(pdf, extraction));
       
-      // Process pages in batches for better performance
-      const maxPages = Math.min(pdf.numPages, 100); // Increased limit but still reasonable
-      const batchSize = 5; // Process 5 pages at a time
-      
-      console.log(`📄 Processing ${maxPages} pages in batches of ${batchSize}`);
-      
-      for (let startPage = 1; startPage <= maxPages; startPage += batchSize) {
-        const endPage = Math.min(startPage + batchSize - 1, maxPages);
-        console.log(`📄 Processing batch: pages ${startPage}-${endPage}`);
-        
-        // Process batch of pages concurrently
-        const batchPromises = [];
-        for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
-          batchPromises.push(this.extractPageTextOptimized(pdf, pageNum));
-        }
-        
+    } catch (error) {
+      console.error('❌ Error in performOptimizedExtraction:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Runs OCR on pages that have no text layer but do contain images, such as
+   * scanned papers and theses, and rebuilds the document text around them.
+   */
+  private static async readImagePages(pdf: pdfjsLib.PDFDocumentProxy, extraction: PDFDocumentExtraction): Promise<PDFDocumentExtraction> {
+    const candidates = extraction.pages.filter(page => page.wordCount < this.MIN_TEXT_LAYER_WORDS);
+    const imagePages: number[] = [];
+    for (const page of candidates) {
+      if (await this.hasImages(pdf, page.pageNumber)) imagePages.push(page.pageNumber);
+    }
+
+    if (imagePages.length === 0) return extraction;
+
+    console.log(`🔤 ${imagePages.length} pages have no text layer, running OCR on ${Math.min(imagePages.length, this.MAX_OCR_PAGES)}...`);
+    const recognised = new Map<number, { text: string; confidence: number }>();
+    try {
+      for (const pageNumber of imagePages.slice(0, this.MAX_OCR_PAGES)) {
         try {
-          const batchResults = await Promise.all(batchPromises);
-          
-          batchResults.forEach((pageText, index) => {
-            const pageNum = startPage + index;
-            const wordCount = pageText.split(/\s+/).filter(word => word.length > 0).length;
-            
-            pages.push({
-              pageNumber: pageNum,
-              text: pageText,
-              wordCount
-            });
-            
-            fullText += pageText + '\n\n';
-          });
-          
-        } catch (batchError) {
-          console.warn(`⚠️ Failed to process batch ${startPage}-${endPage}:`, batchError);
-          // Add placeholder pages for failed batch
-          for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
-            pages.push({
-              pageNumber: pageNum,
-              text: `[Page ${pageNum} extraction failed]`,
-              wordCount: 0
-            });
+          const canvas = await this.renderPage(pdf, pageNumber);
+          const result = await OcrService.recognize(canvas);
+          canvas.width = 0;
+          canvas.height = 0;
+          if (result.text) recognised.set(pageNumber, result);
+          console.log(`🔤 OCR page ${pageNumber}: ${countWords(result.text)} words, ${Math.round(result.confidence * 100)}% confidence`);
+        } catch (error) {
+          // Without an engine every remaining page would fail the same way
+          if (error instanceof OcrEngineError) {
+            console.warn('⚠️ OCR engine unavailable, skipping the remaining pages');
+            break;
           }
-        }
-        
-        // Small delay between batches to prevent blocking
-        if (endPage < maxPages) {
-          await new Promise(resolve => setTimeout(resolve, 10));
+          console.warn(`⚠️ OCR failed for page ${pageNumber}:`, error);
         }
       }
-      
-      // Clean up the full text efficiently
-      console.log('🧹 Cleaning extracted text...');
-      fullText = this.cleanExtractedTextOptimized(fullText);
-      const totalWordCount = fullText.split(/\s+/).filter(word => word.length > 0).length;
-      
-      console.log(`📊 Extraction stats: ${totalWordCount} words from ${pages.length} pages`);
-      
-      // Analyze document structure quickly
-      console.log('🔍 Analyzing document structure...');
-      const structure = this.analyzeDocumentStructureOptimized(fullText);
-      
-      return {
-        text: fullText,
-        metadata: {
-          title: info.Title || undefined,
-          author: info.Author || undefined,
-          subject: info.Subject || undefined,
-          creator: info.Creator || undefined,
-          producer: info.Producer || undefined,
-          creationDate: info.CreationDate || undefined,
-          modificationDate: info.ModDate || undefined,
-          pageCount: pages.length,
-          wordCount: totalWordCount,
-          extractedAt: new Date().toISOString(),
-          fileSize: file.size,
-          fileName: file.name
-        },
-        pages,
-        structure
-      };
-      
-    } catch (error) {
-      console.error('❌ Error in performOptimizedExtraction:', error);
-      throw error;
+    } finally {
+      await OcrService.terminate();
     }
+
+    if (recognised.size === 0) return extraction;
+
+    const pages = extraction.pages.map(page => {
+      const result = recognised.get(page.pageNumber);
+      return result
+        ? { ...page, text: result.text, wordCount: countWords(result.text), source: 'ocr' as const, ocrConfidence: result.confidence }
+        : page;
+    });
+    const text = cleanExtractedText(pages.map(page => page.text).join('\n\n'));
+
+    return {
+      ...extraction,
+      text,
+      metadata: { ...extraction.metadata, wordCount: countWords(text) },
+      pages,
+      structure: analyzeDocumentStructure(text, extraction.sections)
+    };
   }
 
-  private static async extractPageTextOptimized(pdf: any, pageNum: number): Promise<string> {
+  private static async hasImages(pdf: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<boolean> {
+    const imageOps = [pdfjsLib.OPS.paintImageXObject, pdfjsLib.OPS.paintInlineImageXObject, pdfjsLib.OPS.paintImageMaskXObject];
     try {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent({
-        normalizeWhitespace: true,
-        disableCombineTextItems: false
-      });
-      
-      // Optimized text combination
-      const textItems = textContent.items;
-      const pageText = textItems
-        .filter((item: any) => item.str && item.str.trim().length > 0)
-        .map((item: any) => item.str)
-        .join(' ')
-        .replace(/\s+/g, ' ')
-        .trim();
-      
-      return pageText;
+      const page = await pdf.getPage(pageNumber);
+      const operators = await page.getOperatorList();
+      return operators.fnArray.some(op => imageOps.includes(op));
     } catch (error) {
-      console.warn(`⚠️ Failed to extract page ${pageNum}:`, error);
-      return `[Page ${pageNum} extraction failed]`;
+      console.warn(`⚠️ Failed to inspect page ${pageNumber}:`, error);
+      return false;
     }
   }
 
+  private static async renderPage(pdf: pdfjsLib.PDFDocumentProxy, pageNumber: number): Promise<HTMLCanvasElement> {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: this.OCR_RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available');
+
+    await page.render({ canvasContext: context, viewport }).promise;
+    page.cleanup();
+    return canvas;
+  }
+
+  /**
+   * Runs the same extraction in the extract-pdf edge function, for documents
+   * the browser build of PDF.js cannot open.
+   */
+  static async extractTextOnServer(file: File): Promise<PDFExtractionResult> {
+    const body = new FormData();
+    body.append('file', file);
+
+    const { data, error } = await supabase.functions.invoke('extract-pdf', { body });
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.error || 'Server-side PDF extraction failed');
+    }
+
+    console.log('✅ Server-side PDF extraction completed successfully');
+    const { text, metadata, pages, structure, sections, captions, tables } = data as PDFDocumentExtraction;
+    return this.withReferences({
+      text,
+      metadata,
+      pages,
+      structure,
+      sections: sections || [],
+      captions: captions || [],
+      tables: tables || []
+    });
+  }
+
+  private static withReferences(extraction: PDFDocumentExtraction): PDFExtractionResult {
+    console.log('📚 Parsing reference list...');
+    const references = ReferenceParsingService.parse(extraction.text, extraction.pages);
+    // A parsed bibliography is a better signal than the word appearing anywhere
+    return { ...extraction, structure: { ...extraction.structure, hasReferences: references.length > 0 }, references };
+  }
+
   private static createFallbackResult(file: File, error: any): PDFExtractionResult {
     console.log('🔄 Creating fallback result due to extraction failure');
     
@@ -259,50 +258,11 @@ File details:
         hasConclusion: false,
         hasReferences: false,
         sections: ['Error Report']
-      }
-    };
-  }
-  
-  private static cleanExtractedTextOptimized(text: string): string {
-    // Optimized text cleaning with fewer regex operations
-    return text
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .replace(/^\d+\s*$/gm, '') // Remove page numbers
-      .replace(/\n\s*\n/g, '\n\n') // Clean line breaks
-      .trim();
-  }
-  
-  private static analyzeDocumentStructureOptimized(text: string): PDFExtractionResult['structure'] {
-    const lowerText = text.toLowerCase();
-    
-    // Use simple includes for faster matching
-    const hasAbstract = lowerText.includes('abstract') || lowerText.includes('summary');
-    const hasIntroduction = lowerText.includes('introduction') || lowerText.includes('background');
-    const hasMethodology = lowerText.includes('method') || lowerText.includes('approach') || lowerText.includes('procedure');
-    const hasResults = lowerText.includes('results') || lowerText.includes('findings') || lowerText.includes('outcomes');
-    const hasConclusion = lowerText.includes('conclusion') || lowerText.includes('discussion');
-    const hasReferences = lowerText.includes('references') || lowerText.includes('bibliography');
-    
-    // Quick section extraction
-    const lines = text.split('\n').slice(0, 50); // Only check first 50 lines
-    const potentialSections = lines
-      .filter(line => {
-        const trimmed = line.trim();
-        return trimmed.length > 3 && 
-               trimmed.length < 100 && 
-               /^[A-Z]/.test(trimmed) &&
-               !trimmed.includes('.');
-      })
-      .slice(0, 15); // Limit to first 15 sections
-    
-    return {
-      hasAbstract,
-      hasIntroduction,
-      hasMethodology,
-      hasResults,
-      hasConclusion,
-      hasReferences,
-      sections: potentialSections
+      },
+      sections: [],
+      captions: [],
+      tables: [],
+      references: []
     };
   }
   
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { PaperPage } from '../types';
+import { QuoteVerificationService } from './quoteVerification';
+
+const page = (pageNumber: number, text: string): PaperPage => ({
+  pageNumber,
+  text,
+  wordCount: text.split(/\s+/).length
+});
+
+const PAGES = [
+  page(1, 'Evening Caffeine Intake and Sleep Onset\n\nWe randomised 32 adults to 200 mg of caffeine or placebo at 7 pm.'),
+  page(2, 'Results\n\nMean sleep onset latency was 31 minutes after caffeine and 14 minutes after placebo. Participants described the night as "restless but short".')
+];
+const CONTENT = PAGES.map(p => p.text).join('\n\n');
+
+describe('QuoteVerificationService.verifyQuote', () => {
+  it('verifies an exact quote with its page and character span on that page', () => {
+    const quote = 'Mean sleep onset latency was 31 minutes after caffeine';
+
+    const result = QuoteVerificationService.verifyQuote(quote, CONTENT, PAGES);
+
+    expect(result.status).toBe('verified');
+    expect(result.score).toBe(1);
+    expect(result.pageNumber).toBe(2);
+    expect(PAGES[1].text.substring(result.charStart!, result.charEnd!)).toBe(quote);
+    expect(result.matchedText).toBe(quote);
+  });
+
+  it('ignores curly quotes, case and punctuation', () => {
+    const result = QuoteVerificationService.verifyQuote(
+      'participants described the night as “restless, but short”',
+      CONTENT,
+      PAGES
+    );
+
+    expect(result.status).toBe('verified');
+    expect(result.matchedText).toBe('Participants described the night as "restless but short');
+  });
+
+  it('reports a paraphrase as not found', () => {
+    const result = QuoteVerificationService.verifyQuote(
+      'People who drank coffee in the evening took about twice as long to fall asleep',
+      CONTENT,
+      PAGES
+    );
+
+    expect(result.status).toBe('not_found');
+    expect(result.pageNumber).toBeUndefined();
+    expect(result.score).toBeLessThan(QuoteVerificationService.APPROXIMATE_THRESHOLD);
+  });
+
+  it('does not verify quotes shorter than the minimum, even when they occur verbatim', () => {
+    expect(QuoteVerificationService.verifyQuote('sleep onset', CONTENT, PAGES)).toEqual({ status: 'too_short', score: 0 });
+    expect(QuoteVerificationService.verifyQuote('caffeine', CONTENT).status).toBe('too_short');
+    expect(QuoteVerificationService.verifyQuote('sleep onset latency', CONTENT, PAGES).status).toBe('verified');
+  });
+});
@@ -0,0 +1,233 @@
+import { PaperPage, QuoteVerification } from '../types';
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface PageOffset {
+  pageNumber: number;
+  offset: number;
+  ocrConfidence?: number;
+}
+
+interface SourceText {
+  text: string;
+  tokens: Token[];
+  positions: Map<string, number[]>;
+  // Start offset of each page inside `text`; empty when checking unpaginated content
+  pageOffsets: PageOffset[];
+}
+
+/**
+ * Checks quoted text produced by the model against the extracted paper text.
+ * Matching is word-level, so differences in whitespace, punctuation, quote
+ * characters, case, diacritics and line-break hyphenation are ignored.
+ */
+export class QuoteVerificationService {
+  // Share of the quote's words that must align for an approximate match
+  static readonly APPROXIMATE_THRESHOLD = 0.75;
+  // Shorter quotes turn up almost anywhere, so even an exact match proves nothing
+  static readonly MIN_QUOTE_TOKENS = 3;
+
+  private static readonly MAX_CANDIDATES = 5;
+  private static readonly PAGE_SEPARATOR = '\n\n';
+
+  static verifyQuote(quote: string, content: string, pages?: PaperPage[]): QuoteVerification {
+    return this.verifyQuotes([quote], content, pages)[0];
+  }
+
+  /**
+   * Verifies several quotes against the same document, tokenising it once.
+   * Page numbers and character spans come from `pages` when they carry text,
+   * otherwise spans are offsets into `content`.
+   */
+  static verifyQuotes(quotes: string[], content: string, pages?: PaperPage[]): QuoteVerification[] {
+    const source = this.prepareSource(content, pages);
+    return quotes.map(quote => this.align(quote, source));
+  }
+
+  private static prepareSource(content: string, pages?: PaperPage[]): SourceText {
+    const usablePages = (pages || []).filter(page => typeof page.text === 'string' && page.text.trim().length > 0);
+    const pageOffsets: SourceText['pageOffsets'] = [];
+    let text = content || '';
+
+    if (usablePages.length > 0) {
+      text = '';
+      usablePages.forEach(page => {
+        if (text.length > 0) text += this.PAGE_SEPARATOR;
+        pageOffsets.push({
+          pageNumber: page.pageNumber,
+          offset: text.length,
+          ocrConfidence: page.source === 'ocr' ? page.ocrConfidence ?? 0 : undefined
+        });
+        text += page.text;
+      });
+    }
+
+    const tokens = this.tokenize(text);
+    const positions = new Map<string, number[]>();
+    tokens.forEach((token, index) => {
+      const list = positions.get(token.value);
+      if (list) list.push(index);
+      else positions.set(token.value, [index]);
+    });
+
+    return { text, tokens, positions, pageOffsets };
+  }
+
+  private static align(quote: string, source: SourceText): QuoteVerification {
+    const quoteTokens = this.tokenize(quote || '').map(token => token.value);
+    if (quoteTokens.length === 0 || source.tokens.length === 0) {
+      return { status: 'not_found', score: 0 };
+    }
+    if (quoteTokens.length < this.MIN_QUOTE_TOKENS) {
+      return { status: 'too_short', score: 0 };
+    }
+
+    // Each shared word votes for the document position where the quote would start
+    const votes = new Map<number, number>();
+    quoteTokens.forEach((value, offset) => {
+      const occurrences = source.positions.get(value) || [];
+      // Very common words carry no signal and would dominate the vote
+      if (occurrences.length > 500) return;
+      occurrences.forEach(position => {
+        const start = position - offset;
+        votes.set(start, (votes.get(start) || 0) + 1);
+      });
+    });
+
+    const candidates = Array.from(votes.entries())
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, this.MAX_CANDIDATES)
+      .map(([start]) => start);
+
+    let best: { distance: number; start: number; end: number } | null = null;
+    for (const candidate of candidates) {
+      const slack = Math.ceil(quoteTokens.length / 4) + 2;
+      const windowStart = Math.max(0, candidate - slack);
+      const windowEnd = Math.min(source.tokens.length, candidate + quoteTokens.length + slack);
+      const result = this.semiGlobalAlign(quoteTokens, source.tokens, windowStart, windowEnd);
+      if (!best || result.distance < best.distance) {
+        best = result;
+      }
+      if (best.distance === 0) break;
+    }
+
+    if (!best) {
+      return { status: 'not_found', score: 0 };
+    }
+
+    const score = Math.max(0, 1 - best.distance / quoteTokens.length);
+    const isExact = best.distance === 0;
+    const status: QuoteVerification['status'] = isExact
+      ? 'verified'
+      : score >= this.APPROXIMATE_THRESHOLD
+        ? 'approximate'
+        : 'not_found';
+
+    if (status === 'not_found') {
+      return { status, score: Math.round(score * 100) / 100 };
+    }
+
+    const charStart = source.tokens[best.start].start;
+    const charEnd = source.tokens[best.end - 1].end;
+    const page = this.findPage(source, charStart);
+
+    return {
+      status,
+      score: Math.round(score * 100) / 100,
+      pageNumber: page?.pageNumber,
+      charStart: charStart - (page?.offset || 0),
+      charEnd: charEnd - (page?.offset || 0),
+      matchedText: source.text.substring(charStart, charEnd),
+      ocrConfidence: page?.ocrConfidence
+    };
+  }
+
+  /**
+   * Word-level edit distance where the whole quote must align but the
+   * document window may be entered and left anywhere.
+   */
+  private static semiGlobalAlign(
+    quote: string[],
+    tokens: Token[],
+    windowStart: number,
+    windowEnd: number
+  ): { distance: number; start: number; end: number } {
+    const width = windowEnd - windowStart;
+    let previous = new Array<number>(width + 1).fill(0);
+    let previousStart = Array.from({ length: width + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= quote.length; i++) {
+      const current = new Array<number>(width + 1);
+      const currentStart = new Array<number>(width + 1);
+      current[0] = i;
+      currentStart[0] = 0;
+
+      for (let j = 1; j <= width; j++) {
+        const substitution = previous[j - 1] + (quote[i - 1] === tokens[windowStart + j - 1].value ? 0 : 1);
+        const deletion = previous[j] + 1;
+        const insertion = current[j - 1] + 1;
+
+        if (substitution <= deletion && substitution <= insertion) {
+          current[j] = substitution;
+          currentStart[j] = previousStart[j - 1];
+        } else if (deletion <= insertion) {
+          current[j] = deletion;
+          currentStart[j] = previousStart[j];
+        } else {
+          current[j] = insertion;
+          currentStart[j] = currentStart[j - 1];
+        }
+      }
+
+      previous = current;
+      previousStart = currentStart;
+    }
+
+    let bestEnd = 1;
+    for (let j = 1; j <= width; j++) {
+      if (previous[j] < previous[bestEnd]) bestEnd = j;
+    }
+
+    const start = Math.min(previousStart[bestEnd], bestEnd - 1);
+    return {
+      distance: previous[bestEnd],
+      start: windowStart + start,
+      end: windowStart + bestEnd
+    };
+  }
+
+  private static findPage(source: SourceText, offset: number): PageOffset | undefined {
+    let page: PageOffset | undefined;
+    for (const candidate of source.pageOffsets) {
+      if (candidate.offset > offset) break;
+      page = candidate;
+    }
+    return page;
+  }
+
+  private static tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    const pattern = /[\p{L}\p{N}]+/gu;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const value = match[0].normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+      const previous = tokens[tokens.length - 1];
+
+      // Re-join words hyphenated across a line break ("meth- ods")
+      if (previous && /^-\s+$/.test(text.substring(previous.end, match.index)) && /^\p{Ll}/u.test(match[0])) {
+        previous.value += value;
+        previous.end = match.index + match[0].length;
+        continue;
+      }
+
+      tokens.push({ value, start: match.index, end: match.index + match[0].length });
+    }
+
+    return tokens;
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../lib/supabase', () => ({ supabase: {} }));
+
+import { ReferenceParsingService } from './referenceParser';
+
+const NUMBERED_LIST = [
+  'References',
+  '[1] Drake C, Roehrs T, Shambroom J, Roth T. Caffeine effects on sleep taken 0, 3, or 6 hours before going to bed. J Clin Sleep Med. 2013;9(11):1195-1200. doi:10.5664/jcsm.3170',
+  '[2] Clark I, Landolt HP. Coffee, caffeine, and sleep: a systematic review of epidemiological studies and randomized controlled trials. Sleep Med Rev. 2017;31:70-78.',
+  '[3] Roehrs T, Roth T. Caffeine: sleep and daytime sleepiness. Sleep Med Rev. 2008;12(2):153-162.'
+].join(' ');
+
+const AUTHOR_YEAR_LIST = [
+  'References',
+  'Clark, I., & Landolt, H. P. (2017). Coffee, caffeine, and sleep: A systematic review. Sleep Medicine Reviews, 31, 70-78.',
+  'Drake, C., Roehrs, T., Shambroom, J., & Roth, T. (2013). Caffeine effects on sleep taken 0, 3, or 6 hours before going to bed. Journal of Clinical Sleep Medicine, 9(11), 1195-1200. https://doi.org/10.5664/jcsm.3170',
+  'Roehrs, T. (2008). Caffeine: Sleep and daytime sleepiness. Sleep Medicine Reviews, 12(2), 153-162.'
+].join(' ');
+
+describe('ReferenceParsingService.parse', () => {
+  it('parses a numbered list and links [n] markers, including ranges', () => {
+    const body = 'Evening caffeine delays sleep onset [1]. Reviews agree [2-3], and the effect is dose dependent [1, 3].';
+
+    const references = ReferenceParsingService.parse(`${body} ${NUMBERED_LIST}`);
+
+    expect(references.map(reference => reference.label)).toEqual(['1', '2', '3']);
+    expect(references[0]).toMatchObject({
+      authors: ['Drake C', 'Roehrs T', 'Shambroom J', 'Roth T'],
+      title: 'Caffeine effects on sleep taken 0, 3, or 6 hours before going to bed',
+      venue: 'J Clin Sleep Med',
+      year: '2013',
+      doi: '10.5664/jcsm.3170',
+      doiSource: 'text'
+    });
+    expect(references.map(reference => reference.mentionCount)).toEqual([2, 1, 2]);
+    expect(references[1].mentions[0].context).toContain('Reviews agree [2-3]');
+  });
+
+  it('links parenthesised markers when the text has no bracketed ones', () => {
+    const body = 'Evening caffeine delays sleep onset (1). Reviews agree (2, 3).';
+
+    const references = ReferenceParsingService.parse(`${body} ${NUMBERED_LIST}`);
+
+    expect(references.map(reference => reference.mentionCount)).toEqual([1, 1, 1]);
+  });
+
+  it('links superscript markers, as superscript digits or set against the word', () => {
+    const body = 'Evening caffeine delays sleep onset.¹ Reviews agree,2,3 although one found no effect.';
+
+    const references = ReferenceParsingService.parse(`${body} ${NUMBERED_LIST}`);
+
+    expect(references.map(reference => reference.mentionCount)).toEqual([1, 1, 1]);
+  });
+
+  it('parses an author-year list and links narrative and parenthetical citations', () => {
+    const body = 'Drake et al. (2013) gave caffeine six hours before bed. Reviews agree (Clark & Landolt, 2017; Drake et al., 2013).';
+
+    const references = ReferenceParsingService.parse(`${body} ${AUTHOR_YEAR_LIST}`);
+
+    expect(references.map(reference => reference.label)).toEqual([
+      'Clark & Landolt, 2017',
+      'Drake et al., 2013',
+      'Roehrs, 2008'
+    ]);
+    expect(references[1]).toMatchObject({
+      authors: ['Drake, C.', 'Roehrs, T.', 'Shambroom, J.', 'Roth, T.'],
+      title: 'Caffeine effects on sleep taken 0, 3, or 6 hours before going to bed',
+      venue: 'Journal of Clinical Sleep Medicine',
+      doi: '10.5664/jcsm.3170'
+    });
+    expect(references.map(reference => reference.mentionCount)).toEqual([1, 2, 0]);
+  });
+
+  it('finds nothing when the reference list has fewer than three entries', () => {
+    const short = NUMBERED_LIST.split(' [3]')[0];
+
+    expect(ReferenceParsingService.parse(`Caffeine delays sleep [1]. ${short}`)).toEqual([]);
+  });
+});
@@ -0,0 +1,309 @@
+import { PaperPage, ParsedReference, ReferenceMention } from '../types';
+import { PaperIdentityService } from './paperIdentity';
+
+interface TextSource {
+  text: string;
+  pageNumber?: number;
+}
+
+interface ReferenceSection {
+  // Body text before the reference list, where citation markers are looked for
+  body: TextSource[];
+  text: string;
+}
+
+const HEADING = /(?:^|\s)(References|REFERENCES|Bibliography|BIBLIOGRAPHY|Literature Cited|LITERATURE CITED|Works Cited|Reference List)(?=\s|:|$)/g;
+const SECTION_END = /\s(?:Appendix|APPENDIX|Supplementary (?:Material|Information)|Supporting Information)\b/;
+const YEAR = /\b(?:19|20)\d{2}[a-z]?\b/;
+const NAME = "[A-Z][A-Za-z'’\\-]+";
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+// In-text markers of numbered styles, tried in this order: [1, 3-5], (1, 3-5), then
+// superscripts, either as superscript digits or as digits set against the word ("sleep.12")
+const NUMBERED_MARKERS = [
+  /\[(\d{1,3}(?:\s*[-–,]\s*\d{1,3})*)\]/g,
+  /\((\d{1,3}(?:\s*[-–,]\s*\d{1,3})*)\)/g,
+  new RegExp(`([${SUPERSCRIPTS}]+(?:[-–,⁻][${SUPERSCRIPTS}]+)*)|(?<=\\p{Ll}[.,;:]?)(\\d{1,3}(?:[-–,]\\d{1,3})*)(?=[\\s.,;:)]|$)`, 'gu')
+];
+
+/**
+ * Parses the bibliography of a paper into structured entries and links the
+ * in-text citation markers (numbered or author-year) to them. Works on the flat,
+ * whitespace-collapsed text the PDF extraction produces.
+ */
+export class ReferenceParsingService {
+  private static readonly MAX_REFERENCES = 300;
+  private static readonly MAX_STORED_MENTIONS = 5;
+
+  static parse(content: string, pages?: PaperPage[]): ParsedReference[] {
+    const section = this.findReferenceSection(content, pages);
+    if (!section) return [];
+
+    const numbered = this.splitNumbered(section.text);
+    const entries = numbered.length >= 3 ? numbered : this.splitAuthorYear(section.text);
+
+    const references = entries
+      .slice(0, this.MAX_REFERENCES)
+      .map((entry, position) => this.parseEntry(entry.text, position + 1, entry.number))
+      .filter(reference => reference.raw.length >= 20);
+
+    this.linkMentions(references, section.body, numbered.length >= 3);
+    return references;
+  }
+
+  /**
+   * Entries already separated by the source markup (JATS, LaTeX), numbered in
+   * list order and linked to the numbered markers in the body text.
+   */
+  static fromEntries(entries: string[], body: string): ParsedReference[] {
+    const references = entries
+      .slice(0, this.MAX_REFERENCES)
+      .map((entry, position) => this.parseEntry(entry, position + 1, position + 1));
+
+    this.linkMentions(references, [{ text: body }], true);
+    return references;
+  }
+
+  /** The last reference heading followed by citation-like text, searched from the final page backwards. */
+  private static findReferenceSection(content: string, pages?: PaperPage[]): ReferenceSection | null {
+    const usablePages = (pages || []).filter(page => typeof page.text === 'string' && page.text.trim().length > 0);
+    const sources: TextSource[] = usablePages.length > 0
+      ? usablePages.map(page => ({ text: page.text, pageNumber: page.pageNumber }))
+      : [{ text: content || '' }];
+
+    for (let i = sources.length - 1; i >= 0; i--) {
+      const matches = Array.from(sources[i].text.matchAll(HEADING)).reverse();
+      for (const match of matches) {
+        const start = (match.index || 0) + match[0].length;
+        const following = [sources[i].text.slice(start), ...sources.slice(i + 1).map(source => source.text)].join(' ');
+        // A heading in running text ("References to prior work...") is not followed by a list of years
+        const years = following.slice(0, 2000).match(new RegExp(YEAR.source, 'g')) || [];
+        if (years.length < 3) continue;
+
+        const end = following.slice(200).search(SECTION_END);
+        return {
+          body: [...sources.slice(0, i), { text: sources[i].text.slice(0, match.index), pageNumber: sources[i].pageNumber }],
+          text: (end >= 0 ? following.slice(0, end + 200) : following).replace(/\s+/g, ' ').trim()
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /** Entries marked [1], [2]... or 1., 2.... Markers must run in sequence, which rules out most stray numbers. */
+  private static splitNumbered(text: string): Array<{ text: string; number: number }> {
+    const styles = [
+      (n: number) => new RegExp(`\\[${n}\\]\\s*`),
+      (n: number) => new RegExp(`(?:^|\\s)${n}\\.\\s+(?=[A-Z“"])`)
+    ];
+
+    let best: Array<{ start: number; end: number; number: number }> = [];
+    styles.forEach(style => {
+      const markers: Array<{ start: number; end: number; number: number }> = [];
+      let position = 0;
+      for (let n = 1; n <= this.MAX_REFERENCES; n++) {
+        const rest = text.slice(position);
+        const match = rest.match(style(n));
+        // A gap this long means the sequence has been lost
+        if (!match || match.index === undefined || (n > 1 && match.index > 2000)) break;
+        markers.push({ start: position + match.index, end: position + match.index + match[0].length, number: n });
+        position += match.index + match[0].length;
+      }
+      if (markers.length > best.length) best = markers;
+    });
+
+    return best.map((marker, index) => ({
+      number: marker.number,
+      text: text.slice(marker.end, best[index + 1]?.start ?? text.length).trim()
+    }));
+  }
+
+  /**
+   * Author-year lists have no markers: a new entry starts at "Surname, I." (or
+   * Vancouver "Surname IJ,") once the current entry has a year and ends with a
+   * full stop or a link.
+   */
+  private static splitAuthorYear(text: string): Array<{ text: string; number?: number }> {
+    const start = new RegExp(`(?<=\\S\\s)(?=${NAME}(?:\\s(?:van|de|der|von|da|del|di|le|la)\\s${NAME})?(?:,\\s(?:[A-Z]\\.\\s?-?)+|\\s[A-Z]{1,3},))`, 'g');
+    const entries: Array<{ text: string; number?: number }> = [];
+    let current = 0;
+
+    for (const match of text.matchAll(start)) {
+      const index = match.index || 0;
+      const candidate = text.slice(current, index);
+      if (candidate.length >= 30 && YEAR.test(candidate) && /(?:[.)]|(?:https?:\/\/|10\.\d{4,9}\/)\S+)$/.test(candidate.trimEnd())) {
+        entries.push({ text: candidate.trim() });
+        current = index;
+      }
+    }
+    entries.push({ text: text.slice(current).trim() });
+
+    return entries.length >= 3 ? entries : [];
+  }
+
+  static parseEntry(raw: string, index: number, number?: number): ParsedReference {
+    const text = raw.replace(/\s+/g, ' ').trim();
+    const doiMatch = text.match(/10\.\d{4,9}\/[^\s"<>]+/);
+    const doi = doiMatch ? PaperIdentityService.normalizeDoi(doiMatch[0].replace(/[)\]]+$/, '')) || undefined : undefined;
+    const withoutLinks = text.replace(/\s*(?:https?:\/\/\S+|doi:\s*\S+|10\.\d{4,9}\/\S+)/gi, '').trim();
+
+    const parenYear = withoutLinks.match(/\(((?:19|20)\d{2})[a-z]?\)/);
+    const anyYear = withoutLinks.match(/\b((?:19|20)\d{2})[a-z]?\b/);
+    const year = (parenYear || anyYear)?.[1];
+
+    let authorsText = '';
+    let title: string | undefined;
+    let venue: string | undefined;
+
+    const quoted = withoutLinks.match(/[“"]([^”"]{10,}?)[,.]?[”"]/);
+    if (quoted && quoted.index !== undefined) {
+      // IEEE: J. Smith and A. Doe, "Title," in Venue, 2020.
+      authorsText = withoutLinks.slice(0, quoted.index);
+      title = quoted[1];
+      venue = withoutLinks.slice(quoted.index + quoted[0].length).replace(/^[\s,.]*(?:in\s+)?/i, '').split(/,\s/)[0];
+    } else if (parenYear && parenYear.index !== undefined) {
+      // APA and Harvard: Smith, J., & Doe, A. (2020). Title. Venue, 12(3), 45-67.
+      authorsText = withoutLinks.slice(0, parenYear.index);
+      const [titlePart, venuePart] = this.sentences(withoutLinks.slice(parenYear.index + parenYear[0].length).replace(/^[\s.,:]+/, ''));
+      title = titlePart;
+      venue = venuePart?.split(/,\s*\d|\s\d/)[0];
+    } else {
+      // Vancouver and most numbered styles: Smith J, Doe A. Title. Venue. 2020;12:45-67.
+      // Vancouver initials carry no full stops, so the author list ends at the first one
+      const vancouver = withoutLinks.match(new RegExp(`^((?:${NAME}\\s[A-Z]{1,3},\\s*)*${NAME}\\s[A-Z]{1,3}(?:,?\\s*et al)?)\\.\\s+`));
+      const [authorsPart, titlePart, venuePart] = vancouver
+        ? [vancouver[1], ...this.sentences(withoutLinks.slice(vancouver[0].length))]
+        : this.sentences(withoutLinks);
+      authorsText = authorsPart || '';
+      title = titlePart;
+      venue = venuePart?.split(/[;,]\s*|\s(?:19|20)\d{2}/)[0];
+    }
+
+    const authors = this.splitAuthors(authorsText);
+    const reference: ParsedReference = {
+      index,
+      label: number !== undefined ? String(number) : this.authorYearLabel(authors, year) || String(index),
+      raw: text,
+      authors,
+      mentionCount: 0,
+      mentions: []
+    };
+    if (title?.trim()) reference.title = title.trim().replace(/[.,]$/, '');
+    if (year) reference.year = year;
+    if (venue?.trim() && !/^\d/.test(venue.trim())) reference.venue = venue.trim().replace(/[.,]$/, '');
+    if (doi) {
+      reference.doi = doi;
+      reference.doiSource = 'text';
+    }
+    return reference;
+  }
+
+  /** First surname of the reference's first author, as used in author-year citations. */
+  static firstSurname(reference: Pick<ParsedReference, 'authors'>): string | null {
+    const first = reference.authors[0];
+    if (!first) return null;
+    if (first.includes(',')) return first.split(',')[0].trim();
+
+    const words = first.split(/\s+/);
+    // Vancouver puts initials after the surname ("Smith JA"), most other styles before it
+    return /^[A-Z]{1,3}$/.test(words[words.length - 1]) && words.length > 1 ? words[0] : words[words.length - 1];
+  }
+
+  // Splits at full stops that do not end an initial ("J.") or a common abbreviation
+  private static sentences(text: string): string[] {
+    return text
+      .split(/(?<!\b[A-Z])(?<!\b(?:et al|Vol|vol|No|no|pp|Proc|Conf|Int|J|Eds?|eds?))[.?!]\s+/)
+      .map(part => part.trim())
+      .filter(part => part.length > 0);
+  }
+
+  private static splitAuthors(text: string): string[] {
+    const cleaned = text
+      .replace(/\bet al\.?/g, '')
+      .replace(/\s*(?:,\s*)?(?:&|\band\b)\s*/g, ', ')
+      .replace(/[\s,]+$/, '')
+      .trim();
+    if (!cleaned) return [];
+
+    // "Smith, J. A., Doe, B." pairs surnames with the initials that follow them
+    const paired = !new RegExp(`^${NAME},\\s*[A-Z]\\.`).test(cleaned) ? [] : Array.from(cleaned.matchAll(new RegExp(`(${NAME}(?:\\s${NAME})*),\\s*((?:[A-Z]\\.\\s?-?)+)`, 'g')))
+      .map(match => `${match[1]}, ${match[2].trim()}`);
+    const authors = paired.length > 0
+      ? paired
+      : cleaned.split(/\s*[,;]\s*/).map(author => author.trim().replace(/\.$/, '')).filter(author => author.length > 1);
+
+    return authors.slice(0, 20);
+  }
+
+  private static authorYearLabel(authors: string[], year?: string): string | null {
+    const surname = this.firstSurname({ authors });
+    if (!surname || !year) return null;
+
+    const second = authors.length === 2 ? this.firstSurname({ authors: [authors[1]] }) : null;
+    const names = authors.length > 2 ? `${surname} et al.` : second ? `${surname} & ${second}` : surname;
+    return `${names}, ${year}`;
+  }
+
+  private static linkMentions(references: ParsedReference[], body: TextSource[], numbered: boolean): void {
+    const record = (reference: ParsedReference | undefined, source: TextSource, start: number, length: number) => {
+      if (!reference) return;
+      reference.mentionCount++;
+      if (reference.mentions.length >= this.MAX_STORED_MENTIONS) return;
+
+      const mention: ReferenceMention = {
+        charStart: start,
+        context: source.text.slice(Math.max(0, start - 100), start + length + 60).replace(/\s+/g, ' ').trim()
+      };
+      if (source.pageNumber) mention.pageNumber = source.pageNumber;
+      reference.mentions.push(mention);
+    };
+
+    if (numbered) {
+      const byNumber = new Map(references.map(reference => [reference.label, reference]));
+      // Only the first marker style found in the text is used: a paper citing as [n]
+      // still has list items and equations numbered (n), which are not citations
+      for (const pattern of NUMBERED_MARKERS) {
+        let linked = 0;
+        body.forEach(source => {
+          for (const match of source.text.matchAll(pattern)) {
+            this.expandNumbers(this.plainDigits(match[1] ?? match[2])).forEach(number => {
+              const reference = byNumber.get(String(number));
+              if (!reference) return;
+              record(reference, source, match.index || 0, match[0].length);
+              linked++;
+            });
+          }
+        });
+        if (linked > 0) return;
+      }
+      return;
+    }
+
+    references.forEach(reference => {
+      const surname = this.firstSurname(reference);
+      if (!surname || !reference.year) return;
+
+      const escaped = surname.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`\\b${escaped}(?:\\s+et\\s+al\\.?|\\s+(?:and|&)\\s+${NAME})?,?\\s*\\(?${reference.year}`, 'g');
+      body.forEach(source => {
+        for (const match of source.text.matchAll(pattern)) {
+          record(reference, source, match.index || 0, match[0].length);
+        }
+      });
+    });
+  }
+
+  // "¹⁻³" -> "1-3"
+  private static plainDigits(marker: string): string {
+    return marker.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]/g, character => character === '⁻' ? '-' : String(SUPERSCRIPTS.indexOf(character)));
+  }
+
+  // "1, 3-5" -> [1, 3, 4, 5]
+  private static expandNumbers(list: string): number[] {
+    return list.split(/\s*,\s*/).flatMap(part => {
+      const [from, to] = part.split(/\s*[-–]\s*/).map(Number);
+      if (!to) return [from];
+      return to >= from && to - from <= 50 ? Array.from({ length: to - from + 1 }, (_, offset) => from + offset) : [from, to];
+    });
+  }
+}
@@ -0,0 +1,414 @@
+import {
+  AnalysisProfileId,
+  GuidelineAssessment,
+  GuidelineItemResult,
+  GuidelineItemStatus,
+  Paper,
+  PaperPage,
+  ReportingGuideline,
+  ReportingGuidelineItem
+} from '../types';
+import { supabase } from '../lib/supabase';
+import { LLMProvider, LLMService } from './llm';
+import { JsonSchema } from './analysisSchema';
+import { Passage, PaperRetrievalService, RetrievedPassage } from './paperRetrieval';
+import { QuoteVerificationService } from './quoteVerification';
+
+interface GuidelineAssessmentRow {
+  id: string;
+  summary_id: string;
+  paper_id: string;
+  guideline_id: string;
+  guideline_name: string;
+  guideline_version: string;
+  score: number;
+  present_count: number;
+  partial_count: number;
+  missing_count: number;
+  items: GuidelineItemResult[];
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+}
+
+interface ModelItemJudgement {
+  id: string;
+  status: GuidelineItemStatus;
+  quote: string;
+  rationale: string;
+}
+
+interface ItemCandidates {
+  item: ReportingGuidelineItem;
+  passages: RetrievedPassage[];
+}
+
+/**
+ * Scores a paper item by item against a reporting checklist. Candidate
+ * passages are retrieved per item; the model judges them where a provider is
+ * available, otherwise the checklist's keyword groups decide. Every evidence
+ * quote is checked against the paper text and dropped if it cannot be found.
+ */
+export class ReportingGuidelineService {
+  private static readonly PASSAGES_PER_ITEM = 3;
+  private static readonly ITEMS_PER_REQUEST = 8;
+  private static readonly MAX_EVIDENCE_CHARS = 300;
+
+  private static readonly JUDGEMENT_SCHEMA: JsonSchema = {
+    title: 'guideline_items',
+    type: 'object',
+    properties: {
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            status: { type: 'string', enum: ['present', 'partial', 'missing'] },
+            quote: { type: 'string' },
+            rationale: { type: 'string', minLength: 1 }
+          },
+          required: ['id', 'status', 'quote', 'rationale']
+        }
+      }
+    },
+    required: ['items']
+  };
+
+  private static guidelines: ReportingGuideline[] | null = null;
+
+  static getGuidelines(): ReportingGuideline[] {
+    if (!this.guidelines) {
+      const files = import.meta.glob<ReportingGuideline>('../data/reportingGuidelines/*.json', { eager: true, import: 'default' });
+      this.guidelines = Object.values(files).sort((a, b) => a.name.localeCompare(b.name));
+    }
+    return this.guidelines;
+  }
+
+  static getGuideline(id: string): ReportingGuideline | undefined {
+    return this.getGuidelines().find(guideline => guideline.id === id);
+  }
+
+  /** Picks the checklist matching the analysis profile, then one whose phrases appear early in the paper. */
+  static suggestGuideline(paper: Paper, profile?: AnalysisProfileId): ReportingGuideline | undefined {
+    const guidelines = this.getGuidelines();
+    const byProfile = profile && guidelines.find(guideline => guideline.suggestWhen?.profiles?.includes(profile));
+    if (byProfile) return byProfile;
+
+    const opening = `${paper.title}\n${paper.metadata?.abstract || ''}\n${(paper.content || '').substring(0, 5000)}`.toLowerCase();
+    return guidelines.find(guideline => guideline.suggestWhen?.phrases?.some(phrase => opening.includes(phrase.toLowerCase())));
+  }
+
+  static async getAssessments(summaryId: string): Promise<GuidelineAssessment[]> {
+    try {
+      const { data, error } = await supabase
+        .from('guideline_assessments')
+        .select('*')
+        .eq('summary_id', summaryId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(row => this.transformAssessment(row));
+    } catch (error) {
+      console.error('Error fetching guideline assessments:', error);
+      throw new Error('Failed to fetch guideline assessments');
+    }
+  }
+
+  static async assess(
+    summaryId: string,
+    paper: Paper,
+    guidelineId: string,
+    provider: LLMProvider
+  ): Promise<GuidelineAssessment> {
+    const guideline = this.getGuideline(guidelineId);
+    if (!guideline) {
+      throw new Error(`Unknown reporting guideline: ${guidelineId}`);
+    }
+
+    console.log(`📋 Checking "${paper.title}" against ${guideline.name} ${guideline.version} (${guideline.items.length} items)`);
+
+    const { content, pages } = await PaperRetrievalService.loadPaperText(paper);
+    if (!content.trim()) {
+      throw new Error('Failed to check reporting guideline: no text is available for this paper');
+    }
+
+    const passages = PaperRetrievalService.createPassages(content, pages);
+    const candidates = guideline.items.map(item => ({ item, passages: this.retrieve(item, passages) }));
+
+    const results: GuidelineItemResult[] = [];
+    let served: { provider: string; model: string } | null = null;
+
+    for (let start = 0; start < candidates.length; start += this.ITEMS_PER_REQUEST) {
+      const batch = candidates.slice(start, start + this.ITEMS_PER_REQUEST);
+      const judged = await this.judgeWithModel(paper.title, guideline, batch, provider, content, pages);
+
+      if (judged) {
+        served = { provider: judged.provider, model: judged.model };
+        results.push(...judged.results);
+      } else {
+        results.push(...batch.map(candidate => this.judgeByKeywords(candidate, content, pages)));
+      }
+    }
+
+    const counts = this.count(results);
+    console.log(`📋 ${guideline.name}: ${counts.present} present, ${counts.partial} partial, ${counts.missing} missing`);
+
+    return this.saveAssessment({
+      summaryId,
+      paperId: paper.id,
+      guidelineId: guideline.id,
+      guidelineName: guideline.name,
+      guidelineVersion: guideline.version,
+      score: this.score(counts),
+      counts,
+      items: results,
+      provider: served?.provider,
+      model: served?.model
+    });
+  }
+
+  private static retrieve(item: ReportingGuidelineItem, passages: Passage[]): RetrievedPassage[] {
+    const query = `${item.topic} ${item.description} ${item.keywords.flat().join(' ')}`;
+    return PaperRetrievalService.search(query, passages, this.PASSAGES_PER_ITEM);
+  }
+
+  /**
+   * Asks the model to judge a batch of items against their candidate passages.
+   * Returns null when no provider is usable or the request fails, so the batch
+   * falls back to keywords. Items the model skipped, and claims whose quote is
+   * not in the paper, are judged by keywords instead.
+   */
+  private static async judgeWithModel(
+    title: string,
+    guideline: ReportingGuideline,
+    batch: ItemCandidates[],
+    provider: LLMProvider,
+    content: string,
+    pages?: PaperPage[]
+  ): Promise<{ results: GuidelineItemResult[]; provider: string; model: string } | null> {
+    let response;
+    try {
+      response = await LLMService.generateStructured<{ items: ModelItemJudgement[] }>(
+        this.buildPrompt(title, guideline, batch),
+        this.JUDGEMENT_SCHEMA,
+        provider,
+        title
+      );
+    } catch (error) {
+      console.warn('⚠️ Guideline check request failed, using keyword matching for this batch:', error);
+      return null;
+    }
+    if (!response) return null;
+
+    const judgements = new Map(
+      (Array.isArray(response.value?.items) ? response.value.items : []).map(judgement => [judgement.id, judgement])
+    );
+
+    const results = batch.map(candidate => {
+      const judgement = judgements.get(candidate.item.id);
+      if (!judgement || !['present', 'partial', 'missing'].includes(judgement.status)) {
+        return this.judgeByKeywords(candidate, content, pages);
+      }
+
+      const base = this.baseResult(candidate.item, judgement.status, 'model');
+      const quote = typeof judgement.quote === 'string' ? judgement.quote.trim() : '';
+      if (judgement.status === 'missing' || !quote) {
+        return { ...base, rationale: judgement.rationale };
+      }
+
+      const [verification] = QuoteVerificationService.verifyQuotes([quote], content, pages);
+      if (verification.status === 'not_found' || verification.status === 'too_short') {
+        console.warn(`⚠️ Evidence for ${guideline.name} item ${candidate.item.id} not found in the paper, using keyword matching`);
+        return this.judgeByKeywords(candidate, content, pages);
+      }
+
+      return { ...base, evidence: quote, verification, pageNumber: verification.pageNumber, rationale: judgement.rationale };
+    });
+
+    return { results, provider: response.provider, model: response.model };
+  }
+
+  /**
+   * An item is present when every keyword group matches within one candidate
+   * passage, partial when at least half do, and missing otherwise.
+   */
+  private static judgeByKeywords(
+    candidate: ItemCandidates,
+    content: string,
+    pages?: PaperPage[]
+  ): GuidelineItemResult {
+    const { item } = candidate;
+    let best: { passage: RetrievedPassage; coverage: number } | null = null;
+
+    for (const passage of candidate.passages) {
+      const text = passage.text.toLowerCase();
+      const matched = item.keywords.filter(group => group.some(keyword => text.includes(keyword.toLowerCase()))).length;
+      const coverage = item.keywords.length > 0 ? matched / item.keywords.length : 0;
+      if (!best || coverage > best.coverage) {
+        best = { passage, coverage };
+      }
+    }
+
+    const status: GuidelineItemStatus = !best || best.coverage < 0.5 ? 'missing' : best.coverage === 1 ? 'present' : 'partial';
+    const base = this.baseResult(item, status, 'keywords');
+    if (!best || status === 'missing') {
+      return { ...base, rationale: 'No passage mentions the terms this item requires.' };
+    }
+
+    const evidence = this.bestSentence(best.passage.text, item.keywords.flat());
+    const [verification] = QuoteVerificationService.verifyQuotes([evidence], content, pages);
+
+    return {
+      ...base,
+      evidence,
+      verification,
+      pageNumber: verification.pageNumber ??
+        (best.passage.paginated && best.passage.pageStart === best.passage.pageEnd ? best.passage.pageStart : undefined),
+      rationale: status === 'present'
+        ? 'Keyword match: the passage mentions every aspect of this item.'
+        : 'Keyword match: the passage mentions some aspects of this item.'
+    };
+  }
+
+  private static baseResult(
+    item: ReportingGuidelineItem,
+    status: GuidelineItemStatus,
+    assessedBy: GuidelineItemResult['assessedBy']
+  ): GuidelineItemResult {
+    return {
+      itemId: item.id,
+      section: item.section,
+      topic: item.topic,
+      description: item.description,
+      status,
+      assessedBy
+    };
+  }
+
+  private static bestSentence(text: string, keywords: string[]): string {
+    const sentences = text.split(/(?<=[.!?])\s+/).filter(sentence => sentence.trim().length > 0);
+    const hits = (sentence: string) => {
+      const lower = sentence.toLowerCase();
+      return keywords.filter(keyword => lower.includes(keyword.toLowerCase())).length;
+    };
+
+    const sentence = sentences.reduce((best, current) => hits(current) > hits(best) ? current : best, sentences[0] || text).replace(/\s+/g, ' ').trim();
+    if (sentence.length <= this.MAX_EVIDENCE_CHARS) return sentence;
+    const cut = sentence.substring(0, this.MAX_EVIDENCE_CHARS);
+    return cut.substring(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length).trim();
+  }
+
+  private static count(results: GuidelineItemResult[]): Record<GuidelineItemStatus, number> {
+    return results.reduce(
+      (counts, result) => ({ ...counts, [result.status]: counts[result.status] + 1 }),
+      { present: 0, partial: 0, missing: 0 } as Record<GuidelineItemStatus, number>
+    );
+  }
+
+  private static score(counts: Record<GuidelineItemStatus, number>): number {
+    const total = counts.present + counts.partial + counts.missing;
+    return total > 0 ? (counts.present + counts.partial * 0.5) / total : 0;
+  }
+
+  private static buildPrompt(title: string, guideline: ReportingGuideline, batch: ItemCandidates[]): string {
+    const passageNumbers = new Map<number, number>();
+    const passages: RetrievedPassage[] = [];
+    batch.forEach(candidate => candidate.passages.forEach(passage => {
+      if (!passageNumbers.has(passage.index)) {
+        passageNumbers.set(passage.index, passages.length + 1);
+        passages.push(passage);
+      }
+    }));
+
+    const passageText = passages
+      .map((passage, index) => {
+        const location = passage.paginated
+          ? passage.pageStart === passage.pageEnd ? `page ${passage.pageStart}` : `pages ${passage.pageStart}-${passage.pageEnd}`
+          : 'page unknown';
+        return `[${index + 1}] (${location})\n${passage.text}`;
+      })
+      .join('\n\n');
+
+    const itemText = batch
+      .map(({ item, passages: retrieved }) => {
+        const numbers = retrieved.map(passage => passageNumbers.get(passage.index)).join(', ');
+        return `- ${item.id} (${item.section}: ${item.topic}): ${item.description}. Most relevant passages: ${numbers || 'none found'}`;
+      })
+      .join('\n');
+
+    return `Check the paper "${title}" against the following ${guideline.name} ${guideline.version} reporting checklist items, using ONLY the numbered passages below, which were retrieved from the paper's text.
+
+PASSAGES:
+${passageText || '(no relevant passages were found)'}
+
+CHECKLIST ITEMS:
+${itemText}
+
+For every item, decide whether the paper reports it:
+- "present": the passages fully report what the item asks for.
+- "partial": the item is mentioned but some required detail is missing.
+- "missing": the passages do not report it. Do not assume it is reported elsewhere.
+
+Respond with JSON in this exact format, with one entry per item:
+{
+  "items": [
+    {
+      "id": "item id as listed above",
+      "status": "present|partial|missing",
+      "quote": "Exact sentence copied verbatim from a passage that supports the status, or an empty string when missing",
+      "rationale": "One sentence explaining what is reported and what is not"
+    }
+  ]
+}`;
+  }
+
+  private static async saveAssessment(
+    assessment: Omit<GuidelineAssessment, 'id' | 'createdAt'>
+  ): Promise<GuidelineAssessment> {
+    const { data, error } = await supabase
+      .from('guideline_assessments')
+      .insert({
+        summary_id: assessment.summaryId,
+        paper_id: assessment.paperId,
+        guideline_id: assessment.guidelineId,
+        guideline_name: assessment.guidelineName,
+        guideline_version: assessment.guidelineVersion,
+        score: assessment.score,
+        present_count: assessment.counts.present,
+        partial_count: assessment.counts.partial,
+        missing_count: assessment.counts.missing,
+        items: assessment.items,
+        provider: assessment.provider,
+        model: assessment.model
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('❌ Database error saving guideline assessment:', error);
+      // Keep the result visible for this session even if it could not be stored
+      return { ...assessment, id: `temp-assessment-${Date.now()}`, createdAt: new Date() };
+    }
+
+    return this.transformAssessment(data);
+  }
+
+  private static transformAssessment(row: GuidelineAssessmentRow): GuidelineAssessment {
+    return {
+      id: row.id,
+      summaryId: row.summary_id,
+      paperId: row.paper_id,
+      guidelineId: row.guideline_id,
+      guidelineName: row.guideline_name,
+      guidelineVersion: row.guideline_version,
+      score: row.score,
+      counts: { present: row.present_count, partial: row.partial_count, missing: row.missing_count },
+      items: row.items || [],
+      provider: row.provider || undefined,
+      model: row.model || undefined,
+      createdAt: new Date(row.created_at)
+    };
+  }
+}
@@ -0,0 +1,611 @@
+import { EthicsFlag, Paper, PaperMetadata, RetractionNotice, RetractionNoticeType, RetractionStatus } from '../types';
+import { AcademicDatabaseService, CrossRefUpdate } from './academicDatabase';
+import { CollaborationService } from './collaboration';
+import { PaperIdentityService } from './paperIdentity';
+import { PaperMetadataService } from './paperMetadata';
+import { LLMResponse } from './llm';
+import { supabase } from '../lib/supabase';
+
+export interface RetractionSourceAdapter {
+  id: string;
+  name: string;
+  isConfigured(): boolean;
+  // Notices per normalised DOI; DOIs without notices may be missing from the map
+  lookup(dois: string[]): Promise<Map<string, RetractionNotice[]>>;
+}
+
+export interface RetractionSnapshotConfig {
+  id: string;
+  name: string;
+  url: string;
+}
+
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  owner_id: string;
+  collaborators: Array<{ id: string }> | null;
+}
+
+const NOTICE_TYPES: Record<string, RetractionNoticeType> = {
+  retraction: 'retraction',
+  partial_retraction: 'retraction',
+  withdrawal: 'withdrawal',
+  removal: 'withdrawal',
+  expression_of_concern: 'expression-of-concern',
+  correction: 'correction',
+  erratum: 'correction',
+  corrigendum: 'correction',
+  addendum: 'correction',
+  clarification: 'correction'
+};
+
+// Crossref uses snake_case, Retraction Watch plain English ("Expression of concern")
+const noticeType = (value?: string): RetractionNoticeType | null =>
+  NOTICE_TYPES[(value || '').trim().toLowerCase().replace(/[\s-]+/g, '_')] || null;
+
+const addNotice = (notices: Map<string, RetractionNotice[]>, doi: string | null, notice: RetractionNotice) => {
+  if (!doi) return;
+  const existing = notices.get(doi) || [];
+  // The same notice often appears both in updated-by and in the updates filter
+  if (notice.noticeDoi && existing.some(known => known.noticeDoi === notice.noticeDoi && known.type === notice.type)) return;
+  notices.set(doi, [...existing, notice]);
+};
+
+/**
+ * Crossref notices: the `updated-by` list on the work itself (which includes
+ * Retraction Watch data) plus notices whose `update-to` points at the work.
+ */
+export class CrossrefRetractionSource implements RetractionSourceAdapter {
+  id = 'crossref';
+  name = 'Crossref';
+
+  private static readonly BATCH_SIZE = 20;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async lookup(dois: string[]): Promise<Map<string, RetractionNotice[]>> {
+    const notices = new Map<string, RetractionNotice[]>();
+
+    // Full records only for a few DOIs (the paper itself); cited works rely on the batched filter
+    for (const doi of dois.slice(0, 3)) {
+      const work = await AcademicDatabaseService.fetchCrossRefWork(doi);
+      (work?.['updated-by'] || []).forEach(update => addNotice(notices, doi, this.toNotice(update)));
+    }
+
+    for (let i = 0; i < dois.length; i += CrossrefRetractionSource.BATCH_SIZE) {
+      const batch = dois.slice(i, i + CrossrefRetractionSource.BATCH_SIZE);
+      const items = await AcademicDatabaseService.fetchCrossRefUpdates(batch);
+      items.forEach(item => {
+        (item['update-to'] || []).forEach(update => {
+          const target = PaperIdentityService.normalizeDoi(update.DOI);
+          if (target && batch.includes(target)) {
+            addNotice(notices, target, { ...this.toNotice(update), noticeDoi: PaperIdentityService.normalizeDoi(item.DOI) || item.DOI });
+          }
+        });
+      });
+    }
+
+    // Types we do not track, such as new versions, are dropped here
+    notices.forEach((list, doi) => notices.set(doi, list.filter(notice => notice.type)));
+    return notices;
+  }
+
+  private toNotice(update: CrossRefUpdate): RetractionNotice {
+    const parts = update.updated?.['date-parts']?.[0];
+    return {
+      type: noticeType(update.type) as RetractionNoticeType,
+      noticeDoi: PaperIdentityService.normalizeDoi(update.DOI) || undefined,
+      // Only the parts Crossref gives: a year-only date stays "2022"
+      date: parts?.[0] ? parts.map((part, index) => index === 0 ? String(part) : String(part).padStart(2, '0')).join('-') : undefined,
+      label: update.label
+    };
+  }
+}
+
+/**
+ * A local copy of retraction data, for offline use or to avoid Crossref rate
+ * limits. Accepts the Retraction Watch CSV export, a JSON object mapping DOIs to
+ * notices, or a JSON array of notices that each carry a `doi`.
+ */
+export class SnapshotRetractionSource implements RetractionSourceAdapter {
+  id: string;
+  name: string;
+  private url: string;
+  private snapshot: Promise<Map<string, RetractionNotice[]>> | null = null;
+
+  constructor(config: RetractionSnapshotConfig) {
+    this.id = config.id;
+    this.name = config.name;
+    this.url = config.url;
+  }
+
+  isConfigured(): boolean {
+    return !!this.url;
+  }
+
+  async lookup(dois: string[]): Promise<Map<string, RetractionNotice[]>> {
+    if (!this.snapshot) {
+      this.snapshot = this.load().catch(error => {
+        // Let the next lookup try again rather than caching the failure
+        this.snapshot = null;
+        throw error;
+      });
+    }
+
+    const snapshot = await this.snapshot;
+    const found = new Map<string, RetractionNotice[]>();
+    dois.forEach(doi => {
+      const notices = snapshot.get(doi);
+      if (notices) found.set(doi, notices);
+    });
+    return found;
+  }
+
+  private async load(): Promise<Map<string, RetractionNotice[]>> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`Retraction snapshot error: ${response.statusText}`);
+    }
+
+    const text = await response.text();
+    const notices = new Map<string, RetractionNotice[]>();
+    const trimmed = text.trimStart();
+
+    if (trimmed.startsWith('{')) {
+      Object.entries(JSON.parse(trimmed) as Record<string, RetractionNotice[]>).forEach(([doi, list]) =>
+        list.forEach(notice => addNotice(notices, PaperIdentityService.normalizeDoi(doi), notice))
+      );
+    } else if (trimmed.startsWith('[')) {
+      (JSON.parse(trimmed) as Array<RetractionNotice & { doi: string }>).forEach(({ doi, ...notice }) =>
+        addNotice(notices, PaperIdentityService.normalizeDoi(doi), notice)
+      );
+    } else {
+      this.readRetractionWatchCsv(text, notices);
+    }
+
+    console.log(`📚 Loaded retraction snapshot "${this.name}" with ${notices.size} DOIs`);
+    return notices;
+  }
+
+  private readRetractionWatchCsv(text: string, notices: Map<string, RetractionNotice[]>): void {
+    const rows = SnapshotRetractionSource.parseCsv(text);
+    const header = rows.shift() || [];
+    const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name.toLowerCase());
+    const doiColumn = column('OriginalPaperDOI');
+    const noticeColumn = column('RetractionDOI');
+    const natureColumn = column('RetractionNature');
+    const dateColumn = column('RetractionDate');
+
+    if (doiColumn < 0 || natureColumn < 0) {
+      throw new Error('Retraction snapshot CSV needs OriginalPaperDOI and RetractionNature columns');
+    }
+
+    rows.forEach(row => {
+      const type = noticeType(row[natureColumn]);
+      if (!type) return;
+
+      const date = dateColumn >= 0 ? new Date(row[dateColumn]) : null;
+      addNotice(notices, PaperIdentityService.normalizeDoi(row[doiColumn]), {
+        type,
+        noticeDoi: noticeColumn >= 0 ? PaperIdentityService.normalizeDoi(row[noticeColumn]) || undefined : undefined,
+        date: date && !isNaN(date.getTime()) ? date.toISOString().split('T')[0] : undefined,
+        label: row[natureColumn].trim()
+      });
+    });
+  }
+
+  /** Minimal RFC 4180 parser: quoted fields may contain commas, newlines and doubled quotes. */
+  static parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        if (row.some(cell => cell.length > 0)) rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    row.push(field);
+    if (row.some(cell => cell.length > 0)) rows.push(row);
+    return rows;
+  }
+}
+
+export class RetractionSourceRegistry {
+  private static sources = new Map<string, RetractionSourceAdapter>();
+
+  static register(source: RetractionSourceAdapter): void {
+    if (this.sources.has(source.id)) {
+      console.warn(`⚠️ Replacing registered retraction source "${source.id}"`);
+    }
+    this.sources.set(source.id, source);
+  }
+
+  static unregister(id: string): void {
+    this.sources.delete(id);
+  }
+
+  static list(): RetractionSourceAdapter[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * The source named by VITE_RETRACTION_SOURCE, otherwise the first configured
+   * one in registration order. Crossref is always available last.
+   */
+  static getActive(): RetractionSourceAdapter {
+    const preferred = import.meta.env.VITE_RETRACTION_SOURCE
+      ? this.sources.get(import.meta.env.VITE_RETRACTION_SOURCE)
+      : undefined;
+    if (preferred?.isConfigured()) {
+      return preferred;
+    }
+
+    return this.list().find(source => source.isConfigured()) || new CrossrefRetractionSource();
+  }
+}
+
+/**
+ * Retraction, correction and expression-of-concern status for papers and the
+ * works they cite. Results are kept in paper metadata and rechecked periodically.
+ */
+export class RetractionService {
+  // How often the library recheck runs, and how old a stored result must be to be checked again
+  static readonly RECHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+  static readonly STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+  private static readonly MAX_CITED_DOIS = 60;
+  private static readonly RECHECK_BATCH = 50;
+  private static readonly LAST_RECHECK_KEY = 'retraction-recheck-at';
+
+  private static readonly STATUS_RANK: Record<RetractionStatus['status'], number> = {
+    none: 0,
+    corrected: 1,
+    'expression-of-concern': 2,
+    retracted: 3
+  };
+
+  static async checkDois(dois: string[]): Promise<RetractionStatus[]> {
+    const normalized = Array.from(new Set(dois.map(doi => PaperIdentityService.normalizeDoi(doi)).filter((doi): doi is string => !!doi)));
+    if (normalized.length === 0) return [];
+
+    const source = RetractionSourceRegistry.getActive();
+    const notices = await source.lookup(normalized);
+    const checkedAt = new Date().toISOString();
+
+    return normalized.map(doi => this.statusFromNotices(doi, notices.get(doi) || [], source.id, checkedAt));
+  }
+
+  static statusFromNotices(doi: string, notices: RetractionNotice[], source: string, checkedAt: string): RetractionStatus {
+    const types = new Set(notices.map(notice => notice.type));
+    const status: RetractionStatus['status'] =
+      types.has('retraction') || types.has('withdrawal') ? 'retracted'
+        : types.has('expression-of-concern') ? 'expression-of-concern'
+        : types.has('correction') ? 'corrected'
+        : 'none';
+
+    return { doi, status, notices, source, checkedAt };
+  }
+
+  /** DOIs mentioned in the paper text other than its own, in order of first mention. */
+  static extractCitedDois(content: string, ownDoi?: string | null): string[] {
+    const own = PaperIdentityService.normalizeDoi(ownDoi);
+    const found = new Set<string>();
+    // PDF extraction often breaks long DOIs across lines at a slash or hyphen
+    const text = content.replace(/([/-])\s*\n\s*/g, '$1');
+
+    for (const match of text.matchAll(/\b10\.\d{4,9}\/[^\s"<>]+/g)) {
+      const doi = PaperIdentityService.normalizeDoi(match[0].replace(/[)\]]+$/, ''));
+      if (doi && doi !== own) found.add(doi);
+      if (found.size >= this.MAX_CITED_DOIS) break;
+    }
+
+    return Array.from(found);
+  }
+
+  /**
+   * Checks the paper's own DOI and, when text is given, the DOIs it cites.
+   * Only cited works with a notice are returned.
+   */
+  static async checkPaper(paper: Paper, content?: string): Promise<Pick<PaperMetadata, 'retraction' | 'citedRetractions'>> {
+    const ownDoi = PaperIdentityService.normalizeDoi(paper.doi);
+    const cited = content ? this.extractCitedDois(content, ownDoi) : [];
+    const results = await this.checkDois([...(ownDoi ? [ownDoi] : []), ...cited]);
+
+    return {
+      retraction: ownDoi ? results.find(result => result.doi === ownDoi) : undefined,
+      ...(content ? { citedRetractions: results.filter(result => result.doi !== ownDoi && result.status !== 'none') } : {})
+    };
+  }
+
+  /**
+   * Stores a check on the paper and, when its status has got worse, flags its
+   * latest analysis and notifies everyone in workspaces that contain it. Only
+   * the retraction keys are written; the returned paper carries the stored
+   * metadata, including keys the caller's copy did not have yet.
+   */
+  static async recordCheck(paper: Paper, result: Pick<PaperMetadata, 'retraction' | 'citedRetractions'>): Promise<Paper> {
+    const patch: Partial<PaperMetadata> = {
+      ...(result.retraction ? { retraction: result.retraction } : {}),
+      ...(result.citedRetractions ? { citedRetractions: result.citedRetractions } : {})
+    };
+    const updated = { ...paper, metadata: { ...paper.metadata, ...patch } };
+
+    if (paper.id.startsWith('temp-')) return updated;
+
+    try {
+      // The caller's copy may predate the last stored check, which would notify again
+      const { data: stored } = await supabase
+        .from('papers')
+        .select('metadata')
+        .eq('id', paper.id)
+        .maybeSingle();
+      const previous = stored ? stored.metadata?.retraction : paper.metadata?.retraction;
+
+      const metadata = await PaperMetadataService.merge(paper.id, patch);
+
+      if (result.retraction && this.hasWorsened(previous, result.retraction)) {
+        console.log(`🚩 ${paper.title} is now ${result.retraction.status}`);
+        await this.flagLatestSummary(paper.id, result.retraction);
+        await this.notifyWorkspaces(paper, result.retraction);
+      }
+
+      if (metadata) {
+        return { ...paper, metadata };
+      }
+    } catch (error) {
+      console.error('Error saving retraction status:', error);
+    }
+
+    return updated;
+  }
+
+  /**
+   * The stored status for a paper, reloaded from the database and checked
+   * again when it is missing or older than STALE_AFTER_MS.
+   */
+  static async getStatus(paper: Paper): Promise<Pick<PaperMetadata, 'retraction' | 'citedRetractions'>> {
+    let current: Paper = paper;
+
+    if (!paper.id.startsWith('temp-')) {
+      const { data, error } = await supabase
+        .from('papers')
+        .select('metadata')
+        .eq('id', paper.id)
+        .maybeSingle();
+
+      if (error) {
+        console.warn('⚠️ Could not load stored retraction status:', error);
+      } else if (data) {
+        current = { ...paper, metadata: data.metadata };
+      }
+    }
+
+    const stored = current.metadata?.retraction;
+    const stale = !stored || Date.now() - new Date(stored.checkedAt).getTime() > this.STALE_AFTER_MS;
+    if (stale && PaperIdentityService.normalizeDoi(current.doi)) {
+      current = await this.recordCheck(current, await this.checkPaper(current));
+    }
+
+    return { retraction: current.metadata?.retraction, citedRetractions: current.metadata?.citedRetractions };
+  }
+
+  static hasWorsened(previous: RetractionStatus | undefined, next: RetractionStatus): boolean {
+    const rank = this.STATUS_RANK[next.status];
+    if (rank === 0) return false;
+    if (!previous) return true;
+    return rank > this.STATUS_RANK[previous.status] ||
+      (rank === this.STATUS_RANK[previous.status] && next.notices.length > previous.notices.length);
+  }
+
+  static toEthicsFlags(metadata?: Pick<PaperMetadata, 'retraction' | 'citedRetractions'>): LLMResponse['ethicsFlags'] {
+    const flags: LLMResponse['ethicsFlags'] = [];
+    const retraction = metadata?.retraction;
+
+    if (retraction && retraction.status !== 'none') {
+      flags.push(this.statusFlag(retraction));
+    }
+
+    const citedRetracted = (metadata?.citedRetractions || []).filter(cited => cited.status === 'retracted');
+    if (citedRetracted.length > 0) {
+      flags.push({
+        type: 'data-quality',
+        severity: 'medium',
+        description: `The paper cites ${citedRetracted.length} retracted ${citedRetracted.length === 1 ? 'work' : 'works'}: ${citedRetracted.map(cited => cited.doi).join(', ')}`,
+        recommendation: 'Check whether any conclusions depend on the retracted works and whether they were cited before or after retraction.',
+        sourceLocation: 'References'
+      });
+    }
+
+    return flags;
+  }
+
+  static describeNotice(notice: RetractionNotice): string {
+    const label = notice.label || notice.type.replace(/-/g, ' ');
+    return `${label.charAt(0).toUpperCase()}${label.slice(1)}${notice.date ? ` (${notice.date})` : ''}`;
+  }
+
+  /**
+   * Rechecks DOIs in the current user's library whose stored result is older
+   * than STALE_AFTER_MS. Runs at most once per RECHECK_INTERVAL_MS per browser
+   * unless forced. Returns the number of papers checked.
+   */
+  static async recheckLibrary(force = false): Promise<number> {
+    const lastRun = Number(localStorage.getItem(this.LAST_RECHECK_KEY) || 0);
+    if (!force && Date.now() - lastRun < this.RECHECK_INTERVAL_MS) {
+      return 0;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return 0;
+
+    localStorage.setItem(this.LAST_RECHECK_KEY, String(Date.now()));
+
+    try {
+      const { data, error } = await supabase
+        .from('papers')
+        .select('id, title, authors, doi, url, metadata')
+        .eq('metadata->>uploadedBy', user.id)
+        .not('doi', 'is', null);
+
+      if (error) throw error;
+
+      const staleBefore = Date.now() - this.STALE_AFTER_MS;
+      const stale = ((data || []) as Paper[])
+        .filter(paper => {
+          const checkedAt = paper.metadata?.retraction?.checkedAt;
+          return !checkedAt || new Date(checkedAt).getTime() < staleBefore;
+        })
+        .slice(0, this.RECHECK_BATCH);
+
+      if (stale.length === 0) return 0;
+
+      console.log(`🔎 Rechecking retraction status for ${stale.length} papers...`);
+      const results = await this.checkDois(stale.map(paper => paper.doi!));
+
+      for (const paper of stale) {
+        const doi = PaperIdentityService.normalizeDoi(paper.doi);
+        const retraction = results.find(result => result.doi === doi);
+        if (retraction) {
+          await this.recordCheck(paper, { retraction });
+        }
+      }
+
+      return stale.length;
+    } catch (error) {
+      console.error('Error rechecking retraction status:', error);
+      throw new Error('Failed to recheck retraction status');
+    }
+  }
+
+  private static statusFlag(retraction: RetractionStatus): LLMResponse['ethicsFlags'][number] {
+    const notice = retraction.notices.find(candidate =>
+      retraction.status === 'retracted' ? candidate.type === 'retraction' || candidate.type === 'withdrawal'
+        : retraction.status === 'expression-of-concern' ? candidate.type === 'expression-of-concern'
+        : candidate.type === 'correction'
+    );
+    const location = notice?.noticeDoi ? `Notice: https://doi.org/${notice.noticeDoi}` : `Checked via ${retraction.source}`;
+    const described = notice ? ` ${this.describeNotice(notice)}.` : '';
+
+    switch (retraction.status) {
+      case 'retracted':
+        return {
+          type: 'data-quality',
+          severity: 'high',
+          description: `This paper has been retracted.${described} Its findings should not be relied on.`,
+          recommendation: 'Read the retraction notice before using any result from this paper, and do not cite it as supporting evidence.',
+          sourceLocation: location
+        };
+      case 'expression-of-concern':
+        return {
+          type: 'data-quality',
+          severity: 'medium',
+          description: `The publisher has issued an expression of concern about this paper.${described}`,
+          recommendation: 'Read the notice and treat the affected results as unconfirmed until the concern is resolved.',
+          sourceLocation: location
+        };
+      default:
+        return {
+          type: 'data-quality',
+          severity: 'low',
+          description: `A correction to this paper has been published.${described}`,
+          recommendation: 'Check whether the correction changes any of the figures or conclusions summarised here.',
+          sourceLocation: location
+        };
+    }
+  }
+
+  // The insert/update trigger on summaries turns the new flag into an ethics alert
+  private static async flagLatestSummary(paperId: string, retraction: RetractionStatus): Promise<void> {
+    const { data, error } = await supabase
+      .from('summaries')
+      .select('id, ethics_flags')
+      .eq('paper_id', paperId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return;
+
+    const flag = this.statusFlag(retraction);
+    const existing = (data.ethics_flags || []) as EthicsFlag[];
+    if (existing.some(candidate => candidate.description === flag.description)) return;
+
+    const { error: updateError } = await supabase
+      .from('summaries')
+      .update({ ethics_flags: [...existing, flag] })
+      .eq('id', data.id);
+
+    if (updateError) throw updateError;
+  }
+
+  private static async notifyWorkspaces(paper: Paper, retraction: RetractionStatus): Promise<void> {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .select('id, name, owner_id, collaborators')
+      .contains('papers', JSON.stringify([paper.id]));
+
+    if (error) throw error;
+
+    const recipients = new Map<string, string>();
+    ((data || []) as WorkspaceRow[]).forEach(workspace => {
+      [workspace.owner_id, ...(workspace.collaborators || []).map(collaborator => collaborator.id)]
+        .filter(userId => userId && userId !== 'anonymous' && !recipients.has(userId))
+        .forEach(userId => recipients.set(userId, workspace.name));
+    });
+
+    const title = retraction.status === 'retracted' ? 'Paper retracted'
+      : retraction.status === 'expression-of-concern' ? 'Expression of concern issued'
+      : 'Correction published';
+
+    for (const [userId, workspaceName] of recipients) {
+      try {
+        await CollaborationService.createNotification(userId, {
+          type: 'retraction',
+          title,
+          message: `"${paper.title}" in workspace "${workspaceName}" now has a ${retraction.status.replace(/-/g, ' ')} notice`,
+          relatedId: paper.id
+        });
+      } catch (notifyError) {
+        console.error('Error sending retraction notification:', notifyError);
+      }
+    }
+  }
+}
+
+if (import.meta.env.VITE_RETRACTION_SNAPSHOT_URL) {
+  RetractionSourceRegistry.register(new SnapshotRetractionSource({
+    id: 'snapshot',
+    name: import.meta.env.VITE_RETRACTION_SNAPSHOT_NAME || 'Local retraction snapshot',
+    url: import.meta.env.VITE_RETRACTION_SNAPSHOT_URL
+  }));
+}
+
+RetractionSourceRegistry.register(new CrossrefRetractionSource());
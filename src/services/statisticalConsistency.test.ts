@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { StatisticalConsistencyService } from './statisticalConsistency';
+
+const checkOne = (text: string) => {
+  const checks = StatisticalConsistencyService.check(text);
+  expect(checks).toHaveLength(1);
+  return checks[0];
+};
+
+describe('StatisticalConsistencyService.check', () => {
+  it.each([
+    ['t', 'The groups differed, t(28) = 2.20, p = .04.'],
+    ['F', 'There was a main effect of dose, F(2, 57) = 4.12, p = .02.'],
+    ['chi2', 'Dropout differed by arm, χ2(1, N = 120) = 6.25, p = .012.'],
+    ['r', 'Latency correlated with intake, r(48) = .30, p = .03.'],
+    ['z', 'The Wilcoxon test was significant, z = 2.58, p = .01.']
+  ])('accepts a consistent %s result', (type, text) => {
+    const check = checkOne(text);
+
+    expect(check.type).toBe(type);
+    expect(check.status).toBe('consistent');
+  });
+
+  it.each([
+    ['t', 'The groups differed, t(28) = 2.20, p = .01.', 0.036],
+    ['F', 'There was a main effect of dose, F(2, 57) = 4.12, p = .03.', 0.021],
+    ['chi2', 'Dropout differed by arm, χ2(1, N = 120) = 6.25, p = .03.', 0.012],
+    ['r', 'Latency correlated with intake, r(48) = .30, p = .001.', 0.034],
+    ['z', 'The Wilcoxon test was significant, z = 2.50, p = .001.', 0.012]
+  ])('flags an inconsistent %s result that keeps its significance', (_type, text, computedP) => {
+    const check = checkOne(text);
+
+    expect(check.status).toBe('inconsistent');
+    expect(check.computedP).toBeCloseTo(computedP, 3);
+  });
+
+  it('flags a decision error when the recomputed p is on the other side of alpha', () => {
+    const check = checkOne('The interaction was significant, F(1, 30) = 1.2, p < .05.');
+
+    expect(check.status).toBe('decision-error');
+    expect(check.degreesOfFreedom).toEqual([1, 30]);
+    expect(check.computedP).toBeGreaterThan(0.25);
+  });
+
+  it('gives the reported value its rounding at the alpha boundary', () => {
+    // 3.84 gives p = .0500 (just above alpha) but 3.845 gives .0499, so "p < .05" is allowed
+    const boundary = checkOne('χ2(1) = 3.84, p < .05');
+    expect(boundary.computedP).toBeGreaterThan(StatisticalConsistencyService.ALPHA);
+    expect(boundary.status).toBe('consistent');
+    // Every value that rounds to 3.80 stays above alpha
+    expect(checkOne('χ2(1) = 3.80, p < .05').status).toBe('decision-error');
+    // z = 1.96 recomputes to p = .04999..., which "p = .05" reports correctly
+    expect(checkOne('z = 1.96, p = .05').status).toBe('consistent');
+  });
+
+  it('accepts halved p-values only when the paper mentions one-tailed tests', () => {
+    const result = 't(20) = 1.80, p = .04';
+
+    // Two-tailed p = .087, so without the mention this is a decision error
+    expect(checkOne(`As predicted, ${result}.`).status).toBe('decision-error');
+
+    const check = checkOne(`We used one-tailed tests throughout. As predicted, ${result}.`);
+    expect(check.status).toBe('consistent');
+    expect(check.oneTailed).toBe(true);
+  });
+});
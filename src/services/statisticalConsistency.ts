@@ -0,0 +1,358 @@
+import { PaperPage } from '../types';
+import { LLMResponse } from './llm';
+
+export type StatisticType = 't' | 'F' | 'chi2' | 'r' | 'z';
+
+export interface ReportedStatistic {
+  type: StatisticType;
+  degreesOfFreedom: number[];
+  value: number;
+  pComparison: '=' | '<' | '>';
+  pValue: number;
+  // Decimal places as reported, which bound how much each value was rounded
+  valueDecimals: number;
+  pDecimals: number;
+  oneTailed: boolean;
+  // Exact text as it appears in the paper, e.g. "t(28) = 2.20, p = .04"
+  text: string;
+  pageNumber?: number;
+  // Offsets into the page text when pages carry text, otherwise into the full content
+  charStart: number;
+  charEnd: number;
+}
+
+export interface StatisticalCheck extends ReportedStatistic {
+  computedP: number;
+  status: 'consistent' | 'inconsistent' | 'decision-error';
+}
+
+/**
+ * Recomputes p-values from reported test statistics and degrees of freedom,
+ * in the manner of statcheck. Runs entirely on the extracted text, so it
+ * works whether or not an AI provider is available.
+ *
+ * Reported values are taken to be rounded: a result is consistent when any
+ * statistic that rounds to the reported one yields a p-value that rounds to
+ * (or satisfies the bound of) the reported p-value.
+ */
+export class StatisticalConsistencyService {
+  static readonly ALPHA = 0.05;
+
+  private static readonly MAX_FLAGS = 10;
+
+  // Statistic, optional degrees of freedom, value, then the p-value, allowing
+  // one intervening effect size ("d = 0.41") and a tail note before the p
+  private static readonly STATISTIC_PATTERN = new RegExp(
+    '(?<![A-Za-z])(t|F|r|z|Z|χ\\s?2|χ²|X2|[Cc]hi[- ]?squared?|[Cc]hi2)' +
+    '\\s*(?:\\(\\s*([^()]{1,30}?)\\s*\\))?' +
+    '\\s*=\\s*([-−–]?\\s?\\d*\\.?\\d+)' +
+    '\\s*[,;]\\s*(?:[A-Za-zηω²2]{1,6}\\s*=\\s*[-−–]?\\d*\\.?\\d+\\s*[,;]\\s*)?' +
+    '(?:(one|two)[- ](?:tailed|sided)\\s*)?' +
+    '[pP]\\s*([=<>≤≥])\\s*(\\d*\\.?\\d+(?:\\s?[eE]\\s?[-−]?\\d+)?)',
+    'g'
+  );
+
+  private static readonly ONE_TAILED_PATTERN = /\b(one[- ]tailed|one[- ]sided|directional (?:test|hypothes[ie]s))\b/i;
+
+  static extract(content: string, pages?: PaperPage[]): ReportedStatistic[] {
+    const usablePages = (pages || []).filter(page => typeof page.text === 'string' && page.text.trim().length > 0);
+    const sources = usablePages.length > 0
+      ? usablePages.map(page => ({ text: page.text as string, pageNumber: page.pageNumber as number | undefined }))
+      : [{ text: content || '', pageNumber: undefined }];
+
+    const statistics: ReportedStatistic[] = [];
+    sources.forEach(source => {
+      for (const match of source.text.matchAll(this.STATISTIC_PATTERN)) {
+        const parsed = this.parseMatch(match);
+        if (!parsed) continue;
+        const start = match.index ?? 0;
+        statistics.push({
+          ...parsed,
+          text: match[0].replace(/\s+/g, ' '),
+          pageNumber: source.pageNumber,
+          charStart: start,
+          charEnd: start + match[0].length
+        });
+      }
+    });
+
+    return statistics;
+  }
+
+  /**
+   * Checks every reported statistic in the text. One-tailed p-values are
+   * accepted for t, r and z when the paper says it used one-tailed tests.
+   */
+  static check(content: string, pages?: PaperPage[]): StatisticalCheck[] {
+    const mentionsOneTailed = this.ONE_TAILED_PATTERN.test(content || '');
+    const checks = this.extract(content, pages).map(statistic => this.checkStatistic(statistic, mentionsOneTailed));
+
+    const counts = checks.reduce((acc, c) => ({ ...acc, [c.status]: (acc[c.status] || 0) + 1 }), {} as Record<string, number>);
+    console.log(`🧮 Statistical consistency: ${checks.length} results, ${counts.inconsistent || 0} inconsistent, ${counts['decision-error'] || 0} decision errors`);
+
+    return checks;
+  }
+
+  /** Decision errors first; anything past the cap is summarised in one extra flag. */
+  static toEthicsFlags(checks: StatisticalCheck[]): LLMResponse['ethicsFlags'] {
+    const findings = checks
+      .filter(check => check.status !== 'consistent')
+      .sort((a, b) => (a.status === 'decision-error' ? 0 : 1) - (b.status === 'decision-error' ? 0 : 1));
+
+    const flags: LLMResponse['ethicsFlags'] = findings.slice(0, this.MAX_FLAGS).map(check => ({
+      type: 'data-quality' as const,
+      severity: check.status === 'decision-error' ? 'high' as const : 'medium' as const,
+      description: check.status === 'decision-error'
+        ? `Decision error: the reported result "${check.text}" recomputes to p = ${this.formatP(check.computedP)}${check.oneTailed ? ' (one-tailed)' : ''}, which is ${check.computedP < this.ALPHA ? 'significant' : 'not significant'} at α = ${String(this.ALPHA).replace(/^0/, '')}, unlike the reported p-value`
+        : `Inconsistent p-value: the reported result "${check.text}" recomputes to p = ${this.formatP(check.computedP)}${check.oneTailed ? ' (one-tailed)' : ''}`,
+      recommendation: check.status === 'decision-error'
+        ? 'Recompute this test and correct the statistic, degrees of freedom or p-value; conclusions drawn from its significance may change'
+        : 'Check the statistic, degrees of freedom and p-value for a transcription or rounding error',
+      sourceLocation: this.describeLocation(check),
+      ...(check.pageNumber ? { sourcePages: [check.pageNumber] } : {})
+    }));
+
+    const remaining = findings.slice(this.MAX_FLAGS);
+    if (remaining.length > 0) {
+      const pages = Array.from(new Set(remaining.map(check => check.pageNumber).filter((page): page is number => !!page))).sort((a, b) => a - b);
+      flags.push({
+        type: 'data-quality',
+        severity: remaining.some(check => check.status === 'decision-error') ? 'high' : 'medium',
+        description: `${remaining.length} further reported results do not match the p-values recomputed from their test statistics: ${remaining.map(check => `"${check.text}"`).join('; ')}`,
+        recommendation: 'Recompute these tests and correct the reported values',
+        sourceLocation: pages.length > 0 ? `Pages ${pages.join(', ')}` : 'Throughout the results',
+        ...(pages.length > 0 ? { sourcePages: pages } : {})
+      });
+    }
+
+    return flags;
+  }
+
+  private static parseMatch(match: RegExpMatchArray): Omit<ReportedStatistic, 'text' | 'pageNumber' | 'charStart' | 'charEnd'> | null {
+    const [, rawType, rawDf, rawValue, tail, comparison, rawP] = match;
+    const type: StatisticType = /^[tFrz]$/.test(rawType) ? rawType as StatisticType : rawType === 'Z' ? 'z' : 'chi2';
+
+    // Chi-square often carries the sample size alongside df: "χ2(1, N = 120)"
+    const degreesOfFreedom = (rawDf || '')
+      .split(/[,;]/)
+      .filter(part => !/[Nn]\s*=/.test(part))
+      .map(part => parseFloat(part.trim()))
+      .filter(value => !isNaN(value));
+    const expected = type === 'F' ? 2 : type === 'z' ? 0 : 1;
+    if (degreesOfFreedom.length !== expected || degreesOfFreedom.some(df => df <= 0)) return null;
+
+    const value = Math.abs(this.parseNumber(rawValue));
+    const pValue = this.parseNumber(rawP);
+    if (isNaN(value) || isNaN(pValue) || pValue > 1) return null;
+    if (type === 'r' && value > 1) return null;
+
+    return {
+      type,
+      degreesOfFreedom,
+      value,
+      valueDecimals: this.decimals(rawValue),
+      pDecimals: this.decimals(rawP),
+      pComparison: comparison === '≤' ? '<' : comparison === '≥' ? '>' : comparison as '=' | '<' | '>',
+      pValue,
+      oneTailed: tail === 'one'
+    };
+  }
+
+  private static checkStatistic(statistic: ReportedStatistic, mentionsOneTailed: boolean): StatisticalCheck {
+    const [low, high] = this.roundingRange(statistic.value, statistic.valueDecimals, statistic.type === 'r' ? 1 : Infinity);
+
+    const evaluate = (oneTailed: boolean) => {
+      const factor = oneTailed ? 0.5 : 1;
+      // p falls as the statistic grows, so the upper bound gives the smallest p
+      const pMin = this.pValue(statistic.type, high, statistic.degreesOfFreedom) * factor;
+      const pMax = this.pValue(statistic.type, low, statistic.degreesOfFreedom) * factor;
+      const computedP = this.pValue(statistic.type, statistic.value, statistic.degreesOfFreedom) * factor;
+      return { pMin, pMax, computedP, consistent: this.matchesReported(statistic, pMin, pMax) };
+    };
+
+    const canBeOneTailed = statistic.type === 't' || statistic.type === 'r' || statistic.type === 'z';
+    let oneTailed = statistic.oneTailed && canBeOneTailed;
+    let result = evaluate(oneTailed);
+    if (!result.consistent && !oneTailed && canBeOneTailed && mentionsOneTailed) {
+      const halved = evaluate(true);
+      if (halved.consistent) {
+        oneTailed = true;
+        result = halved;
+      }
+    }
+
+    if (result.consistent) {
+      return { ...statistic, oneTailed, computedP: result.computedP, status: 'consistent' };
+    }
+
+    return {
+      ...statistic,
+      oneTailed,
+      computedP: result.computedP,
+      status: this.isDecisionError(statistic, result.pMin, result.pMax) ? 'decision-error' : 'inconsistent'
+    };
+  }
+
+  private static matchesReported(statistic: ReportedStatistic, pMin: number, pMax: number): boolean {
+    switch (statistic.pComparison) {
+      case '<':
+        return pMin < statistic.pValue;
+      case '>':
+        return pMax > statistic.pValue;
+      default: {
+        const halfUnit = 0.5 * Math.pow(10, -statistic.pDecimals);
+        return pMax >= statistic.pValue - halfUnit && pMin <= statistic.pValue + halfUnit;
+      }
+    }
+  }
+
+  /**
+   * Significance flips only when every rounding of the statistic lands on the
+   * other side of alpha. "p = .05" counts as reported significant.
+   */
+  private static isDecisionError(statistic: ReportedStatistic, pMin: number, pMax: number): boolean {
+    let reportedSignificant: boolean;
+    if (statistic.pComparison === '>') {
+      if (statistic.pValue < this.ALPHA) return false;
+      reportedSignificant = false;
+    } else {
+      reportedSignificant = statistic.pValue <= this.ALPHA;
+    }
+
+    return reportedSignificant ? pMin >= this.ALPHA : pMax < this.ALPHA;
+  }
+
+  private static pValue(type: StatisticType, value: number, df: number[]): number {
+    switch (type) {
+      case 't':
+        return this.incompleteBeta(df[0] / 2, 0.5, df[0] / (df[0] + value * value));
+      case 'F':
+        return this.incompleteBeta(df[1] / 2, df[0] / 2, df[1] / (df[1] + df[0] * value));
+      case 'chi2':
+        return this.upperGamma(df[0] / 2, value / 2);
+      case 'r': {
+        if (value >= 1) return 0;
+        const t = value * Math.sqrt(df[0] / (1 - value * value));
+        return this.incompleteBeta(df[0] / 2, 0.5, df[0] / (df[0] + t * t));
+      }
+      case 'z':
+        return this.erfc(value / Math.SQRT2);
+    }
+  }
+
+  private static roundingRange(value: number, decimals: number, max: number): [number, number] {
+    const halfUnit = 0.5 * Math.pow(10, -decimals);
+    return [Math.max(0, value - halfUnit), Math.min(max, value + halfUnit)];
+  }
+
+  private static decimals(raw: string): number {
+    const mantissa = raw.replace(/\s+/g, '').split(/[eE]/)[0];
+    const dot = mantissa.indexOf('.');
+    return dot === -1 ? 0 : mantissa.length - dot - 1;
+  }
+
+  private static parseNumber(raw: string): number {
+    return parseFloat(raw.replace(/[−–]/g, '-').replace(/\s+/g, ''));
+  }
+
+  private static formatP(p: number): string {
+    if (p < 0.001) return '< .001';
+    return p.toFixed(3).replace(/^0/, '');
+  }
+
+  private static describeLocation(check: StatisticalCheck): string {
+    const span = `characters ${check.charStart}–${check.charEnd}`;
+    return check.pageNumber ? `Page ${check.pageNumber}, ${span}: "${check.text}"` : `Paper text, ${span}: "${check.text}"`;
+  }
+
+  // Regularised incomplete beta I_x(a, b) (Numerical Recipes, continued fraction)
+  private static incompleteBeta(a: number, b: number, x: number): number {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(this.logGamma(a + b) - this.logGamma(a) - this.logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+    return x < (a + 1) / (a + b + 2)
+      ? front * this.betaContinuedFraction(a, b, x) / a
+      : 1 - front * this.betaContinuedFraction(b, a, 1 - x) / b;
+  }
+
+  private static betaContinuedFraction(a: number, b: number, x: number): number {
+    const tiny = 1e-300;
+    const clamp = (value: number) => Math.abs(value) < tiny ? tiny : value;
+    let c = 1;
+    let d = 1 / clamp(1 - (a + b) * x / (a + 1));
+    let h = d;
+
+    for (let m = 1; m <= 300; m++) {
+      const m2 = 2 * m;
+      let aa = m * (b - m) * x / ((a - 1 + m2) * (a + m2));
+      d = 1 / clamp(1 + aa * d);
+      c = clamp(1 + aa / c);
+      h *= d * c;
+
+      aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + 1 + m2));
+      d = 1 / clamp(1 + aa * d);
+      c = clamp(1 + aa / c);
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < 3e-14) break;
+    }
+
+    return h;
+  }
+
+  // Regularised upper incomplete gamma Q(a, x)
+  private static upperGamma(a: number, x: number): number {
+    if (x <= 0) return 1;
+    const front = Math.exp(-x + a * Math.log(x) - this.logGamma(a));
+
+    if (x < a + 1) {
+      let term = 1 / a;
+      let sum = term;
+      for (let n = 1; n <= 500 && Math.abs(term) > Math.abs(sum) * 3e-14; n++) {
+        term *= x / (a + n);
+        sum += term;
+      }
+      return 1 - sum * front;
+    }
+
+    const tiny = 1e-300;
+    let b = x + 1 - a;
+    let c = 1 / tiny;
+    let d = 1 / b;
+    let h = d;
+    for (let i = 1; i <= 500; i++) {
+      const an = -i * (i - a);
+      b += 2;
+      d = an * d + b;
+      if (Math.abs(d) < tiny) d = tiny;
+      c = b + an / c;
+      if (Math.abs(c) < tiny) c = tiny;
+      d = 1 / d;
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < 3e-14) break;
+    }
+    return front * h;
+  }
+
+  // Lanczos approximation
+  private static logGamma(x: number): number {
+    const coefficients = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.001208650973866179, -0.000005395239384953];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    coefficients.forEach(coefficient => {
+      series += coefficient / ++y;
+    });
+    return -tmp + Math.log(Math.sqrt(2 * Math.PI) * series / x);
+  }
+
+  // Complementary error function, fractional error below 1.2e-7
+  private static erfc(x: number): number {
+    const z = Math.abs(x);
+    const t = 1 / (1 + 0.5 * z);
+    const result = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+      t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+    return x >= 0 ? result : 2 - result;
+  }
+}
@@ -0,0 +1,103 @@
+import { EthicsFlag, KeyPoint, ListDiff, Summary, SummaryDiff } from '../types';
+import { PaperRetrievalService } from './paperRetrieval';
+
+/**
+ * Compares two analyses of the same paper. Items are paired by identical text
+ * first and then by shared stemmed terms, so reworded key points show up as
+ * changed rather than as one removal and one addition.
+ */
+export class SummaryDiffService {
+  // Share of the shorter statement's terms that must overlap for two items to be paired
+  private static readonly MATCH_THRESHOLD = 0.5;
+
+  static diff(from: Summary, to: Summary): SummaryDiff {
+    return {
+      from,
+      to,
+      keyPoints: this.diffLists<KeyPoint>(
+        from.keyPoints,
+        to.keyPoints,
+        point => point.content,
+        (a, b) => a.content === b.content && a.importance === b.importance
+      ),
+      ethicsFlags: this.diffLists<EthicsFlag>(
+        from.ethicsFlags,
+        to.ethicsFlags,
+        flag => `${flag.type} ${flag.description}`,
+        (a, b) => a.type === b.type && a.severity === b.severity && a.description === b.description,
+        (a, b) => a.type === b.type
+      ),
+      limitations: this.diffLists<string>(from.limitations, to.limitations, text => text, (a, b) => a === b),
+      confidence: {
+        before: from.confidence,
+        after: to.confidence,
+        delta: to.confidence - from.confidence
+      }
+    };
+  }
+
+  private static diffLists<T>(
+    before: T[],
+    after: T[],
+    text: (item: T) => string,
+    same: (a: T, b: T) => boolean,
+    comparable: (a: T, b: T) => boolean = () => true
+  ): ListDiff<T> {
+    const remaining = after.map((item, index) => ({ item, index, terms: new Set(PaperRetrievalService.terms(text(item))) }));
+    const pairs: Array<{ before: T; after: T }> = [];
+    const removed: T[] = [];
+    const unmatched: T[] = [];
+
+    // Identical text pairs first so near-duplicates cannot claim them
+    before.forEach(item => {
+      const exact = remaining.findIndex(candidate => this.normalize(text(candidate.item)) === this.normalize(text(item)) && comparable(item, candidate.item));
+      if (exact >= 0) {
+        pairs.push({ before: item, after: remaining[exact].item });
+        remaining.splice(exact, 1);
+      } else {
+        unmatched.push(item);
+      }
+    });
+
+    unmatched.forEach(item => {
+      const terms = new Set(PaperRetrievalService.terms(text(item)));
+      let best: { position: number; score: number } | null = null;
+
+      for (let position = 0; position < remaining.length; position++) {
+        if (!comparable(item, remaining[position].item)) continue;
+        const score = this.overlap(terms, remaining[position].terms);
+        if (score >= this.MATCH_THRESHOLD && (!best || score > best.score)) {
+          best = { position, score };
+        }
+      }
+
+      if (best) {
+        pairs.push({ before: item, after: remaining[best.position].item });
+        remaining.splice(best.position, 1);
+      } else {
+        removed.push(item);
+      }
+    });
+
+    const changed = pairs.filter(pair => !same(pair.before, pair.after));
+    return {
+      added: remaining.sort((a, b) => a.index - b.index).map(candidate => candidate.item),
+      removed,
+      changed,
+      unchanged: pairs.length - changed.length
+    };
+  }
+
+  private static normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+
+  private static overlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    let shared = 0;
+    a.forEach(term => {
+      if (b.has(term)) shared++;
+    });
+    return shared / Math.min(a.size, b.size);
+  }
+}
@@ -7,6 +7,55 @@ export interface Paper {
   uploadedFile?: File;
   content?: string;
   metadata?: PaperMetadata;
+  // Set when the uploaded or fetched paper was already known for this user
+  duplicate?: DuplicatePaperInfo;
+}
+
+export interface DuplicatePaperInfo {
+  matchedBy: 'content' | 'doi';
+  inLibrary: boolean;
+  workspaces: Array<{ id: string; name: string }>;
+  analysisCount: number;
+  lastAnalyzedAt?: Date;
+}
+
+export interface AnalysisOptions {
+  // Skip the analysis cache and call the model again
+  force?: boolean;
+  // Defaults to the general profile
+  profile?: AnalysisProfileId;
+}
+
+// The paper as stored after analysis (fetched full text, extracted layout,
+// retraction checks) together with its summary
+export interface AnalysisResult {
+  paper: Paper;
+  summary: Summary;
+}
+
+export type AnalysisProfileId = 'general' | 'clinical-trial' | 'ml-paper' | 'qualitative' | 'systematic-review';
+
+export interface AnalysisCheck {
+  id: string;
+  label: string;
+  // Ethics flag type recorded when the check fails
+  category: EthicsFlag['type'];
+  question: string;
+}
+
+export interface AnalysisProfile {
+  id: AnalysisProfileId;
+  name: string;
+  description: string;
+  // Extra instructions added to the analysis prompt
+  focus: string;
+  expectedSections: string[];
+  checks: AnalysisCheck[];
+}
+
+export interface ProfileSuggestion {
+  profileId: AnalysisProfileId;
+  reason: string;
 }
 
 export interface PaperMetadata {
@@ -14,7 +63,159 @@ export interface PaperMetadata {
   journal?: string;
   citations?: number;
   keywords?: string[];
+  // arXiv subject categories, e.g. cs.LG
+  categories?: string[];
   abstract?: string;
+  pages?: PaperPage[];
+  disclosures?: DisclosureStatements;
+  retraction?: RetractionStatus;
+  // Works cited in the paper that have been retracted or carry a notice
+  citedRetractions?: RetractionStatus[];
+  references?: ParsedReference[];
+  // Section tree detected from the PDF layout
+  sections?: DocumentSection[];
+  captions?: FigureCaption[];
+  tables?: ExtractedTable[];
+  // Format of the uploaded file; unset for papers added by identifier
+  format?: DocumentFormat;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'latex' | 'html' | 'jats';
+
+// What the PDF layout analysis found, passed to the analysis alongside the text
+export type DocumentLayout = Pick<PaperMetadata, 'sections' | 'captions' | 'tables'>;
+
+export interface FigureCaption {
+  kind: 'table' | 'figure';
+  // "Table 2", "Figure 3", "Table S1"
+  label: string;
+  number: string;
+  text: string;
+  // 0 in formats without pages
+  pageNumber: number;
+}
+
+export interface ExtractedTable {
+  // From the caption found with the table; undefined for uncaptioned tables
+  label?: string;
+  caption?: string;
+  // 0 in formats without pages
+  pageNumber: number;
+  // First row is usually the header
+  rows: string[][];
+}
+
+export interface DocumentSection {
+  // Heading text without its number
+  title: string;
+  // "2.1", "IV" or undefined for unnumbered headings
+  number?: string;
+  level: number;
+  // 0 in formats without pages (DOCX, LaTeX, HTML, JATS)
+  pageStart: number;
+  pageEnd: number;
+  // Offset of the heading in its page's text, or in the full text when there are no pages
+  charStart: number;
+  children: DocumentSection[];
+}
+
+// Where an in-text citation marker points at a reference list entry
+export interface ReferenceMention {
+  pageNumber?: number;
+  charStart: number;
+  context: string;
+}
+
+export interface ParsedReference {
+  // Position in the reference list, starting at 1
+  index: number;
+  // How the paper cites it: "12" for numbered styles, "Smith et al., 2020" for author-year
+  label: string;
+  raw: string;
+  authors: string[];
+  title?: string;
+  year?: string;
+  venue?: string;
+  doi?: string;
+  // 'text' when the DOI was printed in the reference, 'crossref' when it was looked up
+  doiSource?: 'text' | 'crossref';
+  mentionCount: number;
+  // First few in-text citations of this entry
+  mentions: ReferenceMention[];
+}
+
+export interface CitationGraphNode {
+  paperId: string;
+  title: string;
+  year?: string;
+  referenceCount: number;
+}
+
+export interface CitationGraphEdge {
+  // The citing paper and the workspace paper it cites
+  from: string;
+  to: string;
+  referenceIndex: number;
+  matchedBy: 'doi' | 'title';
+}
+
+export interface SharedReference {
+  key: string;
+  reference: ParsedReference;
+  citedBy: string[];
+}
+
+export interface CitationGraph {
+  nodes: CitationGraphNode[];
+  edges: CitationGraphEdge[];
+  sharedReferences: SharedReference[];
+}
+
+export type RetractionNoticeType = 'retraction' | 'withdrawal' | 'expression-of-concern' | 'correction';
+
+export interface RetractionNotice {
+  type: RetractionNoticeType;
+  // DOI of the notice itself, when the source knows it
+  noticeDoi?: string;
+  date?: string;
+  label?: string;
+}
+
+export interface RetractionStatus {
+  doi: string;
+  status: 'retracted' | 'expression-of-concern' | 'corrected' | 'none';
+  notices: RetractionNotice[];
+  // Id of the lookup source that answered, e.g. crossref
+  source: string;
+  checkedAt: string;
+}
+
+export type DisclosureType =
+  | 'funding'
+  | 'competingInterests'
+  | 'dataAvailability'
+  | 'codeAvailability'
+  | 'ethicsApproval'
+  | 'trialRegistration';
+
+export interface DisclosureStatement {
+  text: string;
+  pageNumber?: number;
+  // Generic wording that discloses nothing, e.g. "data are available on request"
+  boilerplate: boolean;
+  // Grant numbers, approval references, registry ids or repository links
+  identifiers: string[];
+}
+
+export type DisclosureStatements = Partial<Record<DisclosureType, DisclosureStatement>>;
+
+export interface PaperPage {
+  pageNumber: number;
+  text: string;
+  wordCount: number;
+  // Pages without a text layer are read by OCR; quotes from them may contain recognition errors
+  source?: 'text' | 'ocr';
+  ocrConfidence?: number;
 }
 
 export interface Summary {
@@ -32,6 +233,39 @@ export interface Summary {
   isShared?: boolean;
   sharedBy?: string;
   collaborators?: Collaborator[];
+  degraded?: DegradedField[];
+  // True when a stored analysis of the same text, model, profile and prompt version was returned instead of calling the model
+  fromCache?: boolean;
+  // Position among the paper's analyses, starting at 1
+  version?: number;
+  provider?: string;
+  model?: string;
+  profile?: AnalysisProfileId;
+  // Only loaded for exports
+  guidelineAssessments?: GuidelineAssessment[];
+}
+
+export interface ListDiff<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<{ before: T; after: T }>;
+  unchanged: number;
+}
+
+// Structured differences between two versions of a paper's analysis
+export interface SummaryDiff {
+  from: Summary;
+  to: Summary;
+  keyPoints: ListDiff<KeyPoint>;
+  ethicsFlags: ListDiff<EthicsFlag>;
+  limitations: ListDiff<string>;
+  confidence: { before: number; after: number; delta: number };
+}
+
+// A value that was synthesized or defaulted instead of produced by the model
+export interface DegradedField {
+  path: string;
+  reason: string;
 }
 
 export interface KeyPoint {
@@ -40,6 +274,8 @@ export interface KeyPoint {
   importance: 'high' | 'medium' | 'low';
   sourceSection: string;
   confidence: number;
+  sourcePages?: number[];
+  chunkIndex?: number;
 }
 
 export interface Citation {
@@ -48,6 +284,79 @@ export interface Citation {
   sourceLocation: string;
   pageNumber?: number;
   confidence: number;
+  chunkIndex?: number;
+  verification?: QuoteVerification;
+}
+
+/**
+ * Result of checking a quote against the extracted paper text. Character offsets
+ * are relative to the text of `pageNumber` when the paper has page text, otherwise
+ * to the paper content; a quote running onto the next page ends past the page length.
+ */
+export interface QuoteVerification {
+  // 'too_short': fewer words than a match would need to count as evidence
+  status: 'verified' | 'approximate' | 'not_found' | 'too_short';
+  score: number;
+  pageNumber?: number;
+  charStart?: number;
+  charEnd?: number;
+  matchedText?: string;
+  // Set when the matched page was read by OCR
+  ocrConfidence?: number;
+}
+
+export type GuidelineItemStatus = 'present' | 'partial' | 'missing';
+
+export interface ReportingGuidelineItem {
+  id: string;
+  section: string;
+  topic: string;
+  description: string;
+  // Groups of alternative phrases; an item is fully covered when every group has a match
+  keywords: string[][];
+}
+
+/** A reporting checklist loaded from src/data/reportingGuidelines/*.json. */
+export interface ReportingGuideline {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  url?: string;
+  suggestWhen?: {
+    profiles?: AnalysisProfileId[];
+    phrases?: string[];
+  };
+  items: ReportingGuidelineItem[];
+}
+
+export interface GuidelineItemResult {
+  itemId: string;
+  section: string;
+  topic: string;
+  description: string;
+  status: GuidelineItemStatus;
+  evidence?: string;
+  pageNumber?: number;
+  verification?: QuoteVerification;
+  rationale?: string;
+  assessedBy: 'model' | 'keywords';
+}
+
+export interface GuidelineAssessment {
+  id: string;
+  summaryId: string;
+  paperId: string;
+  guidelineId: string;
+  guidelineName: string;
+  guidelineVersion: string;
+  // Share of items reported, counting partial items as half
+  score: number;
+  counts: Record<GuidelineItemStatus, number>;
+  items: GuidelineItemResult[];
+  provider?: string;
+  model?: string;
+  createdAt: Date;
 }
 
 export interface EthicsFlag {
@@ -57,6 +366,45 @@ export interface EthicsFlag {
   description: string;
   recommendation: string;
   sourceLocation?: string;
+  sourcePages?: number[];
+  chunkIndex?: number;
+  // Analysis profile check that raised the flag
+  check?: string;
+}
+
+export type EthicsAlertStatus = 'pending' | 'reviewed' | 'resolved' | 'dismissed';
+
+// An ethics flag on a stored summary, tracked through admin review
+export interface EthicsAlert {
+  id: string;
+  summaryId: string;
+  paperId: string;
+  paperTitle: string;
+  flagIndex: number;
+  flagType: string;
+  severity: 'high' | 'medium' | 'low';
+  description: string;
+  recommendation?: string;
+  sourceLocation?: string;
+  status: EthicsAlertStatus;
+  assignee?: string;
+  reviewerNotes?: string;
+  authorId?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface EthicsAlertEvent {
+  id: string;
+  alertId: string;
+  actorId: string;
+  action: 'status_changed' | 'assigned' | 'note_added';
+  fromStatus?: EthicsAlertStatus;
+  toStatus?: EthicsAlertStatus;
+  note?: string;
+  createdAt: Date;
 }
 
 export interface ResearchGap {
@@ -87,6 +435,7 @@ export interface SourceReference {
   summaryReference: string;
   relevanceScore: number;
   location: string;
+  verification?: QuoteVerification;
 }
 
 export interface ConfidenceBreakdown {
@@ -122,6 +471,117 @@ export interface AIUsageDeclaration {
   submittedAt: Date;
 }
 
+// Follow-up questions asked about a summary in the Ask tab
+export interface PaperQuestion {
+  id: string;
+  summaryId: string;
+  userId: string;
+  question: string;
+  answer: string;
+  // False when the paper text did not support an answer; the answer then says so
+  grounded: boolean;
+  citations: AnswerCitation[];
+  provider?: string;
+  model?: string;
+  createdAt: Date;
+}
+
+export interface AnswerCitation {
+  quote: string;
+  pageNumber?: number;
+  verification?: QuoteVerification;
+}
+
+// Side-by-side comparison of 2-5 analysed papers launched from the history view
+export interface PaperComparison {
+  id: string;
+  title: string;
+  papers: ComparedPaper[];
+  matrix: ComparisonMatrix;
+  synthesis?: ComparisonSynthesis;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+}
+
+export interface ComparedPaper {
+  summaryId: string;
+  paperId: string;
+  title: string;
+  authors: string[];
+}
+
+// Every row has one cell per compared paper, in the order of PaperComparison.papers
+export interface ComparisonMatrix {
+  keyPoints: ComparisonRow<string[]>[];
+  limitations: ComparisonRow<string[]>[];
+  ethicsFlags: ComparisonRow<EthicsComparisonCell>[];
+  confidence: ComparisonRow<number | null>[];
+  researchGaps: ComparisonRow<string[]>[];
+}
+
+export interface ComparisonRow<T> {
+  label: string;
+  cells: T[];
+}
+
+export interface EthicsComparisonCell {
+  severity: 'high' | 'medium' | 'low' | null;
+  count: number;
+  descriptions: string[];
+}
+
+export interface ComparisonSynthesis {
+  overview: string;
+  agreements: Array<{ statement: string; papers: number[] }>;
+  contradictions: Array<{ topic: string; positions: Array<{ paper: number; position: string }> }>;
+  provider?: string;
+  model?: string;
+  generatedAt: Date;
+}
+
+// Versioned literature review over every analysed paper in a workspace
+export interface LiteratureReview {
+  id: string;
+  workspaceId: string;
+  version: number;
+  papers: ComparedPaper[];
+  overview: string;
+  themes: Array<{ title: string; summary: string; paperIds: string[] }>;
+  consensus: Array<{ finding: string; paperIds: string[] }>;
+  conflicts: Array<{ topic: string; positions: Array<{ paperId: string; position: string }> }>;
+  // Aggregated locally from the paper analyses, not generated by the model
+  ethicsFlags: Array<{ type: EthicsFlag['type']; severity: EthicsFlag['severity']; count: number; paperIds: string[] }>;
+  researchGaps: Array<{ gap: string; priority: ResearchGap['priority']; paperIds: string[] }>;
+  changes: {
+    mode: 'full' | 'incremental';
+    addedPaperIds: string[];
+    // Papers whose latest analysis is newer than the one the previous version used
+    updatedPaperIds?: string[];
+    removedPaperIds: string[];
+  };
+  provider?: string;
+  model?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+// A ranked match from library search, pointing at the passage, key point or flag it came from
+export interface LibrarySearchResult {
+  id: string;
+  paperId: string;
+  summaryId: string;
+  paperTitle: string;
+  source: 'passage' | 'summary' | 'key_point' | 'ethics_flag';
+  sourceIndex: number;
+  content: string;
+  pageStart?: number;
+  pageEnd?: number;
+  score: number;
+  semanticScore: number;
+  keywordScore: number;
+}
+
 export interface EducationalContent {
   id: string;
   topic: string;
@@ -170,7 +630,7 @@ export interface Comment {
   userEmail: string;
   userName?: string;
   content: string;
-  targetSection?: 'summary' | 'keyPoints' | 'ethics' | 'xai';
+  targetSection?: 'summary' | 'keyPoints' | 'ethics' | 'xai' | 'gaps';
   targetId?: string; // ID of specific key point, ethics flag, etc.
   parentId?: string; // For threaded comments
   createdAt: Date;
@@ -205,6 +665,9 @@ export interface ExportOptions {
     limitations: boolean;
     citations: boolean;
     ethicsAnalysis: boolean;
+    reportingGuidelines: boolean;
+    disclosures: boolean;
+    researchGaps: boolean;
     xaiData: boolean;
     comments: boolean;
     metadata: boolean;
@@ -229,7 +692,7 @@ export interface ActivityLog {
 export interface Notification {
   id: string;
   userId: string;
-  type: 'comment' | 'mention' | 'share' | 'invite' | 'update';
+  type: 'comment' | 'mention' | 'share' | 'invite' | 'update' | 'review' | 'retraction';
   title: string;
   message: string;
   relatedId?: string; // Summary ID, workspace ID, etc.
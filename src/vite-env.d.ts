@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+// Hosted LLM provider keys for direct mode, defined in vite.config.ts; empty in builds
+declare const __LLM_DIRECT_KEYS__: {
+  openai?: string;
+  gemini?: string;
+  anthropic?: string;
+};
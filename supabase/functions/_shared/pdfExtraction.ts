@@ -0,0 +1,272 @@
+// PDF text extraction shared by the browser PDFProcessor and the extract-pdf
+// edge function. Each side loads its own PDF.js build and passes the opened
+// document in, so both return the same result for the same file.
+//
+// Only relative imports (with their .ts extension) may be used here: the edge
+// function runs this under Deno and the app bundles it with Vite, and neither
+// can resolve the other's packages.
+
+import { PDFSection, PageLayoutInput, PdfTextItem, flattenSections, segmentPages } from './pdfLayout.ts'
+import { PDFCaption, PDFTable, extractTablesAndCaptions } from './pdfTables.ts'
+
+export type { PDFSection } from './pdfLayout.ts'
+export type { PDFCaption, PDFTable } from './pdfTables.ts'
+export { captionLabel, parseCaption } from './pdfTables.ts'
+
+// Every uploaded format is read into the PDF extraction's shape; only PDFs have pages
+export type DocumentFormat = 'pdf' | 'docx' | 'latex' | 'html' | 'jats'
+
+export interface PDFPageText {
+  pageNumber: number
+  text: string
+  wordCount: number
+  // 'ocr' when the page had no text layer and was read from its image (browser only)
+  source?: 'text' | 'ocr'
+  ocrConfidence?: number
+}
+
+export interface PDFDocumentStructure {
+  hasAbstract: boolean
+  hasIntroduction: boolean
+  hasMethodology: boolean
+  hasResults: boolean
+  hasConclusion: boolean
+  hasReferences: boolean
+  sections: string[]
+}
+
+export interface PDFDocumentExtraction {
+  text: string
+  metadata: {
+    title?: string
+    author?: string
+    subject?: string
+    keywords?: string
+    creator?: string
+    producer?: string
+    creationDate?: string
+    modificationDate?: string
+    // XMP properties by qualified name (dc:title, prism:doi, ...); lists are joined with "; "
+    xmp?: Record<string, string>
+    // Read from the document's own markup by the non-PDF extractors
+    authors?: string[]
+    abstract?: string
+    doi?: string
+    format?: DocumentFormat
+    // 0 for formats without pages
+    pageCount: number
+    wordCount: number
+    extractedAt: string
+    fileSize: number
+    fileName: string
+  }
+  pages: PDFPageText[]
+  structure: PDFDocumentStructure
+  // Section tree from the page layout; empty when no headings were found
+  sections: PDFSection[]
+  // Every table and figure caption, and the tables whose grid could be rebuilt
+  captions: PDFCaption[]
+  tables: PDFTable[]
+}
+
+// The parts of a PDF.js PDFDocumentProxy used here, so either build can be passed in
+export interface PdfDocumentLike {
+  numPages: number
+  getMetadata(): Promise<{ info?: object; metadata?: { getAll(): Record<string, unknown> } | null }>
+  getPage(pageNumber: number): Promise<{ view: number[]; getTextContent(): Promise<{ items: object[] }> }>
+}
+
+// The part of a PDF.js module used to open a file on the server
+export interface PdfJsLike {
+  getDocument(source: {
+    data: Uint8Array
+    verbosity: number
+    isEvalSupported: boolean
+    disableFontFace: boolean
+    useSystemFonts: boolean
+  }): { promise: Promise<PdfDocumentLike & { destroy(): Promise<void> }> }
+}
+
+const MAX_PAGES = 100
+const PAGE_BATCH_SIZE = 5
+
+// The extract-pdf edge function's entry point. It takes the PDF.js module so the
+// function can pass its esm.sh build and tests the npm legacy build.
+export async function extractFromPdfData(
+  pdfjs: PdfJsLike,
+  data: Uint8Array,
+  file: { name: string; size: number }
+): Promise<PDFDocumentExtraction> {
+  let pdf
+  try {
+    pdf = await pdfjs.getDocument({
+      data,
+      verbosity: 0,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false
+    }).promise
+  } catch (error) {
+    throw new Error(`PDF processing failed: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  try {
+    console.log(`✅ PDF loaded (${pdf.numPages} pages)`)
+    return await extractFromPdfDocument(pdf, file)
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+export async function extractFromPdfDocument(
+  pdf: PdfDocumentLike,
+  file: { name: string; size: number }
+): Promise<PDFDocumentExtraction> {
+  console.log('📋 Extracting metadata...')
+  let info: Record<string, unknown> = {}
+  let xmp: Record<string, string> | undefined
+  try {
+    const metadata = await pdf.getMetadata()
+    info = (metadata.info || {}) as Record<string, unknown>
+    xmp = metadata.metadata ? readXmp(metadata.metadata.getAll()) : undefined
+  } catch (metaError) {
+    console.warn('⚠️ Metadata extraction failed, using defaults', metaError)
+  }
+
+  console.log('📝 Extracting text from pages...')
+  const layouts: PageLayoutInput[] = []
+
+  const maxPages = Math.min(pdf.numPages, MAX_PAGES)
+  console.log(`📄 Processing ${maxPages} pages in batches of ${PAGE_BATCH_SIZE}`)
+
+  for (let startPage = 1; startPage <= maxPages; startPage += PAGE_BATCH_SIZE) {
+    const endPage = Math.min(startPage + PAGE_BATCH_SIZE - 1, maxPages)
+
+    const batch: Promise<PageLayoutInput>[] = []
+    for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
+      batch.push(extractPageLayout(pdf, pageNum))
+    }
+
+    // Page failures are caught per page, so the batch itself always resolves
+    layouts.push(...await Promise.all(batch))
+
+    // Small delay between batches to prevent blocking
+    if (endPage < maxPages) {
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+  }
+
+  console.log('🧭 Analysing page layout...')
+  const { pageTexts, sections } = segmentPages(layouts)
+  const pages: PDFPageText[] = layouts.map((layout, index) => ({
+    pageNumber: layout.pageNumber,
+    text: pageTexts[index],
+    wordCount: countWords(pageTexts[index]),
+    source: 'text'
+  }))
+  console.log(`🧭 Found ${flattenSections(sections).length} section headings`)
+
+  const { captions, tables } = extractTablesAndCaptions(layouts)
+  console.log(`📊 Found ${tables.length} tables and ${captions.length} captions`)
+
+  console.log('🧹 Cleaning extracted text...')
+  const fullText = cleanExtractedText(pageTexts.join('\n\n'))
+  const wordCount = countWords(fullText)
+  console.log(`📊 Extraction stats: ${wordCount} words from ${pages.length} pages`)
+
+  return {
+    text: fullText,
+    metadata: {
+      title: infoString(info.Title),
+      author: infoString(info.Author),
+      subject: infoString(info.Subject),
+      keywords: infoString(info.Keywords),
+      creator: infoString(info.Creator),
+      producer: infoString(info.Producer),
+      creationDate: infoString(info.CreationDate),
+      modificationDate: infoString(info.ModDate),
+      xmp,
+      pageCount: pages.length,
+      wordCount,
+      extractedAt: new Date().toISOString(),
+      fileSize: file.size,
+      fileName: file.name,
+      format: 'pdf'
+    },
+    pages,
+    structure: analyzeDocumentStructure(fullText, sections),
+    sections,
+    captions,
+    tables
+  }
+}
+
+async function extractPageLayout(pdf: PdfDocumentLike, pageNum: number): Promise<PageLayoutInput> {
+  try {
+    const page = await pdf.getPage(pageNum)
+    const textContent = await page.getTextContent()
+    return { pageNumber: pageNum, view: page.view, items: textContent.items as PdfTextItem[] }
+  } catch (error) {
+    console.warn(`⚠️ Failed to extract page ${pageNum}:`, error)
+    return { pageNumber: pageNum, view: [0, 0, 0, 0], items: [], failed: true }
+  }
+}
+
+function readXmp(properties: Record<string, unknown>): Record<string, string> | undefined {
+  const xmp: Record<string, string> = {}
+  Object.entries(properties || {}).forEach(([name, value]) => {
+    const text = Array.isArray(value) ? value.map(String).join('; ') : typeof value === 'string' ? value : ''
+    if (text.trim()) xmp[name] = text.trim()
+  })
+  return Object.keys(xmp).length > 0 ? xmp : undefined
+}
+
+function infoString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => word.length > 0).length
+}
+
+export function cleanExtractedText(text: string): string {
+  // Optimized text cleaning with fewer regex operations
+  return text
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .replace(/^\d+\s*$/gm, '') // Remove page numbers
+    .replace(/\n\s*\n/g, '\n\n') // Clean line breaks
+    .trim()
+}
+
+const SECTION_PATTERNS: Record<Exclude<keyof PDFDocumentStructure, 'sections'>, RegExp> = {
+  hasAbstract: /\b(abstract|summary)\b/i,
+  hasIntroduction: /\b(introduction|background)\b/i,
+  hasMethodology: /\b(methods?|methodology|materials|experimental|study design|approach|procedures?)\b/i,
+  hasResults: /\b(results?|findings|outcomes|evaluation|experiments)\b/i,
+  hasConclusion: /\b(conclusions?|concluding|discussion)\b/i,
+  hasReferences: /\b(references|bibliography|works cited|literature cited)\b/i
+}
+
+/**
+ * Which standard parts the paper has, judged from its section headings. Text
+ * without detected headings (OCR-only or unusual layouts) falls back to
+ * looking for the words anywhere.
+ */
+export function analyzeDocumentStructure(text: string, sections: PDFSection[] = []): PDFDocumentStructure {
+  const headings = flattenSections(sections)
+  const lowerText = text.toLowerCase()
+  const has = (key: keyof typeof SECTION_PATTERNS, words: string[]) =>
+    headings.length > 0
+      ? headings.some(section => SECTION_PATTERNS[key].test(section.title))
+      : words.some(word => lowerText.includes(word))
+
+  return {
+    hasAbstract: has('hasAbstract', ['abstract', 'summary']),
+    hasIntroduction: has('hasIntroduction', ['introduction', 'background']),
+    hasMethodology: has('hasMethodology', ['method', 'approach', 'procedure']),
+    hasResults: has('hasResults', ['results', 'findings', 'outcomes']),
+    hasConclusion: has('hasConclusion', ['conclusion', 'discussion']),
+    hasReferences: has('hasReferences', ['references', 'bibliography']),
+    sections: headings.map(section => (section.number ? `${section.number} ${section.title}` : section.title))
+  }
+}
@@ -0,0 +1,344 @@
+// Layout analysis of PDF.js text items: rebuilds lines in reading order
+// (including two-column pages), drops running headers, footers and page
+// numbers, and detects section headings from numbering and font size.
+//
+// Import-free for the same reason as pdfExtraction.ts.
+
+export interface PDFSection {
+  // Heading text without its number
+  title: string
+  // "2.1", "IV" or undefined for unnumbered headings
+  number?: string
+  // 1 for top-level sections
+  level: number
+  // 0 in formats without pages (DOCX, LaTeX, HTML, JATS)
+  pageStart: number
+  pageEnd: number
+  // Offset of the heading in its page's text, or in the full text when there are no pages
+  charStart: number
+  children: PDFSection[]
+}
+
+// A PDF.js TextItem; marked-content entries without `str` are skipped
+export interface PdfTextItem {
+  str?: string
+  transform?: number[]
+  width?: number
+  height?: number
+}
+
+export interface PageLayoutInput {
+  pageNumber: number
+  // PDF.js page.view: [xMin, yMin, xMax, yMax]
+  view: number[]
+  items: PdfTextItem[]
+  // Set when the page could not be read
+  failed?: boolean
+}
+
+export interface LayoutLine {
+  text: string
+  x0: number
+  x1: number
+  y: number
+  fontSize: number
+}
+
+interface Heading {
+  title: string
+  number?: string
+  level: number
+  pageNumber: number
+  charStart: number
+}
+
+// Running headers and footers are looked for in this share of the page at top and bottom
+const MARGIN_ZONE = 0.08
+// Share of pages a margin line must repeat on to count as a running header or footer
+const RUNNING_LINE_SHARE = 0.4
+// A heading set in body size must be one of these; larger type may be anything
+const KNOWN_SECTIONS = /^(abstract|summary|introduction|background|related work|literature review|methods?|methodology|materials and methods|methods and materials|experimental( setup| design| section)?|study design|approach|data|results?|findings|results and discussion|evaluation|experiments|discussion|limitations|conclusions?|concluding remarks|summary and conclusions?|future work|acknowledge?ments?|funding|references|bibliography|works cited|literature cited|appendix|appendices|supplementary (material|information)|author contributions|conflicts? of interest|competing interests|data availability|declarations|ethics statement)$/i
+const NUMBERED_HEADING = /^((?:\d{1,2}\.)*\d{1,2})\.?\s+(\p{Lu}.*)$/u
+const ROMAN_HEADING = /^([IVX]{1,5})\.\s+(\p{Lu}.*)$/u
+const RUN_IN_HEADING = /^(abstract|summary)\s*[:.—–-]\s+\S/i
+const PAGE_NUMBER = /^(page\s*)?\d{1,4}(\s*(of|\/)\s*\d{1,4})?$/i
+
+/**
+ * Orders each page's text by layout and finds the section structure.
+ * Returns the text of every page (headers and footers removed) and the
+ * section tree with page ranges.
+ */
+export function segmentPages(inputs: PageLayoutInput[]): { pageTexts: string[]; sections: PDFSection[] } {
+  const pageLines = inputs.map(input => (input.failed ? [] : orderLines(buildLines(input.items), input.view)))
+  removeRunningLines(pageLines, inputs)
+
+  const bodySize = bodyFontSize(pageLines)
+  const headings: Heading[] = []
+  const pageTexts = pageLines.map((lines, index) => {
+    if (inputs[index].failed) return `[Page ${inputs[index].pageNumber} extraction failed]`
+
+    let text = ''
+    mergeHeadingLines(lines, bodySize).forEach(line => {
+      const heading = detectHeading(line, bodySize, inputs[index].pageNumber, headings.length === 0)
+      if (text.length > 0) text += ' '
+      if (heading) headings.push({ ...heading, charStart: text.length })
+      text += line.text
+    })
+    return text.replace(/\s+/g, ' ').trim()
+  })
+
+  return { pageTexts, sections: buildTree(headings, inputs[inputs.length - 1]?.pageNumber ?? 1) }
+}
+
+/** All sections in document order, depth first. */
+export function flattenSections(sections: PDFSection[]): PDFSection[] {
+  return sections.flatMap(section => [section, ...flattenSections(section.children)])
+}
+
+/**
+ * Joins text items into line segments. Items on one baseline separated by a
+ * wide gap become separate segments, which is how columns and table cells
+ * stay apart.
+ */
+export function buildLines(items: PdfTextItem[]): LayoutLine[] {
+  const positioned = items
+    .filter(item => typeof item.str === 'string' && item.str.trim().length > 0 && item.transform)
+    .map(item => {
+      const [a, b, c, d, x, y] = item.transform!
+      const fontSize = Math.max(Math.hypot(c, d), Math.hypot(a, b), item.height || 0) || 1
+      return { str: item.str!, x, y, width: item.width || 0, fontSize }
+    })
+    .sort((p, q) => q.y - p.y || p.x - q.x)
+
+  // Rows share a baseline; a wide horizontal gap inside a row separates columns
+  const rows: Array<typeof positioned> = []
+  positioned.forEach(item => {
+    const row = rows[rows.length - 1]
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(2, row[0].fontSize * 0.4)) row.push(item)
+    else rows.push([item])
+  })
+
+  const lines: LayoutLine[] = []
+  for (const row of rows) {
+    row.sort((p, q) => p.x - q.x)
+    let current: LayoutLine | null = null
+    for (const item of row) {
+      const gap = current ? item.x - current.x1 : 0
+      if (current && gap > item.fontSize * 1.5) {
+        lines.push(current)
+        current = null
+      }
+      if (!current) {
+        current = { text: item.str, x0: item.x, x1: item.x + item.width, y: item.y, fontSize: item.fontSize }
+        continue
+      }
+      const needsSpace = gap > item.fontSize * 0.15 && !current.text.endsWith(' ') && !item.str.startsWith(' ')
+      current.text += (needsSpace ? ' ' : '') + item.str
+      current.x1 = Math.max(current.x1, item.x + item.width)
+      current.fontSize = Math.max(current.fontSize, item.fontSize)
+    }
+    if (current) lines.push(current)
+  }
+
+  return lines.map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() })).filter(line => line.text.length > 0)
+}
+
+/**
+ * Reading order: top to bottom, except that on two-column pages each run of
+ * column lines is read left column first. Full-width lines (titles, wide
+ * figures, footnotes) split the runs.
+ */
+function orderLines(lines: LayoutLine[], view: number[]): LayoutLine[] {
+  const [xMin, , xMax] = view
+  const middle = (xMin + xMax) / 2
+  const tolerance = (xMax - xMin) * 0.02
+  const side = (line: LayoutLine) =>
+    line.x1 <= middle + tolerance ? 'left' : line.x0 >= middle - tolerance ? 'right' : 'full'
+
+  const byPosition = [...lines].sort((a, b) => b.y - a.y || a.x0 - b.x0)
+  const leftCount = byPosition.filter(line => side(line) === 'left').length
+  const rightCount = byPosition.filter(line => side(line) === 'right').length
+  if (leftCount < 5 || rightCount < 5) return byPosition
+
+  const ordered: LayoutLine[] = []
+  let left: LayoutLine[] = []
+  let right: LayoutLine[] = []
+  const flush = () => {
+    ordered.push(...left, ...right)
+    left = []
+    right = []
+  }
+
+  byPosition.forEach(line => {
+    const position = side(line)
+    if (position === 'left') left.push(line)
+    else if (position === 'right') right.push(line)
+    else {
+      flush()
+      ordered.push(line)
+    }
+  })
+  flush()
+  return ordered
+}
+
+function removeRunningLines(pageLines: LayoutLine[][], inputs: PageLayoutInput[]): void {
+  const inMargin = (line: LayoutLine, view: number[]) => {
+    const [, yMin, , yMax] = view
+    const zone = (yMax - yMin) * MARGIN_ZONE
+    return line.y >= yMax - zone || line.y <= yMin + zone
+  }
+  // Page numbers inside running lines change from page to page
+  const key = (line: LayoutLine) => line.text.toLowerCase().replace(/\d+/g, '#')
+
+  const pagesByKey = new Map<string, Set<number>>()
+  pageLines.forEach((lines, index) => {
+    lines.filter(line => inMargin(line, inputs[index].view)).forEach(line => {
+      const pages = pagesByKey.get(key(line)) || new Set<number>()
+      pages.add(index)
+      pagesByKey.set(key(line), pages)
+    })
+  })
+
+  const readablePages = inputs.filter(input => !input.failed).length
+  const minPages = Math.max(2, Math.ceil(readablePages * RUNNING_LINE_SHARE))
+  pageLines.forEach((lines, index) => {
+    pageLines[index] = lines.filter(line =>
+      !inMargin(line, inputs[index].view) ||
+      (!PAGE_NUMBER.test(line.text) && !(readablePages >= 3 && (pagesByKey.get(key(line))?.size || 0) >= minPages))
+    )
+  })
+}
+
+// Most common font size, weighted by the amount of text set in it
+function bodyFontSize(pageLines: LayoutLine[][]): number {
+  const weights = new Map<number, number>()
+  pageLines.flat().forEach(line => {
+    const size = Math.round(line.fontSize * 2) / 2
+    weights.set(size, (weights.get(size) || 0) + line.text.length)
+  })
+  let body = 10
+  let best = 0
+  weights.forEach((weight, size) => {
+    if (weight > best) {
+      best = weight
+      body = size
+    }
+  })
+  return body
+}
+
+// Headings that wrap onto a second line are joined so they are detected once
+function mergeHeadingLines(lines: LayoutLine[], bodySize: number): LayoutLine[] {
+  const merged: LayoutLine[] = []
+  lines.forEach(line => {
+    const previous = merged[merged.length - 1]
+    const large = (l: LayoutLine) => l.fontSize >= bodySize * 1.15
+    if (
+      previous && large(previous) && large(line) &&
+      Math.abs(previous.fontSize - line.fontSize) < 0.5 &&
+      previous.y - line.y > 0 && previous.y - line.y < line.fontSize * 1.6 &&
+      !/[.:]$/.test(previous.text) && previous.text.length + line.text.length <= 150
+    ) {
+      merged[merged.length - 1] = { ...previous, text: `${previous.text} ${line.text}`, x1: Math.max(previous.x1, line.x1), y: line.y }
+    } else {
+      merged.push(line)
+    }
+  })
+  return merged
+}
+
+function detectHeading(
+  line: LayoutLine,
+  bodySize: number,
+  pageNumber: number,
+  beforeFirstHeading: boolean
+): Omit<Heading, 'charStart'> | null {
+  const text = line.text
+  const words = text.split(' ').length
+  const large = line.fontSize >= bodySize * 1.15
+
+  if (RUN_IN_HEADING.test(text) && !KNOWN_SECTIONS.test(text)) {
+    // "Abstract: We study..." opens a section without a line of its own
+    return { title: capitalise(text.match(/^[A-Za-z]+/)![0]), level: 1, pageNumber }
+  }
+
+  if (text.length < 3 || text.length > 120 || words > 14) return null
+
+  const numbered = text.match(NUMBERED_HEADING)
+  if (numbered && isHeadingTitle(numbered[2], large) && Number(numbered[1].split('.')[0]) <= 30) {
+    const level = numbered[1].split('.').length
+    const title = stripColon(numbered[2])
+    // "3 Results" and "2.1 Data" are headings; "1. Patients aged over 65" is a list item
+    if (large || level > 1 || KNOWN_SECTIONS.test(title) || isTitleCase(title)) {
+      return { title, number: numbered[1], level, pageNumber }
+    }
+  }
+
+  const roman = text.match(ROMAN_HEADING)
+  if (roman && isHeadingTitle(roman[2], large)) {
+    return { title: stripColon(roman[2]), number: roman[1], level: 1, pageNumber }
+  }
+
+  const title = stripColon(text)
+  if (KNOWN_SECTIONS.test(title) && (large || title === title.toUpperCase() || /^\p{Lu}/u.test(title))) {
+    return { title: capitalise(title), level: 1, pageNumber }
+  }
+
+  // Large type above the first heading on page 1 is the paper title, authors and affiliations
+  if (large && isHeadingTitle(title, true) && words <= 10 && !(pageNumber === 1 && beforeFirstHeading)) {
+    return { title, level: line.fontSize >= bodySize * 1.4 ? 1 : 2, pageNumber }
+  }
+
+  return null
+}
+
+function isHeadingTitle(title: string, large: boolean): boolean {
+  if (!/\p{L}{2,}/u.test(title)) return false
+  // Sentences end with a full stop; headings rarely do
+  if (/[.;,]$/.test(title) && !large) return false
+  // Table rows and equations are mostly digits and symbols
+  const letters = (title.match(/\p{L}/gu) || []).length
+  return letters / title.length > 0.6
+}
+
+function isTitleCase(title: string): boolean {
+  const words = title.split(' ').filter(word => word.length > 3)
+  return title.split(' ').length <= 8 && words.every(word => /^[\p{Lu}\d]/u.test(word))
+}
+
+function stripColon(text: string): string {
+  return text.replace(/[:.]$/, '').trim()
+}
+
+function capitalise(text: string): string {
+  return text === text.toUpperCase()
+    ? text.charAt(0) + text.slice(1).toLowerCase()
+    : text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function buildTree(headings: Heading[], lastPage: number): PDFSection[] {
+  const roots: PDFSection[] = []
+  const stack: PDFSection[] = []
+
+  headings.forEach((heading, index) => {
+    // A section runs until the next heading at the same or a higher level
+    const next = headings.slice(index + 1).find(other => other.level <= heading.level)
+    const section: PDFSection = {
+      title: heading.title,
+      number: heading.number,
+      level: heading.level,
+      pageStart: heading.pageNumber,
+      pageEnd: next ? next.pageNumber : lastPage,
+      charStart: heading.charStart,
+      children: []
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].level >= section.level) stack.pop()
+    if (stack.length > 0) stack[stack.length - 1].children.push(section)
+    else roots.push(section)
+    stack.push(section)
+  })
+
+  return roots
+}
@@ -0,0 +1,197 @@
+// Table and figure captions, and tables rebuilt as rows and columns from the
+// positions of PDF.js text items.
+//
+// Only relative imports, for the same reason as pdfExtraction.ts.
+
+import { LayoutLine, PageLayoutInput, buildLines } from './pdfLayout.ts'
+
+export interface PDFCaption {
+  kind: 'table' | 'figure'
+  // "Table 2", "Figure 3", "Table S1"
+  label: string
+  number: string
+  text: string
+  // 0 in formats without pages
+  pageNumber: number
+}
+
+export interface PDFTable {
+  // From the caption found with the table; undefined for uncaptioned tables
+  label?: string
+  caption?: string
+  // 0 in formats without pages
+  pageNumber: number
+  // First row is usually the header; short rows are padded with empty cells
+  rows: string[][]
+}
+
+// "Table 2. ...", "Fig. 3: ...", "Figure 1 | ..."; "TABLE I" alone is the IEEE style with the title below
+const CAPTION = /^(Table|TABLE|Fig\.|Figure|FIGURE|FIG\.)\s+(S?\d{1,3}[a-z]?|[IVX]{1,6})(\s*[.:|—–-]\s*(.*)|\s*)$/
+// Table cells are short; longer segments are running text beside the table
+const MAX_CELL_WIDTH = 0.3
+const MIN_TABLE_ROWS = 3
+const MAX_CAPTION_LENGTH = 400
+
+/** Captions and tables of every readable page, in page order. */
+export function extractTablesAndCaptions(inputs: PageLayoutInput[]): { captions: PDFCaption[]; tables: PDFTable[] } {
+  const captions: PDFCaption[] = []
+  const tables: PDFTable[] = []
+
+  inputs.filter(input => !input.failed).forEach(input => {
+    const lines = buildLines(input.items).sort((a, b) => b.y - a.y || a.x0 - b.x0)
+    const pageCaptions = findCaptions(lines, input.pageNumber)
+    // A label seen again is a "(continued)" caption or a mention in running text
+    const seen = new Set(captions.map(caption => caption.label))
+    captions.push(...pageCaptions.map(found => found.caption).filter(caption => !seen.has(caption.label)))
+
+    findTables(lines, input.view).forEach(block => {
+      const caption = nearestCaption(block, pageCaptions.filter(c => c.caption.kind === 'table'))
+      tables.push({
+        label: caption?.caption.label,
+        caption: caption?.caption.text,
+        pageNumber: input.pageNumber,
+        rows: block.rows
+      })
+    })
+  })
+
+  return { captions, tables }
+}
+
+/**
+ * Kind, number and title of a line that starts a caption, or null. Also used
+ * for caption paragraphs in the formats without a layout.
+ */
+export function parseCaption(text: string): { kind: PDFCaption['kind']; number: string; title: string } | null {
+  const match = text.match(CAPTION)
+  if (!match) return null
+  // "Table 2 shows..." in running text has no punctuation after the number and carries on
+  if (!match[3].trim() && text.length > 12) return null
+
+  return {
+    kind: match[1].toLowerCase().startsWith('tab') ? 'table' : 'figure',
+    number: match[2],
+    title: match[4]?.trim() || ''
+  }
+}
+
+/** "Table 2", "Figure 3" */
+export function captionLabel(kind: PDFCaption['kind'], number: string): string {
+  return `${kind === 'table' ? 'Table' : 'Figure'} ${number}`
+}
+
+function findCaptions(lines: LayoutLine[], pageNumber: number): Array<{ caption: PDFCaption; y: number }> {
+  const found: Array<{ caption: PDFCaption; y: number }> = []
+
+  lines.forEach((line, index) => {
+    const parsed = parseCaption(line.text)
+    if (!parsed) return
+
+    let text = parsed.title
+    let previous = line
+    for (const next of lines.slice(index + 1)) {
+      if (text.length >= MAX_CAPTION_LENGTH) break
+      const overlaps = next.x0 < previous.x1 && next.x1 > previous.x0
+      const close = previous.y - next.y > 0 && previous.y - next.y < next.fontSize * 1.8
+      if (!overlaps || !close || Math.abs(next.fontSize - line.fontSize) > 0.5 || CAPTION.test(next.text)) break
+      text += (text ? ' ' : '') + next.text
+      previous = next
+      // A caption title ends at its first full stop when set on its own line
+      if (!parsed.title && /[.]$/.test(next.text)) break
+    }
+
+    found.push({
+      caption: {
+        kind: parsed.kind,
+        label: captionLabel(parsed.kind, parsed.number),
+        number: parsed.number,
+        text: text.substring(0, MAX_CAPTION_LENGTH),
+        pageNumber
+      },
+      y: line.y
+    })
+  })
+
+  return found
+}
+
+interface TableBlock {
+  top: number
+  bottom: number
+  rows: string[][]
+}
+
+function findTables(lines: LayoutLine[], view: number[]): TableBlock[] {
+  const [xMin, , xMax] = view
+  const maxCellWidth = (xMax - xMin) * MAX_CELL_WIDTH
+
+  // Rows are segments sharing a baseline, with running text beside the table left out
+  const rows: LayoutLine[][] = []
+  lines.forEach(line => {
+    const row = rows[rows.length - 1]
+    if (row && Math.abs(row[0].y - line.y) <= Math.max(2, row[0].fontSize * 0.4)) row.push(line)
+    else rows.push([line])
+  })
+
+  const isTableRow = (row: LayoutLine[]) => {
+    const cells = row.filter(cell => cell.x1 - cell.x0 <= maxCellWidth)
+    if (cells.length < 2 || CAPTION.test(row[0].text)) return false
+    return cells.length >= 3 || cells.some(cell => /\d/.test(cell.text))
+  }
+
+  const blocks: TableBlock[] = []
+  let current: LayoutLine[][] = []
+  const flush = () => {
+    if (current.length >= MIN_TABLE_ROWS) {
+      const rows = toGrid(current.map(row => row.filter(cell => cell.x1 - cell.x0 <= maxCellWidth)))
+      if (rows[0].length >= 2) {
+        blocks.push({ top: current[0][0].y, bottom: current[current.length - 1][0].y, rows })
+      }
+    }
+    current = []
+  }
+
+  rows.forEach(row => {
+    const previous = current[current.length - 1]
+    const close = previous && previous[0].y - row[0].y < row[0].fontSize * 2.5
+    if (isTableRow(row) && (!previous || close)) {
+      current.push(row)
+    } else {
+      flush()
+      if (isTableRow(row)) current.push(row)
+    }
+  })
+  flush()
+
+  return blocks
+}
+
+// Columns are the x ranges that cells of different rows overlap on
+function toGrid(rows: LayoutLine[][]): string[][] {
+  const bands: Array<{ x0: number; x1: number }> = []
+  rows.flat()
+    .map(cell => ({ x0: cell.x0, x1: cell.x1 }))
+    .sort((a, b) => a.x0 - b.x0)
+    .forEach(span => {
+      const band = bands[bands.length - 1]
+      if (band && span.x0 <= band.x1) band.x1 = Math.max(band.x1, span.x1)
+      else bands.push({ ...span })
+    })
+
+  return rows.map(row => {
+    const cells = bands.map(() => '')
+    row.forEach(cell => {
+      const column = bands.findIndex(band => cell.x0 >= band.x0 && cell.x0 <= band.x1)
+      if (column >= 0) cells[column] = cells[column] ? `${cells[column]} ${cell.text}` : cell.text
+    })
+    return cells
+  })
+}
+
+// Table captions usually sit just above the table, sometimes just below
+function nearestCaption(block: TableBlock, captions: Array<{ caption: PDFCaption; y: number }>) {
+  const distance = (y: number) => (y >= block.top ? (y - block.top) * 0.5 : block.bottom - y)
+  return captions
+    .filter(caption => caption.y >= block.top || caption.y <= block.bottom)
+    .sort((a, b) => distance(a.y) - distance(b.y))[0]
+}
@@ -0,0 +1,431 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
+const OPENAI_MODEL = 'gpt-4o'
+const GEMINI_MODEL = 'gemini-1.5-flash-latest'
+const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages'
+const ANTHROPIC_MODEL = 'claude-3-5-sonnet-latest'
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings'
+// Must match OpenAIEmbeddingProvider.model in the browser; stored vectors are keyed by it
+const EMBEDDING_MODEL = 'text-embedding-3-small'
+
+const SYSTEM_PROMPT = 'You are an expert research assistant specializing in academic paper analysis with a focus on ethics, transparency, and explainable AI. Always respond with valid JSON that matches the expected schema exactly.'
+
+// Per-user request budgets; override with environment variables in the Supabase dashboard
+const HOURLY_LIMIT = parseInt(Deno.env.get('LLM_PROXY_HOURLY_LIMIT') ?? '60')
+const DAILY_LIMIT = parseInt(Deno.env.get('LLM_PROXY_DAILY_LIMIT') ?? '300')
+const MAX_PROMPT_CHARS = parseInt(Deno.env.get('LLM_PROXY_MAX_PROMPT_CHARS') ?? '40000')
+// Indexing a library sends many small embedding batches, so they have their own budget
+const EMBEDDING_HOURLY_LIMIT = parseInt(Deno.env.get('LLM_PROXY_EMBEDDING_HOURLY_LIMIT') ?? '600')
+const EMBEDDING_DAILY_LIMIT = parseInt(Deno.env.get('LLM_PROXY_EMBEDDING_DAILY_LIMIT') ?? '3000')
+const MAX_EMBEDDING_INPUTS = 64
+
+type Provider = 'openai' | 'gemini' | 'anthropic'
+
+type RawObject = Record<string, unknown>
+
+// Same ids as the browser-side LLMProviderRegistry adapters with proxied = true
+// JSON Schema sent by the browser for providers with native structured output
+interface ResponseSchema {
+  name: string
+  schema: RawObject
+}
+
+const PROVIDERS: Record<Provider, { keyEnv: string; model: string; call: (prompt: string, schema?: ResponseSchema) => Promise<string> }> = {
+  openai: { keyEnv: 'OPENAI_API_KEY', model: OPENAI_MODEL, call: callOpenAI },
+  gemini: { keyEnv: 'GEMINI_API_KEY', model: GEMINI_MODEL, call: callGemini },
+  anthropic: { keyEnv: 'ANTHROPIC_API_KEY', model: ANTHROPIC_MODEL, call: callAnthropic },
+}
+
+interface ProxyRequest {
+  action?: 'analyze' | 'providers' | 'embeddings'
+  provider?: string
+  model?: string
+  title?: string
+  prompt?: string
+  responseSchema?: ResponseSchema
+  input?: string[]
+}
+
+class ProxyError extends Error {
+  constructor(message: string, public status: number, public retryAfter?: number) {
+    super(message)
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Only signed-in users may spend provider credits
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (!token) {
+      throw new ProxyError('Missing authorization header', 401)
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      throw new ProxyError('Invalid or expired session', 401)
+    }
+
+    const body: ProxyRequest = await req.json()
+
+    if (body.action === 'providers') {
+      return jsonResponse({ success: true, providers: configuredProviders() })
+    }
+
+    if (body.action === 'embeddings') {
+      return jsonResponse(await embed(supabase, user.id, body.input))
+    }
+
+    if (!body.prompt) {
+      throw new ProxyError('Request must include a prompt', 400)
+    }
+
+    if (body.prompt.length > MAX_PROMPT_CHARS) {
+      throw new ProxyError(`Prompt exceeds ${MAX_PROMPT_CHARS} characters`, 413)
+    }
+
+    const provider = resolveProvider(body.provider ?? 'openai')
+    // The browser caches analyses by the model it expects; a mismatch means the two have drifted apart
+    if (body.model && body.model !== PROVIDERS[provider].model) {
+      throw new ProxyError(`llm-proxy serves ${PROVIDERS[provider].model} for ${provider}, not ${body.model}`, 409)
+    }
+
+    const prompt = body.prompt
+    console.log(`Analysing "${body.title ?? 'Untitled'}" with ${provider} for user ${user.id}`)
+
+    // The browser validates, repairs and normalizes the raw text
+    const rawResponse = await withReservedUsage(
+      supabase,
+      { userId: user.id, kind: 'analysis', provider, model: PROVIDERS[provider].model, chars: prompt.length },
+      () => PROVIDERS[provider].call(prompt, body.responseSchema)
+    )
+
+    return jsonResponse({
+      success: true,
+      provider,
+      model: PROVIDERS[provider].model,
+      text: rawResponse,
+    })
+
+  } catch (error) {
+    console.error('LLM proxy error:', error)
+    const status = error instanceof ProxyError ? error.status : 500
+    const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/json' }
+    if (error instanceof ProxyError && error.retryAfter) {
+      headers['Retry-After'] = String(error.retryAfter)
+    }
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { headers, status }
+    )
+  }
+})
+
+function jsonResponse(body: unknown) {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    }
+  )
+}
+
+function configuredProviders(): Provider[] {
+  return (Object.keys(PROVIDERS) as Provider[])
+    .filter(provider => !!Deno.env.get(PROVIDERS[provider].keyEnv))
+}
+
+// Never substitutes another provider: analyses are cached and labelled by the provider and model asked for
+function resolveProvider(requested: string): Provider {
+  if (!(requested in PROVIDERS)) {
+    throw new ProxyError(`Unknown LLM provider "${requested}"`, 400)
+  }
+  const available = configuredProviders()
+  if (available.length === 0) {
+    throw new ProxyError('No LLM provider is configured on the server', 503)
+  }
+  if (!available.includes(requested as Provider)) {
+    throw new ProxyError(`${requested} is not configured on the server (available: ${available.join(', ')})`, 400)
+  }
+  return requested as Provider
+}
+
+async function embed(supabase: ReturnType<typeof createClient>, userId: string, input: unknown) {
+  if (!Array.isArray(input) || input.length === 0 || input.some(item => typeof item !== 'string')) {
+    throw new ProxyError('Embedding request must include a non-empty input array of strings', 400)
+  }
+  if (input.length > MAX_EMBEDDING_INPUTS) {
+    throw new ProxyError(`Embedding request exceeds ${MAX_EMBEDDING_INPUTS} inputs`, 413)
+  }
+  const chars = input.reduce((sum: number, item: string) => sum + item.length, 0)
+  if (chars > MAX_PROMPT_CHARS) {
+    throw new ProxyError(`Embedding input exceeds ${MAX_PROMPT_CHARS} characters`, 413)
+  }
+  if (!Deno.env.get('OPENAI_API_KEY')) {
+    throw new ProxyError('Embeddings need OPENAI_API_KEY on the server', 503)
+  }
+
+  const data = await withReservedUsage(
+    supabase,
+    { userId, kind: 'embeddings', provider: 'openai', model: EMBEDDING_MODEL, chars },
+    async () => {
+      const response = await fetchWithRetry('OpenAI embeddings', OPENAI_EMBEDDINGS_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: EMBEDDING_MODEL, input }),
+      })
+      return await response.json()
+    }
+  )
+
+  return { success: true, model: EMBEDDING_MODEL, data: data.data }
+}
+
+interface UsageReservation {
+  userId: string
+  kind: 'analysis' | 'embeddings'
+  provider: string
+  model: string
+  chars: number
+}
+
+// Checks the limits and records a pending usage row in one database call before the
+// provider is called, so parallel requests cannot all slip under the limit and failed
+// or timed-out calls still count. The row is marked succeeded or failed afterwards.
+async function withReservedUsage<T>(
+  supabase: ReturnType<typeof createClient>,
+  usage: UsageReservation,
+  call: () => Promise<T>
+): Promise<T> {
+  const [hourlyLimit, dailyLimit, label] = usage.kind === 'analysis'
+    ? [HOURLY_LIMIT, DAILY_LIMIT, 'analysis']
+    : [EMBEDDING_HOURLY_LIMIT, EMBEDDING_DAILY_LIMIT, 'embedding']
+
+  const { data: reservation, error } = await supabase.rpc('reserve_llm_usage', {
+    usage_user: usage.userId,
+    usage_kind: usage.kind,
+    usage_provider: usage.provider,
+    usage_model: usage.model,
+    usage_chars: usage.chars,
+    hourly_limit: hourlyLimit,
+    daily_limit: dailyLimit,
+  })
+
+  if (error) {
+    throw new ProxyError(`Could not record usage: ${error.message}`, 500)
+  }
+  if (reservation?.limit === 'hourly') {
+    throw new ProxyError(`Hourly ${label} limit of ${hourlyLimit} requests reached`, 429, 60 * 60)
+  }
+  if (reservation?.limit === 'daily') {
+    throw new ProxyError(`Daily ${label} limit of ${dailyLimit} requests reached`, 429, 24 * 60 * 60)
+  }
+
+  const startTime = Date.now()
+  let status = 'failed'
+  try {
+    const result = await call()
+    status = 'succeeded'
+    return result
+  } finally {
+    await supabase
+      .from('llm_usage')
+      .update({ status, duration_ms: Date.now() - startTime })
+      .eq('id', reservation.id)
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// Retries inside the function stay within a few seconds: the edge runtime stops the
+// function at its wall-clock limit, which the browser would only see as a generic
+// failure. Longer waits are handed back as 429/503 with Retry-After, and the
+// browser's requestWithRetry waits and tries again.
+const RETRY_BUDGET_MS = 8000
+// Below the edge runtime's wall-clock limit, so a hung provider becomes a 504
+const PROVIDER_TIMEOUT_MS = 120000
+
+async function fetchWithRetry(label: string, url: string, init: RequestInit, maxRetries = 3): Promise<Response> {
+  const deadline = Date.now() + RETRY_BUDGET_MS
+  // Waits for another attempt if the budget allows it, otherwise reports why to the caller
+  const retryOrGiveUp = async (attempt: number, delayMs: number, error: ProxyError) => {
+    if (attempt >= maxRetries - 1 || Date.now() + delayMs > deadline) {
+      throw error
+    }
+    console.warn(`${label}: ${error.message} (attempt ${attempt + 1}/${maxRetries}), retrying in ${Math.round(delayMs)}ms`)
+    await sleep(delayMs)
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS)
+
+    let response: Response
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal })
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ProxyError(`${label} API did not respond within ${PROVIDER_TIMEOUT_MS / 1000}s`, 504, 5)
+      }
+      // fetch() itself failed: DNS, connection reset
+      console.warn(`${label} network error:`, error)
+      await retryOrGiveUp(attempt, 500 * Math.pow(2, attempt) + Math.random() * 250, new ProxyError(`${label} API unreachable`, 502, 2))
+      continue
+    } finally {
+      clearTimeout(timer)
+    }
+
+    if (response.status === 429) {
+      // The provider's own Retry-After is passed on when the wait is too long to do here
+      const retryAfter = parseInt(response.headers.get('retry-after') ?? '') || 2
+      await response.body?.cancel()
+      await retryOrGiveUp(attempt, retryAfter * 1000, new ProxyError(`${label} API rate limit exceeded`, 429, retryAfter))
+      continue
+    }
+
+    if (response.status === 502 || response.status === 503) {
+      const retryAfter = parseInt(response.headers.get('retry-after') ?? '') || 2
+      await response.body?.cancel()
+      await retryOrGiveUp(attempt, Math.min(retryAfter * 1000, 1000 * Math.pow(2, attempt)), new ProxyError(`${label} API service unavailable`, 503, retryAfter))
+      continue
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`${label} API error response:`, errorText)
+      throw new ProxyError(`${label} API error: ${response.status} ${response.statusText}`, 502)
+    }
+
+    return response
+  }
+}
+
+async function callOpenAI(prompt: string, schema?: ResponseSchema): Promise<string> {
+  const response = await fetchWithRetry('OpenAI', OPENAI_API_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('OPENAI_API_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: OPENAI_MODEL,
+      messages: [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.3,
+      max_tokens: 4000,
+      ...(schema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schema.name, schema: schema.schema, strict: false },
+        },
+      }),
+    }),
+  })
+
+  const data = await response.json()
+  const aiResponse = data.choices?.[0]?.message?.content
+
+  if (!aiResponse) {
+    throw new ProxyError('No response from OpenAI', 502)
+  }
+
+  return aiResponse
+}
+
+async function callGemini(prompt: string, schema?: ResponseSchema): Promise<string> {
+  const response = await fetchWithRetry('Gemini', `${GEMINI_API_URL}?key=${Deno.env.get('GEMINI_API_KEY')}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      contents: [{
+        parts: [{ text: `${SYSTEM_PROMPT}\n\n${prompt}` }]
+      }],
+      generationConfig: {
+        temperature: 0.3,
+        maxOutputTokens: 4000,
+        ...(schema && {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(schema.schema),
+        }),
+      }
+    }),
+  })
+
+  const data = await response.json()
+  const aiResponse = data.candidates?.[0]?.content?.parts?.[0]?.text
+
+  if (!aiResponse) {
+    throw new ProxyError('No response from Gemini', 502)
+  }
+
+  return aiResponse
+}
+
+async function callAnthropic(prompt: string): Promise<string> {
+  const response = await fetchWithRetry('Anthropic', ANTHROPIC_API_URL, {
+    method: 'POST',
+    headers: {
+      'x-api-key': Deno.env.get('ANTHROPIC_API_KEY') ?? '',
+      'anthropic-version': '2023-06-01',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: ANTHROPIC_MODEL,
+      system: SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.3,
+      max_tokens: 4000,
+    }),
+  })
+
+  const data = await response.json()
+  const aiResponse = data.content?.find((block: { type: string }) => block.type === 'text')?.text
+
+  if (!aiResponse) {
+    throw new ProxyError('No response from Anthropic', 502)
+  }
+
+  return aiResponse
+}
+
+// Gemini's responseSchema is an OpenAPI subset: upper-case types, no bounds or titles
+function toGeminiSchema(schema: RawObject): RawObject {
+  const converted: RawObject = {}
+  if (typeof schema.type === 'string') converted.type = schema.type.toUpperCase()
+  if (schema.description) converted.description = schema.description
+  if (schema.enum) converted.enum = schema.enum
+  if (schema.items) converted.items = toGeminiSchema(schema.items as RawObject)
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, RawObject>).map(([key, value]) => [key, toGeminiSchema(value)])
+    )
+    converted.required = schema.required ?? []
+  }
+  return converted
+}
@@ -0,0 +1,45 @@
+/*
+  # LLM proxy usage tracking
+
+  1. New Tables
+    - `llm_usage` table recording every provider call made by the llm-proxy edge function
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, caller from the verified JWT)
+      - `provider` (text, provider that served the request)
+      - `model` (text)
+      - `prompt_chars` (integer)
+      - `duration_ms` (integer)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on llm_usage
+    - Users can read their own usage; inserts are made with the service role key
+
+  3. Performance
+    - Index on (user_id, created_at) for the per-user rate limit window queries
+*/
+
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  provider text NOT NULL,
+  model text,
+  prompt_chars integer DEFAULT 0,
+  duration_ms integer DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Users can read own llm usage" ON llm_usage;
+
+  CREATE POLICY "Users can read own llm usage"
+    ON llm_usage
+    FOR SELECT
+    TO authenticated
+    USING (auth.uid() = user_id);
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at DESC);
@@ -0,0 +1,34 @@
+/*
+  # Persist research gaps with summaries
+
+  1. Changes
+    - Add `research_gaps` (jsonb array) column to `summaries`
+    - New rows default to an empty array
+
+  2. Backfill
+    - Gaps produced before this migration were never stored, so existing rows
+      are left NULL. The application treats NULL as "not captured" (distinct
+      from "no gaps found") and the gaps are filled in when the paper is
+      analysed again.
+    - Any gaps that were kept in `metadata.researchGaps` are copied over
+
+  3. Safety
+    - Uses IF NOT EXISTS pattern to avoid conflicts
+*/
+
+-- Add the column without a default first so existing rows stay NULL
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'summaries' AND column_name = 'research_gaps'
+  ) THEN
+    ALTER TABLE summaries ADD COLUMN research_gaps jsonb;
+    ALTER TABLE summaries ALTER COLUMN research_gaps SET DEFAULT '[]';
+  END IF;
+END $$;
+
+UPDATE summaries
+SET research_gaps = metadata->'researchGaps'
+WHERE research_gaps IS NULL
+  AND jsonb_typeof(metadata->'researchGaps') = 'array';
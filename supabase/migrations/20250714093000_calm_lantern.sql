@@ -0,0 +1,59 @@
+/*
+  # Create paper_questions table for the Ask tab
+
+  1. New Tables
+    - `paper_questions`
+      - `id` (uuid, primary key)
+      - `summary_id` (uuid, foreign key to summaries)
+      - `user_id` (text, user who asked)
+      - `question` (text, required)
+      - `answer` (text, required)
+      - `grounded` (boolean, false when the paper text did not support an answer)
+      - `citations` (jsonb array of page-located quotes with verification results)
+      - `provider` (text, optional)
+      - `model` (text, optional)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `paper_questions` table
+    - Add policies for public read and insert access so collaborators on a
+      summary see its conversation (matching the comments table)
+
+  3. Performance
+    - Add index on (summary_id, created_at) for loading a conversation
+*/
+
+CREATE TABLE IF NOT EXISTS paper_questions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id uuid NOT NULL REFERENCES summaries(id) ON DELETE CASCADE,
+  user_id text NOT NULL,
+  question text NOT NULL,
+  answer text NOT NULL,
+  grounded boolean DEFAULT false NOT NULL,
+  citations jsonb DEFAULT '[]'::jsonb NOT NULL,
+  provider text,
+  model text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE paper_questions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to paper questions" ON paper_questions;
+  DROP POLICY IF EXISTS "Allow public insert access to paper questions" ON paper_questions;
+
+  CREATE POLICY "Allow public read access to paper questions"
+    ON paper_questions
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to paper questions"
+    ON paper_questions
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_paper_questions_summary_id ON paper_questions(summary_id, created_at);
@@ -0,0 +1,78 @@
+/*
+  # Create paper_comparisons table
+
+  1. New Tables
+    - `paper_comparisons`
+      - `id` (uuid, primary key)
+      - `title` (text, required)
+      - `summary_ids` (uuid array, the 2-5 compared summaries)
+      - `papers` (jsonb array, title and authors of each compared paper)
+      - `matrix` (jsonb object, aligned key points, limitations, ethics flags,
+        confidence and research gaps)
+      - `synthesis` (jsonb object, optional model-generated agreements and contradictions)
+      - `created_by` (text, user identification)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `paper_comparisons` table
+    - Add policies for public access (matching existing pattern in other tables)
+
+  3. Performance
+    - Add index on created_by for the history view
+    - Add updated_at trigger
+*/
+
+CREATE TABLE IF NOT EXISTS paper_comparisons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  summary_ids uuid[] NOT NULL CHECK (array_length(summary_ids, 1) BETWEEN 2 AND 5),
+  papers jsonb DEFAULT '[]'::jsonb NOT NULL,
+  matrix jsonb DEFAULT '{}'::jsonb NOT NULL,
+  synthesis jsonb,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE paper_comparisons ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to paper comparisons" ON paper_comparisons;
+  DROP POLICY IF EXISTS "Allow public insert access to paper comparisons" ON paper_comparisons;
+  DROP POLICY IF EXISTS "Allow public update access to paper comparisons" ON paper_comparisons;
+  DROP POLICY IF EXISTS "Allow public delete access to paper comparisons" ON paper_comparisons;
+
+  CREATE POLICY "Allow public read access to paper comparisons"
+    ON paper_comparisons
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to paper comparisons"
+    ON paper_comparisons
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+  CREATE POLICY "Allow public update access to paper comparisons"
+    ON paper_comparisons
+    FOR UPDATE
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public delete access to paper comparisons"
+    ON paper_comparisons
+    FOR DELETE
+    TO public
+    USING (true);
+END $$;
+
+DROP TRIGGER IF EXISTS update_paper_comparisons_updated_at ON paper_comparisons;
+CREATE TRIGGER update_paper_comparisons_updated_at
+  BEFORE UPDATE ON paper_comparisons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_paper_comparisons_created_by ON paper_comparisons(created_by);
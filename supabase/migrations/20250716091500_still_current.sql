@@ -0,0 +1,68 @@
+/*
+  # Create literature_reviews table for workspace synthesis
+
+  1. New Tables
+    - `literature_reviews`
+      - `id` (uuid, primary key)
+      - `workspace_id` (uuid, foreign key to workspaces)
+      - `version` (integer, increases by one per regeneration)
+      - `papers` (jsonb array of the papers covered by this version)
+      - `overview` (text, required)
+      - `themes` (jsonb array of themes with contributing paper ids)
+      - `consensus` (jsonb array of findings shared by several papers)
+      - `conflicts` (jsonb array of topics with each paper's position)
+      - `ethics_flags` (jsonb array of ethics flags aggregated by type)
+      - `research_gaps` (jsonb array of research gaps merged across papers)
+      - `changes` (jsonb, papers added and removed since the previous version)
+      - `provider` (text, optional)
+      - `model` (text, optional)
+      - `created_by` (text, user who generated the version)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `literature_reviews` table
+    - Add policies for public read and insert access; versions are never
+      updated so earlier reviews stay available for comparison
+
+  3. Performance
+    - Unique index on (workspace_id, version) for loading version history
+*/
+
+CREATE TABLE IF NOT EXISTS literature_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version >= 1),
+  papers jsonb DEFAULT '[]'::jsonb NOT NULL,
+  overview text NOT NULL,
+  themes jsonb DEFAULT '[]'::jsonb NOT NULL,
+  consensus jsonb DEFAULT '[]'::jsonb NOT NULL,
+  conflicts jsonb DEFAULT '[]'::jsonb NOT NULL,
+  ethics_flags jsonb DEFAULT '[]'::jsonb NOT NULL,
+  research_gaps jsonb DEFAULT '[]'::jsonb NOT NULL,
+  changes jsonb DEFAULT '{}'::jsonb NOT NULL,
+  provider text,
+  model text,
+  created_by text NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (workspace_id, version)
+);
+
+ALTER TABLE literature_reviews ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to literature reviews" ON literature_reviews;
+  DROP POLICY IF EXISTS "Allow public insert access to literature reviews" ON literature_reviews;
+
+  CREATE POLICY "Allow public read access to literature reviews"
+    ON literature_reviews
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to literature reviews"
+    ON literature_reviews
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+END $$;
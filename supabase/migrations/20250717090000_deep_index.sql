@@ -0,0 +1,141 @@
+/*
+  # Create search_chunks table for library search
+
+  1. New Tables
+    - `search_chunks`
+      - `id` (uuid, primary key)
+      - `user_id` (text, owner of the analysis)
+      - `paper_id` (uuid, foreign key to papers)
+      - `summary_id` (uuid, foreign key to summaries)
+      - `source` (text, passage, summary, key_point or ethics_flag)
+      - `source_index` (integer, position of the key point, flag or passage)
+      - `content` (text, required)
+      - `page_start` / `page_end` (integer, optional, for passages)
+      - `embedding` (vector, required)
+      - `embedding_model` (text, model that produced the embedding)
+      - `search_vector` (tsvector, generated from content for full-text search)
+      - `created_at` (timestamp)
+
+  2. Functions
+    - `search_library` ranks a user's chunks by a weighted sum of cosine
+      similarity and full-text rank. Only vectors from the query's embedding
+      model are compared, so the model can change without mixing vector spaces.
+
+  3. Security
+    - Enable RLS on `search_chunks` table
+    - Add policies for public read, insert and delete access
+
+  4. Performance
+    - The embedding column has no fixed dimension so any embedding model can be
+      plugged in; similarity is computed exactly over one user's chunks, which
+      stays fast at the size of a personal library
+    - Add GIN index on search_vector and indexes on (user_id, embedding_model)
+      and summary_id
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS search_chunks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id text NOT NULL,
+  paper_id uuid NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  summary_id uuid NOT NULL REFERENCES summaries(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('passage', 'summary', 'key_point', 'ethics_flag')),
+  source_index integer DEFAULT 0 NOT NULL,
+  content text NOT NULL,
+  page_start integer,
+  page_end integer,
+  embedding vector NOT NULL,
+  embedding_model text NOT NULL,
+  search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE search_chunks ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Allow public insert access to search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Allow public delete access to search chunks" ON search_chunks;
+
+  CREATE POLICY "Allow public read access to search chunks"
+    ON search_chunks
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to search chunks"
+    ON search_chunks
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+  CREATE POLICY "Allow public delete access to search chunks"
+    ON search_chunks
+    FOR DELETE
+    TO public
+    USING (true);
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_search_chunks_user_model ON search_chunks(user_id, embedding_model);
+CREATE INDEX IF NOT EXISTS idx_search_chunks_summary_id ON search_chunks(summary_id);
+CREATE INDEX IF NOT EXISTS idx_search_chunks_search_vector ON search_chunks USING gin(search_vector);
+
+CREATE OR REPLACE FUNCTION search_library(
+  query_text text,
+  query_embedding vector,
+  query_model text,
+  match_user text,
+  match_count integer DEFAULT 20,
+  semantic_weight double precision DEFAULT 0.7,
+  min_similarity double precision DEFAULT 0.2
+)
+RETURNS TABLE (
+  id uuid,
+  paper_id uuid,
+  summary_id uuid,
+  paper_title text,
+  source text,
+  source_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  semantic_score double precision,
+  keyword_score double precision,
+  score double precision
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH scored AS (
+    SELECT
+      c.*,
+      CASE
+        WHEN c.embedding_model = query_model AND vector_dims(c.embedding) = vector_dims(query_embedding)
+          THEN 1 - (c.embedding <=> query_embedding)
+        ELSE 0
+      END AS semantic_score,
+      -- Normalisation 32 maps the rank into [0, 1)
+      ts_rank_cd(c.search_vector, websearch_to_tsquery('english', query_text), 32)::double precision AS keyword_score
+    FROM search_chunks c
+    WHERE c.user_id = match_user
+  )
+  SELECT
+    s.id,
+    s.paper_id,
+    s.summary_id,
+    p.title,
+    s.source,
+    s.source_index,
+    s.content,
+    s.page_start,
+    s.page_end,
+    s.semantic_score,
+    s.keyword_score,
+    semantic_weight * s.semantic_score + (1 - semantic_weight) * s.keyword_score AS score
+  FROM scored s
+  JOIN papers p ON p.id = s.paper_id
+  WHERE s.keyword_score > 0 OR s.semantic_score >= min_similarity
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
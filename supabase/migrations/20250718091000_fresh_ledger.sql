@@ -0,0 +1,38 @@
+/*
+  # Deduplicate papers and cache analyses
+
+  1. Modified Tables
+    - `papers`
+      - `content_hash` (text, SHA-256 of the normalised extracted text)
+      - `doi_normalized` (text, lower-case DOI without resolver prefix)
+    - `summaries`
+      - `content_hash` (text, hash of the exact text that was analysed)
+      - `provider` (text, provider that produced the analysis)
+      - `model` (text, model that produced the analysis)
+      - `prompt_version` (text, version of the analysis prompts)
+
+  2. Data
+    - Backfill `doi_normalized` for existing papers. Content hashes are computed
+      in the browser and cannot be reproduced here, so existing rows keep NULL
+      and are simply never matched by hash.
+
+  3. Performance
+    - Add indexes for duplicate lookups by hash and DOI
+    - Add index on the analysis cache key (content_hash, provider, model, prompt_version)
+*/
+
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE papers ADD COLUMN IF NOT EXISTS doi_normalized text;
+
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS content_hash text;
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS provider text;
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS model text;
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS prompt_version text;
+
+UPDATE papers
+SET doi_normalized = regexp_replace(lower(substring(doi from '10\.\d{4,9}/\S+')), '[.,;]+$', '')
+WHERE doi IS NOT NULL AND doi_normalized IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_papers_content_hash ON papers(content_hash);
+CREATE INDEX IF NOT EXISTS idx_papers_doi_normalized ON papers(doi_normalized);
+CREATE INDEX IF NOT EXISTS idx_summaries_cache_key ON summaries(content_hash, provider, model, prompt_version);
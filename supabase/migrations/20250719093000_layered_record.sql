@@ -0,0 +1,53 @@
+/*
+  # Version summaries per paper
+
+  1. Modified Tables
+    - `summaries`
+      - `version` (integer, 1 for a paper's first analysis and increasing with
+        every re-analysis)
+
+  2. Data
+    - Number existing summaries per paper in creation order
+
+  3. Functions
+    - `assign_summary_version` fills in the next version on insert, so every
+      code path that stores a summary (including edge functions) gets one.
+      Comments and feedback reference a summary row, so they stay attached to
+      the version they were written against.
+
+  4. Performance
+    - Unique index on (paper_id, version)
+*/
+
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS version integer;
+
+WITH numbered AS (
+  SELECT id, row_number() OVER (PARTITION BY paper_id ORDER BY created_at, id) AS version
+  FROM summaries
+)
+UPDATE summaries
+SET version = numbered.version
+FROM numbered
+WHERE summaries.id = numbered.id AND summaries.version IS NULL;
+
+CREATE OR REPLACE FUNCTION assign_summary_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.version IS NULL THEN
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM summaries
+    WHERE paper_id = NEW.paper_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS assign_summaries_version ON summaries;
+CREATE TRIGGER assign_summaries_version
+  BEFORE INSERT ON summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_summary_version();
+
+ALTER TABLE summaries ALTER COLUMN version SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_summaries_paper_version ON summaries(paper_id, version);
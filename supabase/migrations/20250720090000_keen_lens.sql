@@ -0,0 +1,20 @@
+/*
+  # Analysis profiles
+
+  1. Modified Tables
+    - `summaries`
+      - `profile` (text, analysis profile the prompt was built with:
+        general, clinical-trial, ml-paper, qualitative or systematic-review)
+
+  2. Data
+    - Existing summaries were produced with the discipline-neutral prompt and
+      default to `general`
+
+  3. Performance
+    - Rebuild the analysis cache key index to include the profile
+*/
+
+ALTER TABLE summaries ADD COLUMN IF NOT EXISTS profile text NOT NULL DEFAULT 'general';
+
+DROP INDEX IF EXISTS idx_summaries_cache_key;
+CREATE INDEX IF NOT EXISTS idx_summaries_cache_key ON summaries(content_hash, provider, model, prompt_version, profile);
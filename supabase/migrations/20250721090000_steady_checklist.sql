@@ -0,0 +1,66 @@
+/*
+  # Create guideline_assessments table for reporting checklist results
+
+  1. New Tables
+    - `guideline_assessments`
+      - `id` (uuid, primary key)
+      - `summary_id` (uuid, foreign key to summaries)
+      - `paper_id` (uuid, foreign key to papers)
+      - `guideline_id` (text, checklist data file id, e.g. consort)
+      - `guideline_name` (text, e.g. CONSORT)
+      - `guideline_version` (text, e.g. 2010)
+      - `score` (double precision, share of items reported; partial items count half)
+      - `present_count`, `partial_count`, `missing_count` (integer)
+      - `items` (jsonb array of per-item status, evidence, page and verification)
+      - `provider` (text, optional, null when judged by keyword matching)
+      - `model` (text, optional)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `guideline_assessments` table
+    - Add policies for public read and insert access (matching paper_questions)
+
+  3. Performance
+    - Add index on (summary_id, created_at) for loading a summary's checks
+    - Add index on created_at for admin statistics
+*/
+
+CREATE TABLE IF NOT EXISTS guideline_assessments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id uuid NOT NULL REFERENCES summaries(id) ON DELETE CASCADE,
+  paper_id uuid NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  guideline_id text NOT NULL,
+  guideline_name text NOT NULL,
+  guideline_version text NOT NULL,
+  score double precision NOT NULL CHECK (score >= 0 AND score <= 1),
+  present_count integer DEFAULT 0 NOT NULL,
+  partial_count integer DEFAULT 0 NOT NULL,
+  missing_count integer DEFAULT 0 NOT NULL,
+  items jsonb DEFAULT '[]'::jsonb NOT NULL,
+  provider text,
+  model text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE guideline_assessments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to guideline assessments" ON guideline_assessments;
+  DROP POLICY IF EXISTS "Allow public insert access to guideline assessments" ON guideline_assessments;
+
+  CREATE POLICY "Allow public read access to guideline assessments"
+    ON guideline_assessments
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to guideline assessments"
+    ON guideline_assessments
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_guideline_assessments_summary_id ON guideline_assessments(summary_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_guideline_assessments_created_at ON guideline_assessments(created_at);
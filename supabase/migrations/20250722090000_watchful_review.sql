@@ -0,0 +1,166 @@
+/*
+  # Ethics alert review workflow
+
+  1. New Tables
+    - `ethics_alerts` (one row per ethics flag on a stored summary)
+      - `id` (uuid, primary key)
+      - `summary_id` (uuid, foreign key to summaries)
+      - `paper_id` (uuid, foreign key to papers)
+      - `flag_index` (integer, position of the flag in summaries.ethics_flags)
+      - `flag_type`, `severity`, `description`, `recommendation`, `source_location`
+        (copied from the flag so alerts survive later edits to the summary)
+      - `status` (text: pending, reviewed, resolved or dismissed)
+      - `assignee` (text, optional, user id of the reviewer handling the alert)
+      - `reviewer_notes` (text, optional, latest note from a reviewer)
+      - `author_id` (text, user who generated the summary; notified on review)
+      - `reviewed_by` (text, optional), `reviewed_at` (timestamp, optional)
+      - `created_at`, `updated_at` (timestamps)
+    - `ethics_alert_events` (audit trail)
+      - `id` (uuid, primary key)
+      - `alert_id` (uuid, foreign key to ethics_alerts)
+      - `actor_id` (text, user who made the change)
+      - `action` (text: status_changed, assigned or note_added)
+      - `from_status`, `to_status` (text, optional)
+      - `note` (text, optional)
+      - `created_at` (timestamp)
+
+  2. Data
+    - Alerts are created by a trigger whenever a summary is inserted
+    - Flags on existing summaries are backfilled as pending alerts
+
+  3. Security
+    - Enable RLS on both tables
+    - Public read and insert access, and update access on alerts (matching
+      the notifications table)
+
+  4. Performance
+    - Unique index on (summary_id, flag_index)
+    - Indexes on status, assignee and the event trail of an alert
+*/
+
+CREATE TABLE IF NOT EXISTS ethics_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  summary_id uuid NOT NULL REFERENCES summaries(id) ON DELETE CASCADE,
+  paper_id uuid NOT NULL REFERENCES papers(id) ON DELETE CASCADE,
+  flag_index integer NOT NULL,
+  flag_type text NOT NULL,
+  severity text NOT NULL CHECK (severity IN ('high', 'medium', 'low')),
+  description text NOT NULL,
+  recommendation text,
+  source_location text,
+  status text DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'reviewed', 'resolved', 'dismissed')),
+  assignee text,
+  reviewer_notes text,
+  author_id text,
+  reviewed_by text,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS ethics_alert_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id uuid NOT NULL REFERENCES ethics_alerts(id) ON DELETE CASCADE,
+  actor_id text NOT NULL,
+  action text NOT NULL CHECK (action IN ('status_changed', 'assigned', 'note_added')),
+  from_status text,
+  to_status text,
+  note text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ethics_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ethics_alert_events ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to ethics alerts" ON ethics_alerts;
+  DROP POLICY IF EXISTS "Allow public insert access to ethics alerts" ON ethics_alerts;
+  DROP POLICY IF EXISTS "Allow public update access to ethics alerts" ON ethics_alerts;
+  DROP POLICY IF EXISTS "Allow public read access to ethics alert events" ON ethics_alert_events;
+  DROP POLICY IF EXISTS "Allow public insert access to ethics alert events" ON ethics_alert_events;
+
+  CREATE POLICY "Allow public read access to ethics alerts"
+    ON ethics_alerts
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to ethics alerts"
+    ON ethics_alerts
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+
+  CREATE POLICY "Allow public update access to ethics alerts"
+    ON ethics_alerts
+    FOR UPDATE
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public read access to ethics alert events"
+    ON ethics_alert_events
+    FOR SELECT
+    TO public
+    USING (true);
+
+  CREATE POLICY "Allow public insert access to ethics alert events"
+    ON ethics_alert_events
+    FOR INSERT
+    TO public
+    WITH CHECK (true);
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ethics_alerts_summary_flag ON ethics_alerts(summary_id, flag_index);
+CREATE INDEX IF NOT EXISTS idx_ethics_alerts_status ON ethics_alerts(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ethics_alerts_assignee ON ethics_alerts(assignee);
+CREATE INDEX IF NOT EXISTS idx_ethics_alert_events_alert_id ON ethics_alert_events(alert_id, created_at);
+
+CREATE OR REPLACE FUNCTION create_ethics_alerts()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO ethics_alerts (
+    summary_id, paper_id, flag_index, flag_type, severity, description,
+    recommendation, source_location, author_id
+  )
+  SELECT
+    NEW.id,
+    NEW.paper_id,
+    flag.ordinality - 1,
+    COALESCE(flag.value->>'type', 'unknown'),
+    CASE WHEN flag.value->>'severity' IN ('high', 'medium', 'low') THEN flag.value->>'severity' ELSE 'medium' END,
+    COALESCE(flag.value->>'description', 'No description available'),
+    flag.value->>'recommendation',
+    flag.value->>'sourceLocation',
+    NEW.metadata->>'generatedBy'
+  FROM jsonb_array_elements(COALESCE(NEW.ethics_flags, '[]'::jsonb)) WITH ORDINALITY AS flag(value, ordinality)
+  ON CONFLICT (summary_id, flag_index) DO NOTHING;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS create_summaries_ethics_alerts ON summaries;
+CREATE TRIGGER create_summaries_ethics_alerts
+  AFTER INSERT ON summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION create_ethics_alerts();
+
+INSERT INTO ethics_alerts (
+  summary_id, paper_id, flag_index, flag_type, severity, description,
+  recommendation, source_location, author_id, created_at, updated_at
+)
+SELECT
+  s.id,
+  s.paper_id,
+  flag.ordinality - 1,
+  COALESCE(flag.value->>'type', 'unknown'),
+  CASE WHEN flag.value->>'severity' IN ('high', 'medium', 'low') THEN flag.value->>'severity' ELSE 'medium' END,
+  COALESCE(flag.value->>'description', 'No description available'),
+  flag.value->>'recommendation',
+  flag.value->>'sourceLocation',
+  s.metadata->>'generatedBy',
+  s.created_at,
+  s.created_at
+FROM summaries s
+CROSS JOIN LATERAL jsonb_array_elements(COALESCE(s.ethics_flags, '[]'::jsonb)) WITH ORDINALITY AS flag(value, ordinality)
+ON CONFLICT (summary_id, flag_index) DO NOTHING;
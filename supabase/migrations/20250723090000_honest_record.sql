@@ -0,0 +1,16 @@
+/*
+  # Ethics alerts for flags added after analysis
+
+  1. Changes
+    - The `create_summaries_ethics_alerts` trigger now also fires when
+      `summaries.ethics_flags` is updated, so flags appended to a stored
+      analysis (for example when a later retraction check finds the paper
+      has been retracted) are tracked as ethics alerts. Existing alerts are
+      left untouched because they conflict on (summary_id, flag_index).
+*/
+
+DROP TRIGGER IF EXISTS create_summaries_ethics_alerts ON summaries;
+CREATE TRIGGER create_summaries_ethics_alerts
+  AFTER INSERT OR UPDATE OF ethics_flags ON summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION create_ethics_alerts();
@@ -0,0 +1,32 @@
+/*
+  # Assign literature review versions in the database
+
+  1. Modified Tables
+    - `literature_reviews`
+      - `version` is now filled in on insert instead of by the client, which
+        computed previous + 1 and made concurrent regenerations of the same
+        workspace collide on the (workspace_id, version) unique constraint
+
+  2. Functions
+    - `assign_literature_review_version` takes a transaction-scoped advisory
+      lock per workspace before reading the current maximum, so concurrent
+      inserts for one workspace are numbered one after another
+*/
+
+CREATE OR REPLACE FUNCTION assign_literature_review_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('literature_reviews'), hashtext(NEW.workspace_id::text));
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM literature_reviews
+  WHERE workspace_id = NEW.workspace_id;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS assign_literature_reviews_version ON literature_reviews;
+CREATE TRIGGER assign_literature_reviews_version
+  BEFORE INSERT ON literature_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_literature_review_version();
@@ -0,0 +1,23 @@
+/*
+  # Serialise summary version numbering per paper
+
+  1. Functions
+    - `assign_summary_version` now takes a transaction-scoped advisory lock
+      per paper before reading the current maximum. Without it, two analyses
+      of the same paper saved at once both computed max(version) + 1 and the
+      second failed on the (paper_id, version) unique index.
+*/
+
+CREATE OR REPLACE FUNCTION assign_summary_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.version IS NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('summaries'), hashtext(NEW.paper_id::text));
+
+    SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+    FROM summaries
+    WHERE paper_id = NEW.paper_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
@@ -0,0 +1,20 @@
+/*
+  # Merge paper metadata by key
+
+  1. Functions
+    - `merge_paper_metadata(target_paper, patch)` sets the top-level keys in
+      `patch` on `papers.metadata` and returns the stored metadata. Extraction,
+      retraction checks and DOI resolution each write their own keys; writing
+      the whole column from the browser's copy of the paper erased keys saved
+      by the others in the meantime. Runs with the caller's permissions.
+*/
+
+CREATE OR REPLACE FUNCTION merge_paper_metadata(target_paper uuid, patch jsonb)
+RETURNS jsonb
+LANGUAGE sql
+AS $$
+  UPDATE papers
+  SET metadata = COALESCE(metadata, '{}'::jsonb) || patch
+  WHERE id = target_paper
+  RETURNING metadata;
+$$;
@@ -0,0 +1,71 @@
+/*
+  # Reserve LLM proxy usage before calling a provider
+
+  1. Modified Tables
+    - `llm_usage`
+      - `kind` (text, 'analysis' or 'embeddings'; each has its own limits)
+      - `status` (text, 'pending' while the provider call runs, then
+        'succeeded' or 'failed')
+
+  2. Data
+    - Rows logged for the embedding model before this change become 'embeddings'
+
+  3. Functions
+    - `reserve_llm_usage` checks the caller's hourly and daily limits and
+      records a pending row in one transaction, under a per-user advisory
+      lock. Previously usage was only logged after a successful call, so
+      parallel requests all passed the check and failed or timed-out calls
+      were never counted. Returns `{"id": ...}` for the reserved row or
+      `{"limit": "hourly" | "daily"}` when a limit is reached. Only the
+      service role (the edge function) may call it.
+*/
+
+ALTER TABLE llm_usage ADD COLUMN IF NOT EXISTS kind text DEFAULT 'analysis' NOT NULL;
+ALTER TABLE llm_usage ADD COLUMN IF NOT EXISTS status text DEFAULT 'succeeded' NOT NULL;
+
+UPDATE llm_usage SET kind = 'embeddings' WHERE model = 'text-embedding-3-small' AND kind = 'analysis';
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_kind_created ON llm_usage(user_id, kind, created_at DESC);
+
+CREATE OR REPLACE FUNCTION reserve_llm_usage(
+  usage_user uuid,
+  usage_kind text,
+  usage_provider text,
+  usage_model text,
+  usage_chars integer,
+  hourly_limit integer,
+  daily_limit integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  hourly integer;
+  daily integer;
+  reserved uuid;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('llm_usage'), hashtext(usage_user::text || ':' || usage_kind));
+
+  SELECT
+    count(*) FILTER (WHERE created_at >= now() - interval '1 hour'),
+    count(*)
+  INTO hourly, daily
+  FROM llm_usage
+  WHERE user_id = usage_user
+    AND kind = usage_kind
+    AND created_at >= now() - interval '1 day';
+
+  IF hourly >= hourly_limit THEN
+    RETURN jsonb_build_object('limit', 'hourly');
+  END IF;
+  IF daily >= daily_limit THEN
+    RETURN jsonb_build_object('limit', 'daily');
+  END IF;
+
+  INSERT INTO llm_usage (user_id, kind, status, provider, model, prompt_chars)
+  VALUES (usage_user, usage_kind, 'pending', usage_provider, usage_model, usage_chars)
+  RETURNING id INTO reserved;
+
+  RETURN jsonb_build_object('id', reserved);
+END;
+$$ language 'plpgsql';
+
+REVOKE EXECUTE ON FUNCTION reserve_llm_usage(uuid, text, text, text, integer, integer, integer) FROM public, anon, authenticated;
@@ -0,0 +1,101 @@
+/*
+  # Restrict search chunks to their owner
+
+  1. Security
+    - Replace the public read, insert and delete policies on `search_chunks`
+      with policies for the signed-in owner: chunks hold passages of a user's
+      papers and were readable and deletable by anyone
+    - Inserts must carry the caller's own `user_id`
+
+  2. Functions
+    - `search_library` no longer takes a `match_user` argument, which any caller
+      could set to another user's id; it searches the caller's chunks
+      (`auth.uid()`) only
+*/
+
+DO $$
+BEGIN
+  DROP POLICY IF EXISTS "Allow public read access to search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Allow public insert access to search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Allow public delete access to search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Users can read own search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Users can insert own search chunks" ON search_chunks;
+  DROP POLICY IF EXISTS "Users can delete own search chunks" ON search_chunks;
+
+  CREATE POLICY "Users can read own search chunks"
+    ON search_chunks
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid()::text);
+
+  CREATE POLICY "Users can insert own search chunks"
+    ON search_chunks
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (user_id = auth.uid()::text);
+
+  CREATE POLICY "Users can delete own search chunks"
+    ON search_chunks
+    FOR DELETE
+    TO authenticated
+    USING (user_id = auth.uid()::text);
+END $$;
+
+DROP FUNCTION IF EXISTS search_library(text, vector, text, text, integer, double precision, double precision);
+
+CREATE OR REPLACE FUNCTION search_library(
+  query_text text,
+  query_embedding vector,
+  query_model text,
+  match_count integer DEFAULT 20,
+  semantic_weight double precision DEFAULT 0.7,
+  min_similarity double precision DEFAULT 0.2
+)
+RETURNS TABLE (
+  id uuid,
+  paper_id uuid,
+  summary_id uuid,
+  paper_title text,
+  source text,
+  source_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  semantic_score double precision,
+  keyword_score double precision,
+  score double precision
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH scored AS (
+    SELECT
+      c.*,
+      CASE
+        WHEN c.embedding_model = query_model AND vector_dims(c.embedding) = vector_dims(query_embedding)
+          THEN 1 - (c.embedding <=> query_embedding)
+        ELSE 0
+      END AS semantic_score,
+      -- Normalisation 32 maps the rank into [0, 1)
+      ts_rank_cd(c.search_vector, websearch_to_tsquery('english', query_text), 32)::double precision AS keyword_score
+    FROM search_chunks c
+    WHERE c.user_id = auth.uid()::text
+  )
+  SELECT
+    s.id,
+    s.paper_id,
+    s.summary_id,
+    p.title,
+    s.source,
+    s.source_index,
+    s.content,
+    s.page_start,
+    s.page_end,
+    s.semantic_score,
+    s.keyword_score,
+    semantic_weight * s.semantic_score + (1 - semantic_weight) * s.keyword_score AS score
+  FROM scored s
+  JOIN papers p ON p.id = s.paper_id
+  WHERE s.keyword_score > 0 OR s.semantic_score >= min_similarity
+  ORDER BY score DESC
+  LIMIT match_count;
+$$;
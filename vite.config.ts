@@ -1,9 +1,63 @@
-import { defineConfig } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+// Writes LLM fixtures recorded in the browser (VITE_LLM_FIXTURES=record) to fixtures/llm
+function llmFixtures(): Plugin {
+  const fixtureDir = fileURLToPath(new URL('./fixtures/llm', import.meta.url));
+
+  return {
+    name: 'llm-fixtures',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__llm-fixtures', (req, res) => {
+        if (req.method !== 'POST') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        let body = '';
+        req.on('data', chunk => {
+          body += chunk;
+        });
+        req.on('end', async () => {
+          try {
+            const fixture = JSON.parse(body);
+            if (!/^[a-f0-9]{64}$/.test(fixture.key)) {
+              throw new Error('Invalid fixture key');
+            }
+            await mkdir(fixtureDir, { recursive: true });
+            await writeFile(resolve(fixtureDir, `${fixture.key}.json`), JSON.stringify(fixture, null, 2) + '\n');
+            res.statusCode = 201;
+          } catch (error) {
+            server.config.logger.error(`Failed to write LLM fixture: ${error}`);
+            res.statusCode = 400;
+          }
+          res.end();
+        });
+      });
+    }
+  };
+}
+
+// Provider keys for VITE_LLM_MODE=direct, read from unprefixed variables so Vite
+// never exposes them on its own. Only the dev server passes them to the browser;
+// `vite build` always gets an empty object, whatever .env contains.
+function directKeys(command: string, env: Record<string, string>) {
+  if (command !== 'serve' || env.VITE_LLM_MODE !== 'direct') return {};
+  return {
+    openai: env.OPENAI_API_KEY,
+    gemini: env.GEMINI_API_KEY,
+    anthropic: env.ANTHROPIC_API_KEY
+  };
+}
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ command, mode }) => ({
+  plugins: [react(), llmFixtures()],
   optimizeDeps: {
     exclude: ['lucide-react'],
     include: ['pdfjs-dist']
@@ -11,8 +65,9 @@ export default defineConfig({
   define: {
     // Fix for PDF.js worker
     global: 'globalThis',
+    __LLM_DIRECT_KEYS__: JSON.stringify(directKeys(command, loadEnv(mode, process.cwd(), '')))
   },
   worker: {
     format: 'es'
   }
-});
\ No newline at end of file
+}));